@@ -1,13 +1,17 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { useEffect, useState } from 'react'
 import { ApiRoutesTable } from '@/components/api-routes-table'
+import { AppSwitcher } from '@/components/app-switcher'
+import { PageAuditTable } from '@/components/page-audit-table'
 import { PageRoutesTable } from '@/components/page-routes-table'
+import { ServerActionsTable } from '@/components/server-actions-table'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ThemeProvider, useTheme } from '@/components/theme-provider'
 import { ModeToggle } from '@/components/mode-toggle'
 import { Toaster } from '@/components/ui/sonner'
 import { InspectorProvider, useInspector } from '@/context/inspector-context'
 import { Badge } from '@/components/ui/badge'
+import { useRouteEvents } from '@/hooks/use-route-events'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -20,7 +24,8 @@ const queryClient = new QueryClient({
 
 function AppContent() {
   const { theme } = useTheme()
-  const { isReadonly, meta } = useInspector()
+  const { isReadonly, meta, isLoading } = useInspector()
+  const isLive = useRouteEvents(!isLoading && !isReadonly)
   const lightIcon = '/next-lens-light.svg'
   const darkIcon = '/next-lens-dark.svg'
 
@@ -96,6 +101,16 @@ function AppContent() {
                 Static Snapshot
               </Badge>
             )}
+            {isLive && (
+              <Badge
+                variant="outline"
+                className="ml-2 gap-1.5 text-[10px] px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-800"
+                title="Watching for route changes"
+              >
+                <span className="h-1.5 w-1.5 rounded-full bg-current animate-pulse" />
+                Live
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-4">
             {isReadonly && meta && (
@@ -103,6 +118,7 @@ function AppContent() {
                 Generated: {formatGeneratedAt(meta.generatedAt)}
               </span>
             )}
+            <AppSwitcher />
             <ModeToggle />
             <a
               href="https://next-lens.1wei.dev/"
@@ -140,6 +156,18 @@ function AppContent() {
               >
                 Page Routes
               </TabsTrigger>
+              <TabsTrigger
+                value="actions"
+                className="rounded-full px-8 py-2 text-sm font-medium transition-all data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow-sm hover:text-foreground"
+              >
+                Actions
+              </TabsTrigger>
+              <TabsTrigger
+                value="audit"
+                className="rounded-full px-8 py-2 text-sm font-medium transition-all data-[state=active]:bg-background data-[state=active]:text-foreground data-[state=active]:shadow-sm hover:text-foreground"
+              >
+                Audit
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -163,6 +191,26 @@ function AppContent() {
               </div>
             </div>
           </TabsContent>
+          <TabsContent
+            value="actions"
+            className="outline-none animate-in fade-in slide-in-from-bottom-4 duration-500"
+          >
+            <div className="rounded-2xl border border-border/40 bg-card/50 shadow-xl shadow-black/5 backdrop-blur-sm p-1">
+              <div className="bg-background/50 rounded-xl p-6">
+                <ServerActionsTable />
+              </div>
+            </div>
+          </TabsContent>
+          <TabsContent
+            value="audit"
+            className="outline-none animate-in fade-in slide-in-from-bottom-4 duration-500"
+          >
+            <div className="rounded-2xl border border-border/40 bg-card/50 shadow-xl shadow-black/5 backdrop-blur-sm p-1">
+              <div className="bg-background/50 rounded-xl p-6">
+                <PageAuditTable />
+              </div>
+            </div>
+          </TabsContent>
         </Tabs>
       </main>
     </div>
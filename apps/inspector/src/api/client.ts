@@ -1,16 +1,192 @@
+export interface SourceLocation {
+  file: string
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
+
+export interface RouteHandler extends SourceLocation {
+  method: string
+}
+
+export interface SegmentConfig {
+  runtime?: 'nodejs' | 'edge'
+  dynamic?: 'auto' | 'force-dynamic' | 'error' | 'force-static'
+  dynamicParams?: boolean
+  revalidate?: number | false
+  fetchCache?: string
+  preferredRegion?: string | string[]
+  maxDuration?: number
+}
+
+export type RouterType = 'app' | 'pages'
+
+export type MiddlewareCoverage = 'matched' | 'unmatched' | 'unknown'
+
 export interface RouteInfo {
   file: string
   methods: string[]
   path: string
+  handlers: RouteHandler[]
+  segmentConfig: SegmentConfig
+  router: RouterType
+  middleware: MiddlewareCoverage
+  groups?: string[]
+  rootLayout?: string
+  conflictsWith?: string
+  app?: string
+}
+
+export type FallbackStatus = 'co-located' | 'inherited' | 'missing'
+
+export type PageConvention =
+  | 'layout'
+  | 'template'
+  | 'not-found'
+  | 'forbidden'
+  | 'unauthorized'
+  | 'global-error'
+  | 'default'
+
+export interface ConventionInfo {
+  status: FallbackStatus
+  path?: string
+}
+
+export type InterceptConvention = '(.)' | '(..)' | '(..)(..)' | '(...)'
+
+export interface InterceptingRoute {
+  convention: InterceptConvention
+  target: string
+  targetFile?: string
+}
+
+export interface ParallelSlot {
+  name: string
+  default?: string
+}
+
+export type MetadataFileKind =
+  | 'opengraph-image'
+  | 'twitter-image'
+  | 'icon'
+  | 'apple-icon'
+  | 'favicon'
+  | 'sitemap'
+  | 'robots'
+  | 'manifest'
+
+export interface PageMetadata {
+  title?: string
+  titleFile?: string
+  description?: string
+  descriptionFile?: string
+  generatedBy?: string
+  staticParams?: string
+  viewport?: string
+  files: Partial<Record<MetadataFileKind, string>>
+}
+
+export type ComponentEnvironment = 'server' | 'client'
+
+export interface ClientBoundary {
+  file: string
+  importedBy?: string
+  line?: number
+  column?: number
+}
+
+export interface ServerOnlyImport {
+  specifier: string
+  file: string
+  line: number
+  column: number
+  boundary: string
+}
+
+export interface PageComponents {
+  environment: ComponentEnvironment
+  boundaries: ClientBoundary[]
+  serverOnlyImports: ServerOnlyImport[]
+}
+
+export type RenderingMode = 'static' | 'isr' | 'dynamic' | 'ppr'
+
+export interface RenderingPrediction {
+  mode: RenderingMode
+  revalidate?: number
+  reason: string
+  file?: string
+  line?: number
+  build?: {
+    mode: RenderingMode
+    revalidate?: number
+    matches: boolean
+  }
 }
 
 export interface PageInfo {
   file: string
   path: string
-  loading: 'co-located' | 'inherited' | 'missing'
-  error: 'co-located' | 'inherited' | 'missing'
+  loading: FallbackStatus
+  error: FallbackStatus
   loadingPath?: string
   errorPath?: string
+  conventions: Record<PageConvention, ConventionInfo>
+  layouts: string[]
+  groups?: string[]
+  rootLayout?: string
+  slot?: ParallelSlot
+  intercepts?: InterceptingRoute
+  defaultExport?: SourceLocation
+  segmentConfig: SegmentConfig
+  metadata: PageMetadata
+  router: RouterType
+  middleware: MiddlewareCoverage
+  components?: PageComponents
+  rendering: RenderingPrediction
+  conflictsWith?: string
+  app?: string
+}
+
+export type AuditRule =
+  | 'missing-title'
+  | 'missing-description'
+  | 'missing-static-params'
+  | 'duplicate-title'
+
+export interface AuditIssue {
+  rule: AuditRule
+  path: string
+  file: string
+  message: string
+  related?: string[]
+  app?: string
+}
+
+export type ServerActionScope = 'module' | 'inline'
+
+export interface ActionImport {
+  file: string
+  line: number
+  column: number
+}
+
+export interface ServerAction extends SourceLocation {
+  name: string
+  scope: ServerActionScope
+  exported: boolean
+  parent?: string
+  importedBy: ActionImport[]
+  app?: string
+}
+
+export interface RouteChangeEvent {
+  kind: 'route' | 'page'
+  type: 'added' | 'removed' | 'changed'
+  file: string
+  path: string
 }
 
 const BASE_URL = '/api'
@@ -39,6 +215,10 @@ export const api = {
 
   getPages: () => fetchJson<PageInfo[]>('/pages'),
 
+  getAudit: () => fetchJson<AuditIssue[]>('/audit'),
+
+  getActions: () => fetchJson<ServerAction[]>('/actions'),
+
   deletePage: (file: string) =>
     fetchJson<{ success: boolean }>('/pages', {
       method: 'DELETE',
@@ -75,9 +255,28 @@ export const api = {
       body: JSON.stringify({ file }),
     }),
 
-  openFile: (file: string, line?: number) =>
+  openFile: (file: string, line?: number, column?: number) =>
     fetchJson<{ success: boolean }>('/open-file', {
       method: 'POST',
-      body: JSON.stringify({ file, line }),
+      body: JSON.stringify({ file, line, column }),
     }),
+
+  /**
+   * Listen for route/page changes pushed by the watch-mode server. Returns a
+   * function that closes the connection.
+   */
+  subscribe: (handlers: {
+    onChange: (event: RouteChangeEvent) => void
+    onStatusChange: (connected: boolean) => void
+  }) => {
+    const source = new EventSource(`${BASE_URL}/events`)
+
+    source.addEventListener('ready', () => handlers.onStatusChange(true))
+    source.addEventListener('change', (message) => {
+      handlers.onChange(JSON.parse((message as MessageEvent<string>).data))
+    })
+    source.addEventListener('error', () => handlers.onStatusChange(false))
+
+    return () => source.close()
+  },
 }
@@ -10,12 +10,16 @@ import {
   ListFilter,
 } from 'lucide-react'
 
-import { api, type RouteInfo } from '@/api/client'
+import { api, type RouteInfo, type SourceLocation } from '@/api/client'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { DataTable, SortableHeader } from '@/components/ui/data-table'
 import { FileIcon } from '@/components/file-icon'
 import { HighlightText } from '@/components/highlight-text'
+import { MiddlewareBadge } from '@/components/middleware-badge'
+import { RouteGroupBadges, RouteGroupFilter } from '@/components/route-groups'
+import { RouterBadges } from '@/components/router-badges'
+import { SegmentConfigBadges } from '@/components/segment-config-badges'
 import {
   Dialog,
   DialogContent,
@@ -36,7 +40,13 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
-import { cn, formatPath } from '@/lib/utils'
+import {
+  cn,
+  collectRouteGroups,
+  formatPath,
+  formatSegmentConfig,
+  matchesRouteGroups,
+} from '@/lib/utils'
 import { toast } from 'sonner'
 import { useInspector } from '@/context/inspector-context'
 
@@ -66,11 +76,17 @@ const METHOD_STYLES: Record<string, string> = {
 
 export function ApiRoutesTable() {
   const queryClient = useQueryClient()
-  const { isReadonly, staticRoutes, isLoading: contextLoading } = useInspector()
+  const {
+    isReadonly,
+    staticRoutes,
+    isLoading: contextLoading,
+    selectedApp,
+  } = useInspector()
   const [deleteTarget, setDeleteTarget] = useState<RouteInfo | null>(null)
   const [methodTarget, setMethodTarget] = useState<RouteInfo | null>(null)
   const [pendingMethod, setPendingMethod] = useState<string | null>(null)
   const [methodFilter, setMethodFilter] = useState<string[]>([])
+  const [groupFilter, setGroupFilter] = useState<string[]>([])
 
   const {
     data: apiRoutes,
@@ -84,7 +100,14 @@ export function ApiRoutesTable() {
   })
 
   // Use static data when in readonly mode, otherwise use API data
-  const routes = isReadonly ? staticRoutes : apiRoutes
+  const allRoutes = isReadonly ? staticRoutes : apiRoutes
+  const routes = useMemo(
+    () =>
+      selectedApp
+        ? allRoutes?.filter((route) => route.app === selectedApp)
+        : allRoutes,
+    [allRoutes, selectedApp],
+  )
   const isLoading = contextLoading || (!isReadonly && apiLoading)
 
   const deleteMutation = useMutation({
@@ -106,9 +129,13 @@ export function ApiRoutesTable() {
       api.removeMethod(file, method),
   })
 
-  const handleOpenFile = async (file: string) => {
+  const handleOpenFile = async (file: string, location?: SourceLocation) => {
     try {
-      await api.openFile(file)
+      if (location) {
+        await api.openFile(location.file, location.line, location.column)
+      } else {
+        await api.openFile(file)
+      }
     } catch (err) {
       console.error('Failed to open file:', err)
     }
@@ -168,13 +195,20 @@ export function ApiRoutesTable() {
     return [...ordered, ...extras]
   }, [routes])
 
+  const availableGroups = useMemo(
+    () => collectRouteGroups(routes ?? []),
+    [routes],
+  )
+
   const filteredRoutes = useMemo(() => {
     if (!routes) return []
-    if (methodFilter.length === 0) return routes
-    return routes.filter((route) =>
-      route.methods.some((method) => methodFilter.includes(method)),
+    return routes.filter(
+      (route) =>
+        (methodFilter.length === 0 ||
+          route.methods.some((method) => methodFilter.includes(method))) &&
+        matchesRouteGroups(route.groups, groupFilter),
     )
-  }, [routes, methodFilter])
+  }, [routes, methodFilter, groupFilter])
 
   const handleToggleMethod = (method: string, checked: boolean) => {
     setMethodFilter((prev) => {
@@ -200,22 +234,35 @@ export function ApiRoutesTable() {
         header: 'Methods',
         size: 180,
         cell: ({ row }) => {
-          const methods = row.original.methods
+          const { file, methods, handlers } = row.original
           return (
             <div className="flex flex-wrap gap-1.5">
-              {methods.map((method) => (
-                <Badge
-                  key={method}
-                  variant="outline"
-                  className={cn(
-                    METHOD_BADGE_BASE,
-                    'transition-all hover:brightness-95',
-                    METHOD_STYLES[method] || METHOD_STYLES.OPTIONS,
-                  )}
-                >
-                  {method}
-                </Badge>
-              ))}
+              {methods.map((method) => {
+                const handler = handlers?.find((h) => h.method === method)
+                return (
+                  <button
+                    key={method}
+                    type="button"
+                    onClick={() => handleOpenFile(file, handler)}
+                    title={
+                      handler
+                        ? `${handler.file}:${handler.line}`
+                        : `Open ${method} handler`
+                    }
+                  >
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        METHOD_BADGE_BASE,
+                        'transition-all hover:brightness-95',
+                        METHOD_STYLES[method] || METHOD_STYLES.OPTIONS,
+                      )}
+                    >
+                      {method}
+                    </Badge>
+                  </button>
+                )
+              })}
             </div>
           )
         },
@@ -232,43 +279,79 @@ export function ApiRoutesTable() {
           <SortableHeader column={column}>Path</SortableHeader>
         ),
         cell: ({ row }) => {
-          const path = row.original.path
+          const { path, router, conflictsWith } = row.original
           // Simple semantic coloring for path:
           // /api/users/[id] -> /api/users/ is gray, [id] is accent
           const parts = path.split('/')
           return (
-            <div className="font-mono text-sm text-zinc-500 dark:text-zinc-300">
-              {parts.map((part, i) => {
-                if (!part) return null
-                const isParam = part.startsWith('[') || part.startsWith(':')
-                return (
-                  <span key={i}>
-                    <span className="text-zinc-300 dark:text-zinc-600">/</span>
-                    <HighlightText
-                      text={part}
-                      className={cn(
-                        isParam
-                          ? 'text-amber-600 dark:text-amber-400 font-bold'
-                          : i === parts.length - 1
-                            ? 'text-foreground font-medium'
-                            : '',
-                      )}
-                    />
-                  </span>
-                )
-              })}
+            <div className="font-mono text-sm text-zinc-500 dark:text-zinc-300 flex flex-wrap items-center gap-2">
+              <span>
+                {parts.map((part, i) => {
+                  if (!part) return null
+                  const isParam = part.startsWith('[') || part.startsWith(':')
+                  return (
+                    <span key={i}>
+                      <span className="text-zinc-300 dark:text-zinc-600">
+                        /
+                      </span>
+                      <HighlightText
+                        text={part}
+                        className={cn(
+                          isParam
+                            ? 'text-amber-600 dark:text-amber-400 font-bold'
+                            : i === parts.length - 1
+                              ? 'text-foreground font-medium'
+                              : '',
+                        )}
+                      />
+                    </span>
+                  )
+                })}
+              </span>
+              <RouterBadges router={router} conflictsWith={conflictsWith} />
             </div>
           )
         },
       },
+      {
+        id: 'groups',
+        accessorFn: (row) =>
+          (row.groups ?? []).map((group) => `(${group})`).join('/'),
+        header: ({ column }) => (
+          <SortableHeader column={column}>Group</SortableHeader>
+        ),
+        cell: ({ row }) => (
+          <RouteGroupBadges
+            groups={row.original.groups}
+            rootLayout={row.original.rootLayout}
+          />
+        ),
+      },
+      {
+        accessorKey: 'middleware',
+        header: ({ column }) => (
+          <SortableHeader column={column}>Middleware</SortableHeader>
+        ),
+        cell: ({ row }) => (
+          <MiddlewareBadge coverage={row.original.middleware} />
+        ),
+      },
+      {
+        id: 'segmentConfig',
+        accessorFn: (row) => formatSegmentConfig(row.segmentConfig).join(' '),
+        header: 'Config',
+        cell: ({ row }) => (
+          <SegmentConfigBadges config={row.original.segmentConfig} />
+        ),
+      },
       {
         accessorKey: 'file',
         header: 'Source',
         cell: ({ row }) => {
-          const file = row.original.file
+          const { file, handlers } = row.original
           return (
             <button
-              onClick={() => handleOpenFile(file)}
+              onClick={() => handleOpenFile(file, handlers?.[0])}
               className="group flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors text-left"
               title={file}
             >
@@ -301,28 +384,33 @@ export function ApiRoutesTable() {
                           variant="ghost"
                           size="icon"
                           className="h-8 w-8 text-muted-foreground hover:text-primary hover:bg-primary/5"
-                          onClick={() => handleOpenFile(route.file)}
+                          onClick={() =>
+                            handleOpenFile(route.file, route.handlers?.[0])
+                          }
                         >
                           <Code className="h-4 w-4" />
                         </Button>
                       </TooltipTrigger>
                       <TooltipContent side="top">Open in IDE</TooltipContent>
                     </Tooltip>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-muted-foreground hover:text-primary hover:bg-primary/5"
-                          onClick={() => setMethodTarget(route)}
-                        >
-                          <Settings2 className="h-4 w-4" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent side="top">
-                        Manage HTTP methods
-                      </TooltipContent>
-                    </Tooltip>
+                    {/* pages/api handlers branch on req.method instead */}
+                    {route.router === 'app' && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-primary hover:bg-primary/5"
+                            onClick={() => setMethodTarget(route)}
+                          >
+                            <Settings2 className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent side="top">
+                          Manage HTTP methods
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <Button
@@ -392,42 +480,49 @@ export function ApiRoutesTable() {
             searchPlaceholder="Search endpoints..."
             defaultSorting={[{ id: 'path', desc: false }]}
             filters={
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="flex items-center gap-2"
-                  >
-                    <ListFilter className="h-4 w-4" />
-                    <span className="text-xs font-medium">
-                      {methodFilterLabel}
-                    </span>
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="start" className="w-48">
-                  <DropdownMenuCheckboxItem
-                    checked={methodFilter.length === 0}
-                    onCheckedChange={(checked) =>
-                      checked && clearMethodFilter()
-                    }
-                  >
-                    All methods
-                  </DropdownMenuCheckboxItem>
-                  <DropdownMenuSeparator />
-                  {availableMethods.map((method) => (
+              <>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex items-center gap-2"
+                    >
+                      <ListFilter className="h-4 w-4" />
+                      <span className="text-xs font-medium">
+                        {methodFilterLabel}
+                      </span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start" className="w-48">
                     <DropdownMenuCheckboxItem
-                      key={method}
-                      checked={methodFilter.includes(method)}
+                      checked={methodFilter.length === 0}
                       onCheckedChange={(checked) =>
-                        handleToggleMethod(method, !!checked)
+                        checked && clearMethodFilter()
                       }
                     >
-                      {method}
+                      All methods
                     </DropdownMenuCheckboxItem>
-                  ))}
-                </DropdownMenuContent>
-              </DropdownMenu>
+                    <DropdownMenuSeparator />
+                    {availableMethods.map((method) => (
+                      <DropdownMenuCheckboxItem
+                        key={method}
+                        checked={methodFilter.includes(method)}
+                        onCheckedChange={(checked) =>
+                          handleToggleMethod(method, !!checked)
+                        }
+                      >
+                        {method}
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <RouteGroupFilter
+                  groups={availableGroups}
+                  selected={groupFilter}
+                  onChange={setGroupFilter}
+                />
+              </>
             }
           />
         </div>
@@ -0,0 +1,86 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Boxes, ChevronDown } from 'lucide-react'
+
+import { api } from '@/api/client'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useInspector } from '@/context/inspector-context'
+
+const ALL_APPS = '__all__'
+
+export function AppSwitcher() {
+  const {
+    isReadonly,
+    staticRoutes,
+    staticPages,
+    isLoading,
+    selectedApp,
+    setSelectedApp,
+  } = useInspector()
+
+  // Shares the cache with the route tables, so this adds no requests
+  const { data: apiRoutes } = useQuery({
+    queryKey: ['routes'],
+    queryFn: api.getRoutes,
+    enabled: !isLoading && !isReadonly,
+  })
+  const { data: apiPages } = useQuery({
+    queryKey: ['pages'],
+    queryFn: api.getPages,
+    enabled: !isLoading && !isReadonly,
+  })
+
+  const routes = isReadonly ? staticRoutes : apiRoutes
+  const pages = isReadonly ? staticPages : apiPages
+
+  const apps = useMemo(() => {
+    const names = new Set<string>()
+    for (const entry of [...(routes ?? []), ...(pages ?? [])]) {
+      if (entry.app) names.add(entry.app)
+    }
+    return [...names].sort((a, b) => a.localeCompare(b))
+  }, [routes, pages])
+
+  // Only a monorepo with several Next.js apps needs a switcher
+  if (apps.length < 2) return null
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 gap-2 rounded-full">
+          <Boxes className="h-3.5 w-3.5 text-muted-foreground" />
+          <span className="max-w-40 truncate">{selectedApp ?? 'All apps'}</span>
+          <ChevronDown className="h-3.5 w-3.5 text-muted-foreground" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="min-w-48">
+        <DropdownMenuLabel>Workspace apps</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={selectedApp ?? ALL_APPS}
+          onValueChange={(value) =>
+            setSelectedApp(value === ALL_APPS ? null : value)
+          }
+        >
+          <DropdownMenuRadioItem value={ALL_APPS}>
+            All apps
+          </DropdownMenuRadioItem>
+          {apps.map((app) => (
+            <DropdownMenuRadioItem key={app} value={app}>
+              {app}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,93 @@
+import { AlertTriangle } from 'lucide-react'
+
+import type { PageComponents } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { cn } from '@/lib/utils'
+
+const badgeBase =
+  'font-mono text-[10px] px-2 py-0.5 rounded-full border shadow-sm uppercase tracking-wider gap-1'
+
+const ENVIRONMENTS = {
+  server:
+    'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-800',
+  client:
+    'bg-purple-50 text-purple-700 border-purple-200 dark:bg-purple-900/20 dark:text-purple-400 dark:border-purple-800',
+  leak: 'bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-800',
+}
+
+export function ComponentBoundaryBadge({
+  components,
+}: {
+  components: PageComponents
+}) {
+  const { environment, boundaries, serverOnlyImports } = components
+  const hasLeaks = serverOnlyImports.length > 0
+  const label =
+    environment === 'client'
+      ? 'Client'
+      : boundaries.length
+        ? `Server · ${boundaries.length}`
+        : 'Server'
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn(
+            badgeBase,
+            hasLeaks ? ENVIRONMENTS.leak : ENVIRONMENTS[environment],
+          )}
+        >
+          {hasLeaks && <AlertTriangle className="h-3 w-3" />}
+          {label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-sm space-y-2">
+        {boundaries.length === 0 ? (
+          <p>No client components below this page and its layouts</p>
+        ) : (
+          <div className="space-y-0.5">
+            <p className="font-semibold">Client boundaries</p>
+            {boundaries.map((boundary) => (
+              <p
+                key={`${boundary.file}:${boundary.importedBy}`}
+                className="font-mono break-all"
+              >
+                {boundary.file}
+                {boundary.importedBy && (
+                  <span className="opacity-70">
+                    {' '}
+                    ← {boundary.importedBy}:{boundary.line}
+                  </span>
+                )}
+              </p>
+            ))}
+          </div>
+        )}
+        {hasLeaks && (
+          <div className="space-y-0.5">
+            <p className="font-semibold">Server-only imports in client code</p>
+            {serverOnlyImports.map((leak) => (
+              <p
+                key={`${leak.file}:${leak.specifier}`}
+                className="font-mono break-all"
+              >
+                {leak.specifier}
+                <span className="opacity-70">
+                  {' '}
+                  in {leak.file}:{leak.line}
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
@@ -0,0 +1,56 @@
+import type { MiddlewareCoverage } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { cn } from '@/lib/utils'
+
+const badgeBase =
+  'font-mono text-[10px] px-2 py-0.5 rounded-full border shadow-sm uppercase tracking-wider'
+
+const COVERAGE: Record<
+  MiddlewareCoverage,
+  { label: string; description: string; className: string }
+> = {
+  matched: {
+    label: 'Matched',
+    description: 'Middleware runs for this URL',
+    className:
+      'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-800',
+  },
+  unknown: {
+    label: 'Unknown',
+    description:
+      'The matcher is computed at runtime, depends on has/missing conditions, or covers only some values of a dynamic segment',
+    className:
+      'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800',
+  },
+  unmatched: {
+    label: 'None',
+    description: 'No middleware runs for this URL',
+    className:
+      'bg-zinc-50 text-zinc-400 border-zinc-200 dark:bg-zinc-800/50 dark:text-zinc-500 dark:border-zinc-700 opacity-70',
+  },
+}
+
+export function MiddlewareBadge({
+  coverage,
+}: {
+  coverage: MiddlewareCoverage
+}) {
+  const { label, description, className } = COVERAGE[coverage]
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={cn(badgeBase, className)}>
+          {label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs">
+        {description}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
@@ -0,0 +1,281 @@
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { type ColumnDef } from '@tanstack/react-table'
+import { ListChecks, Loader2 } from 'lucide-react'
+
+import { api, type AuditIssue, type AuditRule } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { DataTable, SortableHeader } from '@/components/ui/data-table'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { FileIcon } from '@/components/file-icon'
+import { HighlightText } from '@/components/highlight-text'
+import { useInspector } from '@/context/inspector-context'
+import { cn, formatPath } from '@/lib/utils'
+
+const RULES: Record<AuditRule, { label: string; className: string }> = {
+  'missing-title': {
+    label: 'Missing title',
+    className:
+      'bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-800',
+  },
+  'missing-description': {
+    label: 'Missing description',
+    className:
+      'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800',
+  },
+  'missing-static-params': {
+    label: 'No static params',
+    className:
+      'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800',
+  },
+  'duplicate-title': {
+    label: 'Duplicate title',
+    className:
+      'bg-purple-50 text-purple-700 border-purple-200 dark:bg-purple-900/20 dark:text-purple-400 dark:border-purple-800',
+  },
+}
+
+async function handleOpenFile(file: string) {
+  try {
+    await api.openFile(file)
+  } catch (err) {
+    console.error('Failed to open file:', err)
+  }
+}
+
+export function PageAuditTable() {
+  const {
+    isReadonly,
+    staticAudit,
+    isLoading: contextLoading,
+    selectedApp,
+  } = useInspector()
+  const [ruleFilter, setRuleFilter] = useState<AuditRule[]>([])
+  const {
+    data: apiAudit,
+    isLoading: apiLoading,
+    error,
+  } = useQuery({
+    // Nested under `pages` so page changes refetch the audit too
+    queryKey: ['pages', 'audit'],
+    queryFn: api.getAudit,
+    enabled: !contextLoading && !isReadonly,
+  })
+
+  const allIssues = isReadonly ? staticAudit : apiAudit
+  const issues = useMemo(
+    () =>
+      selectedApp
+        ? allIssues?.filter((issue) => issue.app === selectedApp)
+        : allIssues,
+    [allIssues, selectedApp],
+  )
+  const filteredIssues = useMemo(
+    () =>
+      issues?.filter(
+        (issue) => ruleFilter.length === 0 || ruleFilter.includes(issue.rule),
+      ) ?? [],
+    [issues, ruleFilter],
+  )
+  const isLoading = contextLoading || (!isReadonly && apiLoading)
+
+  const columns = useMemo<ColumnDef<AuditIssue>[]>(
+    () => [
+      {
+        accessorKey: 'rule',
+        header: ({ column }) => (
+          <SortableHeader column={column}>Issue</SortableHeader>
+        ),
+        sortingFn: (a, b) =>
+          Object.keys(RULES).indexOf(a.original.rule) -
+          Object.keys(RULES).indexOf(b.original.rule),
+        cell: ({ row }) => {
+          const rule = RULES[row.original.rule]
+          return (
+            <Badge
+              variant="outline"
+              className={cn(
+                'text-[10px] px-2 py-0.5 rounded-full border shadow-sm whitespace-nowrap',
+                rule.className,
+              )}
+            >
+              {rule.label}
+            </Badge>
+          )
+        },
+      },
+      {
+        accessorKey: 'path',
+        header: ({ column }) => (
+          <SortableHeader column={column}>Path</SortableHeader>
+        ),
+        cell: ({ row }) => (
+          <HighlightText
+            text={row.original.path}
+            className="font-mono text-sm text-foreground"
+          />
+        ),
+      },
+      {
+        accessorKey: 'message',
+        header: 'Details',
+        cell: ({ row }) => {
+          const { message, related } = row.original
+          return (
+            <div className="space-y-0.5 text-xs text-muted-foreground">
+              <p>{message}</p>
+              {related && related.length > 0 && (
+                <p>
+                  Also on{' '}
+                  <span className="font-mono text-foreground/80">
+                    {related.join(', ')}
+                  </span>
+                </p>
+              )}
+            </div>
+          )
+        },
+      },
+      {
+        accessorKey: 'file',
+        header: 'Source',
+        cell: ({ row }) => {
+          const { file } = row.original
+          return (
+            <button
+              onClick={() => handleOpenFile(file)}
+              className="group flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors text-left"
+              title={file}
+            >
+              <FileIcon
+                fileName={file}
+                className="opacity-70 group-hover:opacity-100"
+              />
+              <HighlightText
+                text={formatPath(file)}
+                className="font-mono break-all"
+              />
+            </button>
+          )
+        },
+      },
+    ],
+    [],
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Auditing page routes...
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-[200px] flex flex-col items-center justify-center text-destructive bg-destructive/5 rounded-xl p-8 border border-destructive/20">
+        <p className="font-semibold mb-2">Failed to audit pages</p>
+        <p className="text-sm opacity-80">{(error as Error).message}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700 ease-out">
+      <div className="flex items-center justify-between px-1">
+        <div className="space-y-1">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-semibold tracking-tight text-foreground">
+              SEO Audit
+            </h2>
+            <Badge
+              variant="secondary"
+              className="rounded-full px-2.5 font-mono text-xs"
+            >
+              {issues?.length || 0}
+            </Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Pages missing a title or description, sharing a title, or rendering
+            dynamic segments without generateStaticParams
+          </p>
+        </div>
+      </div>
+
+      {issues && issues.length > 0 ? (
+        <div className="[&_.rounded-md.border]:border-0 [&_.rounded-md.border]:shadow-sm [&_.rounded-md.border]:bg-card [&_.rounded-md.border]:ring-1 [&_.rounded-md.border]:ring-border/50">
+          <DataTable
+            columns={columns}
+            data={filteredIssues}
+            searchPlaceholder="Search page paths..."
+            filters={
+              <AuditRuleFilter selected={ruleFilter} onChange={setRuleFilter} />
+            }
+          />
+        </div>
+      ) : (
+        <div className="py-12 text-center border border-dashed rounded-xl bg-muted/30">
+          <p className="text-muted-foreground">No issues found</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function AuditRuleFilter({
+  selected,
+  onChange,
+}: {
+  selected: AuditRule[]
+  onChange: (selected: AuditRule[]) => void
+}) {
+  const label =
+    selected.length === 0
+      ? 'All issues'
+      : selected.length === 1
+        ? RULES[selected[0]].label
+        : `${selected.length} issue types`
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          <span className="text-xs font-medium">{label}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-52">
+        <DropdownMenuCheckboxItem
+          checked={selected.length === 0}
+          onCheckedChange={(checked) => checked && onChange([])}
+        >
+          All issues
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        {(Object.keys(RULES) as AuditRule[]).map((rule) => (
+          <DropdownMenuCheckboxItem
+            key={rule}
+            checked={selected.includes(rule)}
+            onCheckedChange={(checked) =>
+              onChange(
+                checked
+                  ? [...selected, rule]
+                  : selected.filter((name) => name !== rule),
+              )
+            }
+          >
+            {RULES[rule].label}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,111 @@
+import { Fragment } from 'react'
+import { ChevronRight } from 'lucide-react'
+
+import type { PageConvention, PageInfo } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import { FileIcon } from '@/components/file-icon'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { cn, formatLayoutSegment, formatPath } from '@/lib/utils'
+
+// `layout` is covered by the breadcrumb
+const BADGE_CONVENTIONS: PageConvention[] = [
+  'template',
+  'not-found',
+  'forbidden',
+  'unauthorized',
+  'global-error',
+  'default',
+]
+
+const badgeBase =
+  'font-mono text-[10px] px-1.5 py-0 rounded border shadow-sm transition-all'
+
+export function LayoutBreadcrumb({
+  layouts,
+  onOpen,
+}: {
+  layouts: string[]
+  onOpen: (file: string) => void
+}) {
+  if (layouts.length === 0) {
+    return <span className="text-xs text-muted-foreground/50">—</span>
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-0.5 font-mono text-xs">
+      {layouts.map((layout, index) => (
+        <Fragment key={layout}>
+          {index > 0 && (
+            <ChevronRight className="h-3 w-3 text-zinc-300 dark:text-zinc-600" />
+          )}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={() => onOpen(layout)}
+                className={cn(
+                  'rounded px-1 text-muted-foreground hover:bg-muted hover:text-foreground transition-colors',
+                  index === layouts.length - 1 && 'text-foreground',
+                )}
+              >
+                {formatLayoutSegment(layout)}
+              </button>
+            </TooltipTrigger>
+            <TooltipContent side="top">
+              <div className="flex items-center gap-2">
+                <FileIcon fileName={layout} className="h-3.5 w-3.5" />
+                <span className="font-mono text-xs">{formatPath(layout)}</span>
+              </div>
+            </TooltipContent>
+          </Tooltip>
+        </Fragment>
+      ))}
+    </div>
+  )
+}
+
+export function ConventionBadges({
+  conventions,
+}: {
+  conventions: PageInfo['conventions']
+}) {
+  const present = BADGE_CONVENTIONS.filter(
+    (name) => conventions[name].status !== 'missing',
+  )
+
+  if (present.length === 0) {
+    return <span className="text-xs text-muted-foreground/50">—</span>
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {present.map((name) => {
+        const { status, path } = conventions[name]
+        return (
+          <Tooltip key={name}>
+            <TooltipTrigger asChild>
+              <Badge
+                variant="outline"
+                className={cn(
+                  badgeBase,
+                  status === 'co-located'
+                    ? 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-800'
+                    : 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800',
+                )}
+              >
+                {name}
+              </Badge>
+            </TooltipTrigger>
+            <TooltipContent side="top">
+              {status === 'co-located' ? 'Present' : 'Inherited'} from{' '}
+              <span className="font-mono">{path && formatPath(path)}</span>
+            </TooltipContent>
+          </Tooltip>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,14 +1,25 @@
 import { useMemo, useState } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { type ColumnDef } from '@tanstack/react-table'
-import { Loader2, Layout, Code, Trash2 } from 'lucide-react'
+import { Loader2, Layout, Code, CornerDownRight, Trash2 } from 'lucide-react'
 
-import { api, type PageInfo } from '@/api/client'
+import { api, type PageInfo, type SourceLocation } from '@/api/client'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { DataTable, SortableHeader } from '@/components/ui/data-table'
 import { FileIcon } from '@/components/file-icon'
 import { HighlightText } from '@/components/highlight-text'
+import { MiddlewareBadge } from '@/components/middleware-badge'
+import { RenderingBadge } from '@/components/rendering-badge'
+import { ComponentBoundaryBadge } from '@/components/component-boundary-badge'
+import {
+  ConventionBadges,
+  LayoutBreadcrumb,
+} from '@/components/page-conventions'
+import { RouteGroupBadges, RouteGroupFilter } from '@/components/route-groups'
+import { RouterBadges } from '@/components/router-badges'
+import { SegmentConfigBadges } from '@/components/segment-config-badges'
+import { VariantBadges } from '@/components/variant-badges'
 import {
   Dialog,
   DialogContent,
@@ -22,7 +33,13 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
-import { cn, formatPath } from '@/lib/utils'
+import {
+  cn,
+  collectRouteGroups,
+  formatPath,
+  formatSegmentConfig,
+  matchesRouteGroups,
+} from '@/lib/utils'
 import { toast } from 'sonner'
 import { useInspector } from '@/context/inspector-context'
 
@@ -58,8 +75,14 @@ const STATUS_LABELS: Record<string, string> = {
 
 export function PageRoutesTable() {
   const queryClient = useQueryClient()
-  const { isReadonly, staticPages, isLoading: contextLoading } = useInspector()
+  const {
+    isReadonly,
+    staticPages,
+    isLoading: contextLoading,
+    selectedApp,
+  } = useInspector()
   const [deleteTarget, setDeleteTarget] = useState<PageInfo | null>(null)
+  const [groupFilter, setGroupFilter] = useState<string[]>([])
   const {
     data: apiPages,
     isLoading: apiLoading,
@@ -72,7 +95,24 @@ export function PageRoutesTable() {
   })
 
   // Use static data when in readonly mode, otherwise use API data
-  const pages = isReadonly ? staticPages : apiPages
+  const allPages = isReadonly ? staticPages : apiPages
+  const pages = useMemo(
+    () =>
+      selectedApp
+        ? allPages?.filter((page) => page.app === selectedApp)
+        : allPages,
+    [allPages, selectedApp],
+  )
+  const availableGroups = useMemo(
+    () => collectRouteGroups(pages ?? []),
+    [pages],
+  )
+  const filteredPages = useMemo(
+    () =>
+      pages?.filter((page) => matchesRouteGroups(page.groups, groupFilter)) ??
+      [],
+    [pages, groupFilter],
+  )
   const isLoading = contextLoading || (!isReadonly && apiLoading)
 
   const deleteMutation = useMutation({
@@ -84,9 +124,13 @@ export function PageRoutesTable() {
     },
   })
 
-  const handleOpenFile = async (file: string) => {
+  const handleOpenFile = async (file: string, location?: SourceLocation) => {
     try {
-      await api.openFile(file)
+      if (location) {
+        await api.openFile(location.file, location.line, location.column)
+      } else {
+        await api.openFile(file)
+      }
     } catch (err) {
       console.error('Failed to open file:', err)
     }
@@ -103,9 +147,22 @@ export function PageRoutesTable() {
           const path = row.original.path || '/'
           const hasLeadingSlash = path.startsWith('/')
           const parts = path.split('/').filter(Boolean)
+          // Slot and intercepting pages are variants of another page's URL
+          const isVariant = Boolean(
+            row.original.slot || row.original.intercepts,
+          )
           return (
-            <div className="font-mono text-sm text-zinc-500 dark:text-zinc-300 flex items-center gap-2">
-              <Layout className="h-3 w-3 text-muted-foreground" />
+            <div
+              className={cn(
+                'font-mono text-sm text-zinc-500 dark:text-zinc-300 flex items-center gap-2',
+                isVariant && 'pl-4',
+              )}
+            >
+              {isVariant ? (
+                <CornerDownRight className="h-3 w-3 text-muted-foreground" />
+              ) : (
+                <Layout className="h-3 w-3 text-muted-foreground" />
+              )}
               <span className="flex items-center">
                 {hasLeadingSlash && <span>/</span>}
                 {parts.length > 0 &&
@@ -132,14 +189,41 @@ export function PageRoutesTable() {
                     )
                   })}
               </span>
+              <VariantBadges
+                slot={row.original.slot}
+                intercepts={row.original.intercepts}
+              />
+              <RouterBadges
+                router={row.original.router}
+                conflictsWith={row.original.conflictsWith}
+              />
             </div>
           )
         },
       },
+      {
+        id: 'groups',
+        accessorFn: (row) =>
+          (row.groups ?? []).map((group) => `(${group})`).join('/'),
+        header: ({ column }) => (
+          <SortableHeader column={column}>Group</SortableHeader>
+        ),
+        cell: ({ row }) => (
+          <RouteGroupBadges
+            groups={row.original.groups}
+            rootLayout={row.original.rootLayout}
+          />
+        ),
+      },
       {
         accessorKey: 'loading',
         header: 'Loading UI',
         cell: ({ row }) => {
+          // The Pages Router has no loading or error conventions
+          if (row.original.router === 'pages') {
+            return <span className="text-xs text-muted-foreground/50">—</span>
+          }
+
           const status = row.original.loading
           const filePath = row.original.loadingPath
           const badge = (
@@ -173,6 +257,10 @@ export function PageRoutesTable() {
         accessorKey: 'error',
         header: 'Error UI',
         cell: ({ row }) => {
+          if (row.original.router === 'pages') {
+            return <span className="text-xs text-muted-foreground/50">—</span>
+          }
+
           const status = row.original.error
           const filePath = row.original.errorPath
           const badge = (
@@ -202,14 +290,84 @@ export function PageRoutesTable() {
           return value.length === 0 || value.includes(status)
         },
       },
+      {
+        id: 'layouts',
+        accessorFn: (row) => row.layouts.join(' '),
+        header: 'Layouts',
+        cell: ({ row }) => (
+          <LayoutBreadcrumb
+            layouts={row.original.layouts}
+            onOpen={(file) => handleOpenFile(file)}
+          />
+        ),
+      },
+      {
+        id: 'conventions',
+        header: 'Conventions',
+        cell: ({ row }) => {
+          if (row.original.router === 'pages') {
+            return <span className="text-xs text-muted-foreground/50">—</span>
+          }
+          return <ConventionBadges conventions={row.original.conventions} />
+        },
+      },
+      {
+        accessorKey: 'middleware',
+        header: ({ column }) => (
+          <SortableHeader column={column}>Middleware</SortableHeader>
+        ),
+        cell: ({ row }) => (
+          <MiddlewareBadge coverage={row.original.middleware} />
+        ),
+      },
+      {
+        id: 'rendering',
+        accessorFn: (row) => `${row.rendering.mode} ${row.rendering.reason}`,
+        header: ({ column }) => (
+          <SortableHeader column={column}>Rendering</SortableHeader>
+        ),
+        sortingFn: (a, b) =>
+          a.original.rendering.mode.localeCompare(b.original.rendering.mode),
+        cell: ({ row }) => (
+          <RenderingBadge rendering={row.original.rendering} />
+        ),
+      },
+      {
+        id: 'components',
+        // Searching a component file finds the pages it is a boundary of
+        accessorFn: (row) =>
+          row.components?.boundaries
+            .map((boundary) => boundary.file)
+            .join(' ') ?? '',
+        header: ({ column }) => (
+          <SortableHeader column={column}>Components</SortableHeader>
+        ),
+        sortingFn: (a, b) =>
+          (a.original.components?.boundaries.length ?? -1) -
+          (b.original.components?.boundaries.length ?? -1),
+        cell: ({ row }) =>
+          row.original.components ? (
+            <ComponentBoundaryBadge components={row.original.components} />
+          ) : (
+            <span className="text-xs text-muted-foreground">-</span>
+          ),
+      },
+      {
+        id: 'segmentConfig',
+        accessorFn: (row) => formatSegmentConfig(row.segmentConfig).join(' '),
+        header: 'Config',
+        cell: ({ row }) => (
+          <SegmentConfigBadges config={row.original.segmentConfig} />
+        ),
+      },
       {
         accessorKey: 'file',
         header: 'Source',
         cell: ({ row }) => {
-          const file = row.original.file
+          const { file, defaultExport } = row.original
           return (
             <button
-              onClick={() => handleOpenFile(file)}
+              onClick={() => handleOpenFile(file, defaultExport)}
               className="group flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors text-left"
               title={file}
             >
@@ -242,7 +400,9 @@ export function PageRoutesTable() {
                           variant="ghost"
                           size="icon"
                           className="h-8 w-8 text-muted-foreground hover:text-primary hover:bg-primary/5"
-                          onClick={() => handleOpenFile(page.file)}
+                          onClick={() =>
+                            handleOpenFile(page.file, page.defaultExport)
+                          }
                         >
                           <Code className="h-4 w-4" />
                         </Button>
@@ -314,9 +474,16 @@ export function PageRoutesTable() {
         <div className="[&_.rounded-md.border]:border-0 [&_.rounded-md.border]:shadow-sm [&_.rounded-md.border]:bg-card [&_.rounded-md.border]:ring-1 [&_.rounded-md.border]:ring-border/50">
           <DataTable
             columns={columns}
-            data={pages}
+            data={filteredPages}
             searchPlaceholder="Search page paths..."
             defaultSorting={[{ id: 'path', desc: false }]}
+            filters={
+              <RouteGroupFilter
+                groups={availableGroups}
+                selected={groupFilter}
+                onChange={setGroupFilter}
+              />
+            }
           />
         </div>
       ) : (
@@ -0,0 +1,81 @@
+import { AlertTriangle } from 'lucide-react'
+
+import type { RenderingMode, RenderingPrediction } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { cn } from '@/lib/utils'
+
+const badgeBase =
+  'font-mono text-[10px] px-2 py-0.5 rounded-full border shadow-sm uppercase tracking-wider gap-1'
+
+const MODES: Record<RenderingMode, { label: string; className: string }> = {
+  static: {
+    label: 'Static',
+    className:
+      'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-800',
+  },
+  isr: {
+    label: 'ISR',
+    className:
+      'bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-900/20 dark:text-sky-400 dark:border-sky-800',
+  },
+  dynamic: {
+    label: 'Dynamic',
+    className:
+      'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800',
+  },
+  ppr: {
+    label: 'PPR',
+    className:
+      'bg-purple-50 text-purple-700 border-purple-200 dark:bg-purple-900/20 dark:text-purple-400 dark:border-purple-800',
+  },
+}
+
+function formatMode(mode: RenderingMode, revalidate?: number): string {
+  const { label } = MODES[mode]
+  return mode === 'isr' && revalidate ? `${label} · ${revalidate}s` : label
+}
+
+export function RenderingBadge({
+  rendering,
+}: {
+  rendering: RenderingPrediction
+}) {
+  const { mode, revalidate, reason, file, line, build } = rendering
+  const mismatch = build && !build.matches
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn(badgeBase, MODES[mode].className)}
+        >
+          {mismatch && <AlertTriangle className="h-3 w-3" />}
+          {formatMode(mode, revalidate)}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-sm space-y-2">
+        <div className="space-y-0.5">
+          <p>{reason}</p>
+          {file && (
+            <p className="font-mono break-all opacity-70">
+              {file}:{line}
+            </p>
+          )}
+        </div>
+        {build && (
+          <p className={cn(mismatch && 'font-semibold')}>
+            {build.matches
+              ? 'Confirmed by the last build'
+              : `The last build rendered it as ${formatMode(build.mode, build.revalidate)}`}
+          </p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
@@ -0,0 +1,109 @@
+import { FolderTree } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { formatPath } from '@/lib/utils'
+
+const badgeStyles =
+  'font-mono text-[10px] px-1.5 py-0 rounded border shadow-sm bg-indigo-50 text-indigo-700 border-indigo-200 dark:bg-indigo-900/20 dark:text-indigo-400 dark:border-indigo-800'
+
+export function RouteGroupBadges({
+  groups,
+  rootLayout,
+}: {
+  groups?: string[]
+  rootLayout?: string
+}) {
+  if (!groups?.length) {
+    return <span className="text-xs text-muted-foreground/50">—</span>
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {groups.map((group, index) => {
+        const badge = (
+          <Badge key={group} variant="outline" className={badgeStyles}>
+            ({group})
+          </Badge>
+        )
+        // The outermost group owns the root layout when there are several
+        if (index > 0 || !rootLayout) return badge
+        return (
+          <Tooltip key={group}>
+            <TooltipTrigger asChild>{badge}</TooltipTrigger>
+            <TooltipContent side="top">
+              Root layout{' '}
+              <span className="font-mono">{formatPath(rootLayout)}</span>
+            </TooltipContent>
+          </Tooltip>
+        )
+      })}
+    </div>
+  )
+}
+
+export function RouteGroupFilter({
+  groups,
+  selected,
+  onChange,
+}: {
+  groups: string[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+}) {
+  if (groups.length === 0) return null
+
+  const label =
+    selected.length === 0
+      ? 'All groups'
+      : selected.length === 1
+        ? `(${selected[0]})`
+        : `${selected.length} groups`
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <FolderTree className="h-4 w-4" />
+          <span className="text-xs font-medium">{label}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        <DropdownMenuCheckboxItem
+          checked={selected.length === 0}
+          onCheckedChange={(checked) => checked && onChange([])}
+        >
+          All groups
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        {groups.map((group) => (
+          <DropdownMenuCheckboxItem
+            key={group}
+            checked={selected.includes(group)}
+            onCheckedChange={(checked) =>
+              onChange(
+                checked
+                  ? [...selected, group]
+                  : selected.filter((name) => name !== group),
+              )
+            }
+          >
+            ({group})
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
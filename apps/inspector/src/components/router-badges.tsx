@@ -0,0 +1,47 @@
+import type { RouterType } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { formatPath } from '@/lib/utils'
+
+const badgeBase = 'text-[10px] px-1.5 py-0 rounded border shadow-sm font-sans'
+
+export function RouterBadges({
+  router,
+  conflictsWith,
+}: {
+  router: RouterType
+  conflictsWith?: string
+}) {
+  return (
+    <>
+      {router === 'pages' && (
+        <Badge
+          variant="outline"
+          className={`${badgeBase} bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800`}
+        >
+          Pages Router
+        </Badge>
+      )}
+      {conflictsWith && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge
+              variant="outline"
+              className={`${badgeBase} bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-900/20 dark:text-rose-400 dark:border-rose-800`}
+            >
+              Conflict
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            Also claimed by{' '}
+            <span className="font-mono">{formatPath(conflictsWith)}</span>
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </>
+  )
+}
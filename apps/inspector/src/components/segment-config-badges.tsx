@@ -0,0 +1,31 @@
+import type { SegmentConfig } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import { HighlightText } from '@/components/highlight-text'
+import { cn, formatSegmentConfig } from '@/lib/utils'
+
+const badgeStyles =
+  'font-mono text-[10px] px-1.5 py-0 rounded border shadow-sm bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-900/20 dark:text-sky-400 dark:border-sky-800'
+
+export function SegmentConfigBadges({
+  config,
+  className,
+}: {
+  config: SegmentConfig | undefined
+  className?: string
+}) {
+  const labels = formatSegmentConfig(config)
+
+  if (labels.length === 0) {
+    return <span className="text-xs text-muted-foreground/50">—</span>
+  }
+
+  return (
+    <div className={cn('flex flex-wrap gap-1', className)}>
+      {labels.map((label) => (
+        <Badge key={label} variant="outline" className={badgeStyles}>
+          <HighlightText text={label} />
+        </Badge>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { type ColumnDef } from '@tanstack/react-table'
+import { Loader2 } from 'lucide-react'
+
+import { api, type ServerAction, type SourceLocation } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import { DataTable, SortableHeader } from '@/components/ui/data-table'
+import { FileIcon } from '@/components/file-icon'
+import { HighlightText } from '@/components/highlight-text'
+import { useInspector } from '@/context/inspector-context'
+import { cn, formatPath } from '@/lib/utils'
+
+const SCOPES: Record<ServerAction['scope'], string> = {
+  module:
+    'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/20 dark:text-emerald-400 dark:border-emerald-800',
+  inline:
+    'bg-purple-50 text-purple-700 border-purple-200 dark:bg-purple-900/20 dark:text-purple-400 dark:border-purple-800',
+}
+
+async function handleOpenFile({
+  file,
+  line,
+  column,
+}: Pick<SourceLocation, 'file' | 'line' | 'column'>) {
+  try {
+    await api.openFile(file, line, column)
+  } catch (err) {
+    console.error('Failed to open file:', err)
+  }
+}
+
+export function ServerActionsTable() {
+  const {
+    isReadonly,
+    staticActions,
+    isLoading: contextLoading,
+    selectedApp,
+  } = useInspector()
+  const {
+    data: apiActions,
+    isLoading: apiLoading,
+    error,
+  } = useQuery({
+    queryKey: ['actions'],
+    queryFn: api.getActions,
+    enabled: !contextLoading && !isReadonly,
+  })
+
+  const allActions = isReadonly ? staticActions : apiActions
+  const actions = useMemo(
+    () =>
+      selectedApp
+        ? allActions?.filter((action) => action.app === selectedApp)
+        : allActions,
+    [allActions, selectedApp],
+  )
+  const isLoading = contextLoading || (!isReadonly && apiLoading)
+
+  const columns = useMemo<ColumnDef<ServerAction>[]>(
+    () => [
+      {
+        accessorKey: 'name',
+        header: ({ column }) => (
+          <SortableHeader column={column}>Action</SortableHeader>
+        ),
+        cell: ({ row }) => {
+          const { name, parent } = row.original
+          return (
+            <div className="flex items-center gap-1.5 font-mono text-sm">
+              {parent && (
+                <span className="text-muted-foreground">{parent} ›</span>
+              )}
+              <HighlightText text={name} className="text-foreground" />
+            </div>
+          )
+        },
+      },
+      {
+        accessorKey: 'scope',
+        header: ({ column }) => (
+          <SortableHeader column={column}>Scope</SortableHeader>
+        ),
+        cell: ({ row }) => (
+          <Badge
+            variant="outline"
+            className={cn(
+              'font-mono text-[10px] px-2 py-0.5 rounded-full border shadow-sm uppercase tracking-wider',
+              SCOPES[row.original.scope],
+            )}
+          >
+            {row.original.scope}
+          </Badge>
+        ),
+      },
+      {
+        id: 'importedBy',
+        accessorFn: (action) =>
+          action.importedBy.map((entry) => entry.file).join(' '),
+        header: ({ column }) => (
+          <SortableHeader column={column}>Imported by</SortableHeader>
+        ),
+        sortingFn: (a, b) =>
+          a.original.importedBy.length - b.original.importedBy.length,
+        cell: ({ row }) => {
+          const { importedBy, exported } = row.original
+          // Actions that are not exported are only used where they are defined
+          if (!exported) {
+            return <span className="text-xs text-muted-foreground">-</span>
+          }
+          if (!importedBy.length) {
+            return (
+              <Badge
+                variant="outline"
+                className="text-[10px] px-2 py-0.5 rounded-full border shadow-sm bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800"
+              >
+                Unused
+              </Badge>
+            )
+          }
+          return (
+            <div className="flex flex-col items-start gap-1">
+              {importedBy.map((entry) => (
+                <button
+                  key={entry.file}
+                  onClick={() => handleOpenFile(entry)}
+                  className="group flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors text-left"
+                  title={`${entry.file}:${entry.line}`}
+                >
+                  <FileIcon
+                    fileName={entry.file}
+                    className="opacity-70 group-hover:opacity-100"
+                  />
+                  <HighlightText
+                    text={formatPath(entry.file)}
+                    className="font-mono break-all"
+                  />
+                </button>
+              ))}
+            </div>
+          )
+        },
+      },
+      {
+        accessorKey: 'file',
+        header: 'Source',
+        cell: ({ row }) => {
+          const { file, line } = row.original
+          return (
+            <button
+              onClick={() => handleOpenFile(row.original)}
+              className="group flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors text-left"
+              title={`${file}:${line}`}
+            >
+              <FileIcon
+                fileName={file}
+                className="opacity-70 group-hover:opacity-100"
+              />
+              <HighlightText
+                text={`${formatPath(file)}:${line}`}
+                className="font-mono break-all"
+              />
+            </button>
+          )
+        },
+      },
+    ],
+    [],
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[400px] items-center justify-center text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Scanning server actions...
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-[200px] flex flex-col items-center justify-center text-destructive bg-destructive/5 rounded-xl p-8 border border-destructive/20">
+        <p className="font-semibold mb-2">Failed to load server actions</p>
+        <p className="text-sm opacity-80">{(error as Error).message}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700 ease-out">
+      <div className="flex items-center justify-between px-1">
+        <div className="space-y-1">
+          <div className="flex items-center gap-3">
+            <h2 className="text-2xl font-semibold tracking-tight text-foreground">
+              Server Actions
+            </h2>
+            <Badge
+              variant="secondary"
+              className="rounded-full px-2.5 font-mono text-xs"
+            >
+              {actions?.length || 0}
+            </Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Exports of 'use server' modules and inline actions, with the files
+            that import them
+          </p>
+        </div>
+      </div>
+
+      {actions && actions.length > 0 ? (
+        <div className="[&_.rounded-md.border]:border-0 [&_.rounded-md.border]:shadow-sm [&_.rounded-md.border]:bg-card [&_.rounded-md.border]:ring-1 [&_.rounded-md.border]:ring-border/50">
+          <DataTable
+            columns={columns}
+            data={actions}
+            searchPlaceholder="Search actions..."
+          />
+        </div>
+      ) : (
+        <div className="py-12 text-center border border-dashed rounded-xl bg-muted/30">
+          <p className="text-muted-foreground">No server actions found</p>
+        </div>
+      )}
+    </div>
+  )
+}
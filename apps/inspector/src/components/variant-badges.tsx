@@ -0,0 +1,78 @@
+import type { PageInfo } from '@/api/client'
+import { Badge } from '@/components/ui/badge'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import { formatPath } from '@/lib/utils'
+
+const badgeBase = 'text-[10px] px-1.5 py-0 rounded border shadow-sm font-mono'
+
+export function VariantBadges({
+  slot,
+  intercepts,
+}: Pick<PageInfo, 'slot' | 'intercepts'>) {
+  return (
+    <>
+      {slot && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge
+              variant="outline"
+              className={`${badgeBase} bg-violet-50 text-violet-700 border-violet-200 dark:bg-violet-900/20 dark:text-violet-400 dark:border-violet-800`}
+            >
+              @{slot.name}
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            Parallel route slot
+            {slot.default && (
+              <>
+                {' '}
+                with{' '}
+                <span className="font-mono">{formatPath(slot.default)}</span>
+              </>
+            )}
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {slot && !slot.default && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge
+              variant="outline"
+              className={`${badgeBase} bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800`}
+            >
+              No default
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            Add a default file to @{slot.name}; unmatched URLs render a 404 on a
+            hard navigation
+          </TooltipContent>
+        </Tooltip>
+      )}
+      {intercepts && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge
+              variant="outline"
+              className={`${badgeBase} bg-fuchsia-50 text-fuchsia-700 border-fuchsia-200 dark:bg-fuchsia-900/20 dark:text-fuchsia-400 dark:border-fuchsia-800`}
+            >
+              {intercepts.convention}
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            Intercepts{' '}
+            <span className="font-mono">
+              {intercepts.targetFile
+                ? formatPath(intercepts.targetFile)
+                : intercepts.target}
+            </span>
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </>
+  )
+}
@@ -5,7 +5,12 @@ import {
   useState,
   type ReactNode,
 } from 'react'
-import type { RouteInfo, PageInfo } from '@/api/client'
+import type {
+  AuditIssue,
+  RouteInfo,
+  PageInfo,
+  ServerAction,
+} from '@/api/client'
 
 export interface InspectorMeta {
   generatedAt: string
@@ -17,6 +22,8 @@ export interface StaticData {
   meta: InspectorMeta
   routes: RouteInfo[]
   pages: PageInfo[]
+  audit: AuditIssue[]
+  actions: ServerAction[]
 }
 
 interface InspectorContextValue {
@@ -24,7 +31,12 @@ interface InspectorContextValue {
   meta: InspectorMeta | null
   staticRoutes: RouteInfo[] | null
   staticPages: PageInfo[] | null
+  staticAudit: AuditIssue[] | null
+  staticActions: ServerAction[] | null
   isLoading: boolean
+  /** Monorepo app to show, or null for all apps. */
+  selectedApp: string | null
+  setSelectedApp: (app: string | null) => void
 }
 
 const InspectorContext = createContext<InspectorContextValue>({
@@ -32,7 +44,11 @@ const InspectorContext = createContext<InspectorContextValue>({
   meta: null,
   staticRoutes: null,
   staticPages: null,
+  staticAudit: null,
+  staticActions: null,
   isLoading: true,
+  selectedApp: null,
+  setSelectedApp: () => {},
 })
 
 export function useInspector() {
@@ -46,6 +62,7 @@ interface InspectorProviderProps {
 export function InspectorProvider({ children }: InspectorProviderProps) {
   const [staticData, setStaticData] = useState<StaticData | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [selectedApp, setSelectedApp] = useState<string | null>(null)
 
   useEffect(() => {
     // Try to load static data from inspector-data.json
@@ -74,7 +91,11 @@ export function InspectorProvider({ children }: InspectorProviderProps) {
     meta: staticData?.meta ?? null,
     staticRoutes: staticData?.routes ?? null,
     staticPages: staticData?.pages ?? null,
+    staticAudit: staticData?.audit ?? null,
+    staticActions: staticData?.actions ?? null,
     isLoading,
+    selectedApp,
+    setSelectedApp,
   }
 
   return (
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+
+import { api } from '@/api/client'
+
+/**
+ * Refetch the route and page tables whenever the inspector server reports a
+ * change on disk. Returns whether the live connection is open.
+ */
+export function useRouteEvents(enabled: boolean) {
+  const queryClient = useQueryClient()
+  const [connected, setConnected] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const unsubscribe = api.subscribe({
+      onChange: (event) => {
+        queryClient.invalidateQueries({
+          queryKey: [event.kind === 'route' ? 'routes' : 'pages'],
+        })
+      },
+      onStatusChange: setConnected,
+    })
+
+    return () => {
+      unsubscribe()
+      setConnected(false)
+    }
+  }, [enabled, queryClient])
+
+  return connected
+}
@@ -1,6 +1,8 @@
 import { clsx, type ClassValue } from 'clsx'
 import { twMerge } from 'tailwind-merge'
 
+import type { SegmentConfig } from '@/api/client'
+
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
@@ -13,3 +15,33 @@ export function formatPath(path: string) {
   const end = parts.slice(-2)
   return [...start, '...', ...end].join('/')
 }
+
+// The segment that owns a layout file, e.g. `app/(shop)/layout.tsx` → `(shop)`
+export function formatLayoutSegment(file: string) {
+  const parts = file.split('/')
+  const owner = parts.slice(parts.lastIndexOf('app') + 1, -1)
+  return owner.length ? owner[owner.length - 1] : '/'
+}
+
+export function collectRouteGroups(entries: { groups?: string[] }[]) {
+  const names = new Set<string>()
+  for (const entry of entries) entry.groups?.forEach((name) => names.add(name))
+  return [...names].sort((a, b) => a.localeCompare(b))
+}
+
+export function matchesRouteGroups(
+  groups: string[] | undefined,
+  selected: string[],
+) {
+  return (
+    selected.length === 0 ||
+    (groups ?? []).some((name) => selected.includes(name))
+  )
+}
+
+export function formatSegmentConfig(config: SegmentConfig | undefined) {
+  return Object.entries(config ?? {}).map(([key, value]) => {
+    if (key === 'runtime' || key === 'dynamic') return String(value)
+    return `${key}=${Array.isArray(value) ? value.join(',') : value}`
+  })
+}
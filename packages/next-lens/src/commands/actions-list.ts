@@ -0,0 +1,151 @@
+import chalk from 'chalk'
+import { Command } from 'commander'
+import { loadCommandConfig } from '../lib/config'
+import { buildBorder, buildRow, visibleLength } from '../lib/format'
+import { applyColorOption } from '../lib/output'
+import { createScanSession, formatScanStats } from '../lib/scanner'
+import {
+  getServerActions,
+  type ServerAction,
+  type ServerActionScope,
+} from '../lib/server-actions'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
+
+const MAX_IMPORTERS = 3
+
+const primary = chalk.cyanBright
+const accent = chalk.green
+const subtle = chalk.dim
+
+export const actionsListCommand = new Command('actions:list')
+  .description(
+    "List Server Actions ('use server' modules and inline actions) with the files that import them.",
+  )
+  .argument(
+    '[target-directory]',
+    'Path to the Next.js project (defaults to the current working directory)',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .option('--unused', 'Only list exported actions that no file imports')
+  .option('--no-color', 'Print the table without colors')
+  .option('--stats', 'Print scan timings after the table')
+  .action(async (targetDirectory, options, command) => {
+    try {
+      applyColorOption(options)
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const { scanOptions } = await loadCommandConfig(root, command)
+      const session = createScanSession(root, {
+        ...scanOptions,
+        appDirs: undefined,
+      })
+      const actions = (await getServerActions(root, { session })).filter(
+        (action) => !options.unused || isUnused(action),
+      )
+
+      if (!actions.length) {
+        console.log(
+          options.unused ? 'No unused server actions' : 'No server actions',
+        )
+      } else {
+        console.log(renderTable(actions))
+      }
+
+      if (options.stats) {
+        console.log(subtle(`\n${formatScanStats(session.getStats())}`))
+      }
+    } catch (error) {
+      console.error(
+        `Failed to list server actions: ${(error as Error).message}`,
+      )
+      process.exit(1)
+    }
+  })
+
+function isUnused(action: ServerAction): boolean {
+  return action.exported && action.importedBy.length === 0
+}
+
+function renderTable(actions: ServerAction[]): string {
+  const total = actions.length
+  const header = chalk.bold(primary('Next.js Server Actions'))
+  const subtitle = subtle(
+    `Found ${accent(total.toString())} action${total === 1 ? '' : 's'}`,
+  )
+
+  const showApp = new Set(actions.map((action) => action.app)).size > 1
+
+  const formatted = actions.map((action) => [
+    ...(showApp ? [chalk.blueBright(action.app ?? '-')] : []),
+    formatName(action),
+    formatScope(action.scope),
+    formatImporters(action),
+    chalk.gray(`${action.file}:${action.line}`),
+  ])
+
+  const headers = [
+    ...(showApp ? [chalk.dim('APP')] : []),
+    chalk.dim('ACTION'),
+    chalk.dim('SCOPE'),
+    chalk.dim('IMPORTED BY'),
+    chalk.dim('SOURCE'),
+  ]
+
+  const columnWidths = headers.map((heading, index) =>
+    Math.max(
+      visibleLength(heading),
+      ...formatted.map((cells) => visibleLength(cells[index])),
+    ),
+  )
+
+  const topBorder = buildBorder(columnWidths, '=')
+  const headerDivider = buildBorder(columnWidths, '-')
+
+  return [
+    '',
+    header,
+    subtitle,
+    '',
+    chalk.dim(topBorder),
+    buildRow(headers, columnWidths, chalk.dim),
+    chalk.dim(headerDivider),
+    ...formatted.map((cells) => buildRow(cells, columnWidths)),
+    chalk.dim(topBorder),
+  ].join('\n')
+}
+
+// Inline actions are shown under the component that declares them
+function formatName(action: ServerAction): string {
+  const name = action.doc?.deprecated
+    ? chalk.strikethrough(action.name)
+    : chalk.whiteBright(action.name)
+  return action.parent ? `${subtle(`${action.parent} ›`)} ${name}` : name
+}
+
+function formatScope(scope: ServerActionScope): string {
+  return scope === 'module' ? accent('module') : chalk.magenta('inline')
+}
+
+// Actions that are not exported are only used by the file that defines them
+function formatImporters(action: ServerAction): string {
+  const { importedBy } = action
+  if (!action.exported) return subtle('-')
+  if (!importedBy.length) return chalk.yellow('unused')
+
+  const files = importedBy.slice(0, MAX_IMPORTERS).map((entry) => entry.file)
+  const more = importedBy.length - files.length
+  return more > 0
+    ? `${files.join(', ')} ${subtle(`+${more} more`)}`
+    : files.join(', ')
+}
+
+export default actionsListCommand
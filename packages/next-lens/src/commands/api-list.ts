@@ -1,26 +1,57 @@
-import chalk, { type ChalkInstance } from 'chalk'
+import chalk from 'chalk'
 import { Command } from 'commander'
 import { getApiRoutes, HTTP_METHODS, type RouteInfo } from '../lib/api-routes'
+import {
+  formatSegmentConfig,
+  matchesSegmentConfig,
+  parseSegmentConfigFilters,
+} from '../lib/segment-config'
+import { loadCommandConfig } from '../lib/config'
+import {
+  buildBorder,
+  buildRow,
+  colorizeMethods,
+  highlightDynamicSegments,
+  visibleLength,
+} from '../lib/format'
+import {
+  formatRouteGroups,
+  matchesRouteGroups,
+  sortByRouteGroup,
+} from '../lib/route-groups'
+import type { MiddlewareCoverage } from '../lib/middleware'
+import {
+  applyColorOption,
+  formatRecords,
+  OUTPUT_FORMATS,
+  parseOutputFormat,
+  selectFields,
+  type OutputField,
+} from '../lib/output'
+import type { RouterType } from '../lib/pages-router'
+import { createScanSession, formatScanStats } from '../lib/scanner'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
 
-const METHOD_COLORS: Record<string, ChalkInstance> = {
-  GET: chalk.greenBright,
-  HEAD: chalk.green,
-  OPTIONS: chalk.cyan,
-  POST: chalk.magentaBright,
-  PUT: chalk.yellowBright,
-  PATCH: chalk.blueBright,
-  DELETE: chalk.redBright,
-}
-
-const ANSI_PATTERN = /\u001B\[[0-?]*[ -\/]*[@-~]/g
-const PARAM_COLOR = chalk.hex('#ffae42')
+const API_FIELDS: OutputField<RouteInfo>[] = [
+  { name: 'app', value: (route) => route.app },
+  { name: 'groups', value: (route) => route.groups },
+  { name: 'methods', value: (route) => route.methods },
+  { name: 'path', value: (route) => route.path },
+  { name: 'router', value: (route) => route.router },
+  { name: 'middleware', value: (route) => route.middleware },
+  { name: 'segmentConfig', value: (route) => route.segmentConfig },
+  { name: 'file', value: (route) => route.file },
+  { name: 'conflictsWith', value: (route) => route.conflictsWith },
+]
 
 const primary = chalk.cyanBright
 const accent = chalk.green
 const subtle = chalk.dim
 
 export const apiListCommand = new Command('api:list')
-  .description('List Next.js App Router API routes in a table view.')
+  .description(
+    'List Next.js API routes from the App Router and pages/api in a table view.',
+  )
   .argument(
     '[target-directory]',
     'Path to the Next.js project (defaults to the current working directory)',
@@ -29,7 +60,47 @@ export const apiListCommand = new Command('api:list')
     '-m, --method <method>',
     'Filter routes by HTTP method (case-insensitive, e.g., GET, post, PUT)',
   )
-  .action(async (targetDirectory, options) => {
+  .option(
+    '-s, --segment <key=value...>',
+    'Filter routes by route segment config (e.g., runtime=edge, dynamic=force-dynamic)',
+  )
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .option(
+    '-g, --group <name...>',
+    'Only list routes inside these route groups (e.g., marketing or "(auth)")',
+  )
+  .option('--by-group', 'Group table rows by route group')
+  .option(
+    '-f, --format <format>',
+    `Output format: ${OUTPUT_FORMATS.join(', ')} (defaults to table)`,
+  )
+  .option(
+    '--fields <name...>',
+    `Columns to print, in order: ${API_FIELDS.map((field) => field.name).join(', ')}`,
+  )
+  .option('--no-color', 'Print the table without colors')
+  .option(
+    '--prefix <path>',
+    'Only include routes under this URL prefix (e.g., /api)',
+  )
+  .option('--stats', 'Print scan timings and cache hits after the table')
+  .option(
+    '--cache',
+    'Keep parsed modules in .next-lens/cache/ to speed up the next run',
+  )
+  .action(async (targetDirectory, options, command) => {
     try {
       // Validate method if provided
       if (options.method) {
@@ -43,68 +114,169 @@ export const apiListCommand = new Command('api:list')
         }
       }
 
-      const routes = await getApiRoutes(targetDirectory ?? null, options.method)
+      const segmentFilter = parseSegmentConfigFilters(options.segment)
+      const format = parseOutputFormat(options.format)
+      const fields = selectFields(API_FIELDS, options.fields)
+      applyColorOption(options)
+
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const { scanOptions, routePrefix } = await loadCommandConfig(
+        root,
+        command,
+      )
+      const session = createScanSession(root, scanOptions)
+      const routes = (
+        await getApiRoutes(session.root, options.method, {
+          session,
+          routePrefix,
+        })
+      ).filter(
+        (route) =>
+          matchesSegmentConfig(route.segmentConfig, segmentFilter) &&
+          matchesRouteGroups(route.groups, options.group),
+      )
+      await session.persist()
+      const sorted = options.byGroup ? sortByRouteGroup(routes) : routes
 
-      if (!routes.length) {
+      if (format !== 'table') {
+        console.log(formatRecords(sorted, fields, format))
+      } else if (!routes.length) {
         console.log(
           options.method
             ? `No API routes found with method ${options.method.toUpperCase()}`
             : `No API routes found`,
         )
-        return
+      } else {
+        console.log(
+          renderTable(sorted, {
+            byGroup: options.byGroup,
+            fields: options.fields && fields.map((field) => field.name),
+          }),
+        )
       }
 
-      console.log(renderTable(routes))
+      // Keep machine-readable stdout parseable
+      if (options.stats) {
+        const log = format === 'table' ? console.log : console.error
+        log(subtle(`\n${formatScanStats(session.getStats())}`))
+      }
     } catch (error) {
       console.error(`Failed to list routes: ${(error as Error).message}`)
       process.exit(1)
     }
   })
 
-function renderTable(routes: RouteInfo[]): string {
+type Column = {
+  /** `--fields` names that select the column. */
+  fields: string[]
+  heading: string
+  show: boolean
+  cell: (route: RouteInfo, index: number) => string
+}
+
+function renderTable(
+  routes: RouteInfo[],
+  { byGroup = false, fields }: { byGroup?: boolean; fields?: string[] } = {},
+): string {
   const total = routes.length
   const header = chalk.bold(primary('Next.js API Route Info'))
   const subtitle = subtle(
     `Mapped ${accent(total.toString())} route${total === 1 ? '' : 's'}`,
   )
 
-  const formatted = routes.map((route) => ({
-    methods: colorizeMethods(route.methods),
-    path: highlightDynamicSegments(route.path),
-    file: chalk.gray(route.file),
-  }))
+  const groupLabels = routes.map((route) => formatRouteGroups(route.groups))
+  const columns: Column[] = [
+    {
+      fields: ['app'],
+      heading: 'APP',
+      // Only worth a column when the scan spans several monorepo apps
+      show: new Set(routes.map((route) => route.app)).size > 1,
+      cell: (route) => chalk.blueBright(route.app ?? '-'),
+    },
+    {
+      fields: ['groups'],
+      heading: 'GROUP',
+      show: byGroup || routes.some((route) => route.groups),
+      cell: (_, index) => formatGroup(groupLabels, index, byGroup),
+    },
+    {
+      fields: ['methods'],
+      heading: 'METHOD',
+      show: true,
+      cell: (route) => colorizeMethods(route.methods),
+    },
+    {
+      fields: ['path'],
+      heading: 'ROUTE',
+      show: true,
+      cell: (route) => formatPath(route.path, route.conflictsWith),
+    },
+    {
+      fields: ['router'],
+      heading: 'ROUTER',
+      show: routes.some((route) => route.router === 'pages'),
+      cell: (route) => formatRouter(route.router),
+    },
+    {
+      fields: ['middleware'],
+      heading: 'MIDDLEWARE',
+      // Without a middleware file every entry is unmatched
+      show: routes.some((route) => route.middleware !== 'unmatched'),
+      cell: (route) => formatMiddleware(route.middleware),
+    },
+    {
+      fields: ['segmentConfig'],
+      heading: 'CONFIG',
+      show: routes.some((route) => Object.keys(route.segmentConfig).length > 0),
+      cell: (route) =>
+        chalk.cyan(formatSegmentConfig(route.segmentConfig) || '-'),
+    },
+    {
+      fields: ['file', 'conflictsWith'],
+      heading: 'SOURCE',
+      show: true,
+      cell: (route) => chalk.gray(route.file),
+    },
+  ]
+  // --fields picks and orders columns; related fields share one column
+  const visible = fields
+    ? [
+        ...new Set(
+          fields.flatMap((name) =>
+            columns.filter((column) => column.fields.includes(name)),
+          ),
+        ),
+      ]
+    : columns.filter((column) => column.show)
 
-  const methodHeader = chalk.dim('METHOD')
-  const pathHeader = chalk.dim('ROUTE')
-  const fileHeader = chalk.dim('SOURCE')
+  const formatted = routes.map((route, index) =>
+    visible.map((column) => column.cell(route, index)),
+  )
+  const headers = visible.map((column) => chalk.dim(column.heading))
 
-  const columnWidths = [
-    Math.max(
-      visibleLength(methodHeader),
-      ...formatted.map((entry) => visibleLength(entry.methods)),
-    ),
+  const columnWidths = headers.map((heading, index) =>
     Math.max(
-      visibleLength(pathHeader),
-      ...formatted.map((entry) => visibleLength(entry.path)),
+      visibleLength(heading),
+      ...formatted.map((cells) => visibleLength(cells[index])),
     ),
-    Math.max(
-      visibleLength(fileHeader),
-      ...formatted.map((entry) => visibleLength(entry.file)),
-    ),
-  ]
+  )
 
   const topBorder = buildBorder(columnWidths, '=')
   const headerDivider = buildBorder(columnWidths, '-')
 
-  const headerRow = buildRow(
-    [methodHeader, pathHeader, fileHeader],
-    columnWidths,
-    chalk.dim,
-  )
+  const headerRow = buildRow(headers, columnWidths, chalk.dim)
 
-  const rows = formatted.map((entry) =>
-    buildRow([entry.methods, entry.path, entry.file], columnWidths),
-  )
+  const rows = formatted.flatMap((cells, index) => {
+    const row = buildRow(cells, columnWidths)
+    // Nested groups stay in the section of their outermost group
+    const startsGroup =
+      byGroup &&
+      index > 0 &&
+      routes[index].groups?.[0] !== routes[index - 1].groups?.[0]
+    return startsGroup ? [chalk.dim(headerDivider), row] : [row]
+  })
 
   return [
     '',
@@ -116,46 +288,49 @@ function renderTable(routes: RouteInfo[]): string {
     chalk.dim(headerDivider),
     ...rows,
     chalk.dim(topBorder),
+    ...renderConflicts(routes),
   ].join('\n')
 }
 
-function colorizeMethods(methods: string[]): string {
-  const colored = methods.map((method) => {
-    const painter = METHOD_COLORS[method] ?? chalk.whiteBright
-    return painter.bold(method)
-  })
-
-  return colored.join(chalk.dim('|'))
+// With --by-group, the label is only printed on the first row of each group
+function formatGroup(
+  labels: string[],
+  index: number,
+  byGroup: boolean,
+): string {
+  if (byGroup && index > 0 && labels[index] === labels[index - 1]) return ''
+  return labels[index] ? chalk.magentaBright(labels[index]) : subtle('-')
 }
 
-function highlightDynamicSegments(pathLabel: string): string {
-  return pathLabel.replace(/:(\w+(?:\*\??)?)/g, (_, name) =>
-    PARAM_COLOR(`:${name}`),
-  )
+function formatPath(pathLabel: string, conflictsWith?: string): string {
+  const label = highlightDynamicSegments(pathLabel)
+  return conflictsWith ? `${label} ${chalk.redBright('⚠')}` : label
 }
 
-function buildRow(
-  cells: string[],
-  widths: number[],
-  transform: (value: string) => string = (value) => value,
-): string {
-  const padded = cells.map((cell, index) => padEndAnsi(cell, widths[index]))
-  return transform(`| ${padded.join(' | ')} |`)
+function formatRouter(router: RouterType): string {
+  return router === 'pages' ? chalk.yellow('pages') : subtle('app')
 }
 
-function buildBorder(widths: number[], fill: '-' | '=' = '-'): string {
-  const segments = widths.map((width) => fill.repeat(width + 2))
-  return `+${segments.join('+')}+`
+function formatMiddleware(coverage: MiddlewareCoverage): string {
+  if (coverage === 'matched') return accent('matched')
+  if (coverage === 'unknown') return chalk.yellow('unknown')
+  return subtle('unmatched')
 }
 
-function padEndAnsi(text: string, target: number): string {
-  const printable = visibleLength(text)
-  if (printable >= target) return text
-  return text + ' '.repeat(target - printable)
-}
+function renderConflicts(routes: RouteInfo[]): string[] {
+  const conflicts = routes.filter(
+    (route) => route.router === 'app' && route.conflictsWith,
+  )
+  if (!conflicts.length) return []
 
-function visibleLength(text: string): number {
-  return text.replace(ANSI_PATTERN, '').length
+  return [
+    '',
+    ...conflicts.map((route) =>
+      chalk.redBright(
+        `⚠ ${route.path} is claimed by both ${route.file} and ${route.conflictsWith}`,
+      ),
+    ),
+  ]
 }
 
 export default apiListCommand
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import { stringify } from 'yaml'
+import { getApiRoutes } from '../lib/api-routes'
+import { loadCommandConfig } from '../lib/config'
+import { buildOpenApiDocument, type OpenApiDocument } from '../lib/openapi'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
+
+const FORMATS = new Set(['json', 'yaml'])
+
+export const apiOpenApiCommand = new Command('api:openapi')
+  .description(
+    'Generate an OpenAPI 3.1 document from Next.js App Router API routes.',
+  )
+  .argument(
+    '[target-directory]',
+    'Path to the Next.js project (defaults to the current working directory)',
+  )
+  .option(
+    '-f, --format <format>',
+    'Output format: json or yaml (defaults to the --output extension, otherwise json)',
+  )
+  .option(
+    '-o, --output <file>',
+    'Write the document to a file instead of stdout',
+  )
+  .option('--title <title>', 'API title (defaults to the package.json name)')
+  .option(
+    '--api-version <version>',
+    'API version (defaults to the package.json version)',
+  )
+  .option('--server <url...>', 'Server URLs to list in the document')
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .option(
+    '--prefix <path>',
+    'Only include routes under this URL prefix (e.g., /api)',
+  )
+  .option(
+    '--no-schemas',
+    'Skip request/response schema inference with the TypeScript type checker',
+  )
+  .action(async (targetDirectory, options, command) => {
+    try {
+      const format = resolveFormat(options.format, options.output)
+      if (!format) {
+        console.error(
+          `Invalid format: ${options.format}\nValid formats are: ${Array.from(FORMATS).join(', ')}`,
+        )
+        process.exit(1)
+        return
+      }
+
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const manifest = await readManifest(root)
+      const { scanOptions, routePrefix } = await loadCommandConfig(
+        root,
+        command,
+      )
+
+      const routes = await getApiRoutes(root, undefined, {
+        ...scanOptions,
+        routePrefix,
+        inferSchemas: options.schemas,
+      })
+
+      const document = buildOpenApiDocument(routes, {
+        title: options.title ?? manifest.name ?? 'Next.js API',
+        version: options.apiVersion ?? manifest.version ?? '1.0.0',
+        description: manifest.description,
+        servers: options.server,
+        onConflict: ({ method, path: openApiPath, file, conflictsWith }) => {
+          console.error(
+            chalk.yellow(
+              `⚠ ${method} ${openApiPath} is defined by both ${file} and ${conflictsWith}; keeping ${file}`,
+            ),
+          )
+        },
+      })
+
+      const output = serialize(document, format)
+
+      if (!options.output) {
+        process.stdout.write(output)
+        return
+      }
+
+      const outputPath = path.resolve(options.output)
+      await fs.mkdir(path.dirname(outputPath), { recursive: true })
+      await fs.writeFile(outputPath, output)
+
+      const operations = Object.values(document.paths).reduce(
+        (count, item) => count + Object.keys(item).length,
+        0,
+      )
+      console.log(
+        `${chalk.green('✔')} Wrote ${operations} operations to ${chalk.cyan(outputPath)}`,
+      )
+    } catch (error) {
+      console.error(
+        `Failed to generate OpenAPI document: ${(error as Error).message}`,
+      )
+      process.exit(1)
+    }
+  })
+
+function resolveFormat(
+  format: string | undefined,
+  output: string | undefined,
+): 'json' | 'yaml' | null {
+  if (format) {
+    const normalized = format.toLowerCase()
+    if (normalized === 'yml') return 'yaml'
+    return FORMATS.has(normalized) ? (normalized as 'json' | 'yaml') : null
+  }
+
+  const extension = output ? path.extname(output).toLowerCase() : ''
+  return extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json'
+}
+
+function serialize(document: OpenApiDocument, format: 'json' | 'yaml') {
+  if (format === 'yaml') {
+    return stringify(document, { aliasDuplicateObjects: false })
+  }
+  return `${JSON.stringify(document, null, 2)}\n`
+}
+
+async function readManifest(
+  root: string,
+): Promise<{ name?: string; version?: string; description?: string }> {
+  try {
+    const raw = await fs.readFile(path.join(root, 'package.json'), 'utf8')
+    return JSON.parse(raw)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw error
+  }
+}
+
+export default apiOpenApiCommand
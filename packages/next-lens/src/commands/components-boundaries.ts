@@ -0,0 +1,175 @@
+import path from 'path'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import {
+  analyzeComponentBoundaries,
+  type ComponentBoundaries,
+  type ModuleEnvironment,
+} from '../lib/component-boundaries'
+import { loadCommandConfig } from '../lib/config'
+import { applyColorOption } from '../lib/output'
+import { getPageRoutes, type PageInfo } from '../lib/page-routes'
+import { matchesRouteGroups } from '../lib/route-groups'
+import { createScanSession, formatScanStats } from '../lib/scanner'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
+
+const primary = chalk.cyanBright
+const accent = chalk.green
+const subtle = chalk.dim
+
+export const componentsBoundariesCommand = new Command('components:boundaries')
+  .description(
+    "Show where each App Router page crosses into client components ('use client') and flag server-only imports in the client bundle.",
+  )
+  .argument(
+    '[target-directory]',
+    'Path to the Next.js project (defaults to the current working directory)',
+  )
+  .option('--modules', 'List every module reachable from each page')
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .option(
+    '-g, --group <name...>',
+    'Only show pages inside these route groups (e.g., marketing or "(auth)")',
+  )
+  .option('--no-color', 'Print the report without colors')
+  .option('--stats', 'Print scan timings and cache hits after the report')
+  .option(
+    '--cache',
+    'Keep parsed modules in .next-lens/cache/ to speed up the next run',
+  )
+  .action(async (targetDirectory, options, command) => {
+    try {
+      applyColorOption(options)
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const { scanOptions } = await loadCommandConfig(root, command)
+      const session = createScanSession(root, scanOptions)
+      const pages = (await getPageRoutes(session.root, { session })).filter(
+        (page) =>
+          page.components && matchesRouteGroups(page.groups, options.group),
+      )
+      await session.persist()
+
+      // Module graphs are cached by the session, so this re-walk is cheap
+      const reports = await Promise.all(
+        pages.map(async (page) => ({
+          page,
+          boundaries: await analyzeComponentBoundaries(session, [
+            path.join(root, page.file),
+            ...page.layouts.map((layout) => path.join(root, layout)),
+          ]),
+        })),
+      )
+
+      if (!reports.length) {
+        console.log('No App Router pages found')
+      } else {
+        console.log(renderReport(reports, { modules: options.modules }))
+      }
+
+      if (options.stats) {
+        console.log(subtle(`\n${formatScanStats(session.getStats())}`))
+      }
+    } catch (error) {
+      console.error(
+        `Failed to analyze component boundaries: ${(error as Error).message}`,
+      )
+      process.exit(1)
+    }
+  })
+
+type PageReport = { page: PageInfo; boundaries: ComponentBoundaries }
+
+function renderReport(
+  reports: PageReport[],
+  { modules = false }: { modules?: boolean } = {},
+): string {
+  const total = reports.length
+  const boundaryCount = new Set(
+    reports.flatMap(({ boundaries }) =>
+      boundaries.boundaries.map((boundary) => boundary.file),
+    ),
+  ).size
+  const leaks = reports.reduce(
+    (count, { boundaries }) => count + boundaries.serverOnlyImports.length,
+    0,
+  )
+
+  const header = chalk.bold(primary('Next.js Component Boundaries'))
+  const subtitle = subtle(
+    [
+      `Checked ${accent(total.toString())} page${total === 1 ? '' : 's'}`,
+      `${accent(boundaryCount.toString())} client boundar${boundaryCount === 1 ? 'y' : 'ies'}`,
+      `${leaks ? chalk.redBright(leaks.toString()) : accent('0')} server-only import${leaks === 1 ? '' : 's'} in client code`,
+    ].join(', '),
+  )
+
+  const showApp = new Set(reports.map(({ page }) => page.app)).size > 1
+  const sections = reports.flatMap(({ page, boundaries }) => [
+    '',
+    [
+      showApp && page.app ? chalk.blueBright(page.app) : '',
+      chalk.bold(page.path),
+      formatEnvironment(boundaries.environment),
+      chalk.gray(page.file),
+    ]
+      .filter(Boolean)
+      .join(' '),
+    ...boundaries.boundaries.map((boundary) =>
+      [
+        ' ',
+        chalk.magenta('◆'),
+        boundary.file,
+        boundary.importedBy
+          ? subtle(`← ${boundary.importedBy}:${boundary.line}`)
+          : subtle('(use client)'),
+      ].join(' '),
+    ),
+    ...boundaries.serverOnlyImports.map((leak) =>
+      [
+        ' ',
+        chalk.redBright('⚠'),
+        chalk.redBright(leak.specifier),
+        subtle(`in ${leak.file}:${leak.line}`),
+        leak.boundary !== leak.file ? subtle(`via ${leak.boundary}`) : '',
+      ]
+        .filter(Boolean)
+        .join(' '),
+    ),
+    ...(modules
+      ? boundaries.modules.map(
+          (module) =>
+            `    ${formatEnvironment(module.environment)} ${chalk.gray(module.file)}`,
+        )
+      : []),
+  ])
+
+  return ['', header, subtitle, ...sections, '', renderLegend()].join('\n')
+}
+
+function formatEnvironment(environment: ModuleEnvironment): string {
+  if (environment === 'client') return chalk.magenta('client')
+  if (environment === 'shared') return chalk.yellow('shared')
+  return accent('server')
+}
+
+function renderLegend(): string {
+  const boundary = chalk.whiteBright('◆ client boundary')
+  const leak = chalk.whiteBright('⚠ server-only import')
+  return chalk.dim(`${boundary}  ${leak}`)
+}
+
+export default componentsBoundariesCommand
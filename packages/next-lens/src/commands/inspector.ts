@@ -2,6 +2,7 @@ import chalk from 'chalk'
 import { Command } from 'commander'
 import open from 'open'
 
+import { loadCommandConfig, readTemplates } from '@/lib/config'
 import { chooseAvailablePort } from '@/lib/inspector/port'
 import { startInspectorServer } from '@/lib/inspector/server'
 import { ensureDirectory, resolveTargetDirectory } from '@/lib/utils'
@@ -26,6 +27,20 @@ export const inspectorCommand = new Command('web')
     String(DEFAULT_PORT),
   )
   .option('--no-open', 'Do not automatically open the browser')
+  .option('--no-watch', 'Do not watch for route changes')
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
   .option(
     '--dev',
     'Development mode: proxy UI requests to Vite dev server for HMR',
@@ -35,18 +50,23 @@ export const inspectorCommand = new Command('web')
     'Vite dev server port (used with --dev)',
     String(DEFAULT_VITE_PORT),
   )
-  .action(async (targetDirectory, options) => {
+  .action(async (targetDirectory, options, command) => {
     try {
       const resolvedTarget = resolveTargetDirectory(targetDirectory ?? null)
       await ensureDirectory(resolvedTarget)
 
-      const requestedPort = parseInt(options.port, 10)
+      const loaded = await loadCommandConfig(resolvedTarget, command)
+      const requestedPort =
+        loaded.cli.port === undefined && loaded.config.port
+          ? loaded.config.port
+          : parseInt(options.port, 10)
       if (isNaN(requestedPort) || requestedPort < 1 || requestedPort > 65535) {
         console.error(chalk.red('Invalid port number'))
         process.exit(1)
       }
 
       const devMode = options.dev === true
+      const watch = options.watch !== false
       const vitePort = parseInt(options.vitePort, 10)
 
       if (devMode && (isNaN(vitePort) || vitePort < 1 || vitePort > 65535)) {
@@ -65,6 +85,7 @@ export const inspectorCommand = new Command('web')
         port,
         devMode,
         vitePort,
+        watch,
       })
 
       await startInspectorServer({
@@ -72,6 +93,10 @@ export const inspectorCommand = new Command('web')
         port,
         devMode,
         vitePort,
+        watch,
+        scanOptions: loaded.scanOptions,
+        routePrefix: loaded.routePrefix,
+        templates: await readTemplates(loaded),
       })
 
       const url = `http://localhost:${port}`
@@ -98,9 +123,10 @@ type IntroOptions = {
   port: number
   devMode: boolean
   vitePort: number
+  watch: boolean
 }
 
-function printIntro({ target, port, devMode, vitePort }: IntroOptions) {
+function printIntro({ target, port, devMode, vitePort, watch }: IntroOptions) {
   const divider = chalk.dim('─'.repeat(46))
   const badge = chalk.bgCyan.black(' NEXT LENS INSPECTOR ')
   const rows = [
@@ -108,6 +134,7 @@ function printIntro({ target, port, devMode, vitePort }: IntroOptions) {
     formatRow('UI Port', `${port}`),
     devMode ? formatRow('Vite Port', `localhost:${vitePort}`) : null,
     devMode ? formatRow('Mode', warning('Dev proxy → Vite')) : null,
+    formatRow('Watch', watch ? 'live updates' : subtle('off')),
   ].filter(Boolean) as string[]
 
   console.log(
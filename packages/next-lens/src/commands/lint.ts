@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import chalk from 'chalk'
+import { Command } from 'commander'
+import packageJson from '../../package.json'
+import { getApiRoutes } from '../lib/api-routes'
+import { loadCommandConfig } from '../lib/config'
+import { lintConfigOptions, runLint, type LintIssue } from '../lib/lint/engine'
+import { LINT_RULES } from '../lib/lint/rules'
+import { formatSarif } from '../lib/lint/sarif'
+import { applyColorOption } from '../lib/output'
+import { getPageRoutes } from '../lib/page-routes'
+import { createScanSession, formatScanStats } from '../lib/scanner'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
+
+const LINT_FORMATS = ['table', 'json', 'sarif'] as const
+
+type LintFormat = (typeof LINT_FORMATS)[number]
+
+const primary = chalk.cyanBright
+const accent = chalk.green
+const subtle = chalk.dim
+
+export const lintCommand = new Command('lint')
+  .description(
+    'Check pages and API routes against lint rules and exit with code 1 when any rule set to error fails.',
+  )
+  .argument(
+    '[target-directory]',
+    'Path to the Next.js project (defaults to the current working directory)',
+  )
+  .option(
+    '-r, --rule <rule...>',
+    `Only run these rules (${LINT_RULES.map((rule) => rule.name).join(', ')})`,
+  )
+  .option(
+    '-f, --format <format>',
+    `Output format: ${LINT_FORMATS.join(', ')} (defaults to table)`,
+  )
+  .option('-o, --output <file>', 'Write the report to a file')
+  .option(
+    '--max-warnings <n>',
+    'Also exit with code 1 when there are more warnings than this',
+  )
+  .option('--no-color', 'Print the report without colors')
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .option('--stats', 'Print scan timings and cache hits after the report')
+  .option(
+    '--cache',
+    'Keep parsed modules in .next-lens/cache/ to speed up the next run',
+  )
+  .action(async (targetDirectory, options, command) => {
+    let failed = false
+    try {
+      const format = parseFormat(options.format)
+      const maxWarnings =
+        options.maxWarnings === undefined
+          ? Infinity
+          : Number(options.maxWarnings)
+      if (!(maxWarnings >= 0)) {
+        throw new Error(
+          `Invalid max warnings: ${options.maxWarnings} (expected a number)`,
+        )
+      }
+      applyColorOption(options)
+
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const { scanOptions, routePrefix, config } = await loadCommandConfig(
+        root,
+        command,
+      )
+      const session = createScanSession(root, scanOptions)
+      const [pages, routes] = await Promise.all([
+        getPageRoutes(session.root, { session }),
+        getApiRoutes(session.root, undefined, { session, routePrefix }),
+      ])
+      const { rules, severities } = lintConfigOptions(config.lint?.rules)
+      const issues = await runLint(
+        { session, pages, routes },
+        { rules, severities, only: options.rule },
+      )
+      await session.persist()
+
+      const errors = issues.filter((issue) => issue.severity === 'error')
+      const warnings = issues.length - errors.length
+      failed = errors.length > 0 || warnings > maxWarnings
+
+      const report =
+        format === 'table'
+          ? renderReport(issues, pages.length, routes.length)
+          : format === 'json'
+            ? JSON.stringify(issues, null, 2)
+            : JSON.stringify(
+                formatSarif(issues, {
+                  rules,
+                  root: session.root,
+                  baseDirectory: process.cwd(),
+                  version: packageJson.version,
+                }),
+                null,
+                2,
+              )
+
+      if (options.output) {
+        const outputPath = path.resolve(options.output)
+        await fs.mkdir(path.dirname(outputPath), { recursive: true })
+        await fs.writeFile(outputPath, `${report}\n`)
+        console.log(
+          `${chalk.green('✔')} Wrote ${issues.length} issue${issues.length === 1 ? '' : 's'} to ${chalk.cyan(outputPath)}`,
+        )
+      } else {
+        console.log(report)
+      }
+
+      if (options.stats) {
+        console.error(subtle(`\n${formatScanStats(session.getStats())}`))
+      }
+    } catch (error) {
+      console.error(`Failed to lint routes: ${(error as Error).message}`)
+      process.exit(1)
+    }
+
+    if (failed) process.exit(1)
+  })
+
+function parseFormat(value: string | undefined): LintFormat {
+  if (!value) return 'table'
+  const normalized = value.toLowerCase()
+  if (!LINT_FORMATS.includes(normalized as LintFormat)) {
+    throw new Error(
+      `Invalid format: ${value}\nValid formats are: ${LINT_FORMATS.join(', ')}`,
+    )
+  }
+  return normalized as LintFormat
+}
+
+// Grouped by file, one line per issue, like most linters print
+function renderReport(
+  issues: LintIssue[],
+  pages: number,
+  routes: number,
+): string {
+  const errors = issues.filter((issue) => issue.severity === 'error').length
+  const warnings = issues.length - errors
+
+  const header = chalk.bold(primary('Next.js Route Lint'))
+  const subtitle = subtle(
+    `Checked ${accent(pages.toString())} page${pages === 1 ? '' : 's'} and ${accent(routes.toString())} API route${routes === 1 ? '' : 's'}, found ${
+      errors ? chalk.red(errors.toString()) : accent('0')
+    } error${errors === 1 ? '' : 's'} and ${
+      warnings ? chalk.yellow(warnings.toString()) : accent('0')
+    } warning${warnings === 1 ? '' : 's'}`,
+  )
+  if (!issues.length) return ['', header, subtitle].join('\n')
+
+  const locationWidth = Math.max(
+    ...issues.map((issue) => `${issue.line}:${issue.column}`.length),
+  )
+  const messageWidth = Math.max(...issues.map((issue) => issue.message.length))
+
+  const files = [...new Set(issues.map((issue) => issue.file))]
+  const sections = files.flatMap((file) => [
+    '',
+    chalk.underline(file),
+    ...issues
+      .filter((issue) => issue.file === file)
+      .map((issue) =>
+        [
+          ' ',
+          subtle(`${issue.line}:${issue.column}`.padEnd(locationWidth)),
+          issue.severity === 'error'
+            ? chalk.red('error')
+            : chalk.yellow('warn '),
+          issue.message.padEnd(messageWidth),
+          subtle(issue.rule),
+        ].join(' '),
+      ),
+  ])
+
+  return ['', header, subtitle, ...sections].join('\n')
+}
+
+export default lintCommand
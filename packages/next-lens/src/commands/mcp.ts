@@ -5,13 +5,108 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js'
 import { Command } from 'commander'
+import path from 'path'
 import { z } from 'zod'
 import { getApiRoutes, HTTP_METHODS } from '../lib/api-routes'
+import { explicitOptions, loadConfig, resolveScanOptions } from '../lib/config'
+import type { McpToolName } from '../lib/define-config'
+import { pickIgnoreOptions } from '../lib/ignore'
+import { openInIDE } from '../lib/inspector/ide'
 import { getPageRoutes } from '../lib/page-routes'
+import { matchesRouteGroups } from '../lib/route-groups'
+import { getServerActions } from '../lib/server-actions'
+import {
+  matchesSegmentConfig,
+  parseSegmentConfigFilters,
+  SEGMENT_CONFIG_KEYS,
+} from '../lib/segment-config'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
+
+const segmentProperty = {
+  type: 'object',
+  description: `Filter by route segment config, e.g. { "runtime": "edge", "revalidate": "60" }. Supported keys: ${SEGMENT_CONFIG_KEYS.join(', ')}`,
+  additionalProperties: { type: 'string' },
+}
+
+const appProperty = {
+  type: 'string',
+  description:
+    'Only include routes from this monorepo app (package or directory name)',
+}
+
+const prefixProperty = {
+  type: 'string',
+  description:
+    'Only include routes under this URL prefix, e.g. /api (defaults to routePrefix from next-lens.config)',
+}
+
+const groupProperty = {
+  type: 'string',
+  description:
+    'Only include entries inside this route group, e.g. marketing or (marketing)',
+}
+
+const segmentSchema = z
+  .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+  .optional()
+
+function toGroupFilter(group: string | undefined) {
+  return group ? [group] : undefined
+}
+
+function toSegmentFilter(segment: z.infer<typeof segmentSchema>) {
+  return parseSegmentConfigFilters(
+    Object.entries(segment ?? {}).map(([key, value]) => `${key}=${value}`),
+  )
+}
 
 export const mcpCommand = new Command('mcp')
   .description('Start the Model Context Protocol (MCP) server')
-  .action(async () => {
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .action(async (_options, command) => {
+    const explicit = explicitOptions(command)
+    const cli = pickIgnoreOptions(explicit)
+    const { config } = await loadConfig(process.cwd())
+    const isEnabled = (tool: string) =>
+      config.mcp?.tools?.[tool as McpToolName] !== false
+
+    // Each call may target another project, with its own config
+    const configFor = async (targetDirectory: string | undefined) =>
+      loadConfig(
+        await ensureDirectory(resolveTargetDirectory(targetDirectory ?? null)),
+      )
+    const scanOptionsFor = async (
+      targetDirectory: string | undefined,
+      app?: string,
+    ) => ({
+      ...resolveScanOptions(await configFor(targetDirectory), cli),
+      apps: app ? [app] : explicit.app,
+    })
+    const routeOptionsFor = async (
+      targetDirectory: string | undefined,
+      app?: string,
+      prefix?: string,
+    ) => {
+      const loaded = await configFor(targetDirectory)
+      return {
+        ...resolveScanOptions(loaded, cli),
+        apps: app ? [app] : explicit.app,
+        routePrefix: prefix ?? loaded.config.routePrefix,
+      }
+    }
+
     const server = new Server(
       {
         name: 'next-lens',
@@ -29,7 +124,8 @@ export const mcpCommand = new Command('mcp')
         tools: [
           {
             name: 'api-list',
-            description: 'List and search Next.js App Router API routes',
+            description:
+              'List and search Next.js API routes from the App Router and pages/api',
             inputSchema: {
               type: 'object',
               properties: {
@@ -43,12 +139,22 @@ export const mcpCommand = new Command('mcp')
                   description:
                     'Filter routes by HTTP method (case-insensitive, e.g., GET, post, PUT)',
                 },
+                segment: segmentProperty,
+                app: appProperty,
+                group: groupProperty,
+                prefix: prefixProperty,
+                schemas: {
+                  type: 'boolean',
+                  description:
+                    'Infer request body, query and response schemas for each handler with the TypeScript type checker (slower)',
+                },
               },
             },
           },
           {
             name: 'page-list',
-            description: 'List and search Next.js App Router page routes',
+            description:
+              'List and search Next.js page routes from the App Router and Pages Router',
             inputSchema: {
               type: 'object',
               properties: {
@@ -57,12 +163,15 @@ export const mcpCommand = new Command('mcp')
                   description:
                     'Path to the Next.js project (optional, defaults to current directory)',
                 },
+                segment: segmentProperty,
+                app: appProperty,
+                group: groupProperty,
               },
             },
           },
           {
             name: 'api-search',
-            description: 'Search Next.js App Router API routes by path',
+            description: 'Search Next.js API routes by path',
             inputSchema: {
               type: 'object',
               properties: {
@@ -80,13 +189,17 @@ export const mcpCommand = new Command('mcp')
                   description:
                     'Filter routes by HTTP method (case-insensitive, e.g., GET, post, PUT)',
                 },
+                segment: segmentProperty,
+                app: appProperty,
+                group: groupProperty,
+                prefix: prefixProperty,
               },
               required: ['search'],
             },
           },
           {
             name: 'page-search',
-            description: 'Search Next.js App Router page routes by path',
+            description: 'Search Next.js page routes by path',
             inputSchema: {
               type: 'object',
               properties: {
@@ -99,24 +212,106 @@ export const mcpCommand = new Command('mcp')
                   type: 'string',
                   description: 'Search term to filter pages by path',
                 },
+                segment: segmentProperty,
+                app: appProperty,
+                group: groupProperty,
               },
               required: ['search'],
             },
           },
-        ],
+          {
+            name: 'actions-list',
+            description:
+              "List Server Actions ('use server' modules and inline actions) with their location and the files that import them",
+            inputSchema: {
+              type: 'object',
+              properties: {
+                targetDirectory: {
+                  type: 'string',
+                  description:
+                    'Path to the Next.js project (optional, defaults to current directory)',
+                },
+                app: {
+                  type: 'string',
+                  description:
+                    'Only include actions from this monorepo app (package or directory name)',
+                },
+                unused: {
+                  type: 'boolean',
+                  description:
+                    'Only include exported actions that no file imports',
+                },
+              },
+            },
+          },
+          {
+            name: 'open-file',
+            description:
+              'Open a project file in the editor, optionally at a location reported by api-list, page-list or actions-list',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                targetDirectory: {
+                  type: 'string',
+                  description:
+                    'Path to the Next.js project (optional, defaults to current directory)',
+                },
+                file: {
+                  type: 'string',
+                  description: 'File path relative to the project root',
+                },
+                line: {
+                  type: 'number',
+                  description: '1-based line to jump to',
+                },
+                column: {
+                  type: 'number',
+                  description: '1-based column to jump to',
+                },
+              },
+              required: ['file'],
+            },
+          },
+        ].filter((tool) => isEnabled(tool.name)),
       }
     })
 
     server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params
 
+      if (!isEnabled(name)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: Tool ${name} is disabled in the next-lens config`,
+            },
+          ],
+          isError: true,
+        }
+      }
+
       try {
         if (name === 'api-list') {
           const schema = z.object({
             targetDirectory: z.string().optional(),
             method: z.string().optional(),
+            segment: segmentSchema,
+            app: z.string().optional(),
+            group: z.string().optional(),
+            prefix: z.string().optional(),
+            schemas: z.boolean().optional(),
           })
-          const { targetDirectory, method } = schema.parse(args)
+          const {
+            targetDirectory,
+            method,
+            segment,
+            schemas,
+            app,
+            group,
+            prefix,
+          } = schema.parse(args)
+          const segmentFilter = toSegmentFilter(segment)
 
           // Validate method if provided
           if (method) {
@@ -135,7 +330,16 @@ export const mcpCommand = new Command('mcp')
             }
           }
 
-          const routes = await getApiRoutes(targetDirectory ?? null, method)
+          const routes = (
+            await getApiRoutes(targetDirectory ?? null, method, {
+              ...(await routeOptionsFor(targetDirectory, app, prefix)),
+              inferSchemas: schemas,
+            })
+          ).filter(
+            (r) =>
+              matchesSegmentConfig(r.segmentConfig, segmentFilter) &&
+              matchesRouteGroups(r.groups, toGroupFilter(group)),
+          )
 
           return {
             content: [
@@ -150,9 +354,22 @@ export const mcpCommand = new Command('mcp')
         if (name === 'page-list') {
           const schema = z.object({
             targetDirectory: z.string().optional(),
+            segment: segmentSchema,
+            app: z.string().optional(),
+            group: z.string().optional(),
           })
-          const { targetDirectory } = schema.parse(args)
-          const pages = await getPageRoutes(targetDirectory ?? null)
+          const { targetDirectory, segment, app, group } = schema.parse(args)
+          const segmentFilter = toSegmentFilter(segment)
+          const pages = (
+            await getPageRoutes(
+              targetDirectory ?? null,
+              await scanOptionsFor(targetDirectory, app),
+            )
+          ).filter(
+            (p) =>
+              matchesSegmentConfig(p.segmentConfig, segmentFilter) &&
+              matchesRouteGroups(p.groups, toGroupFilter(group)),
+          )
 
           return {
             content: [
@@ -169,8 +386,21 @@ export const mcpCommand = new Command('mcp')
             targetDirectory: z.string().optional(),
             search: z.string(),
             method: z.string().optional(),
+            segment: segmentSchema,
+            app: z.string().optional(),
+            group: z.string().optional(),
+            prefix: z.string().optional(),
           })
-          const { targetDirectory, search, method } = schema.parse(args)
+          const {
+            targetDirectory,
+            search,
+            method,
+            segment,
+            app,
+            group,
+            prefix,
+          } = schema.parse(args)
+          const segmentFilter = toSegmentFilter(segment)
 
           // Validate method if provided
           if (method) {
@@ -189,8 +419,17 @@ export const mcpCommand = new Command('mcp')
             }
           }
 
-          const routes = await getApiRoutes(targetDirectory ?? null, method)
-          const filteredRoutes = routes.filter((r) => r.path.includes(search))
+          const routes = await getApiRoutes(
+            targetDirectory ?? null,
+            method,
+            await routeOptionsFor(targetDirectory, app, prefix),
+          )
+          const filteredRoutes = routes.filter(
+            (r) =>
+              r.path.includes(search) &&
+              matchesSegmentConfig(r.segmentConfig, segmentFilter) &&
+              matchesRouteGroups(r.groups, toGroupFilter(group)),
+          )
 
           return {
             content: [
@@ -206,10 +445,23 @@ export const mcpCommand = new Command('mcp')
           const schema = z.object({
             targetDirectory: z.string().optional(),
             search: z.string(),
+            segment: segmentSchema,
+            app: z.string().optional(),
+            group: z.string().optional(),
           })
-          const { targetDirectory, search } = schema.parse(args)
-          const pages = await getPageRoutes(targetDirectory ?? null)
-          const filteredPages = pages.filter((p) => p.path.includes(search))
+          const { targetDirectory, search, segment, app, group } =
+            schema.parse(args)
+          const segmentFilter = toSegmentFilter(segment)
+          const pages = await getPageRoutes(
+            targetDirectory ?? null,
+            await scanOptionsFor(targetDirectory, app),
+          )
+          const filteredPages = pages.filter(
+            (p) =>
+              p.path.includes(search) &&
+              matchesSegmentConfig(p.segmentConfig, segmentFilter) &&
+              matchesRouteGroups(p.groups, toGroupFilter(group)),
+          )
 
           return {
             content: [
@@ -220,6 +472,72 @@ export const mcpCommand = new Command('mcp')
             ],
           }
         }
+
+        if (name === 'actions-list') {
+          const schema = z.object({
+            targetDirectory: z.string().optional(),
+            app: z.string().optional(),
+            unused: z.boolean().optional(),
+          })
+          const { targetDirectory, app, unused } = schema.parse(args)
+          const actions = (
+            await getServerActions(
+              targetDirectory ?? null,
+              await scanOptionsFor(targetDirectory, app),
+            )
+          ).filter(
+            (action) =>
+              !unused || (action.exported && action.importedBy.length === 0),
+          )
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(actions, null, 2),
+              },
+            ],
+          }
+        }
+
+        if (name === 'open-file') {
+          const schema = z.object({
+            targetDirectory: z.string().optional(),
+            file: z.string(),
+            line: z.number().int().positive().optional(),
+            column: z.number().int().positive().optional(),
+          })
+          const { targetDirectory, file, line, column } = schema.parse(args)
+          const root = await ensureDirectory(
+            resolveTargetDirectory(targetDirectory ?? null),
+          )
+          const fullPath = path.resolve(root, file)
+          const relative = path.relative(root, fullPath)
+
+          if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: ${file} is outside of ${root}`,
+                },
+              ],
+              isError: true,
+            }
+          }
+
+          openInIDE(fullPath, line, column)
+          const position = line ? `:${line}${column ? `:${column}` : ''}` : ''
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Opened ${relative}${position}`,
+              },
+            ],
+          }
+        }
       } catch (error) {
         return {
           content: [
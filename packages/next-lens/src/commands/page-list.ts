@@ -1,82 +1,274 @@
 import chalk from 'chalk'
 import { Command } from 'commander'
 import { getPageRoutes, type PageInfo } from '../lib/page-routes'
+import {
+  formatSegmentConfig,
+  matchesSegmentConfig,
+  parseSegmentConfigFilters,
+} from '../lib/segment-config'
+import { loadCommandConfig } from '../lib/config'
+import {
+  buildBorder,
+  buildRow,
+  highlightDynamicSegments,
+  visibleLength,
+} from '../lib/format'
+import {
+  formatRouteGroups,
+  matchesRouteGroups,
+  sortByRouteGroup,
+} from '../lib/route-groups'
+import type { MiddlewareCoverage } from '../lib/middleware'
+import {
+  applyColorOption,
+  formatRecords,
+  OUTPUT_FORMATS,
+  parseOutputFormat,
+  selectFields,
+  type OutputField,
+} from '../lib/output'
+import type { RouterType } from '../lib/pages-router'
+import type { RenderingPrediction } from '../lib/rendering'
+import { createScanSession, formatScanStats } from '../lib/scanner'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
 
 type FallbackStatus = 'co-located' | 'inherited' | 'missing'
 
-const ANSI_PATTERN = /\u001B\[[0-?]*[ -\/]*[@-~]/g
-const PARAM_COLOR = chalk.hex('#ffae42')
+const PAGE_FIELDS: OutputField<PageInfo>[] = [
+  { name: 'app', value: (page) => page.app },
+  { name: 'groups', value: (page) => page.groups },
+  { name: 'path', value: (page) => page.path },
+  { name: 'router', value: (page) => page.router },
+  { name: 'middleware', value: (page) => page.middleware },
+  { name: 'rendering', value: (page) => page.rendering.mode },
+  { name: 'revalidate', value: (page) => page.rendering.revalidate },
+  { name: 'renderingReason', value: (page) => page.rendering.reason },
+  { name: 'loading', value: (page) => page.loading },
+  { name: 'error', value: (page) => page.error },
+  { name: 'layouts', value: (page) => page.layouts },
+  { name: 'segmentConfig', value: (page) => page.segmentConfig },
+  { name: 'slot', value: (page) => page.slot?.name },
+  { name: 'intercepts', value: (page) => page.intercepts?.convention },
+  { name: 'file', value: (page) => page.file },
+  { name: 'conflictsWith', value: (page) => page.conflictsWith },
+]
 
 const primary = chalk.cyanBright
 const accent = chalk.green
 const subtle = chalk.dim
 
 export const pageListCommand = new Command('page:list')
-  .description('List Next.js App Router page routes in a table view.')
+  .description(
+    'List Next.js page routes from the App Router and Pages Router in a table view.',
+  )
   .argument(
     '[target-directory]',
     'Path to the Next.js project (defaults to the current working directory)',
   )
-  .action(async (targetDirectory) => {
+  .option(
+    '-s, --segment <key=value...>',
+    'Filter pages by route segment config, including values inherited from layouts (e.g., runtime=edge, revalidate=60)',
+  )
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .option(
+    '-g, --group <name...>',
+    'Only list pages inside these route groups (e.g., marketing or "(auth)")',
+  )
+  .option('--by-group', 'Group table rows by route group')
+  .option(
+    '-f, --format <format>',
+    `Output format: ${OUTPUT_FORMATS.join(', ')} (defaults to table)`,
+  )
+  .option(
+    '--fields <name...>',
+    `Columns to print, in order: ${PAGE_FIELDS.map((field) => field.name).join(', ')}`,
+  )
+  .option('--no-color', 'Print the table without colors')
+  .option('--stats', 'Print scan timings and cache hits after the table')
+  .option(
+    '--cache',
+    'Keep parsed modules in .next-lens/cache/ to speed up the next run',
+  )
+  .action(async (targetDirectory, options, command) => {
     try {
-      const pages = await getPageRoutes(targetDirectory ?? null)
+      const segmentFilter = parseSegmentConfigFilters(options.segment)
+      const format = parseOutputFormat(options.format)
+      const fields = selectFields(PAGE_FIELDS, options.fields)
+      applyColorOption(options)
+
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const { scanOptions } = await loadCommandConfig(root, command)
+      const session = createScanSession(root, scanOptions)
+      const pages = (await getPageRoutes(session.root, { session })).filter(
+        (page) =>
+          matchesSegmentConfig(page.segmentConfig, segmentFilter) &&
+          matchesRouteGroups(page.groups, options.group),
+      )
+      await session.persist()
+      const sorted = options.byGroup ? sortByRouteGroup(pages) : pages
 
-      if (!pages.length) {
+      if (format !== 'table') {
+        console.log(formatRecords(sorted, fields, format))
+      } else if (!pages.length) {
         console.log(`No page routes found`)
-        return
+      } else {
+        console.log(
+          renderTable(sorted, {
+            byGroup: options.byGroup,
+            fields: options.fields && fields.map((field) => field.name),
+          }),
+        )
       }
 
-      console.log(renderTable(pages))
+      // Keep machine-readable stdout parseable
+      if (options.stats) {
+        const log = format === 'table' ? console.log : console.error
+        log(subtle(`\n${formatScanStats(session.getStats())}`))
+      }
     } catch (error) {
       console.error(`Failed to list routes: ${(error as Error).message}`)
       process.exit(1)
     }
   })
 
-function renderTable(pages: PageInfo[]): string {
+type Column = {
+  /** `--fields` names that select the column. */
+  fields: string[]
+  heading: string
+  show: boolean
+  cell: (page: PageInfo, index: number) => string
+}
+
+function renderTable(
+  pages: PageInfo[],
+  { byGroup = false, fields }: { byGroup?: boolean; fields?: string[] } = {},
+): string {
   const total = pages.length
   const header = chalk.bold(primary('Next.js Page Route Info'))
   const subtitle = subtle(
     `Mapped ${accent(total.toString())} page${total === 1 ? '' : 's'}`,
   )
 
-  const formatted = pages.map((page) => ({
-    path: highlightDynamicSegments(page.path),
-    states: formatRouteStates(page.loading, page.error),
-    file: chalk.gray(page.file),
-  }))
+  const groupLabels = pages.map((page) => formatRouteGroups(page.groups))
+  const columns: Column[] = [
+    {
+      fields: ['app'],
+      heading: 'APP',
+      // Only worth a column when the scan spans several monorepo apps
+      show: new Set(pages.map((page) => page.app)).size > 1,
+      cell: (page) => chalk.blueBright(page.app ?? '-'),
+    },
+    {
+      fields: ['groups'],
+      heading: 'GROUP',
+      show: byGroup || pages.some((page) => page.groups),
+      cell: (_, index) => formatGroup(groupLabels, index, byGroup),
+    },
+    {
+      fields: ['path', 'slot', 'intercepts'],
+      heading: 'ROUTE',
+      show: true,
+      cell: (page, index) => formatRoute(page, pages[index - 1]),
+    },
+    {
+      fields: ['router'],
+      heading: 'ROUTER',
+      show: pages.some((page) => page.router === 'pages'),
+      cell: (page) => formatRouter(page.router),
+    },
+    {
+      fields: ['middleware'],
+      heading: 'MIDDLEWARE',
+      // Without a middleware file every entry is unmatched
+      show: pages.some((page) => page.middleware !== 'unmatched'),
+      cell: (page) => formatMiddleware(page.middleware),
+    },
+    {
+      fields: ['rendering', 'revalidate', 'renderingReason'],
+      heading: 'RENDER',
+      show: true,
+      cell: (page) => formatRendering(page.rendering),
+    },
+    {
+      fields: ['loading', 'error'],
+      heading: 'STATE UI',
+      show: true,
+      cell: (page) =>
+        page.router === 'pages'
+          ? subtle('-')
+          : formatRouteStates(page.loading, page.error),
+    },
+    {
+      fields: ['layouts'],
+      heading: 'LAYOUTS',
+      show: pages.some((page) => page.layouts.length > 0),
+      cell: (page) => formatLayouts(page.layouts),
+    },
+    {
+      fields: ['segmentConfig'],
+      heading: 'CONFIG',
+      show: pages.some((page) => Object.keys(page.segmentConfig).length > 0),
+      cell: (page) =>
+        chalk.cyan(formatSegmentConfig(page.segmentConfig) || '-'),
+    },
+    {
+      fields: ['file', 'conflictsWith'],
+      heading: 'SOURCE',
+      show: true,
+      cell: (page) => chalk.gray(page.file),
+    },
+  ]
+  // --fields picks and orders columns; related fields share one column
+  const visible = fields
+    ? [
+        ...new Set(
+          fields.flatMap((name) =>
+            columns.filter((column) => column.fields.includes(name)),
+          ),
+        ),
+      ]
+    : columns.filter((column) => column.show)
 
-  const pathHeader = chalk.dim('ROUTE')
-  const statesHeader = chalk.dim('STATE UI')
-  const fileHeader = chalk.dim('SOURCE')
+  const formatted = pages.map((page, index) =>
+    visible.map((column) => column.cell(page, index)),
+  )
+  const headers = visible.map((column) => chalk.dim(column.heading))
 
-  const columnWidths = [
-    Math.max(
-      visibleLength(pathHeader),
-      ...formatted.map((entry) => visibleLength(entry.path)),
-    ),
-    Math.max(
-      visibleLength(statesHeader),
-      ...formatted.map((entry) => visibleLength(entry.states)),
-    ),
+  const columnWidths = headers.map((heading, index) =>
     Math.max(
-      visibleLength(fileHeader),
-      ...formatted.map((entry) => visibleLength(entry.file)),
+      visibleLength(heading),
+      ...formatted.map((cells) => visibleLength(cells[index])),
     ),
-  ]
+  )
 
   const topBorder = buildBorder(columnWidths, '=')
   const headerDivider = buildBorder(columnWidths, '-')
 
-  const headerRow = buildRow(
-    [pathHeader, statesHeader, fileHeader],
-    columnWidths,
-    chalk.dim,
-  )
+  const headerRow = buildRow(headers, columnWidths, chalk.dim)
 
-  const rows = formatted.map((entry) =>
-    buildRow([entry.path, entry.states, entry.file], columnWidths),
-  )
+  const rows = formatted.flatMap((cells, index) => {
+    const row = buildRow(cells, columnWidths)
+    // Nested groups stay in the section of their outermost group
+    const startsGroup =
+      byGroup &&
+      index > 0 &&
+      pages[index].groups?.[0] !== pages[index - 1].groups?.[0]
+    return startsGroup ? [chalk.dim(headerDivider), row] : [row]
+  })
 
   return [
     '',
@@ -88,11 +280,23 @@ function renderTable(pages: PageInfo[]): string {
     chalk.dim(headerDivider),
     ...rows,
     chalk.dim(topBorder),
+    ...renderConflicts(pages),
+    ...renderSlotWarnings(pages),
     '',
     renderLegend(),
   ].join('\n')
 }
 
+// With --by-group, the label is only printed on the first row of each group
+function formatGroup(
+  labels: string[],
+  index: number,
+  byGroup: boolean,
+): string {
+  if (byGroup && index > 0 && labels[index] === labels[index - 1]) return ''
+  return labels[index] ? chalk.magentaBright(labels[index]) : subtle('-')
+}
+
 function formatRouteStates(
   loadingStatus: FallbackStatus,
   errorStatus: FallbackStatus,
@@ -121,34 +325,100 @@ function symbolForStatus(
   return chalk.gray('○')
 }
 
-function highlightDynamicSegments(pathLabel: string): string {
-  return pathLabel.replace(/:(\w+(?:\*\??)?)/g, (_, name) =>
-    PARAM_COLOR(`:${name}`),
-  )
+// Breadcrumb of the segments that own each layout, e.g. `/ › (shop) › blog`
+function formatLayouts(layouts: string[]): string {
+  if (!layouts.length) return subtle('-')
+  return layouts
+    .map((layout) => {
+      const segments = layout.split('/')
+      const owner = segments.slice(segments.lastIndexOf('app') + 1, -1)
+      return owner.length ? owner[owner.length - 1] : '/'
+    })
+    .join(subtle(' › '))
 }
 
-function buildRow(
-  cells: string[],
-  widths: number[],
-  transform: (value: string) => string = (value) => value,
-): string {
-  const padded = cells.map((cell, index) => padEndAnsi(cell, widths[index]))
-  return transform(`| ${padded.join(' | ')} |`)
+// Slot and intercepting pages are listed as variants under the URL they share
+function formatRoute(page: PageInfo, previous: PageInfo | undefined): string {
+  const variant = [
+    page.slot ? `@${page.slot.name}` : '',
+    page.intercepts ? page.intercepts.convention : '',
+  ]
+    .filter(Boolean)
+    .join(' ')
+  if (!variant) return formatPath(page.path, page.conflictsWith)
+
+  const label = chalk.magenta(variant)
+  const isGrouped = previous?.path === page.path && previous.app === page.app
+  return isGrouped
+    ? `${subtle('  ↳')} ${label}`
+    : `${formatPath(page.path, page.conflictsWith)} ${label}`
 }
 
-function buildBorder(widths: number[], fill: '-' | '=' = '-'): string {
-  const segments = widths.map((width) => fill.repeat(width + 2))
-  return `+${segments.join('+')}+`
+function formatPath(pathLabel: string, conflictsWith?: string): string {
+  const label = highlightDynamicSegments(pathLabel)
+  return conflictsWith ? `${label} ${chalk.redBright('⚠')}` : label
 }
 
-function padEndAnsi(text: string, target: number): string {
-  const printable = visibleLength(text)
-  if (printable >= target) return text
-  return text + ' '.repeat(target - printable)
+function formatRouter(router: RouterType): string {
+  return router === 'pages' ? chalk.yellow('pages') : subtle('app')
 }
 
-function visibleLength(text: string): number {
-  return text.replace(ANSI_PATTERN, '').length
+function formatMiddleware(coverage: MiddlewareCoverage): string {
+  if (coverage === 'matched') return accent('matched')
+  if (coverage === 'unknown') return chalk.yellow('unknown')
+  return subtle('unmatched')
+}
+
+// A build that disagrees with the prediction is flagged next to the mode
+function formatRendering(rendering: RenderingPrediction): string {
+  const { mode, revalidate, build } = rendering
+  const label =
+    mode === 'isr'
+      ? chalk.blueBright(`isr ${revalidate}s`)
+      : mode === 'dynamic'
+        ? chalk.yellow('dynamic')
+        : mode === 'ppr'
+          ? chalk.magenta('ppr')
+          : accent('static')
+  if (!build || build.matches) return label
+  return `${label} ${chalk.redBright(`⚠ build: ${build.mode}`)}`
+}
+
+function renderConflicts(pages: PageInfo[]): string[] {
+  const conflicts = pages.filter(
+    (page) => page.router === 'app' && page.conflictsWith,
+  )
+  if (!conflicts.length) return []
+
+  return [
+    '',
+    ...conflicts.map((page) =>
+      chalk.redBright(
+        `⚠ ${page.path} is claimed by both ${page.file} and ${page.conflictsWith}`,
+      ),
+    ),
+  ]
+}
+
+function renderSlotWarnings(pages: PageInfo[]): string[] {
+  const missing = new Set<string>()
+  for (const page of pages) {
+    if (page.slot && !page.slot.default) {
+      missing.add(
+        page.app ? `${page.app}: @${page.slot.name}` : `@${page.slot.name}`,
+      )
+    }
+  }
+  if (!missing.size) return []
+
+  return [
+    '',
+    ...[...missing].map((slot) =>
+      chalk.yellow(
+        `⚠ Slot ${slot} has no default file; unmatched URLs render a 404 on a hard navigation`,
+      ),
+    ),
+  ]
 }
 
 function renderLegend(): string {
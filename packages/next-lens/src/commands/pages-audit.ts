@@ -0,0 +1,142 @@
+import chalk from 'chalk'
+import { Command } from 'commander'
+import { loadCommandConfig } from '../lib/config'
+import {
+  AUDIT_RULES,
+  auditPages,
+  type AuditIssue,
+  type AuditRule,
+} from '../lib/page-audit'
+import { applyColorOption } from '../lib/output'
+import { getPageRoutes } from '../lib/page-routes'
+import { matchesRouteGroups } from '../lib/route-groups'
+import { createScanSession, formatScanStats } from '../lib/scanner'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
+
+const RULE_LABELS: Record<AuditRule, string> = {
+  'missing-title': 'Missing title',
+  'missing-description': 'Missing description',
+  'missing-static-params': 'Dynamic routes without generateStaticParams',
+  'duplicate-title': 'Duplicate titles',
+}
+
+const primary = chalk.cyanBright
+const accent = chalk.green
+const subtle = chalk.dim
+
+export const pagesAuditCommand = new Command('pages:audit')
+  .description(
+    'Audit App Router pages for missing titles and descriptions, duplicate titles, and dynamic routes without generateStaticParams.',
+  )
+  .argument(
+    '[target-directory]',
+    'Path to the Next.js project (defaults to the current working directory)',
+  )
+  .option(
+    '-r, --rule <rule...>',
+    `Only run these checks (${AUDIT_RULES.join(', ')})`,
+  )
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .option(
+    '-g, --group <name...>',
+    'Only audit pages inside these route groups (e.g., marketing or "(auth)")',
+  )
+  .option('--no-color', 'Print the report without colors')
+  .option('--stats', 'Print scan timings and cache hits after the report')
+  .option(
+    '--cache',
+    'Keep parsed modules in .next-lens/cache/ to speed up the next run',
+  )
+  .action(async (targetDirectory, options, command) => {
+    try {
+      const rules = parseRules(options.rule)
+      applyColorOption(options)
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const { scanOptions } = await loadCommandConfig(root, command)
+      const session = createScanSession(root, scanOptions)
+      const pages = (await getPageRoutes(session.root, { session })).filter(
+        (page) => matchesRouteGroups(page.groups, options.group),
+      )
+      await session.persist()
+
+      const issues = auditPages(pages, { rules })
+      const audited = pages.filter((page) => page.router === 'app').length
+      console.log(renderReport(issues, audited))
+
+      if (options.stats) {
+        console.log(subtle(`\n${formatScanStats(session.getStats())}`))
+      }
+    } catch (error) {
+      console.error(`Failed to audit pages: ${(error as Error).message}`)
+      process.exit(1)
+    }
+  })
+
+function parseRules(values: string[] | undefined): AuditRule[] | undefined {
+  if (!values?.length) return undefined
+  for (const value of values) {
+    if (!(AUDIT_RULES as readonly string[]).includes(value)) {
+      throw new Error(
+        `Unknown rule "${value}". Expected one of: ${AUDIT_RULES.join(', ')}`,
+      )
+    }
+  }
+  return values as AuditRule[]
+}
+
+function renderReport(issues: AuditIssue[], audited: number): string {
+  const header = chalk.bold(primary('Next.js Page Audit'))
+  const subtitle = subtle(
+    `Checked ${accent(audited.toString())} page${audited === 1 ? '' : 's'}, found ${
+      issues.length ? chalk.yellow(issues.length.toString()) : accent('0')
+    } issue${issues.length === 1 ? '' : 's'}`,
+  )
+  if (!issues.length) return ['', header, subtitle].join('\n')
+
+  const showApp = issues.some((issue) => issue.app)
+  const pathWidth = Math.max(
+    ...issues.map((issue) => formatLocation(issue, showApp).length),
+  )
+
+  const sections = AUDIT_RULES.flatMap((rule) => {
+    const matching = issues.filter((issue) => issue.rule === rule)
+    if (!matching.length) return []
+    return [
+      '',
+      chalk.bold(`${RULE_LABELS[rule]} ${subtle(`(${matching.length})`)}`),
+      ...matching.map((issue) =>
+        [
+          ' ',
+          chalk.yellow('⚠'),
+          formatLocation(issue, showApp).padEnd(pathWidth),
+          chalk.gray(issue.file),
+          rule === 'duplicate-title' ? subtle(issue.message) : '',
+        ]
+          .filter(Boolean)
+          .join(' '),
+      ),
+    ]
+  })
+
+  return ['', header, subtitle, ...sections].join('\n')
+}
+
+function formatLocation(issue: AuditIssue, showApp: boolean): string {
+  return showApp && issue.app ? `${issue.app} ${issue.path}` : issue.path
+}
+
+export default pagesAuditCommand
@@ -2,6 +2,7 @@ import chalk from 'chalk'
 import { Command } from 'commander'
 import open from 'open'
 
+import { loadCommandConfig } from '@/lib/config'
 import { chooseAvailablePort } from '@/lib/inspector/port'
 import { startInspectorServer } from '@/lib/inspector/server'
 import { ensureDirectory, resolveTargetDirectory } from '@/lib/utils'
@@ -28,12 +29,29 @@ export const raycastCommand = new Command('raycast')
     'Port to run the API server on',
     String(DEFAULT_PORT),
   )
-  .action(async (targetDirectory, options) => {
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .action(async (targetDirectory, options, command) => {
     try {
       const resolvedTarget = resolveTargetDirectory(targetDirectory ?? null)
       await ensureDirectory(resolvedTarget)
 
-      const requestedPort = parseInt(options.port, 10)
+      const loaded = await loadCommandConfig(resolvedTarget, command)
+      const requestedPort =
+        loaded.cli.port === undefined && loaded.config.port
+          ? loaded.config.port
+          : parseInt(options.port, 10)
       if (isNaN(requestedPort) || requestedPort < 1 || requestedPort > 65535) {
         console.error(chalk.red('Invalid port number'))
         process.exit(1)
@@ -55,6 +73,8 @@ export const raycastCommand = new Command('raycast')
         port,
         uiMode: 'none',
         pathFormatForLists: 'absolute',
+        scanOptions: loaded.scanOptions,
+        routePrefix: loaded.routePrefix,
       })
 
       printReady({ port })
@@ -0,0 +1,222 @@
+import chalk from 'chalk'
+import { Command } from 'commander'
+import { loadCommandConfig } from '../lib/config'
+import {
+  buildBorder,
+  buildRow,
+  highlightDynamicSegments,
+  visibleLength,
+} from '../lib/format'
+import {
+  applyColorOption,
+  formatRecords,
+  parseOutputFormat,
+  type OutputField,
+} from '../lib/output'
+import {
+  diffRouteSnapshots,
+  loadRouteSnapshot,
+  type RouteChange,
+  type RouteChangeType,
+  type RouteDiff,
+} from '../lib/route-diff'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
+
+const DIFF_FORMATS = ['table', 'markdown', 'json'] as const
+
+const primary = chalk.cyanBright
+const accent = chalk.green
+const subtle = chalk.dim
+
+const CHANGE_LABELS: Record<RouteChangeType, string> = {
+  'route-removed': 'route removed',
+  'methods-removed': 'methods removed',
+  'params-renamed': 'params renamed',
+  'coverage-lost': 'fallback removed',
+  'route-added': 'route added',
+  'methods-added': 'methods added',
+  'coverage-gained': 'fallback added',
+}
+
+const CHANGE_FIELDS: OutputField<RouteChange>[] = [
+  { name: 'change', value: (change) => CHANGE_LABELS[change.type] },
+  { name: 'route', value: (change) => change.path },
+  { name: 'details', value: formatDetails },
+  { name: 'file', value: (change) => change.file },
+]
+
+export const routesDiffCommand = new Command('routes:diff')
+  .description(
+    'Compare pages and API routes between two git revisions: added or removed routes and methods, loading/error coverage and renamed params.',
+  )
+  .argument('<base>', 'Git revision to compare from (e.g., main or HEAD~1)')
+  .argument(
+    '[head]',
+    'Git revision to compare to (defaults to the working copy, including uncommitted changes)',
+  )
+  .option(
+    '-C, --directory <path>',
+    'Path to the Next.js project (defaults to the current working directory)',
+  )
+  .option(
+    '-f, --format <format>',
+    `Output format: ${DIFF_FORMATS.join(', ')} (defaults to table)`,
+  )
+  .option('--no-color', 'Print the table without colors')
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .action(async (base: string, head: string | undefined, options, command) => {
+    try {
+      const format = parseOutputFormat(options.format, DIFF_FORMATS)
+      applyColorOption(options)
+
+      const root = await ensureDirectory(
+        resolveTargetDirectory(options.directory ?? null),
+      )
+      const { scanOptions, routePrefix } = await loadCommandConfig(
+        root,
+        command,
+      )
+
+      // One revision at a time: each is a full checkout and scan
+      const before = await loadRouteSnapshot(root, {
+        ref: base,
+        scanOptions,
+        routePrefix,
+      })
+      const after = await loadRouteSnapshot(root, {
+        ref: head,
+        scanOptions,
+        routePrefix,
+      })
+      const diff: RouteDiff = {
+        base,
+        head: head ?? 'working copy',
+        changes: diffRouteSnapshots(before, after),
+      }
+
+      switch (format) {
+        case 'json':
+          console.log(JSON.stringify(diff, null, 2))
+          break
+        case 'markdown':
+          console.log(renderMarkdown(diff))
+          break
+        default:
+          console.log(renderTable(diff))
+      }
+    } catch (error) {
+      console.error(`Failed to diff routes: ${(error as Error).message}`)
+      process.exit(1)
+    }
+  })
+
+// Meant to be pasted into a pull request comment
+function renderMarkdown({ base, head, changes }: RouteDiff): string {
+  const title = `### Route changes: \`${base}\` → \`${head}\``
+  if (!changes.length) return `${title}\n\nNo route changes.`
+
+  const removals = summarizeRemovals(changes)
+  return [
+    title,
+    '',
+    ...(removals ? [`> [!WARNING]`, `> ${removals}`, ''] : []),
+    formatRecords(changes, CHANGE_FIELDS, 'markdown'),
+  ].join('\n')
+}
+
+function renderTable({ base, head, changes }: RouteDiff): string {
+  const header = chalk.bold(primary('Next.js Route Changes'))
+  const range = `${accent(base)} → ${accent(head)}`
+  if (!changes.length) {
+    return ['', header, subtle(`No route changes · ${range}`)].join('\n')
+  }
+
+  const total = changes.length
+  const subtitle = subtle(
+    `Found ${accent(total.toString())} change${total === 1 ? '' : 's'} · ${range}`,
+  )
+  const removals = summarizeRemovals(changes)
+
+  const formatted = changes.map((change) => [
+    formatChange(change.type),
+    highlightDynamicSegments(change.path),
+    formatDetails(change),
+    chalk.gray(change.file),
+  ])
+
+  const headers = [
+    chalk.dim('CHANGE'),
+    chalk.dim('ROUTE'),
+    chalk.dim('DETAILS'),
+    chalk.dim('SOURCE'),
+  ]
+
+  const columnWidths = headers.map((heading, index) =>
+    Math.max(
+      visibleLength(heading),
+      ...formatted.map((cells) => visibleLength(cells[index])),
+    ),
+  )
+
+  const topBorder = buildBorder(columnWidths, '=')
+  const headerDivider = buildBorder(columnWidths, '-')
+
+  return [
+    '',
+    header,
+    subtitle,
+    ...(removals ? [chalk.redBright(removals)] : []),
+    '',
+    chalk.dim(topBorder),
+    buildRow(headers, columnWidths, chalk.dim),
+    chalk.dim(headerDivider),
+    ...formatted.map((cells) => buildRow(cells, columnWidths)),
+    chalk.dim(topBorder),
+  ].join('\n')
+}
+
+// Removed endpoints are easy to miss in review, so they get a line of their own
+function summarizeRemovals(changes: RouteChange[]): string | null {
+  const routes = changes.filter((change) => change.type === 'route-removed')
+  const methods = changes
+    .filter((change) => change.type === 'methods-removed')
+    .reduce((count, change) => count + (change.methods?.length ?? 0), 0)
+
+  const parts = [
+    routes.length &&
+      `${routes.length} API route${routes.length === 1 ? '' : 's'}`,
+    methods && `${methods} HTTP method${methods === 1 ? '' : 's'}`,
+  ].filter(Boolean)
+  if (!parts.length) return null
+
+  return `${parts.join(' and ')} removed`
+}
+
+function formatChange(type: RouteChangeType): string {
+  const label = CHANGE_LABELS[type]
+  if (type.endsWith('removed') || type === 'coverage-lost') {
+    return chalk.redBright(`- ${label}`)
+  }
+  if (type === 'params-renamed') return chalk.yellow(`~ ${label}`)
+  return accent(`+ ${label}`)
+}
+
+function formatDetails(change: RouteChange): string {
+  if (change.previousPath) return `was ${change.previousPath}`
+  if (change.fallback) return change.fallback
+  return change.methods?.join(', ') ?? ''
+}
+
+export default routesDiffCommand
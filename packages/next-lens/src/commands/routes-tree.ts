@@ -0,0 +1,207 @@
+import chalk from 'chalk'
+import { Command } from 'commander'
+import { getApiRoutes } from '../lib/api-routes'
+import { loadCommandConfig } from '../lib/config'
+import { colorizeMethods, highlightDynamicSegments } from '../lib/format'
+import { applyColorOption } from '../lib/output'
+import { getPageRoutes } from '../lib/page-routes'
+import type { RenderingMode } from '../lib/rendering'
+import { matchesRouteGroups } from '../lib/route-groups'
+import { buildRouteTree, type RouteTreeNode } from '../lib/route-tree'
+import { createScanSession, formatScanStats } from '../lib/scanner'
+import {
+  ensureDirectory,
+  resolveTargetDirectory,
+  transformSegment,
+} from '../lib/utils'
+
+const primary = chalk.cyanBright
+const accent = chalk.green
+const subtle = chalk.dim
+
+export const routesTreeCommand = new Command('routes:tree')
+  .description(
+    'Show pages and API routes as a directory tree with layouts, fallbacks, route groups and slots.',
+  )
+  .argument(
+    '[target-directory]',
+    'Path to the Next.js project (defaults to the current working directory)',
+  )
+  .option(
+    '-d, --depth <n>',
+    'Collapse directories nested deeper than this many levels',
+  )
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .option(
+    '-g, --group <name...>',
+    'Only show entries inside these route groups (e.g., marketing or "(auth)")',
+  )
+  .option('--no-color', 'Print the tree without colors')
+  .option('--stats', 'Print scan timings and cache hits after the tree')
+  .option(
+    '--cache',
+    'Keep parsed modules in .next-lens/cache/ to speed up the next run',
+  )
+  .action(async (targetDirectory, options, command) => {
+    try {
+      const depth =
+        options.depth === undefined ? Infinity : Number(options.depth)
+      if (depth < 0 || (depth !== Infinity && !Number.isInteger(depth))) {
+        throw new Error(
+          `Invalid depth: ${options.depth} (expected a whole number)`,
+        )
+      }
+      applyColorOption(options)
+
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const { scanOptions, routePrefix } = await loadCommandConfig(
+        root,
+        command,
+      )
+      const session = createScanSession(root, scanOptions)
+      const [pages, routes] = await Promise.all([
+        getPageRoutes(session.root, { session }),
+        getApiRoutes(session.root, undefined, { session, routePrefix }),
+      ])
+      await session.persist()
+
+      const inGroup = (entry: { groups?: string[] }) =>
+        matchesRouteGroups(entry.groups, options.group)
+      const tree = buildRouteTree(pages.filter(inGroup), routes.filter(inGroup))
+
+      if (!tree.length) {
+        console.log('No pages or API routes found')
+      } else {
+        console.log(renderTree(tree, depth))
+      }
+
+      if (options.stats) {
+        console.log(subtle(`\n${formatScanStats(session.getStats())}`))
+      }
+    } catch (error) {
+      console.error(`Failed to render route tree: ${(error as Error).message}`)
+      process.exit(1)
+    }
+  })
+
+function renderTree(roots: RouteTreeNode[], depth: number): string {
+  const pages = countNodes(roots, (node) => Boolean(node.page))
+  const routes = countNodes(roots, (node) => Boolean(node.route))
+
+  const header = chalk.bold(primary('Next.js Route Tree'))
+  const subtitle = subtle(
+    `Mapped ${accent(pages.toString())} page${pages === 1 ? '' : 's'} and ${accent(routes.toString())} API route${routes === 1 ? '' : 's'}`,
+  )
+
+  const lines = roots.flatMap((root) => [
+    '',
+    formatNode(root, depth === 0),
+    ...renderChildren(root, '', 1, depth),
+  ])
+
+  return ['', header, subtitle, ...lines, '', renderLegend()].join('\n')
+}
+
+function renderChildren(
+  node: RouteTreeNode,
+  indent: string,
+  level: number,
+  depth: number,
+): string[] {
+  if (level > depth) return []
+
+  return node.children.flatMap((child, index) => {
+    const isLast = index === node.children.length - 1
+    const branch = subtle(isLast ? '└── ' : '├── ')
+    const nextIndent = indent + subtle(isLast ? '    ' : '│   ')
+    return [
+      `${indent}${branch}${formatNode(child, level === depth)}`,
+      ...renderChildren(child, nextIndent, level + 1, depth),
+    ]
+  })
+}
+
+function formatNode(node: RouteTreeNode, collapsed: boolean): string {
+  const annotations = [
+    node.kind === 'group' ? chalk.magentaBright('group') : '',
+    node.kind === 'slot' ? chalk.magenta('slot') : '',
+    node.kind === 'intercept' ? chalk.magenta('intercepts') : '',
+    node.page
+      ? `${accent('page')} ${formatRendering(node.page.rendering.mode)}`
+      : '',
+    node.route ? colorizeMethods(node.route.methods) : '',
+    node.layout ? chalk.blue('layout') : '',
+    node.loading ? accent('loading') : '',
+    node.error ? chalk.redBright('error') : '',
+  ]
+
+  // A collapsed directory summarizes what is below it
+  if (collapsed && node.children.length) {
+    const hidden = countNodes(node.children, (child) =>
+      Boolean(child.page || child.route),
+    )
+    annotations.push(subtle(`… ${hidden} more`))
+  }
+
+  const details = annotations.filter(Boolean).join(subtle(' · '))
+  return details ? `${formatSegment(node)}  ${details}` : formatSegment(node)
+}
+
+function formatSegment(node: RouteTreeNode): string {
+  switch (node.kind) {
+    case 'root':
+      return chalk.bold(primary(node.segment))
+    case 'group':
+      return chalk.magentaBright(node.segment)
+    case 'slot':
+      return chalk.magenta(node.segment)
+    case 'intercept': {
+      const [, convention, target] =
+        /^(\(\.{1,3}\)(?:\(\.\.\))?)(.*)$/.exec(node.segment) ?? []
+      return `${chalk.magenta(convention)}${highlightDynamicSegments(transformSegment(target))}`
+    }
+    default:
+      return highlightDynamicSegments(transformSegment(node.segment))
+  }
+}
+
+function formatRendering(mode: RenderingMode): string {
+  if (mode === 'dynamic') return chalk.yellow(mode)
+  if (mode === 'ppr') return chalk.magenta(mode)
+  if (mode === 'isr') return chalk.blueBright(mode)
+  return subtle(mode)
+}
+
+function countNodes(
+  nodes: RouteTreeNode[],
+  matches: (node: RouteTreeNode) => boolean,
+): number {
+  return nodes.reduce(
+    (count, node) =>
+      count + Number(matches(node)) + countNodes(node.children, matches),
+    0,
+  )
+}
+
+function renderLegend(): string {
+  const group = chalk.whiteBright('(group) not part of the URL')
+  const slot = chalk.whiteBright('@slot parallel route')
+  const param = chalk.whiteBright(':param dynamic segment')
+  return chalk.dim(`${group}  ${slot}  ${param}`)
+}
+
+export default routesTreeCommand
@@ -0,0 +1,46 @@
+import { Command } from 'commander'
+import { loadCommandConfig, readTemplates } from '../lib/config'
+import { runTui } from '../lib/tui/app'
+import { ensureDirectory, resolveTargetDirectory } from '../lib/utils'
+
+export const tuiCommand = new Command('tui')
+  .description(
+    'Browse pages and API routes in a full-screen terminal UI with fuzzy search, source previews and quick edits.',
+  )
+  .argument(
+    '[target-directory]',
+    'Path to the Next.js project (defaults to the current working directory)',
+  )
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .action(async (targetDirectory, _options, command) => {
+    try {
+      const root = await ensureDirectory(
+        resolveTargetDirectory(targetDirectory ?? null),
+      )
+      const loaded = await loadCommandConfig(root, command)
+
+      await runTui({
+        root,
+        scanOptions: loaded.scanOptions,
+        routePrefix: loaded.routePrefix,
+        templates: await readTemplates(loaded),
+      })
+    } catch (error) {
+      console.error(`Failed to start TUI: ${(error as Error).message}`)
+      process.exit(1)
+    }
+  })
+
+export default tuiCommand
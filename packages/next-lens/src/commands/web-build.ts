@@ -5,6 +5,7 @@ import { fileURLToPath } from 'url'
 import chalk from 'chalk'
 import { Command } from 'commander'
 
+import { loadCommandConfig } from '@/lib/config'
 import { collectInspectorData } from '@/lib/inspector/data'
 import { ensureDirectory, resolveTargetDirectory } from '@/lib/utils'
 
@@ -27,12 +28,30 @@ export const webBuildCommand = new Command('web:build')
     `Output directory for the static build (default: ${OUTPUT_DIR})`,
     OUTPUT_DIR,
   )
-  .action(async (targetDirectory, options) => {
+  .option(
+    '--include <glob...>',
+    'Only scan route and page files matching these globs',
+  )
+  .option(
+    '--exclude <glob...>',
+    'Skip files and directories matching these globs',
+  )
+  .option('--no-gitignore', 'Also scan files ignored by .gitignore')
+  .option(
+    '--app <name...>',
+    'Only scan these monorepo apps (package or directory names)',
+  )
+  .action(async (targetDirectory, options, command) => {
     try {
       const resolvedTarget = resolveTargetDirectory(targetDirectory ?? null)
       await ensureDirectory(resolvedTarget)
 
-      const outputDir = path.resolve(resolvedTarget, options.output)
+      const loaded = await loadCommandConfig(resolvedTarget, command)
+      const configOutput = loaded.config.webBuild?.output
+      const outputDir =
+        loaded.cli.output === undefined && configOutput
+          ? path.resolve(loaded.directory, configOutput)
+          : path.resolve(resolvedTarget, options.output)
 
       printIntro({ target: resolvedTarget, output: outputDir })
 
@@ -41,6 +60,7 @@ export const webBuildCommand = new Command('web:build')
       const data = await collectInspectorData({
         targetDirectory: resolvedTarget,
         readonly: true,
+        ...loaded.scanOptions,
       })
 
       console.log(
@@ -0,0 +1,13 @@
+export { defineConfig } from './lib/define-config'
+export type {
+  LintRuleSetting,
+  McpToolName,
+  NextLensConfig,
+} from './lib/define-config'
+export type {
+  LintContext,
+  LintReport,
+  LintRule,
+  LintRuleDefinition,
+  LintSeverity,
+} from './lib/lint/rules'
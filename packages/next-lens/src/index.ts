@@ -3,12 +3,20 @@
 import { Command } from 'commander'
 
 import aboutCommand from '@/commands/about'
+import actionsListCommand from '@/commands/actions-list'
 import apiListCommand from '@/commands/api-list'
+import apiOpenApiCommand from '@/commands/api-openapi'
+import componentsBoundariesCommand from '@/commands/components-boundaries'
 import infoCommand from '@/commands/info'
 import inspectorCommand from '@/commands/inspector'
+import lintCommand from '@/commands/lint'
 import mcpCommand from '@/commands/mcp'
 import pageListCommand from '@/commands/page-list'
+import pagesAuditCommand from '@/commands/pages-audit'
 import raycastCommand from '@/commands/raycast'
+import routesDiffCommand from '@/commands/routes-diff'
+import routesTreeCommand from '@/commands/routes-tree'
+import tuiCommand from '@/commands/tui'
 import webBuildCommand from '@/commands/web-build'
 
 import packageJson from '../package.json'
@@ -26,9 +34,17 @@ async function main() {
   program
     .addCommand(aboutCommand)
     .addCommand(apiListCommand)
+    .addCommand(apiOpenApiCommand)
     .addCommand(pageListCommand)
+    .addCommand(pagesAuditCommand)
+    .addCommand(actionsListCommand)
+    .addCommand(componentsBoundariesCommand)
+    .addCommand(routesTreeCommand)
+    .addCommand(routesDiffCommand)
+    .addCommand(lintCommand)
     .addCommand(infoCommand)
     .addCommand(inspectorCommand)
+    .addCommand(tuiCommand)
     .addCommand(raycastCommand)
     .addCommand(webBuildCommand)
     .addCommand(mcpCommand)
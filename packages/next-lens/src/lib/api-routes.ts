@@ -1,16 +1,109 @@
-import { promises as fs } from 'fs'
 import path from 'path'
+import { inferRouteSchemas, type HandlerSchema } from './handler-schema'
+import {
+  resolveMiddlewareCoverage,
+  type MiddlewareCoverage,
+} from './middleware'
+import type { DocComment, SourceLocation } from './module-exports'
+import {
+  ANY_METHOD,
+  derivePagesRouterPath,
+  flagRouterConflicts,
+  isPagesApiFile,
+  projectDirectoryOf,
+  type RouterType,
+} from './pages-router'
+import {
+  createScanSession,
+  PAGE_BASENAME,
+  PAGE_EXTENSIONS,
+  type ModuleSummary,
+  type ScanOptions,
+  type ScanSession,
+} from './scanner'
+import { collectRouteGroups, findGroupRootLayout } from './route-groups'
+import type { SegmentConfig } from './segment-config'
 import {
   ensureDirectory,
+  matchesRoutePrefix,
+  normalizeRelative,
   resolveTargetDirectory,
-  SKIP_DIRECTORIES,
   transformSegment,
 } from './utils'
+import { findOwningPackage } from './workspaces'
+
+export type RouteHandler = SourceLocation & {
+  method: string
+  /** JSDoc on the handler declaration. */
+  doc?: DocComment
+  /**
+   * Inferred request/response shapes, present when `inferSchemas` is enabled
+   * and the handler resolves to a function in this project.
+   */
+  schema?: HandlerSchema
+}
 
 export type RouteInfo = {
   file: string
   methods: string[]
   path: string
+  handlers: RouteHandler[]
+  segmentConfig: SegmentConfig
+  /** Whether the route is an App Router handler or under `pages/api`. */
+  router: RouterType
+  /**
+   * Whether `middleware.ts` (or `proxy.ts`) runs for the route according to
+   * its `config.matcher`.
+   */
+  middleware: MiddlewareCoverage
+  /**
+   * Route groups the file sits in, outermost first and without parentheses,
+   * e.g. `['marketing']` for `app/(marketing)/api/ping/route.ts`.
+   */
+  groups?: string[]
+  /**
+   * Root layout of the route's section when the app has several root layouts
+   * (one per route group) instead of `app/layout`.
+   */
+  rootLayout?: string
+  /**
+   * File that claims the same URL, which `next build` rejects: a `page` in
+   * the same segment, or a route in the other router.
+   */
+  conflictsWith?: string
+  /**
+   * Name of the monorepo package that owns the route. Only set when the
+   * project is part of a workspace.
+   */
+  app?: string
+}
+
+type RouteMeta = {
+  path: string
+  router: RouterType
+  middleware: MiddlewareCoverage
+  /** Project directory, so only routers of one app can conflict. */
+  project: string
+  conflictsWith?: string
+  groups?: string[]
+  rootLayout?: string
+}
+
+export type ApiRoutesOptions = ScanOptions & {
+  /**
+   * Reuse a scan session, e.g. to share one walk with `getPageRoutes`.
+   */
+  session?: ScanSession
+  /**
+   * Only include routes whose URL is this prefix or nested below it, e.g.
+   * `/api`.
+   */
+  routePrefix?: string
+  /**
+   * Run the TypeScript type checker over route files to infer request and
+   * response schemas. Slower than the default syntax-only scan.
+   */
+  inferSchemas?: boolean
 }
 
 export const HTTP_METHODS = new Set([
@@ -33,52 +126,141 @@ const METHOD_ORDER = [
   'DELETE',
 ]
 
-const ROUTE_BASENAME = 'route'
-const ROUTE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx'])
-
-const COMMENT_BLOCK_PATTERN = /\/\*[\s\S]*?\*\//g
-const COMMENT_LINE_PATTERN = /(^|[^\S\r\n])\/\/.*$/gm
-const FUNCTION_EXPORT_PATTERN =
-  /\bexport\s+(?:async\s+)?function\s+([A-Za-z_$][\w$]*)/g
-const VARIABLE_EXPORT_PATTERN =
-  /\bexport\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)/g
-const DESTRUCTURED_EXPORT_PATTERN =
-  /\bexport\s+(?:const|let|var)\s*{\s*([^}]+)\s*}\s*=/g
-const NAMED_EXPORT_PATTERN = /\bexport\s*{([^}]+)}/g
-
 export async function getApiRoutes(
   targetDirectory: string | null,
   methodFilter?: string,
+  options: ApiRoutesOptions = {},
 ): Promise<RouteInfo[]> {
-  const resolvedTarget = resolveTargetDirectory(targetDirectory)
-  const root = await ensureDirectory(resolvedTarget)
-
-  const routeFiles = await findRouteFiles(root)
+  const session =
+    options.session ??
+    createScanSession(
+      await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+      options,
+    )
+  const { root } = session
+  const { routeFiles, pagesRouterFiles } = await session.files()
+  const workspace = await session.workspace()
 
   // Normalize method filter to uppercase for case-insensitive matching
   const normalizedFilter = methodFilter?.toUpperCase()
 
-  const routes: RouteInfo[] = []
+  const schemas = options.inferSchemas
+    ? inferRouteSchemas(
+        root,
+        routeFiles.filter((filePath) => isInAppDirectory(root, filePath)),
+      )
+    : null
+
+  const entries: Array<{ entry: RouteInfo; project: string }> = []
+  const addRoute = (
+    filePath: string,
+    meta: RouteMeta,
+    handlers: RouteHandler[],
+    segmentConfig: SegmentConfig,
+  ) => {
+    if (!matchesRoutePrefix(meta.path, options.routePrefix)) return
+
+    const filteredHandlers = normalizedFilter
+      ? handlers.filter(
+          (handler) =>
+            handler.method === normalizedFilter ||
+            handler.method === ANY_METHOD,
+        )
+      : handlers
+
+    if (!filteredHandlers.length) return
+
+    const ordered = [...filteredHandlers].sort((a, b) =>
+      compareMethods(a.method, b.method),
+    )
+    const routeSchemas = schemas?.get(filePath)
+    for (const handler of ordered) {
+      const schema = routeSchemas?.get(handler.method)
+      if (schema) handler.schema = schema
+    }
+    const owner = workspace && findOwningPackage(workspace, filePath)
+    entries.push({
+      entry: {
+        file: normalizeRelative(root, filePath),
+        methods: ordered.map(({ method }) => method),
+        path: meta.path,
+        handlers: ordered,
+        segmentConfig,
+        router: meta.router,
+        middleware: meta.middleware,
+        ...(meta.groups ? { groups: meta.groups } : {}),
+        ...(meta.rootLayout ? { rootLayout: meta.rootLayout } : {}),
+        ...(meta.conflictsWith ? { conflictsWith: meta.conflictsWith } : {}),
+        ...(owner ? { app: owner.name } : {}),
+      },
+      project: meta.project,
+    })
+  }
+
   for (const filePath of routeFiles) {
-    const routeMeta = deriveRouteMeta(filePath, root)
+    const routeMeta = await deriveRouteMeta(session, filePath)
     if (!routeMeta) continue
 
-    const methods = await extractHttpMethods(filePath)
-    if (!methods.length) continue
+    const summary = await session.summarize(filePath)
+    const handlers = extractHandlers(summary, root)
+    if (!handlers.length) continue
+
+    // A page in the same segment claims the URL as well
+    const page = await session.findConventionFile(
+      path.dirname(filePath),
+      PAGE_BASENAME,
+      PAGE_EXTENSIONS,
+    )
+    addRoute(
+      filePath,
+      page
+        ? { ...routeMeta, conflictsWith: normalizeRelative(root, page) }
+        : routeMeta,
+      handlers,
+      summary.segmentConfig,
+    )
+  }
 
-    const filteredMethods = normalizedFilter
-      ? methods.filter((method) => method === normalizedFilter)
-      : methods
+  for (const { file: filePath, pagesDirectory } of pagesRouterFiles) {
+    if (!isPagesApiFile(filePath, pagesDirectory)) continue
+
+    const summary = await session.summarize(filePath)
+    const handlers = extractPagesApiHandlers(summary, root)
+    if (!handlers.length) continue
+
+    const routePath = derivePagesRouterPath(filePath, pagesDirectory)
+    addRoute(
+      filePath,
+      {
+        path: routePath,
+        router: 'pages',
+        middleware: await resolveMiddlewareCoverage(
+          session,
+          pagesDirectory,
+          routePath,
+        ),
+        project: projectDirectoryOf(pagesDirectory),
+      },
+      handlers,
+      {},
+    )
+  }
 
-    if (!filteredMethods.length) continue
+  if (!options.session) await session.persist()
 
-    routes.push({ ...routeMeta, methods: sortMethods(filteredMethods) })
-  }
+  flagRouterConflicts(entries)
+  const routes = entries.map(({ entry }) => entry)
 
   routes.sort((a, b) => {
     const pathCompare = a.path.localeCompare(b.path)
     if (pathCompare !== 0) return pathCompare
 
+    const appCompare = (a.app ?? '').localeCompare(b.app ?? '')
+    if (appCompare !== 0) return appCompare
+
+    const routerCompare = a.router.localeCompare(b.router)
+    if (routerCompare !== 0) return routerCompare
+
     const methodsA = a.methods.join(',')
     const methodsB = b.methods.join(',')
     return methodsA.localeCompare(methodsB)
@@ -87,38 +269,15 @@ export async function getApiRoutes(
   return routes
 }
 
-async function findRouteFiles(root: string): Promise<string[]> {
-  const results: string[] = []
-
-  async function walk(current: string) {
-    const entries = await fs.readdir(current, { withFileTypes: true })
-
-    for (const entry of entries) {
-      const entryPath = path.join(current, entry.name)
-
-      if (entry.isDirectory()) {
-        if (SKIP_DIRECTORIES.has(entry.name)) continue
-        await walk(entryPath)
-        continue
-      }
-
-      if (!entry.isFile()) continue
-      if (!isRouteFile(entry.name)) continue
-
-      results.push(entryPath)
-    }
-  }
-
-  await walk(root)
-  return results
-}
-
-function isRouteFile(fileName: string): boolean {
-  const parsed = path.parse(fileName)
-  return parsed.name === ROUTE_BASENAME && ROUTE_EXTENSIONS.has(parsed.ext)
+function isInAppDirectory(root: string, filePath: string): boolean {
+  return path.relative(root, filePath).split(path.sep).includes('app')
 }
 
-function deriveRouteMeta(filePath: string, root: string): RouteInfo | null {
+async function deriveRouteMeta(
+  session: ScanSession,
+  filePath: string,
+): Promise<RouteMeta | null> {
+  const { root } = session
   const relativePath = path.relative(root, filePath)
   const segments = relativePath.split(path.sep)
   const appIndex = segments.lastIndexOf('app')
@@ -132,82 +291,73 @@ function deriveRouteMeta(filePath: string, root: string): RouteInfo | null {
     return true
   })
 
-  if (!cleaned.length) return null
-  if (cleaned[0] !== 'api') return null
-
+  const appRootPath = path.join(root, ...segments.slice(0, appIndex + 1))
   const routePath = '/' + cleaned.map(transformSegment).join('/')
-  const normalizedFile = relativePath.split(path.sep).join('/')
+  const groups = collectRouteGroups(routeSegments)
+  const [rootLayout, middleware] = await Promise.all([
+    findGroupRootLayout(session, appRootPath, path.dirname(filePath)),
+    resolveMiddlewareCoverage(session, appRootPath, routePath),
+  ])
 
   return {
-    file: normalizedFile,
-    methods: [],
     path: routePath,
+    router: 'app',
+    middleware,
+    project: projectDirectoryOf(appRootPath),
+    ...(groups.length ? { groups } : {}),
+    ...(rootLayout ? { rootLayout } : {}),
   }
 }
 
-async function extractHttpMethods(filePath: string): Promise<string[]> {
-  const source = await fs.readFile(filePath, 'utf8')
-  const sanitized = stripComments(source)
-  const methods = new Set<string>()
-
-  const register = (name: string | undefined) => {
-    if (!name) return
-    const upper = name.toUpperCase()
-    if (HTTP_METHODS.has(upper)) methods.add(upper)
-  }
-
-  let match: RegExpExecArray | null
+function extractHandlers(summary: ModuleSummary, root: string): RouteHandler[] {
+  const handlers: RouteHandler[] = []
 
-  while ((match = FUNCTION_EXPORT_PATTERN.exec(sanitized))) {
-    register(match[1])
-  }
-
-  while ((match = VARIABLE_EXPORT_PATTERN.exec(sanitized))) {
-    register(match[1])
-  }
-
-  while ((match = DESTRUCTURED_EXPORT_PATTERN.exec(sanitized))) {
-    const names = extractExportedNames(match[1])
-    for (const name of names) register(name)
-  }
-
-  while ((match = NAMED_EXPORT_PATTERN.exec(sanitized))) {
-    const names = extractExportedNames(match[1])
-    for (const name of names) register(name)
+  for (const [name, binding] of Object.entries(summary.exports)) {
+    if (!HTTP_METHODS.has(name)) continue
+    handlers.push({
+      method: name,
+      ...binding,
+      file: normalizeRelative(root, binding.file),
+    })
   }
 
-  return Array.from(methods)
+  return handlers
 }
 
-function stripComments(source: string): string {
-  return source
-    .replace(COMMENT_BLOCK_PATTERN, ' ')
-    .replace(COMMENT_LINE_PATTERN, (_, prefix: string = '') => prefix)
-}
+/**
+ * Handlers of a `pages/api` route: one per method its default export checks
+ * `req.method` against, or a single `ANY` handler when it checks none.
+ */
+function extractPagesApiHandlers(
+  summary: ModuleSummary,
+  root: string,
+): RouteHandler[] {
+  const handler = summary.exports.default
+  if (!handler) return []
+
+  const methods = Object.entries(summary.requestMethods ?? {})
+  if (!methods.length) {
+    return [
+      {
+        method: ANY_METHOD,
+        ...handler,
+        file: normalizeRelative(root, handler.file),
+      },
+    ]
+  }
 
-function extractExportedNames(list: string): string[] {
-  return list
-    .split(',')
-    .map((part) => part.trim())
-    .filter(Boolean)
-    .map((entry) => {
-      const match = entry.match(
-        /^([A-Za-z_$][\w$]*)(?:\s+as\s+([A-Za-z_$][\w$]*))?$/i,
-      )
-      if (!match) return ''
-      const [, original, alias] = match
-      return (alias ?? original).trim()
-    })
-    .filter(Boolean)
+  return methods.map(([method, location]) => ({
+    method,
+    ...location,
+    file: normalizeRelative(root, location.file),
+  }))
 }
 
-function sortMethods(methods: string[]): string[] {
-  return [...methods].sort((a, b) => {
-    const indexA = METHOD_ORDER.indexOf(a)
-    const indexB = METHOD_ORDER.indexOf(b)
-    if (indexA === -1 && indexB === -1) return a.localeCompare(b)
-    if (indexA === -1) return 1
-    if (indexB === -1) return -1
-    return indexA - indexB
-  })
+function compareMethods(a: string, b: string): number {
+  const indexA = METHOD_ORDER.indexOf(a)
+  const indexB = METHOD_ORDER.indexOf(b)
+  if (indexA === -1 && indexB === -1) return a.localeCompare(b)
+  if (indexA === -1) return 1
+  if (indexB === -1) return -1
+  return indexA - indexB
 }
@@ -0,0 +1,297 @@
+import path from 'path'
+import ts from 'typescript'
+import {
+  createModuleResolver,
+  readModuleImports,
+  type ModuleImport,
+  type ModuleResolver,
+} from './imports'
+import { parseSourceFile } from './module-exports'
+import type { ScanSession } from './scanner'
+import { normalizeRelative } from './utils'
+
+/**
+ * Where a module runs. A module imported from both sides ends up in the
+ * server and the client bundle and is `shared`.
+ */
+export type ComponentEnvironment = 'server' | 'client'
+
+export type ModuleEnvironment = ComponentEnvironment | 'shared'
+
+export type ModuleClassification = {
+  file: string
+  environment: ModuleEnvironment
+}
+
+/**
+ * A `'use client'` module where the client bundle starts.
+ */
+export type ClientBoundary = {
+  file: string
+  /**
+   * Server module whose import crosses into the client, with the position of
+   * the import. Missing when the page or layout itself is a client module.
+   */
+  importedBy?: string
+  line?: number
+  column?: number
+}
+
+/**
+ * A server-only package or Node.js built-in imported by a client module.
+ */
+export type ServerOnlyImport = {
+  specifier: string
+  file: string
+  line: number
+  column: number
+  /** Client boundary through which `file` ended up in the client bundle. */
+  boundary: string
+}
+
+export type ComponentBoundaries = {
+  /** Environment of the entry, i.e. the page or layout itself. */
+  environment: ComponentEnvironment
+  boundaries: ClientBoundary[]
+  serverOnlyImports: ServerOnlyImport[]
+  /** Every project module reachable from the entries, by environment. */
+  modules: ModuleClassification[]
+}
+
+/**
+ * Boundaries of a page and its layouts, without the full module list.
+ */
+export type PageComponents = Omit<ComponentBoundaries, 'modules'>
+
+type ModuleNode = {
+  directive?: 'use client' | 'use server'
+  imports: ModuleImport[]
+  /** Resolved project file per specifier; null for packages. */
+  targets: Map<string, string | null>
+}
+
+type BoundaryAnalyzer = {
+  resolve: Promise<ModuleResolver>
+  nodes: Map<string, Promise<ModuleNode>>
+}
+
+/**
+ * Packages that must not end up in a client bundle: the `server-only` marker
+ * and database clients.
+ */
+const SERVER_ONLY_PACKAGES = new Set([
+  'server-only',
+  '@libsql/client',
+  '@neondatabase/serverless',
+  '@planetscale/database',
+  '@prisma/client',
+  '@vercel/kv',
+  '@vercel/postgres',
+  'better-sqlite3',
+  'drizzle-orm',
+  'ioredis',
+  'knex',
+  'mongodb',
+  'mongoose',
+  'mysql',
+  'mysql2',
+  'pg',
+  'postgres',
+  'redis',
+  'sequelize',
+  'sqlite3',
+  'typeorm',
+])
+
+/**
+ * Node.js built-ins that bundlers do not polyfill for the browser.
+ */
+const SERVER_ONLY_BUILTINS = new Set([
+  'child_process',
+  'cluster',
+  'dgram',
+  'dns',
+  'fs',
+  'http2',
+  'inspector',
+  'module',
+  'net',
+  'os',
+  'readline',
+  'tls',
+  'v8',
+  'vm',
+  'worker_threads',
+])
+
+const SCRIPT_EXTENSIONS = new Set([
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+])
+
+// Module graphs are shared by every page of a session
+const analyzers = new WeakMap<ScanSession, BoundaryAnalyzer>()
+
+/**
+ * Follow the imports of a page and its layouts and classify each module as
+ * server or client. Modules start on the server; a `'use client'` module
+ * and everything it imports are client modules. Imports of `'use server'`
+ * modules from the client are action references and are not followed.
+ * Packages are not followed either, but server-only packages and Node.js
+ * built-ins imported by client modules are reported.
+ */
+export async function analyzeComponentBoundaries(
+  session: ScanSession,
+  entries: string[],
+): Promise<ComponentBoundaries> {
+  const analyzer = analyzerFor(session)
+  const classifications = new Map<string, Set<ComponentEnvironment>>()
+  const boundaries = new Map<string, ClientBoundary>()
+  const serverOnlyImports = new Map<string, ServerOnlyImport>()
+  const visited = new Set<string>()
+
+  const visit = async (
+    file: string,
+    environment: ComponentEnvironment,
+    boundary: string | null,
+  ) => {
+    const key = `${environment}:${file}`
+    if (visited.has(key)) return
+    visited.add(key)
+
+    const node = await loadNode(analyzer, file)
+    const environments = classifications.get(file) ?? new Set()
+    environments.add(environment)
+    classifications.set(file, environments)
+
+    for (const entry of node.imports) {
+      const target = node.targets.get(entry.specifier) ?? null
+      if (!target) {
+        if (environment === 'client' && isServerOnly(entry.specifier)) {
+          const found: ServerOnlyImport = {
+            specifier: entry.specifier,
+            file: normalizeRelative(session.root, file),
+            line: entry.line,
+            column: entry.column,
+            boundary: normalizeRelative(session.root, boundary ?? file),
+          }
+          serverOnlyImports.set(`${found.file}:${found.specifier}`, found)
+        }
+        continue
+      }
+      if (!SCRIPT_EXTENSIONS.has(path.extname(target))) continue
+
+      const child = await loadNode(analyzer, target)
+      if (environment === 'client') {
+        if (child.directive === 'use server') continue
+        await visit(target, 'client', boundary)
+        continue
+      }
+      if (child.directive === 'use client') {
+        const found: ClientBoundary = {
+          file: normalizeRelative(session.root, target),
+          importedBy: normalizeRelative(session.root, file),
+          line: entry.line,
+          column: entry.column,
+        }
+        boundaries.set(`${found.file}:${found.importedBy}`, found)
+        await visit(target, 'client', target)
+        continue
+      }
+      await visit(target, 'server', null)
+    }
+  }
+
+  let environment: ComponentEnvironment = 'server'
+  for (const [index, entry] of entries.entries()) {
+    const node = await loadNode(analyzer, entry)
+    const isClient = node.directive === 'use client'
+    if (index === 0 && isClient) environment = 'client'
+    if (isClient) {
+      const found: ClientBoundary = {
+        file: normalizeRelative(session.root, entry),
+      }
+      boundaries.set(found.file, found)
+    }
+    await visit(entry, isClient ? 'client' : 'server', isClient ? entry : null)
+  }
+
+  return {
+    environment,
+    boundaries: [...boundaries.values()],
+    serverOnlyImports: [...serverOnlyImports.values()],
+    modules: [...classifications]
+      .map(([file, environments]) => ({
+        file: normalizeRelative(session.root, file),
+        environment:
+          environments.size > 1 ? ('shared' as const) : [...environments][0],
+      }))
+      .sort((a, b) => a.file.localeCompare(b.file)),
+  }
+}
+
+/**
+ * Whether a bare specifier names a server-only package or a Node.js
+ * built-in, including deep imports such as `fs/promises` or `pg/lib/client`.
+ */
+export function isServerOnly(specifier: string): boolean {
+  if (specifier.startsWith('node:')) return true
+  const segments = specifier.split('/')
+  const name = specifier.startsWith('@')
+    ? segments.slice(0, 2).join('/')
+    : segments[0]
+  return SERVER_ONLY_PACKAGES.has(name) || SERVER_ONLY_BUILTINS.has(name)
+}
+
+function analyzerFor(session: ScanSession): BoundaryAnalyzer {
+  let analyzer = analyzers.get(session)
+  if (!analyzer) {
+    analyzer = { resolve: createModuleResolver(session), nodes: new Map() }
+    analyzers.set(session, analyzer)
+  }
+  return analyzer
+}
+
+function loadNode(
+  analyzer: BoundaryAnalyzer,
+  file: string,
+): Promise<ModuleNode> {
+  let node = analyzer.nodes.get(file)
+  if (!node) {
+    node = (async () => {
+      const sourceFile = await parseSourceFile(file)
+      const resolve = await analyzer.resolve
+      const imports = readModuleImports(sourceFile)
+      const targets = new Map<string, string | null>()
+      for (const { specifier } of imports) {
+        if (!targets.has(specifier)) {
+          targets.set(specifier, await resolve(file, specifier))
+        }
+      }
+      const directive = readDirective(sourceFile)
+      return { ...(directive ? { directive } : {}), imports, targets }
+    })()
+    analyzer.nodes.set(file, node)
+  }
+  return node
+}
+
+function readDirective(
+  sourceFile: ts.SourceFile,
+): ModuleNode['directive'] | undefined {
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isExpressionStatement(statement) ||
+      !ts.isStringLiteral(statement.expression)
+    ) {
+      return undefined
+    }
+    const { text } = statement.expression
+    if (text === 'use client' || text === 'use server') return text
+  }
+  return undefined
+}
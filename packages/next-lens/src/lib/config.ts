@@ -0,0 +1,452 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import type { Command, OptionValues } from 'commander'
+import ts from 'typescript'
+import { z } from 'zod'
+import { MCP_TOOL_NAMES, type NextLensConfig } from './define-config'
+import { pickIgnoreOptions } from './ignore'
+import type { ScaffoldTemplates } from './inspector/file-operations'
+import type { LintRule } from './lint/rules'
+import type { ScanOptions } from './scanner'
+
+export type LoadedConfig = {
+  config: NextLensConfig
+  /** The config file, or null when none was found. */
+  filePath: string | null
+  /** Base for relative paths in the config. */
+  directory: string
+}
+
+export type CommandConfig = LoadedConfig & {
+  /** Options passed explicitly on the command line. */
+  cli: OptionValues
+  /** Config scan options with CLI flags layered on top. */
+  scanOptions: ScanOptions
+  /** `--prefix`, falling back to the config's `routePrefix`. */
+  routePrefix?: string
+}
+
+export class ConfigError extends Error {
+  constructor(filePath: string, message: string) {
+    super(`Invalid ${path.basename(filePath)}: ${message}`)
+    this.name = 'ConfigError'
+  }
+}
+
+export const CONFIG_FILES = [
+  'next-lens.config.ts',
+  'next-lens.config.js',
+  'next-lens.config.json',
+]
+
+const PACKAGE_NAME = 'next-lens'
+const CONFIG_BUILD_DIRECTORY = '.next-lens'
+// Imported files with these extensions are compiled like the config itself
+const COMPILED_EXTENSIONS = new Set(['.ts', '.mts', '.tsx', '.js', '.jsx'])
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.js', '.mjs', '.json']
+
+const stringList = z.array(z.string())
+
+const configSchema = z.strictObject({
+  appDirs: stringList.optional(),
+  include: stringList.optional(),
+  exclude: stringList.optional(),
+  gitignore: z.boolean().optional(),
+  cache: z.boolean().optional(),
+  routePrefix: z.string().optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+  webBuild: z.strictObject({ output: z.string().optional() }).optional(),
+  templates: z
+    .strictObject({
+      loading: z.string().optional(),
+      error: z.string().optional(),
+      handler: z.string().optional(),
+    })
+    .optional(),
+  lint: z
+    .strictObject({
+      rules: z
+        .record(
+          z.string(),
+          z.union([
+            z.enum(['off', 'warn', 'error']),
+            z.strictObject({
+              description: z.string(),
+              severity: z.enum(['warn', 'error']),
+              check: z.custom<LintRule['check']>(
+                (value) => typeof value === 'function',
+                'Expected a function',
+              ),
+            }),
+          ]),
+        )
+        .optional(),
+    })
+    .optional(),
+  mcp: z
+    .strictObject({
+      tools: z.partialRecord(z.enum(MCP_TOOL_NAMES), z.boolean()).optional(),
+    })
+    .optional(),
+})
+
+/**
+ * Find the nearest config file, starting at `directory` and walking up to
+ * the file system root.
+ */
+export async function findConfigFile(
+  directory: string,
+): Promise<string | null> {
+  let current = path.resolve(directory)
+
+  while (true) {
+    for (const fileName of CONFIG_FILES) {
+      const candidate = path.join(current, fileName)
+      try {
+        const stats = await fs.stat(candidate)
+        if (stats.isFile()) return candidate
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue
+        throw error
+      }
+    }
+
+    const parent = path.dirname(current)
+    if (parent === current) return null
+    current = parent
+  }
+}
+
+/**
+ * Load and validate the config that applies to `targetDirectory`. Without a
+ * config file this returns an empty config rooted at the target.
+ */
+export async function loadConfig(
+  targetDirectory: string,
+): Promise<LoadedConfig> {
+  const filePath = await findConfigFile(targetDirectory)
+  if (!filePath) {
+    return { config: {}, filePath: null, directory: targetDirectory }
+  }
+
+  let raw: unknown
+  try {
+    raw = await importConfigFile(filePath)
+  } catch (error) {
+    throw new ConfigError(filePath, (error as Error).message)
+  }
+
+  const result = configSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      issue.path.length
+        ? `${issue.path.join('.')}: ${issue.message}`
+        : issue.message,
+    )
+    throw new ConfigError(filePath, issues.join('; '))
+  }
+
+  return {
+    config: result.data,
+    filePath,
+    directory: path.dirname(filePath),
+  }
+}
+
+/**
+ * Options the user passed on the command line, leaving out defaults, so they
+ * can be layered over the config.
+ */
+export function explicitOptions(command: Command): OptionValues {
+  return Object.fromEntries(
+    Object.entries(command.opts()).filter(([name]) => {
+      const source = command.getOptionValueSource(name)
+      return source === 'cli' || source === 'env'
+    }),
+  )
+}
+
+/**
+ * Load the config for a command's target and merge the command's flags over
+ * it.
+ */
+export async function loadCommandConfig(
+  targetDirectory: string,
+  command: Command,
+): Promise<CommandConfig> {
+  const loaded = await loadConfig(targetDirectory)
+  const cli = explicitOptions(command)
+  return {
+    ...loaded,
+    cli,
+    scanOptions: {
+      ...resolveScanOptions(loaded, {
+        ...pickIgnoreOptions(cli),
+        persistentCache: cli.cache,
+      }),
+      apps: cli.app,
+    },
+    routePrefix: cli.prefix ?? loaded.config.routePrefix,
+  }
+}
+
+/**
+ * Scan options from the config with CLI values layered on top. Config globs
+ * that contain a slash are anchored to the config directory.
+ */
+export function resolveScanOptions(
+  { config, directory }: LoadedConfig,
+  cli: ScanOptions = {},
+): ScanOptions {
+  const anchor = (glob: string) =>
+    glob.includes('/')
+      ? path.resolve(directory, glob).split(path.sep).join('/')
+      : glob
+
+  return {
+    appDirs: config.appDirs?.map((dir) => path.resolve(directory, dir)),
+    include: cli.include ?? config.include?.map(anchor),
+    exclude: cli.exclude ?? config.exclude?.map(anchor),
+    gitignore: cli.gitignore ?? config.gitignore,
+    persistentCache: cli.persistentCache ?? config.cache,
+  }
+}
+
+/**
+ * Read the scaffold templates configured for the inspector.
+ */
+export async function readTemplates({
+  config,
+  directory,
+}: LoadedConfig): Promise<ScaffoldTemplates> {
+  const templates: ScaffoldTemplates = {}
+
+  for (const [name, file] of Object.entries(config.templates ?? {})) {
+    if (!file) continue
+    templates[name as keyof typeof templates] = await fs.readFile(
+      path.resolve(directory, file),
+      'utf8',
+    )
+  }
+
+  return templates
+}
+
+/**
+ * Import a config file. `.ts` and `.js` files, and the script files they
+ * import relatively, are compiled to ES modules in a temporary directory
+ * under `.next-lens/`: nothing is written next to the config where dev server
+ * watchers would see it, packages still resolve from the project's
+ * `node_modules`, and `defineConfig` works even when next-lens is not
+ * installed locally.
+ */
+async function importConfigFile(filePath: string): Promise<unknown> {
+  if (path.extname(filePath) === '.json') {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'))
+  }
+
+  const outputRoot = path.join(path.dirname(filePath), CONFIG_BUILD_DIRECTORY)
+  await fs.mkdir(outputRoot, { recursive: true })
+  const outputDirectory = await fs.mkdtemp(path.join(outputRoot, 'config-'))
+  try {
+    const entry = await compileConfigModule(
+      filePath,
+      outputDirectory,
+      new Map(),
+    )
+    const module = await import(pathToFileURL(entry).href)
+    return module.default
+  } finally {
+    await fs.rm(outputDirectory, { recursive: true, force: true })
+    // Only succeeds when nothing else, such as the scan cache, is in there
+    await fs.rmdir(outputRoot).catch(() => {})
+  }
+}
+
+/**
+ * Compile a module into `outputDirectory` and return the compiled file.
+ * Relative imports point at the compiled copies of script files, or at the
+ * original file for anything else, e.g. JSON.
+ */
+async function compileConfigModule(
+  filePath: string,
+  outputDirectory: string,
+  compiled: Map<string, string>,
+): Promise<string> {
+  const existing = compiled.get(filePath)
+  if (existing) return existing
+
+  const outputPath = path.join(
+    outputDirectory,
+    `${compiled.size}-${path.parse(filePath).name}.mjs`,
+  )
+  // Registered before the imports are compiled, so cycles end here
+  compiled.set(filePath, outputPath)
+
+  const source = await fs.readFile(filePath, 'utf8')
+  const specifiers = new Map<string, string>()
+  for (const { fileName } of ts.preProcessFile(source, true, true)
+    .importedFiles) {
+    if (!/^\.\.?\//.test(fileName) || specifiers.has(fileName)) continue
+    const target = await resolveRelativeImport(filePath, fileName)
+    if (!target) continue
+    const resolved = COMPILED_EXTENSIONS.has(path.extname(target))
+      ? await compileConfigModule(target, outputDirectory, compiled)
+      : target
+    specifiers.set(fileName, pathToFileURL(resolved).href)
+  }
+
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filePath,
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      target: ts.ScriptTarget.ES2022,
+    },
+    transformers: {
+      before: [inlineDefineConfig, rewriteModuleSpecifiers(specifiers)],
+    },
+  })
+  await fs.writeFile(outputPath, outputText)
+  return outputPath
+}
+
+/**
+ * Resolve `./utils` the way bundlers do: the exact file, then with an
+ * extension, then an `index` file. `./utils.js` also finds `utils.ts`.
+ */
+async function resolveRelativeImport(
+  importer: string,
+  specifier: string,
+): Promise<string | null> {
+  const base = path.resolve(path.dirname(importer), specifier)
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((extension) => `${base}${extension}`),
+    ...RESOLVE_EXTENSIONS.map((extension) =>
+      path.join(base, `index${extension}`),
+    ),
+  ]
+  if (/\.[cm]?js$/.test(base)) candidates.push(base.replace(/js$/, 'ts'))
+
+  for (const candidate of candidates) {
+    const stats = await fs.stat(candidate).catch(() => null)
+    if (stats?.isFile()) return candidate
+  }
+  return null
+}
+
+/**
+ * Replace module specifiers of imports, re-exports and `import()` calls.
+ */
+function rewriteModuleSpecifiers(
+  specifiers: Map<string, string>,
+): ts.TransformerFactory<ts.SourceFile> {
+  return (context) => (sourceFile) => {
+    const { factory } = context
+    const rewrite = (specifier: ts.Expression) => {
+      const replacement = ts.isStringLiteral(specifier)
+        ? specifiers.get(specifier.text)
+        : undefined
+      return replacement ? factory.createStringLiteral(replacement) : specifier
+    }
+
+    const visit = (node: ts.Node): ts.Node => {
+      if (ts.isImportDeclaration(node)) {
+        return factory.updateImportDeclaration(
+          node,
+          node.modifiers,
+          node.importClause,
+          rewrite(node.moduleSpecifier),
+          node.attributes,
+        )
+      }
+      if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+        return factory.updateExportDeclaration(
+          node,
+          node.modifiers,
+          node.isTypeOnly,
+          node.exportClause,
+          rewrite(node.moduleSpecifier),
+          node.attributes,
+        )
+      }
+      if (
+        ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments.length
+      ) {
+        const [specifier, ...rest] = node.arguments
+        return factory.updateCallExpression(
+          node,
+          node.expression,
+          node.typeArguments,
+          [rewrite(specifier), ...rest],
+        )
+      }
+      return ts.visitEachChild(node, visit, context)
+    }
+
+    return ts.visitEachChild(sourceFile, visit, context)
+  }
+}
+
+/**
+ * Replace `import { defineConfig } from 'next-lens'` with a local identity
+ * function.
+ */
+const inlineDefineConfig: ts.TransformerFactory<ts.SourceFile> =
+  (context) => (sourceFile) => {
+    const { factory } = context
+
+    const statements = sourceFile.statements.flatMap((statement) => {
+      if (
+        !ts.isImportDeclaration(statement) ||
+        !ts.isStringLiteral(statement.moduleSpecifier) ||
+        statement.moduleSpecifier.text !== PACKAGE_NAME
+      ) {
+        return [statement]
+      }
+
+      const bindings = statement.importClause?.namedBindings
+      if (!bindings || !ts.isNamedImports(bindings)) return []
+
+      return bindings.elements
+        .filter(
+          (element) =>
+            !element.isTypeOnly &&
+            (element.propertyName ?? element.name).text === 'defineConfig',
+        )
+        .map((element) =>
+          factory.createVariableStatement(
+            undefined,
+            factory.createVariableDeclarationList(
+              [
+                factory.createVariableDeclaration(
+                  element.name,
+                  undefined,
+                  undefined,
+                  factory.createArrowFunction(
+                    undefined,
+                    undefined,
+                    [
+                      factory.createParameterDeclaration(
+                        undefined,
+                        undefined,
+                        'config',
+                      ),
+                    ],
+                    undefined,
+                    undefined,
+                    factory.createIdentifier('config'),
+                  ),
+                ),
+              ],
+              ts.NodeFlags.Const,
+            ),
+          ),
+        )
+    })
+
+    return factory.updateSourceFile(sourceFile, statements)
+  }
@@ -0,0 +1,73 @@
+import type { LintRuleDefinition } from './lint/rules'
+
+export type LintRuleSetting = 'off' | 'warn' | 'error'
+
+export const MCP_TOOL_NAMES = [
+  'api-list',
+  'page-list',
+  'api-search',
+  'page-search',
+  'actions-list',
+  'open-file',
+] as const
+
+export type McpToolName = (typeof MCP_TOOL_NAMES)[number]
+
+/**
+ * Contents of `next-lens.config.(ts|js|json)`. Paths and globs are relative
+ * to the directory that contains the config file.
+ */
+export type NextLensConfig = {
+  /**
+   * `app` directories to scan, e.g. `['src/app']`. Defaults to every `app`
+   * directory under the target.
+   */
+  appDirs?: string[]
+  /** Only report route and page files matching these globs. */
+  include?: string[]
+  /** Skip files and directories matching these globs. */
+  exclude?: string[]
+  /** Honour `.gitignore` files. Defaults to true. */
+  gitignore?: boolean
+  /** Keep parsed modules in `.next-lens/cache/` between runs. */
+  cache?: boolean
+  /**
+   * Only report route handlers whose URL starts with this prefix, e.g.
+   * `/api`. Defaults to every route handler.
+   */
+  routePrefix?: string
+  /** Port for `web` and `raycast`. */
+  port?: number
+  webBuild?: {
+    /** Output directory for `web:build`. */
+    output?: string
+  }
+  /**
+   * Files the inspector copies when scaffolding. In `handler`, `{{method}}`
+   * is replaced with the HTTP method.
+   */
+  templates?: {
+    loading?: string
+    error?: string
+    handler?: string
+  }
+  lint?: {
+    /**
+     * Severity per `lint` rule name; `off` skips the rule. A rule object adds
+     * a custom rule with that name.
+     */
+    rules?: Record<string, LintRuleSetting | LintRuleDefinition>
+  }
+  mcp?: {
+    /** Set a tool to `false` to hide it from MCP clients. */
+    tools?: Partial<Record<McpToolName, boolean>>
+  }
+}
+
+/**
+ * Identity helper that gives `next-lens.config.ts` type checking and
+ * completions.
+ */
+export function defineConfig(config: NextLensConfig): NextLensConfig {
+  return config
+}
@@ -0,0 +1,87 @@
+import chalk, { type ChalkInstance } from 'chalk'
+
+export const METHOD_COLORS: Record<string, ChalkInstance> = {
+  GET: chalk.greenBright,
+  HEAD: chalk.green,
+  OPTIONS: chalk.cyan,
+  POST: chalk.magentaBright,
+  PUT: chalk.yellowBright,
+  PATCH: chalk.blueBright,
+  DELETE: chalk.redBright,
+}
+
+const ANSI_PATTERN = /\u001B\[[0-?]*[ -\/]*[@-~]/g
+const PARAM_COLOR = chalk.hex('#ffae42')
+
+/**
+ * Bold, per-method colors joined by a dim `|`, e.g. `GET|POST`.
+ */
+export function colorizeMethods(methods: string[]): string {
+  const colored = methods.map((method) => {
+    const painter = METHOD_COLORS[method] ?? chalk.whiteBright
+    return painter.bold(method)
+  })
+
+  return colored.join(chalk.dim('|'))
+}
+
+/**
+ * Color the `:param` segments of a route path.
+ */
+export function highlightDynamicSegments(pathLabel: string): string {
+  return pathLabel.replace(/:(\w+(?:\*\??)?)/g, (_, name) =>
+    PARAM_COLOR(`:${name}`),
+  )
+}
+
+export function buildRow(
+  cells: string[],
+  widths: number[],
+  transform: (value: string) => string = (value) => value,
+): string {
+  const padded = cells.map((cell, index) => padEndAnsi(cell, widths[index]))
+  return transform(`| ${padded.join(' | ')} |`)
+}
+
+export function buildBorder(widths: number[], fill: '-' | '=' = '-'): string {
+  const segments = widths.map((width) => fill.repeat(width + 2))
+  return `+${segments.join('+')}+`
+}
+
+export function padEndAnsi(text: string, target: number): string {
+  const printable = visibleLength(text)
+  if (printable >= target) return text
+  return text + ' '.repeat(target - printable)
+}
+
+/**
+ * Length of `text` as printed, without color escape codes.
+ */
+export function visibleLength(text: string): number {
+  return text.replace(ANSI_PATTERN, '').length
+}
+
+/**
+ * Cut `text` at `width` printable characters, keeping escape codes intact.
+ */
+export function truncateAnsi(text: string, width: number): string {
+  if (visibleLength(text) <= width) return text
+
+  let printed = 0
+  let result = ''
+  const parts = text.split(/(\u001B\[[0-?]*[ -\/]*[@-~])/)
+  for (const part of parts) {
+    if (part.startsWith('\u001B[')) {
+      result += part
+      continue
+    }
+    const room = width - printed
+    if (room <= 0) continue
+    result += part.slice(0, room)
+    printed += Math.min(part.length, room)
+  }
+  // Close styles that were cut off along with their reset code
+  return result === text.replace(ANSI_PATTERN, '').slice(0, width)
+    ? result
+    : `${result}\u001B[0m`
+}
@@ -0,0 +1,654 @@
+import { existsSync } from 'fs'
+import path from 'path'
+import ts from 'typescript'
+
+/**
+ * JSON Schema subset produced from TypeScript types. It is compatible with
+ * OpenAPI 3.1 schema objects.
+ */
+export type JsonSchema = {
+  type?:
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'null'
+    | 'object'
+    | 'array'
+  format?: string
+  description?: string
+  enum?: Array<string | number | boolean>
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: JsonSchema
+  anyOf?: JsonSchema[]
+}
+
+export type HandlerResponse = {
+  status: number
+  /**
+   * Payload schema for `NextResponse.json()` / `Response.json()`. Missing for
+   * responses built with `new Response()`, whose body is not JSON-typed.
+   */
+  schema?: JsonSchema
+}
+
+export type HandlerSchema = {
+  body?: JsonSchema
+  query?: JsonSchema
+  responses: HandlerResponse[]
+}
+
+/** Schemas keyed by HTTP method for a single route file. */
+export type RouteSchemas = Map<string, HandlerSchema>
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  lib: ['lib.esnext.d.ts', 'lib.dom.d.ts'],
+  strict: true,
+}
+
+const PARSE_METHODS = new Set([
+  'parse',
+  'parseAsync',
+  'safeParse',
+  'safeParseAsync',
+])
+
+const RESPONSE_CLASSES = new Set(['Response', 'NextResponse'])
+
+const MAX_DEPTH = 8
+
+/**
+ * Infer request and response schemas for the handlers exported by each route
+ * file using the TypeScript type checker. Each file is checked with its
+ * nearest `tsconfig.json` within `root`, so path aliases and `strict` settings
+ * match the app it belongs to.
+ *
+ * Detected patterns:
+ * - `await request.json() as T` and `const body: T = await request.json()`
+ * - `schema.parse()` / `safeParse()` (zod and friends) on the body or on
+ *   `searchParams`
+ * - `searchParams.get('name')` reads
+ * - `NextResponse.json<T>()` / `Response.json()` payloads and their `status`
+ */
+export function inferRouteSchemas(
+  root: string,
+  routeFiles: string[],
+): Map<string, RouteSchemas> {
+  const results = new Map<string, RouteSchemas>()
+
+  // One program per tsconfig, so every app of a monorepo keeps its options
+  for (const [configDirectory, files] of groupByTsconfig(root, routeFiles)) {
+    const program = ts.createProgram({
+      rootNames: files,
+      options: loadCompilerOptions(configDirectory),
+    })
+    const checker = program.getTypeChecker()
+
+    for (const filePath of files) {
+      const sourceFile = program.getSourceFile(filePath)
+      if (!sourceFile) continue
+
+      const moduleSymbol = checker.getSymbolAtLocation(sourceFile)
+      if (!moduleSymbol) continue
+
+      const schemas: RouteSchemas = new Map()
+      for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+        const handler = findHandlerFunction(exported, checker)
+        if (!handler) continue
+        schemas.set(exported.name, analyzeHandler(handler, checker))
+      }
+      results.set(filePath, schemas)
+    }
+  }
+
+  return results
+}
+
+/**
+ * Group files by the directory of their nearest `tsconfig.json`, looking no
+ * higher than `root`. Files without one are grouped under `root`.
+ */
+function groupByTsconfig(root: string, files: string[]): Map<string, string[]> {
+  const nearest = new Map<string, string>()
+  const findConfigDirectory = (directory: string): string => {
+    const cached = nearest.get(directory)
+    if (cached) return cached
+
+    const relative = path.relative(root, directory)
+    const found =
+      !relative || relative.startsWith('..') || path.isAbsolute(relative)
+        ? root
+        : existsSync(path.join(directory, 'tsconfig.json'))
+          ? directory
+          : findConfigDirectory(path.dirname(directory))
+    nearest.set(directory, found)
+    return found
+  }
+
+  const groups = new Map<string, string[]>()
+  for (const filePath of files) {
+    const configDirectory = findConfigDirectory(path.dirname(filePath))
+    groups.set(configDirectory, [
+      ...(groups.get(configDirectory) ?? []),
+      filePath,
+    ])
+  }
+  return groups
+}
+
+/**
+ * Compiler options from `tsconfig.json` in `root`, falling back to defaults
+ * that match a Next.js app.
+ */
+export function loadCompilerOptions(root: string): ts.CompilerOptions {
+  const configPath = path.join(root, 'tsconfig.json')
+  let options = DEFAULT_COMPILER_OPTIONS
+
+  if (existsSync(configPath)) {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile)
+    if (!error) {
+      options = ts.parseJsonConfigFileContent(config, ts.sys, root).options
+    }
+  }
+
+  return { ...options, allowJs: true, noEmit: true, skipLibCheck: true }
+}
+
+function findHandlerFunction(
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+): ts.FunctionLikeDeclaration | null {
+  const target =
+    symbol.flags & ts.SymbolFlags.Alias
+      ? checker.getAliasedSymbol(symbol)
+      : symbol
+
+  for (const declaration of target.declarations ?? []) {
+    if (ts.isFunctionDeclaration(declaration)) return declaration
+    if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
+      const handler = unwrapHandler(declaration.initializer)
+      if (handler) return handler
+    }
+  }
+
+  return null
+}
+
+/**
+ * Find the function behind an initializer, looking through wrappers such as
+ * `withAuth(async (request) => { ... })`.
+ */
+function unwrapHandler(
+  expression: ts.Expression,
+): ts.FunctionLikeDeclaration | null {
+  const node = skipOuterExpressions(expression)
+  if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) return node
+  if (ts.isCallExpression(node)) {
+    for (const argument of node.arguments) {
+      const handler = unwrapHandler(argument)
+      if (handler) return handler
+    }
+  }
+  return null
+}
+
+function analyzeHandler(
+  handler: ts.FunctionLikeDeclaration,
+  checker: ts.TypeChecker,
+): HandlerSchema {
+  const schema: HandlerSchema = { responses: [] }
+  const requestParam = handler.parameters[0]?.name
+  const requestName =
+    requestParam && ts.isIdentifier(requestParam) ? requestParam.text : null
+  const bodyNames = new Set<string>()
+  const queryParams = new Map<string, JsonSchema>()
+
+  const isBodyRead = (expression: ts.Expression): boolean => {
+    const node = skipOuterExpressions(expression)
+    if (ts.isIdentifier(node)) return bodyNames.has(node.text)
+    if (!requestName || !ts.isCallExpression(node)) return false
+    const callee = node.expression
+    return (
+      ts.isPropertyAccessExpression(callee) &&
+      callee.name.text === 'json' &&
+      ts.isIdentifier(callee.expression) &&
+      callee.expression.text === requestName
+    )
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      if (ts.isIdentifier(node.name) && isBodyRead(node.initializer)) {
+        bodyNames.add(node.name.text)
+        if (node.type) {
+          schema.body = typeToSchema(
+            checker.getTypeFromTypeNode(node.type),
+            checker,
+            node,
+          )
+        }
+      }
+    }
+
+    if (
+      (ts.isAsExpression(node) || ts.isTypeAssertionExpression(node)) &&
+      isBodyRead(node.expression) &&
+      !isConstAssertion(node.type)
+    ) {
+      schema.body = typeToSchema(
+        checker.getTypeFromTypeNode(node.type),
+        checker,
+        node,
+      )
+    }
+
+    if (ts.isCallExpression(node)) {
+      const parsed = parseCallTarget(node, isBodyRead, checker)
+      if (parsed) {
+        const type = parsedType(node, checker)
+        if (type) schema[parsed] = typeToSchema(type, checker, node)
+      }
+
+      const queryParam = searchParamRead(node, checker)
+      if (queryParam) queryParams.set(queryParam.name, queryParam.schema)
+
+      const response = jsonResponse(node, checker)
+      if (response) addResponse(schema.responses, response)
+    }
+
+    if (ts.isNewExpression(node)) {
+      const response = constructedResponse(node)
+      if (response) addResponse(schema.responses, response)
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  if (handler.body) visit(handler.body)
+
+  if (!schema.query && queryParams.size) {
+    schema.query = {
+      type: 'object',
+      properties: Object.fromEntries(queryParams),
+    }
+  }
+
+  const { body, query, responses } = schema
+  return {
+    ...(body ? { body } : {}),
+    ...(query ? { query } : {}),
+    responses: responses.sort((a, b) => a.status - b.status),
+  }
+}
+
+/**
+ * `Body.parse(await request.json())` → body, `Query.parse(
+ * Object.fromEntries(request.nextUrl.searchParams))` → query.
+ */
+function parseCallTarget(
+  node: ts.CallExpression,
+  isBodyRead: (expression: ts.Expression) => boolean,
+  checker: ts.TypeChecker,
+): 'body' | 'query' | null {
+  const callee = node.expression
+  if (!ts.isPropertyAccessExpression(callee)) return null
+  if (!PARSE_METHODS.has(callee.name.text)) return null
+
+  const [input] = node.arguments
+  if (!input) return null
+  if (isBodyRead(input)) return 'body'
+  if (readsSearchParams(input, checker)) return 'query'
+  return null
+}
+
+/**
+ * Whether an expression is the query string: a `URLSearchParams`, its
+ * `entries()` or `Object.fromEntries()` of it. Variables are followed to
+ * their initializer, so `const q = url.searchParams` counts as well.
+ */
+function readsSearchParams(
+  expression: ts.Expression,
+  checker: ts.TypeChecker,
+  depth = 0,
+): boolean {
+  if (depth > MAX_DEPTH) return false
+  const node = skipOuterExpressions(expression)
+
+  if (ts.isCallExpression(node)) {
+    const callee = node.expression
+    if (!ts.isPropertyAccessExpression(callee)) return false
+    if (callee.name.text === 'fromEntries' && node.arguments[0]) {
+      return readsSearchParams(node.arguments[0], checker, depth + 1)
+    }
+    return (
+      callee.name.text === 'entries' &&
+      readsSearchParams(callee.expression, checker, depth + 1)
+    )
+  }
+
+  if (ts.isIdentifier(node)) {
+    const declaration = checker.getSymbolAtLocation(node)?.valueDeclaration
+    if (
+      declaration &&
+      ts.isVariableDeclaration(declaration) &&
+      ts.isIdentifier(declaration.name) &&
+      declaration.initializer
+    ) {
+      return readsSearchParams(declaration.initializer, checker, depth + 1)
+    }
+  }
+
+  const type = checker.getTypeAtLocation(node)
+  if (type.flags & ts.TypeFlags.Any) {
+    // Untyped requests in JavaScript routes: go by the property name
+    const name = ts.isPropertyAccessExpression(node)
+      ? node.name.text
+      : ts.isIdentifier(node)
+        ? node.text
+        : null
+    return name === 'searchParams'
+  }
+  return /URLSearchParams$/.test(type.getSymbol()?.name ?? '')
+}
+
+function parsedType(
+  node: ts.CallExpression,
+  checker: ts.TypeChecker,
+): ts.Type | null {
+  const callee = node.expression as ts.PropertyAccessExpression
+  const method = callee.name.text
+  let type = checker.getTypeAtLocation(node)
+
+  if (method.endsWith('Async')) {
+    type = checker.getAwaitedType(type) ?? type
+  }
+
+  if (method.startsWith('safeParse')) {
+    const data = type.getProperty('data')
+    if (!data) return null
+    type = checker.getNonNullableType(
+      checker.getTypeOfSymbolAtLocation(data, node),
+    )
+  }
+
+  return type
+}
+
+function searchParamRead(
+  node: ts.CallExpression,
+  checker: ts.TypeChecker,
+): { name: string; schema: JsonSchema } | null {
+  const callee = node.expression
+  if (!ts.isPropertyAccessExpression(callee)) return null
+
+  const method = callee.name.text
+  if (method !== 'get' && method !== 'getAll') return null
+  if (!readsSearchParams(callee.expression, checker)) return null
+
+  const [key] = node.arguments
+  if (!key || !ts.isStringLiteralLike(key)) return null
+
+  return {
+    name: key.text,
+    schema:
+      method === 'getAll'
+        ? { type: 'array', items: { type: 'string' } }
+        : { type: 'string' },
+  }
+}
+
+function jsonResponse(
+  node: ts.CallExpression,
+  checker: ts.TypeChecker,
+): HandlerResponse | null {
+  const callee = node.expression
+  if (!ts.isPropertyAccessExpression(callee)) return null
+  if (callee.name.text !== 'json') return null
+  if (!ts.isIdentifier(callee.expression)) return null
+  if (!RESPONSE_CLASSES.has(callee.expression.text)) return null
+
+  const [payload, init] = node.arguments
+  const typeArgument = node.typeArguments?.[0]
+  const type = typeArgument
+    ? checker.getTypeFromTypeNode(typeArgument)
+    : payload
+      ? checker.getTypeAtLocation(payload)
+      : null
+
+  return {
+    status: readStatus(init),
+    ...(type ? { schema: typeToSchema(type, checker, node) } : {}),
+  }
+}
+
+function constructedResponse(node: ts.NewExpression): HandlerResponse | null {
+  if (!ts.isIdentifier(node.expression)) return null
+  if (!RESPONSE_CLASSES.has(node.expression.text)) return null
+  return { status: readStatus(node.arguments?.[1]) }
+}
+
+function readStatus(init: ts.Expression | undefined): number {
+  const node = init && skipOuterExpressions(init)
+  if (!node || !ts.isObjectLiteralExpression(node)) return 200
+
+  for (const property of node.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      ts.isIdentifier(property.name) &&
+      property.name.text === 'status'
+    ) {
+      const value = skipOuterExpressions(property.initializer)
+      if (ts.isNumericLiteral(value)) return Number(value.text)
+    }
+  }
+
+  return 200
+}
+
+/**
+ * Several returns with the same status become a single `anyOf` response.
+ */
+function addResponse(responses: HandlerResponse[], response: HandlerResponse) {
+  const existing = responses.find(({ status }) => status === response.status)
+  if (!existing) {
+    responses.push(response)
+    return
+  }
+  if (!response.schema) return
+  existing.schema = existing.schema
+    ? combineSchemas([existing.schema, response.schema])
+    : response.schema
+}
+
+/**
+ * Convert a checker type to a JSON Schema describing its JSON serialization.
+ * Recursive types stop at the first repeated reference.
+ */
+export function typeToSchema(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+  location: ts.Node,
+  depth = 0,
+  seen = new Set<ts.Type>(),
+): JsonSchema {
+  if (depth > MAX_DEPTH) return {}
+
+  const flags = type.flags
+
+  if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {}
+  if (type.isStringLiteral()) return { type: 'string', enum: [type.value] }
+  if (type.isNumberLiteral()) return { type: 'number', enum: [type.value] }
+  if (flags & ts.TypeFlags.BooleanLiteral) {
+    return { type: 'boolean', enum: [checker.typeToString(type) === 'true'] }
+  }
+  if (flags & (ts.TypeFlags.String | ts.TypeFlags.TemplateLiteral)) {
+    return { type: 'string' }
+  }
+  if (flags & ts.TypeFlags.Number) return { type: 'number' }
+  if (flags & (ts.TypeFlags.BigInt | ts.TypeFlags.BigIntLiteral)) {
+    return { type: 'integer' }
+  }
+  if (flags & ts.TypeFlags.Boolean) return { type: 'boolean' }
+  if (flags & ts.TypeFlags.Null) return { type: 'null' }
+  if (flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)) return {}
+
+  if (flags & ts.TypeFlags.TypeParameter) {
+    const constraint = checker.getBaseConstraintOfType(type)
+    return constraint && constraint !== type
+      ? typeToSchema(constraint, checker, location, depth + 1, seen)
+      : {}
+  }
+
+  if (type.isUnion()) {
+    const members = type.types.filter(
+      (member) =>
+        !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)),
+    )
+    return combineSchemas(
+      members.map((member) =>
+        typeToSchema(member, checker, location, depth + 1, seen),
+      ),
+    )
+  }
+
+  if (!(flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection))) return {}
+  if (seen.has(type)) return {}
+
+  if (checker.isArrayType(type) || checker.isTupleType(type)) {
+    const elements = checker.getTypeArguments(type as ts.TypeReference)
+    seen.add(type)
+    const items = combineSchemas(
+      elements.map((element) =>
+        typeToSchema(element, checker, location, depth + 1, seen),
+      ),
+    )
+    seen.delete(type)
+    return { type: 'array', items }
+  }
+
+  if (type.getSymbol()?.getName() === 'Date') {
+    return { type: 'string', format: 'date-time' }
+  }
+
+  seen.add(type)
+
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const propertyType = checker.getTypeOfSymbolAtLocation(property, location)
+    if (propertyType.getCallSignatures().length) continue
+
+    const schema = typeToSchema(
+      propertyType,
+      checker,
+      location,
+      depth + 1,
+      seen,
+    )
+    const description = ts.displayPartsToString(
+      property.getDocumentationComment(checker),
+    )
+    properties[property.name] = description
+      ? { ...schema, description }
+      : schema
+
+    const optional =
+      property.flags & ts.SymbolFlags.Optional ||
+      (propertyType.isUnion() &&
+        propertyType.types.some(
+          (member) => member.flags & ts.TypeFlags.Undefined,
+        ))
+    if (!optional) required.push(property.name)
+  }
+
+  const indexInfo = checker
+    .getIndexInfosOfType(type)
+    .find((info) => info.keyType.flags & ts.TypeFlags.String)
+
+  seen.delete(type)
+
+  const schema: JsonSchema = { type: 'object' }
+  if (Object.keys(properties).length) schema.properties = properties
+  if (required.length) schema.required = required
+  if (indexInfo) {
+    schema.additionalProperties = typeToSchema(
+      indexInfo.type,
+      checker,
+      location,
+      depth + 1,
+      seen,
+    )
+  }
+
+  return schema
+}
+
+/**
+ * Merge alternatives into one schema: literal enums of the same type are
+ * folded together, `true | false` becomes `boolean`, duplicates are dropped
+ * and anything left over is wrapped in `anyOf`.
+ */
+function combineSchemas(schemas: JsonSchema[]): JsonSchema {
+  const merged: JsonSchema[] = []
+
+  for (const schema of schemas) {
+    if (!Object.keys(schema).length) return {}
+
+    const sameEnum = schema.enum
+      ? merged.find(
+          (candidate) =>
+            candidate.enum &&
+            candidate.type === schema.type &&
+            Object.keys(candidate).length === 2,
+        )
+      : undefined
+
+    if (sameEnum && Object.keys(schema).length === 2) {
+      sameEnum.enum = [...new Set([...sameEnum.enum!, ...schema.enum!])]
+      continue
+    }
+
+    const key = JSON.stringify(schema)
+    if (merged.some((candidate) => JSON.stringify(candidate) === key)) continue
+    merged.push({ ...schema })
+  }
+
+  for (const schema of merged) {
+    if (schema.type === 'boolean' && schema.enum?.length === 2) {
+      delete schema.enum
+    }
+  }
+
+  if (!merged.length) return {}
+  return merged.length === 1 ? merged[0] : { anyOf: merged }
+}
+
+function skipOuterExpressions(expression: ts.Expression): ts.Expression {
+  let node = expression
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAwaitExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isTypeAssertionExpression(node)
+  ) {
+    node = node.expression
+  }
+  return node
+}
+
+function isConstAssertion(type: ts.TypeNode): boolean {
+  return (
+    ts.isTypeReferenceNode(type) &&
+    ts.isIdentifier(type.typeName) &&
+    type.typeName.text === 'const'
+  )
+}
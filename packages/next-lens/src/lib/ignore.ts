@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import ignore, { type Ignore } from 'ignore'
+import picomatch from 'picomatch'
+
+export type IgnoreOptions = {
+  /**
+   * Only report route and page files matching one of these globs, relative
+   * to the project root.
+   */
+  include?: string[]
+  /**
+   * Skip files and directories matching any of these globs. Globs without a
+   * slash match a name anywhere in the tree, like `.gitignore` entries;
+   * absolute globs are matched against the absolute path.
+   */
+  exclude?: string[]
+  /**
+   * Honour `.gitignore` files from the project and its parent directories up
+   * to the repository root. Defaults to true; `.nextlensignore` files are
+   * always read.
+   */
+  gitignore?: boolean
+}
+
+export interface PathFilter {
+  /** Whether a walk should skip this file or directory. */
+  ignores(entryPath: string, isDirectory: boolean): boolean
+  /** Whether a route or page file passes the `include` globs. */
+  includes(filePath: string): boolean
+  /**
+   * Filter for a directory the walk entered, picking up the ignore files
+   * among its `fileNames`.
+   */
+  descend(directory: string, fileNames: Set<string>): Promise<PathFilter>
+}
+
+type IgnoreRules = {
+  base: string
+  matcher: Ignore
+}
+
+export const NEXT_LENS_IGNORE_FILE = '.nextlensignore'
+const GITIGNORE_FILE = '.gitignore'
+
+/**
+ * Build the filter for a walk starting at `root`. Rules from ignore files in
+ * deeper directories override shallower ones, so `!pattern` re-includes
+ * entries the same way git does.
+ */
+export async function createPathFilter(
+  root: string,
+  options: IgnoreOptions = {},
+): Promise<PathFilter> {
+  const ignoreFiles =
+    options.gitignore === false
+      ? [NEXT_LENS_IGNORE_FILE]
+      : [GITIGNORE_FILE, NEXT_LENS_IGNORE_FILE]
+  const exclude = compileGlobs(options.exclude)
+  const include = compileGlobs(options.include)
+
+  const build = (chain: IgnoreRules[]): PathFilter => {
+    const filter: PathFilter = {
+      ignores(entryPath, isDirectory) {
+        if (exclude?.(root, entryPath)) return true
+        return isIgnoredBy(chain, entryPath, isDirectory)
+      },
+
+      includes(filePath) {
+        return include ? include(root, filePath) : true
+      },
+
+      async descend(directory, fileNames) {
+        const rules = await readIgnoreRules(
+          directory,
+          ignoreFiles.filter((name) => fileNames.has(name)),
+        )
+        return rules ? build([...chain, rules]) : filter
+      },
+    }
+    return filter
+  }
+
+  const ancestors =
+    options.gitignore === false ? [] : await findAncestorDirectories(root)
+  const chain: IgnoreRules[] = []
+  for (const directory of ancestors) {
+    const rules = await readIgnoreRules(directory, [GITIGNORE_FILE])
+    if (rules) chain.push(rules)
+  }
+
+  return build(chain)
+}
+
+function isIgnoredBy(
+  chain: IgnoreRules[],
+  entryPath: string,
+  isDirectory: boolean,
+): boolean {
+  let ignored = false
+
+  for (const { base, matcher } of chain) {
+    const relative = path.relative(base, entryPath).split(path.sep).join('/')
+    if (!relative || relative.startsWith('..')) continue
+
+    const result = matcher.test(isDirectory ? `${relative}/` : relative)
+    if (result.ignored) ignored = true
+    else if (result.unignored) ignored = false
+  }
+
+  return ignored
+}
+
+async function readIgnoreRules(
+  directory: string,
+  fileNames: string[],
+): Promise<IgnoreRules | null> {
+  if (!fileNames.length) return null
+
+  const matcher = ignore()
+  for (const fileName of fileNames) {
+    try {
+      matcher.add(await fs.readFile(path.join(directory, fileName), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue
+      throw error
+    }
+  }
+
+  return { base: directory, matcher }
+}
+
+/**
+ * Parent directories of `root`, outermost first, up to the nearest one that
+ * contains `.git`. Empty when `root` is not inside a git repository.
+ */
+async function findAncestorDirectories(root: string): Promise<string[]> {
+  const ancestors: string[] = []
+  let current = root
+
+  while (true) {
+    if (await exists(path.join(current, '.git'))) return ancestors.reverse()
+
+    const parent = path.dirname(current)
+    if (parent === current) return []
+    ancestors.push(parent)
+    current = parent
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Compile globs, matching slash-free patterns against the basename and
+ * absolute patterns against the absolute path.
+ */
+function compileGlobs(
+  patterns: string[] | undefined,
+): ((root: string, entryPath: string) => boolean) | null {
+  if (!patterns?.length) return null
+
+  const toPosix = (value: string) => value.split(path.sep).join('/')
+  const anchored = patterns.filter((pattern) => path.isAbsolute(pattern))
+  const nested = patterns.filter(
+    (pattern) => pattern.includes('/') && !path.isAbsolute(pattern),
+  )
+  const names = patterns.filter((pattern) => !pattern.includes('/'))
+
+  const matchAnchored = anchored.length
+    ? picomatch(anchored, { dot: true })
+    : null
+  const matchNested = nested.length ? picomatch(nested, { dot: true }) : null
+  const matchNames = names.length
+    ? picomatch(names, { dot: true, basename: true })
+    : null
+
+  return (root, entryPath) => {
+    const relative = toPosix(path.relative(root, entryPath))
+    return Boolean(
+      matchAnchored?.(toPosix(entryPath)) ||
+        matchNested?.(relative) ||
+        matchNames?.(relative),
+    )
+  }
+}
+
+/**
+ * Pick the ignore settings out of parsed CLI options.
+ */
+export function pickIgnoreOptions({
+  include,
+  exclude,
+  gitignore,
+}: IgnoreOptions): IgnoreOptions {
+  return { include, exclude, gitignore }
+}
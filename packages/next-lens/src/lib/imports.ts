@@ -0,0 +1,151 @@
+import path from 'path'
+import ts from 'typescript'
+import { loadCompilerOptions } from './handler-schema'
+import { locate, resolveLocalModule } from './module-exports'
+import type { ScanSession } from './scanner'
+
+export type ModuleImport = {
+  specifier: string
+  /**
+   * Imported names. `*` stands for every export, e.g. `import * as actions`,
+   * `export * from` or `import('./chart')`. Empty for `import 'server-only'`.
+   */
+  names: string[] | '*'
+  line: number
+  column: number
+}
+
+/**
+ * Resolve an import specifier to a project file, or null for packages and
+ * files that do not exist.
+ */
+export type ModuleResolver = (
+  fromFile: string,
+  specifier: string,
+) => Promise<string | null>
+
+const TSCONFIG = 'tsconfig.json'
+
+/**
+ * Value imports, re-exports and dynamic `import()` calls of a module.
+ * Type-only imports are skipped since they are erased at build time.
+ */
+export function readModuleImports(sourceFile: ts.SourceFile): ModuleImport[] {
+  const imports: ModuleImport[] = []
+  const push = (
+    node: ts.Node,
+    specifier: string,
+    names: ModuleImport['names'],
+  ) => {
+    const { line, column } = locate(node, sourceFile)
+    imports.push({ specifier, names, line, column })
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      const clause = statement.importClause
+      if (clause?.isTypeOnly) continue
+      const specifier = statement.moduleSpecifier.text
+      const bindings = clause?.namedBindings
+      if (bindings && ts.isNamespaceImport(bindings)) {
+        push(statement, specifier, '*')
+        continue
+      }
+
+      const names: string[] = []
+      if (clause?.name) names.push('default')
+      for (const element of bindings?.elements ?? []) {
+        if (element.isTypeOnly) continue
+        names.push((element.propertyName ?? element.name).text)
+      }
+      // `import { type A } from` is erased like `import type`
+      if (clause && !names.length) continue
+      push(statement, specifier, names)
+      continue
+    }
+
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.isTypeOnly &&
+      statement.moduleSpecifier &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      const clause = statement.exportClause
+      push(
+        statement,
+        statement.moduleSpecifier.text,
+        !clause || ts.isNamespaceExport(clause)
+          ? '*'
+          : clause.elements
+              .filter((element) => !element.isTypeOnly)
+              .map((element) => (element.propertyName ?? element.name).text),
+      )
+    }
+  }
+
+  if (sourceFile.text.includes('import(')) {
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments.length > 0 &&
+        ts.isStringLiteralLike(node.arguments[0])
+      ) {
+        push(node, node.arguments[0].text, '*')
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(sourceFile)
+  }
+
+  return imports
+}
+
+/**
+ * Resolve relative specifiers against the importer, and aliases such as
+ * `@/components/button` with the `paths` and `baseUrl` of the importer's
+ * nearest `tsconfig.json`. Packages are not followed.
+ */
+export async function createModuleResolver(
+  session: ScanSession,
+): Promise<ModuleResolver> {
+  const { directories } = await session.files()
+  const optionsByProject = new Map<string, ts.CompilerOptions>()
+
+  const compilerOptionsFor = (file: string) => {
+    let directory = path.dirname(file)
+    while (!directories.get(directory)?.has(TSCONFIG)) {
+      if (directory === session.root) return null
+      const parent = path.dirname(directory)
+      if (parent === directory) return null
+      directory = parent
+    }
+    let options = optionsByProject.get(directory)
+    if (!options) {
+      options = loadCompilerOptions(directory)
+      optionsByProject.set(directory, options)
+    }
+    return options
+  }
+
+  return async (fromFile, specifier) => {
+    if (specifier.startsWith('.')) {
+      return resolveLocalModule(fromFile, specifier)
+    }
+
+    const options = compilerOptionsFor(fromFile)
+    if (!options?.paths && !options?.baseUrl) return null
+
+    const { resolvedModule } = ts.resolveModuleName(
+      specifier,
+      fromFile,
+      options,
+      ts.sys,
+    )
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) return null
+    return path.resolve(resolvedModule.resolvedFileName)
+  }
+}
@@ -1,5 +1,9 @@
 import { getApiRoutes, RouteInfo } from '../api-routes'
+import { auditPages, type AuditIssue } from '../page-audit'
 import { getPageRoutes, PageInfo } from '../page-routes'
+import { createScanSession, type ScanOptions } from '../scanner'
+import { getServerActions, type ServerAction } from '../server-actions'
+import { ensureDirectory, resolveTargetDirectory } from '../utils'
 
 export interface InspectorData {
   meta: {
@@ -9,26 +13,39 @@ export interface InspectorData {
   }
   routes: RouteInfo[]
   pages: PageInfo[]
+  audit: AuditIssue[]
+  actions: ServerAction[]
 }
 
-export interface CollectDataOptions {
+export interface CollectDataOptions extends ScanOptions {
   targetDirectory: string
   readonly?: boolean
 }
 
 /**
- * Collect all inspector data (API routes and page routes) for a target directory.
+ * Collect all inspector data (API routes, page routes and server actions) for a target directory.
  * This function is used by both the live API server and the static build command.
  */
 export async function collectInspectorData(
   options: CollectDataOptions,
 ): Promise<InspectorData> {
-  const { targetDirectory, readonly = false } = options
+  const { targetDirectory, readonly = false, ...scanOptions } = options
 
-  const [routes, pages] = await Promise.all([
-    getApiRoutes(targetDirectory),
-    getPageRoutes(targetDirectory),
+  // One walk of the project serves both scans
+  const session = createScanSession(
+    await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+    scanOptions,
+  )
+  const [routes, pages, actions] = await Promise.all([
+    getApiRoutes(targetDirectory, undefined, { session }),
+    getPageRoutes(targetDirectory, { session }),
+    // A walk narrowed by `appDirs` would miss actions outside `app`
+    getServerActions(
+      targetDirectory,
+      scanOptions.appDirs ? scanOptions : { session },
+    ),
   ])
+  await session.persist()
 
   return {
     meta: {
@@ -38,5 +55,7 @@ export async function collectInspectorData(
     },
     routes,
     pages,
+    audit: auditPages(pages),
+    actions,
   }
 }
@@ -3,6 +3,16 @@ import path from 'path'
 
 import { HTTP_METHODS } from '../api-routes'
 
+/**
+ * File contents used when scaffolding. In `handler`, `{{method}}` is replaced
+ * with the HTTP method.
+ */
+export interface ScaffoldTemplates {
+  loading?: string
+  error?: string
+  handler?: string
+}
+
 export class FileExistsError extends Error {
   status: 409 = 409
 
@@ -63,26 +73,32 @@ export async function deletePageFile(filePath: string): Promise<void> {
 /**
  * Create a loading.tsx file in the same directory as the page file
  */
-export async function createLoadingFile(pageFilePath: string): Promise<string> {
+export async function createLoadingFile(
+  pageFilePath: string,
+  template = LOADING_TEMPLATE,
+): Promise<string> {
   const dir = path.dirname(pageFilePath)
   const ext = path.extname(pageFilePath)
   const loadingPath = path.join(dir, `loading${ext}`)
 
   await ensureFileAbsent(loadingPath)
-  await fs.writeFile(loadingPath, LOADING_TEMPLATE, 'utf8')
+  await fs.writeFile(loadingPath, template, 'utf8')
   return loadingPath
 }
 
 /**
  * Create an error.tsx file in the same directory as the page file
  */
-export async function createErrorFile(pageFilePath: string): Promise<string> {
+export async function createErrorFile(
+  pageFilePath: string,
+  template = ERROR_TEMPLATE,
+): Promise<string> {
   const dir = path.dirname(pageFilePath)
   const ext = path.extname(pageFilePath)
   const errorPath = path.join(dir, `error${ext}`)
 
   await ensureFileAbsent(errorPath)
-  await fs.writeFile(errorPath, ERROR_TEMPLATE, 'utf8')
+  await fs.writeFile(errorPath, template, 'utf8')
   return errorPath
 }
 
@@ -92,6 +108,7 @@ export async function createErrorFile(pageFilePath: string): Promise<string> {
 export async function addHttpMethod(
   routeFilePath: string,
   method: string,
+  handlerTemplate?: string,
 ): Promise<void> {
   const upperMethod = method.toUpperCase()
 
@@ -208,7 +225,9 @@ export async function addHttpMethod(
   const normalizedContent = content.endsWith('\n') ? content : `${content}\n`
 
   // Generate method template
-  const template = `
+  const template = handlerTemplate
+    ? `\n${handlerTemplate.replaceAll('{{method}}', upperMethod)}`
+    : `
 export async function ${upperMethod}(request: NextRequest) {
   // TODO: Implement ${upperMethod} handler
   return NextResponse.json({ message: '${upperMethod} handler' })
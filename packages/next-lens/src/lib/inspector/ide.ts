@@ -8,7 +8,13 @@ import launchEditor from 'launch-editor'
  * 2. Detects running editor processes (VS Code, Cursor, WebStorm, etc.)
  * 3. Falls back to VISUAL or EDITOR environment variables
  */
-export function openInIDE(filePath: string, line?: number): void {
-  const fileLocation = line ? `${filePath}:${line}` : filePath
+export function openInIDE(
+  filePath: string,
+  line?: number,
+  column?: number,
+): void {
+  let fileLocation = filePath
+  if (line) fileLocation += `:${line}`
+  if (line && column) fileLocation += `:${column}`
   launchEditor(fileLocation)
 }
@@ -2,9 +2,15 @@ import fs from 'node:fs/promises'
 import path from 'path'
 
 import { Hono } from 'hono'
+import { streamSSE } from 'hono/streaming'
 
 import { getApiRoutes, RouteInfo } from '../api-routes'
+import type { PageMetadata } from '../metadata'
+import { auditPages, type AuditIssue } from '../page-audit'
 import { getPageRoutes, PageInfo } from '../page-routes'
+import { createScanSession, type ScanOptions, type ScanStats } from '../scanner'
+import { getServerActions, type ServerAction } from '../server-actions'
+import { ensureDirectory, resolveTargetDirectory } from '../utils'
 import {
   addHttpMethod,
   createErrorFile,
@@ -13,18 +19,42 @@ import {
   deleteRouteFile,
   FileExistsError,
   removeHttpMethod,
+  type ScaffoldTemplates,
 } from './file-operations'
 import { openInIDE } from './ide'
+import type { RouteChangeEvent, RouteWatcher } from './watcher'
 
 export interface ApiRouterOptions {
   /**
-   * Format for file paths in list endpoints (GET /routes, GET /pages).
+   * Format for file paths in list endpoints (GET /routes, GET /pages,
+   * GET /audit, GET /actions).
    * - 'relative': paths relative to targetDirectory (default, for web UI)
    * - 'absolute': absolute file system paths (for raycast/external tools)
    */
   pathFormatForLists?: 'relative' | 'absolute'
+  /**
+   * When provided, `GET /events` streams route and page changes as
+   * Server-Sent Events.
+   */
+  watcher?: RouteWatcher
+  /**
+   * Ignore rules and include/exclude globs for `GET /routes`, `GET /pages`,
+   * `GET /audit` and `GET /actions`.
+   */
+  scanOptions?: ScanOptions
+  /**
+   * Only list API routes under this URL prefix in `GET /routes`, as
+   * `api:list` does.
+   */
+  routePrefix?: string
+  /**
+   * Contents for scaffolded loading/error files and route handlers.
+   */
+  templates?: ScaffoldTemplates
 }
 
+const EVENTS_KEEPALIVE_MS = 25_000
+
 /**
  * Validates that a path (after resolving symlinks) is within the target root.
  * Returns null if the path escapes the target root.
@@ -37,6 +67,17 @@ async function isPathWithinRoot(
   return !normalized.startsWith('..') && !path.isAbsolute(normalized)
 }
 
+/**
+ * Expose scan timings to the browser's network panel.
+ */
+function formatServerTiming(stats: ScanStats): string {
+  return [
+    `walk;dur=${stats.walkMs.toFixed(1)}`,
+    `analyze;dur=${stats.analyzeMs.toFixed(1)};desc="${stats.parsed} parsed, ${stats.cached} cached"`,
+    `total;dur=${stats.durationMs.toFixed(1)}`,
+  ].join(', ')
+}
+
 /**
  * Convert a relative path to absolute path based on target root
  */
@@ -54,6 +95,16 @@ function transformRoutesToAbsolute(
   return routes.map((route) => ({
     ...route,
     file: toAbsolutePath(route.file, targetRoot),
+    handlers: route.handlers.map((handler) => ({
+      ...handler,
+      file: toAbsolutePath(handler.file, targetRoot),
+    })),
+    rootLayout: route.rootLayout
+      ? toAbsolutePath(route.rootLayout, targetRoot)
+      : undefined,
+    conflictsWith: route.conflictsWith
+      ? toAbsolutePath(route.conflictsWith, targetRoot)
+      : undefined,
   }))
 }
 
@@ -73,6 +124,113 @@ function transformPagesToAbsolute(
     errorPath: page.errorPath
       ? toAbsolutePath(page.errorPath, targetRoot)
       : undefined,
+    conventions: Object.fromEntries(
+      Object.entries(page.conventions).map(([name, info]) => [
+        name,
+        info.path
+          ? { ...info, path: toAbsolutePath(info.path, targetRoot) }
+          : info,
+      ]),
+    ) as PageInfo['conventions'],
+    layouts: page.layouts.map((layout) => toAbsolutePath(layout, targetRoot)),
+    rootLayout: page.rootLayout
+      ? toAbsolutePath(page.rootLayout, targetRoot)
+      : undefined,
+    slot: page.slot?.default
+      ? { ...page.slot, default: toAbsolutePath(page.slot.default, targetRoot) }
+      : page.slot,
+    intercepts: page.intercepts?.targetFile
+      ? {
+          ...page.intercepts,
+          targetFile: toAbsolutePath(page.intercepts.targetFile, targetRoot),
+        }
+      : page.intercepts,
+    defaultExport: page.defaultExport
+      ? {
+          ...page.defaultExport,
+          file: toAbsolutePath(page.defaultExport.file, targetRoot),
+        }
+      : undefined,
+    metadata: transformMetadataToAbsolute(page.metadata, targetRoot),
+    components: page.components
+      ? {
+          ...page.components,
+          boundaries: page.components.boundaries.map((boundary) => ({
+            ...boundary,
+            file: toAbsolutePath(boundary.file, targetRoot),
+            importedBy: boundary.importedBy
+              ? toAbsolutePath(boundary.importedBy, targetRoot)
+              : undefined,
+          })),
+          serverOnlyImports: page.components.serverOnlyImports.map((leak) => ({
+            ...leak,
+            file: toAbsolutePath(leak.file, targetRoot),
+            boundary: toAbsolutePath(leak.boundary, targetRoot),
+          })),
+        }
+      : undefined,
+    rendering: page.rendering.file
+      ? {
+          ...page.rendering,
+          file: toAbsolutePath(page.rendering.file, targetRoot),
+        }
+      : page.rendering,
+    conflictsWith: page.conflictsWith
+      ? toAbsolutePath(page.conflictsWith, targetRoot)
+      : undefined,
+  }))
+}
+
+function transformMetadataToAbsolute(
+  metadata: PageMetadata,
+  targetRoot: string,
+): PageMetadata {
+  const toAbsolute = (file: string | undefined) =>
+    file ? toAbsolutePath(file, targetRoot) : undefined
+
+  return {
+    ...metadata,
+    titleFile: toAbsolute(metadata.titleFile),
+    descriptionFile: toAbsolute(metadata.descriptionFile),
+    generatedBy: toAbsolute(metadata.generatedBy),
+    staticParams: toAbsolute(metadata.staticParams),
+    viewport: toAbsolute(metadata.viewport),
+    files: Object.fromEntries(
+      Object.entries(metadata.files).map(([kind, file]) => [
+        kind,
+        toAbsolutePath(file, targetRoot),
+      ]),
+    ),
+  }
+}
+
+/**
+ * Transform audit issues to use absolute paths
+ */
+function transformAuditToAbsolute(
+  issues: AuditIssue[],
+  targetRoot: string,
+): AuditIssue[] {
+  return issues.map((issue) => ({
+    ...issue,
+    file: toAbsolutePath(issue.file, targetRoot),
+  }))
+}
+
+/**
+ * Transform server actions to use absolute paths
+ */
+function transformActionsToAbsolute(
+  actions: ServerAction[],
+  targetRoot: string,
+): ServerAction[] {
+  return actions.map((action) => ({
+    ...action,
+    file: toAbsolutePath(action.file, targetRoot),
+    importedBy: action.importedBy.map((entry) => ({
+      ...entry,
+      file: toAbsolutePath(entry.file, targetRoot),
+    })),
   }))
 }
 
@@ -83,7 +241,13 @@ export function createApiRouter(
   targetDirectory: string,
   options: ApiRouterOptions = {},
 ) {
-  const { pathFormatForLists = 'relative' } = options
+  const {
+    pathFormatForLists = 'relative',
+    watcher,
+    scanOptions,
+    routePrefix,
+    templates = {},
+  } = options
   const targetRoot = path.resolve(targetDirectory)
 
   /**
@@ -131,7 +295,15 @@ export function createApiRouter(
   // GET /api/routes - List API routes
   api.get('/routes', async (c) => {
     try {
-      const routes = await getApiRoutes(targetDirectory)
+      const session = createScanSession(
+        await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+        scanOptions,
+      )
+      const routes = await getApiRoutes(targetDirectory, undefined, {
+        session,
+        routePrefix,
+      })
+      c.header('Server-Timing', formatServerTiming(session.getStats()))
       const result =
         pathFormatForLists === 'absolute'
           ? transformRoutesToAbsolute(routes, targetRoot)
@@ -145,7 +317,12 @@ export function createApiRouter(
   // GET /api/pages - List page routes
   api.get('/pages', async (c) => {
     try {
-      const pages = await getPageRoutes(targetDirectory)
+      const session = createScanSession(
+        await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+        scanOptions,
+      )
+      const pages = await getPageRoutes(targetDirectory, { session })
+      c.header('Server-Timing', formatServerTiming(session.getStats()))
       const result =
         pathFormatForLists === 'absolute'
           ? transformPagesToAbsolute(pages, targetRoot)
@@ -156,6 +333,75 @@ export function createApiRouter(
     }
   })
 
+  // GET /api/audit - SEO issues of page routes
+  api.get('/audit', async (c) => {
+    try {
+      const session = createScanSession(
+        await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+        scanOptions,
+      )
+      const issues = auditPages(
+        await getPageRoutes(targetDirectory, { session }),
+      )
+      c.header('Server-Timing', formatServerTiming(session.getStats()))
+      const result =
+        pathFormatForLists === 'absolute'
+          ? transformAuditToAbsolute(issues, targetRoot)
+          : issues
+      return c.json(result)
+    } catch (error) {
+      return c.json({ error: (error as Error).message }, 500)
+    }
+  })
+
+  // GET /api/actions - Server actions and the files importing them
+  api.get('/actions', async (c) => {
+    try {
+      // Actions usually live outside `app`, so `appDirs` does not apply
+      const session = createScanSession(
+        await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+        { ...scanOptions, appDirs: undefined },
+      )
+      const actions = await getServerActions(targetDirectory, { session })
+      c.header('Server-Timing', formatServerTiming(session.getStats()))
+      const result =
+        pathFormatForLists === 'absolute'
+          ? transformActionsToAbsolute(actions, targetRoot)
+          : actions
+      return c.json(result)
+    } catch (error) {
+      return c.json({ error: (error as Error).message }, 500)
+    }
+  })
+
+  // GET /api/events - Stream route/page changes (watch mode only)
+  if (watcher) {
+    api.get('/events', (c) =>
+      streamSSE(c, async (stream) => {
+        const unsubscribe = watcher.subscribe((events) => {
+          for (const event of events) {
+            const payload: RouteChangeEvent =
+              pathFormatForLists === 'absolute'
+                ? { ...event, file: toAbsolutePath(event.file, targetRoot) }
+                : event
+            void stream.writeSSE({
+              event: 'change',
+              data: JSON.stringify(payload),
+            })
+          }
+        })
+        stream.onAbort(unsubscribe)
+
+        await stream.writeSSE({ event: 'ready', data: '{}' })
+        while (!stream.aborted && !stream.closed) {
+          await stream.sleep(EVENTS_KEEPALIVE_MS)
+          await stream.writeSSE({ event: 'ping', data: '{}' })
+        }
+        unsubscribe()
+      }),
+    )
+  }
+
   // DELETE /api/pages - Delete a page file
   api.delete('/pages', async (c) => {
     try {
@@ -218,7 +464,7 @@ export function createApiRouter(
         return c.json({ error: 'Invalid file path' }, 403)
       }
 
-      await addHttpMethod(fullPath, method)
+      await addHttpMethod(fullPath, method, templates.handler)
       return c.json({ success: true })
     } catch (error) {
       return c.json({ error: (error as Error).message }, 500)
@@ -265,7 +511,7 @@ export function createApiRouter(
         return c.json({ error: 'Invalid file path' }, 403)
       }
 
-      const created = await createLoadingFile(fullPath)
+      const created = await createLoadingFile(fullPath, templates.loading)
       const relativePath = path.relative(targetDirectory, created)
       return c.json({ success: true, file: relativePath })
     } catch (error) {
@@ -291,7 +537,7 @@ export function createApiRouter(
         return c.json({ error: 'Invalid file path' }, 403)
       }
 
-      const created = await createErrorFile(fullPath)
+      const created = await createErrorFile(fullPath, templates.error)
       const relativePath = path.relative(targetDirectory, created)
       return c.json({ success: true, file: relativePath })
     } catch (error) {
@@ -305,7 +551,11 @@ export function createApiRouter(
   // POST /api/open-file - Open file in IDE
   api.post('/open-file', async (c) => {
     try {
-      const { file, line } = await c.req.json<{ file: string; line?: number }>()
+      const { file, line, column } = await c.req.json<{
+        file: string
+        line?: number
+        column?: number
+      }>()
 
       if (!file) {
         return c.json({ error: 'File path is required' }, 400)
@@ -317,7 +567,7 @@ export function createApiRouter(
         return c.json({ error: 'Invalid file path' }, 403)
       }
 
-      await openInIDE(fullPath, line)
+      await openInIDE(fullPath, line, column)
       return c.json({ success: true })
     } catch (error) {
       return c.json({ error: (error as Error).message }, 500)
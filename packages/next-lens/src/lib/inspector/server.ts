@@ -9,7 +9,10 @@ import { serveStatic } from '@hono/node-server/serve-static'
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 
+import type { ScanOptions } from '../scanner'
+import type { ScaffoldTemplates } from './file-operations'
 import { createApiRouter, ApiRouterOptions } from './routes'
+import { createRouteWatcher } from './watcher'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 
@@ -32,6 +35,22 @@ export interface InspectorAppOptions {
    * Format for file paths in list endpoints (GET /routes, GET /pages)
    */
   pathFormatForLists?: ApiRouterOptions['pathFormatForLists']
+  /**
+   * Watch `app` directories and stream changes from `GET /api/events`
+   */
+  watch?: boolean
+  /**
+   * Ignore rules and include/exclude globs for every scan
+   */
+  scanOptions?: ScanOptions
+  /**
+   * Only list and watch API routes under this URL prefix
+   */
+  routePrefix?: string
+  /**
+   * Contents for files scaffolded from the UI
+   */
+  templates?: ScaffoldTemplates
 }
 
 export interface InspectorServerOptions {
@@ -49,6 +68,22 @@ export interface InspectorServerOptions {
    * Format for file paths in list endpoints
    */
   pathFormatForLists?: ApiRouterOptions['pathFormatForLists']
+  /**
+   * Watch `app` directories and push changes to connected clients
+   */
+  watch?: boolean
+  /**
+   * Ignore rules and include/exclude globs for every scan
+   */
+  scanOptions?: ScanOptions
+  /**
+   * Only list and watch API routes under this URL prefix
+   */
+  routePrefix?: string
+  /**
+   * Contents for files scaffolded from the UI
+   */
+  templates?: ScaffoldTemplates
 }
 
 /**
@@ -122,6 +157,10 @@ export async function createInspectorApp(
     uiMode,
     vitePort = 5173,
     pathFormatForLists = 'relative',
+    watch = false,
+    scanOptions,
+    routePrefix,
+    templates,
   } = options
 
   const app = new Hono()
@@ -145,7 +184,16 @@ export async function createInspectorApp(
   }
 
   // Mount API routes with path format option
-  const api = createApiRouter(targetDirectory, { pathFormatForLists })
+  const watcher = watch
+    ? await createRouteWatcher(targetDirectory, { scanOptions, routePrefix })
+    : undefined
+  const api = createApiRouter(targetDirectory, {
+    pathFormatForLists,
+    watcher,
+    scanOptions,
+    routePrefix,
+    templates,
+  })
   app.route('/api', api)
 
   // Configure UI based on mode
@@ -228,6 +276,10 @@ export async function startInspectorServer(
     devMode = false,
     vitePort = 5173,
     pathFormatForLists = 'relative',
+    watch = false,
+    scanOptions,
+    routePrefix,
+    templates,
   } = options
 
   // Determine UI mode: explicit override or derive from devMode
@@ -238,6 +290,10 @@ export async function startInspectorServer(
     uiMode,
     vitePort,
     pathFormatForLists,
+    watch,
+    scanOptions,
+    routePrefix,
+    templates,
   })
 
   return new Promise<void>((resolve, reject) => {
@@ -0,0 +1,302 @@
+import { promises as fs, watch, type FSWatcher } from 'fs'
+import path from 'path'
+
+import { getApiRoutes, type RouteInfo } from '../api-routes'
+import { isMiddlewareFile } from '../middleware'
+import { getPageRoutes, type PageInfo } from '../page-routes'
+import { PAGES_DIRECTORY } from '../pages-router'
+import { createPathFilter, type PathFilter } from '../ignore'
+import { createScanSession, type ScanOptions } from '../scanner'
+import {
+  ensureDirectory,
+  resolveTargetDirectory,
+  SKIP_DIRECTORIES,
+} from '../utils'
+
+export type RouteChangeEvent = {
+  kind: 'route' | 'page'
+  type: 'added' | 'removed' | 'changed'
+  /** Route or page file, relative to the target directory. */
+  file: string
+  path: string
+}
+
+export type RouteChangeListener = (events: RouteChangeEvent[]) => void
+
+export interface RouteWatcher {
+  /**
+   * Register a listener for batches of route/page changes. Returns a function
+   * that removes the listener.
+   */
+  subscribe(listener: RouteChangeListener): () => void
+  close(): void
+}
+
+export interface RouteWatcherOptions {
+  /**
+   * Quiet period after the last file system event before rescanning, so a
+   * save that touches several files produces a single batch.
+   */
+  debounceMs?: number
+  /**
+   * Ignore rules and include/exclude globs, as passed to the scanners.
+   */
+  scanOptions?: ScanOptions
+  /**
+   * Only report API routes under this URL prefix.
+   */
+  routePrefix?: string
+}
+
+type SnapshotEntry = Omit<RouteChangeEvent, 'type'> & { json: string }
+
+type WatchTargets = {
+  /** `app` and `pages` directories, watched recursively. */
+  routers: string[]
+  /**
+   * Directories above them, watched for new router directories (e.g. a new
+   * monorepo app) and for middleware files.
+   */
+  directories: string[]
+}
+
+type Snapshot = Map<string, SnapshotEntry>
+
+const DEFAULT_DEBOUNCE_MS = 150
+
+/**
+ * Watch every `app` and `pages` directory under the target and report routes
+ * and pages that were added, removed or changed since the previous scan.
+ * Router directories created later are picked up as well.
+ */
+export async function createRouteWatcher(
+  targetDirectory: string,
+  options: RouteWatcherOptions = {},
+): Promise<RouteWatcher> {
+  const { debounceMs = DEFAULT_DEBOUNCE_MS, scanOptions, routePrefix } = options
+  const listeners = new Set<RouteChangeListener>()
+  const watchers = new Map<string, FSWatcher>()
+
+  let snapshot = await takeSnapshot(targetDirectory, scanOptions, routePrefix)
+  let timer: NodeJS.Timeout | null = null
+  let scanning: Promise<void> | null = null
+  let pending = false
+  let closed = false
+
+  const rescan = async () => {
+    const next = await takeSnapshot(targetDirectory, scanOptions, routePrefix)
+    const events = diffSnapshots(snapshot, next)
+    snapshot = next
+    if (!events.length || closed) return
+    for (const listener of listeners) listener(events)
+  }
+
+  // Serialize scans: changes that arrive mid-scan trigger one more pass
+  const runScan = () => {
+    if (scanning) {
+      pending = true
+      return
+    }
+    scanning = rescan()
+      .catch(() => {
+        // The tree can be briefly inconsistent mid-save; the next event
+        // triggers another scan.
+      })
+      .finally(() => {
+        scanning = null
+        if (pending && !closed) {
+          pending = false
+          runScan()
+        }
+      })
+  }
+
+  const schedule = () => {
+    if (closed) return
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(runScan, debounceMs)
+  }
+
+  const addWatcher = (key: string, create: () => FSWatcher) => {
+    if (watchers.has(key)) return
+    const watcher = create()
+    watcher.on('error', () => {
+      // The watched directory was removed; stop watching it
+      watcher.close()
+      watchers.delete(key)
+    })
+    watchers.set(key, watcher)
+  }
+
+  // Watch the targets that are not watched yet. Returns whether any were new.
+  const addTargets = async () => {
+    const { routers, directories } = await findWatchTargets(
+      targetDirectory,
+      scanOptions,
+    )
+    if (closed) return false
+
+    const watched = watchers.size
+    for (const directory of routers) {
+      addWatcher(`router:${directory}`, () =>
+        watch(directory, { recursive: true }, schedule),
+      )
+    }
+    for (const directory of directories) {
+      addWatcher(`directory:${directory}`, () =>
+        watch(directory, (event, filename) => {
+          if (!filename) return
+          const name = filename.toString()
+          // Middleware sits next to `app` and `pages` and changes their
+          // coverage
+          if (isMiddlewareFile(name)) return schedule()
+          // A new directory may contain a router directory, e.g. a new app
+          if (event !== 'rename') return
+          fs.stat(path.join(directory, name)).then(
+            (stats) => stats.isDirectory() && rediscover(),
+            () => {},
+          )
+        }),
+      )
+    }
+    return watchers.size > watched
+  }
+
+  let discovering: Promise<void> = Promise.resolve()
+  const rediscover = () => {
+    discovering = discovering
+      .then(async () => {
+        // Repeat until nothing new turns up, in case directories were
+        // created while the tree was walked
+        let added = false
+        while (await addTargets()) added = true
+        // Routes may have been written before their directory was watched
+        if (added) schedule()
+      })
+      .catch(() => {
+        // A directory vanished mid-walk; the next event tries again
+      })
+  }
+
+  await addTargets()
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    close() {
+      closed = true
+      if (timer) clearTimeout(timer)
+      for (const watcher of watchers.values()) watcher.close()
+      watchers.clear()
+      listeners.clear()
+    },
+  }
+}
+
+async function takeSnapshot(
+  targetDirectory: string,
+  scanOptions: ScanOptions = {},
+  routePrefix?: string,
+): Promise<Snapshot> {
+  // Unchanged modules come from the scanner's in-memory cache, so a rescan
+  // only parses the files that were touched
+  const session = createScanSession(
+    await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+    scanOptions,
+  )
+  const [routes, pages] = await Promise.all([
+    getApiRoutes(targetDirectory, undefined, { session, routePrefix }),
+    getPageRoutes(targetDirectory, { session }),
+  ])
+
+  const snapshot: Snapshot = new Map()
+  const add = (kind: RouteChangeEvent['kind'], entry: RouteInfo | PageInfo) => {
+    snapshot.set(`${kind}:${entry.file}`, {
+      kind,
+      file: entry.file,
+      path: entry.path,
+      json: JSON.stringify(entry),
+    })
+  }
+
+  for (const route of routes) add('route', route)
+  for (const page of pages) add('page', page)
+  return snapshot
+}
+
+function diffSnapshots(previous: Snapshot, next: Snapshot): RouteChangeEvent[] {
+  const events: RouteChangeEvent[] = []
+  const toEvent = (
+    { kind, file, path: routePath }: SnapshotEntry,
+    type: RouteChangeEvent['type'],
+  ): RouteChangeEvent => ({ kind, type, file, path: routePath })
+
+  for (const [key, entry] of next) {
+    const before = previous.get(key)
+    if (!before) events.push(toEvent(entry, 'added'))
+    else if (before.json !== entry.json) events.push(toEvent(entry, 'changed'))
+  }
+
+  for (const [key, entry] of previous) {
+    if (!next.has(key)) events.push(toEvent(entry, 'removed'))
+  }
+
+  return events
+}
+
+/**
+ * Locate `app` and `pages` directories the same way the route scanners do,
+ * without descending into build output or dependencies, along with the
+ * directories walked to find them. Configured `appDirs` are used as-is.
+ */
+async function findWatchTargets(
+  root: string,
+  scanOptions: ScanOptions = {},
+): Promise<WatchTargets> {
+  if (scanOptions.appDirs) {
+    const isDirectory = (directory: string) =>
+      fs.stat(directory).then(
+        (stats) => stats.isDirectory(),
+        () => false,
+      )
+    const parents = [...new Set(scanOptions.appDirs.map(path.dirname))]
+    const [routers, directories] = await Promise.all(
+      [scanOptions.appDirs, parents].map(async (candidates) => {
+        const existing = await Promise.all(candidates.map(isDirectory))
+        return candidates.filter((_, index) => existing[index])
+      }),
+    )
+    return { routers, directories }
+  }
+
+  const targets: WatchTargets = { routers: [], directories: [] }
+
+  async function walk(current: string, parentFilter: PathFilter) {
+    const entries = await fs.readdir(current, { withFileTypes: true })
+    const filter = await parentFilter.descend(
+      current,
+      new Set(
+        entries.filter((entry) => entry.isFile()).map(({ name }) => name),
+      ),
+    )
+    targets.directories.push(current)
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue
+      if (SKIP_DIRECTORIES.has(entry.name)) continue
+
+      const entryPath = path.join(current, entry.name)
+      if (filter.ignores(entryPath, true)) continue
+      if (entry.name === 'app' || entry.name === PAGES_DIRECTORY) {
+        targets.routers.push(entryPath)
+        continue
+      }
+      await walk(entryPath, filter)
+    }
+  }
+
+  await walk(root, await createPathFilter(root, scanOptions))
+  return targets
+}
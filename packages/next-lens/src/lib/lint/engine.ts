@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { LintRuleSetting, NextLensConfig } from '../define-config'
+import {
+  LINT_RULES,
+  type LintContext,
+  type LintReport,
+  type LintRule,
+  type LintSeverity,
+} from './rules'
+
+export type LintIssue = Required<LintReport> & {
+  rule: string
+  severity: LintSeverity
+}
+
+export type LintOptions = {
+  /** Rules to run. Defaults to {@link LINT_RULES}. */
+  rules?: LintRule[]
+  /** Severity per rule name, e.g. `lint.rules` from the config. */
+  severities?: Record<string, LintRuleSetting>
+  /** Only run the rules with these names. */
+  only?: string[]
+}
+
+type LintConfig = NonNullable<NextLensConfig['lint']>
+
+/**
+ * Rules disabled by comments in one file. `null` stands for every rule.
+ */
+type FileDirectives = {
+  file: Set<string> | null | undefined
+  lines: Map<number, Set<string> | null>
+}
+
+const DIRECTIVE_PATTERN =
+  /(?:\/\/|\/\*)\s*next-lens-disable(-next-line)?(?=\s|\*\/|$)([^\n]*)/g
+
+/**
+ * Run lint rules over a scan. Rules set to `off` are skipped, and problems
+ * on lines disabled with a comment are dropped:
+ *
+ * - `// next-lens-disable-next-line [rule, ...]` for the following line
+ * - `// next-lens-disable [rule, ...]` for the whole file
+ *
+ * Without rule names every rule is disabled.
+ */
+export async function runLint(
+  context: LintContext,
+  { rules = LINT_RULES, severities = {}, only }: LintOptions = {},
+): Promise<LintIssue[]> {
+  const known = rules.map((rule) => rule.name)
+  for (const name of [...Object.keys(severities), ...(only ?? [])]) {
+    if (!known.includes(name)) {
+      throw new Error(
+        `Unknown lint rule "${name}". Expected one of: ${known.join(', ')}`,
+      )
+    }
+  }
+
+  const issues: LintIssue[] = []
+  for (const rule of rules) {
+    const severity = severities[rule.name] ?? rule.severity
+    if (severity === 'off' || (only && !only.includes(rule.name))) continue
+    for (const report of await rule.check(context)) {
+      issues.push({
+        ...report,
+        line: report.line ?? 1,
+        column: report.column ?? 1,
+        rule: rule.name,
+        severity,
+      })
+    }
+  }
+
+  const directives = new Map<string, Promise<FileDirectives>>()
+  const enabled: LintIssue[] = []
+  for (const issue of issues) {
+    let pending = directives.get(issue.file)
+    if (!pending) {
+      pending = readDirectives(path.join(context.session.root, issue.file))
+      directives.set(issue.file, pending)
+    }
+    if (!isDisabled(await pending, issue)) enabled.push(issue)
+  }
+
+  return enabled.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.line - b.line ||
+      a.column - b.column ||
+      known.indexOf(a.rule) - known.indexOf(b.rule),
+  )
+}
+
+/**
+ * Turn `lint.rules` from the config into options for {@link runLint}: the
+ * built-in rules followed by the custom ones, and the severities it sets.
+ */
+export function lintConfigOptions(
+  config: LintConfig['rules'] = {},
+): Required<Pick<LintOptions, 'rules' | 'severities'>> {
+  const rules = [...LINT_RULES]
+  const severities: Record<string, LintRuleSetting> = {}
+  for (const [name, setting] of Object.entries(config)) {
+    if (typeof setting === 'string') {
+      severities[name] = setting
+    } else if (rules.some((rule) => rule.name === name)) {
+      throw new Error(`Custom lint rule "${name}" shadows a built-in rule`)
+    } else {
+      rules.push({ name, ...setting })
+    }
+  }
+  return { rules, severities }
+}
+
+function isDisabled(directives: FileDirectives, issue: LintIssue): boolean {
+  const matches = (rules: Set<string> | null | undefined) =>
+    rules === null || Boolean(rules?.has(issue.rule))
+  return matches(directives.file) || matches(directives.lines.get(issue.line))
+}
+
+async function readDirectives(filePath: string): Promise<FileDirectives> {
+  const directives: FileDirectives = { file: undefined, lines: new Map() }
+  let source: string
+  try {
+    source = await fs.readFile(filePath, 'utf8')
+  } catch {
+    return directives
+  }
+
+  for (const [index, line] of source.split(/\r?\n/).entries()) {
+    for (const match of line.matchAll(DIRECTIVE_PATTERN)) {
+      const [, nextLine, rest] = match
+      // Text after `--` explains the directive and is not a rule name
+      const names = rest
+        .replace(/\*\/.*$/, '')
+        .split('--')[0]
+        .split(/[\s,]+/)
+        .filter(Boolean)
+      const rules = names.length ? new Set(names) : null
+      if (nextLine) {
+        // Line numbers are 1-based, so the next line is index + 2
+        directives.lines.set(
+          index + 2,
+          merge(directives.lines.get(index + 2), rules),
+        )
+      } else {
+        directives.file = merge(directives.file, rules)
+      }
+    }
+  }
+  return directives
+}
+
+function merge(
+  current: Set<string> | null | undefined,
+  rules: Set<string> | null,
+): Set<string> | null {
+  if (current === null || rules === null) return null
+  return new Set([...(current ?? []), ...rules])
+}
@@ -0,0 +1,252 @@
+import { builtinModules } from 'module'
+import path from 'path'
+import type { RouteInfo } from '../api-routes'
+import { analyzeComponentBoundaries } from '../component-boundaries'
+import type { LintRuleSetting } from '../define-config'
+import { readModuleImports } from '../imports'
+import { parseSourceFile } from '../module-exports'
+import type { PageInfo } from '../page-routes'
+import type { ScanSession } from '../scanner'
+
+export type LintSeverity = Exclude<LintRuleSetting, 'off'>
+
+/**
+ * What every rule sees: one scan of the project.
+ */
+export type LintContext = {
+  session: ScanSession
+  pages: PageInfo[]
+  routes: RouteInfo[]
+}
+
+/**
+ * A problem found by a rule. `file` is relative to the scanned root; without
+ * a `line` the problem is reported on the first line of the file.
+ */
+export type LintReport = {
+  path: string
+  file: string
+  line?: number
+  column?: number
+  message: string
+}
+
+/**
+ * A lint rule. Custom rules can be passed to {@link runLint} next to
+ * {@link LINT_RULES}.
+ */
+export type LintRule = {
+  name: string
+  description: string
+  /** Severity when the config does not set one. */
+  severity: LintSeverity
+  check(context: LintContext): LintReport[] | Promise<LintReport[]>
+}
+
+/**
+ * A custom rule in `lint.rules` of the config, named by its key.
+ */
+export type LintRuleDefinition = Omit<LintRule, 'name'>
+
+type RouteEntry = PageInfo | RouteInfo
+
+// Node.js APIs the Edge runtime provides
+const EDGE_BUILTINS = new Set([
+  'assert',
+  'async_hooks',
+  'buffer',
+  'events',
+  'util',
+])
+const NODE_BUILTINS = new Set(builtinModules)
+
+const pageMissingError: LintRule = {
+  name: 'page-missing-error',
+  description: 'App Router pages without a co-located error.tsx',
+  severity: 'warn',
+  check: ({ pages }) =>
+    pages
+      .filter(
+        (page) =>
+          page.router === 'app' &&
+          !page.slot &&
+          !page.intercepts &&
+          page.error !== 'co-located',
+      )
+      .map((page) => ({
+        ...locatePage(page),
+        message: page.errorPath
+          ? `No error boundary next to the page; errors are caught by ${page.errorPath}`
+          : 'No error boundary next to the page or in its parent segments',
+      })),
+}
+
+const headOnlyRoute: LintRule = {
+  name: 'head-only-route',
+  description: 'API routes whose only handler is HEAD',
+  severity: 'warn',
+  check: ({ routes }) =>
+    routes
+      .filter(
+        (route) => route.methods.length === 1 && route.methods[0] === 'HEAD',
+      )
+      .map((route) => ({
+        ...locateRoute(route),
+        message: 'Only HEAD is exported, so GET requests get a 405',
+      })),
+}
+
+const inconsistentParamNames: LintRule = {
+  name: 'inconsistent-param-names',
+  description:
+    'Dynamic segments at the same position with different names, e.g. [id] and [userId]',
+  severity: 'error',
+  check: ({ pages, routes }) => {
+    // Params that share a parent URL, per router and app
+    const positions = new Map<
+      string,
+      { prefix: string; names: Map<string, RouteEntry[]> }
+    >()
+    for (const entry of [...pages, ...routes]) {
+      const segments = entry.path.split('/').filter(Boolean)
+      for (const [index, segment] of segments.entries()) {
+        if (!segment.startsWith(':')) continue
+        const prefix = `/${segments.slice(0, index).map(stripParamName).join('/')}`
+        const key = `${entry.router}\0${entry.app ?? ''}\0${prefix}`
+        const position = positions.get(key) ?? { prefix, names: new Map() }
+        const name = segment.slice(1).replace(/\*\??$/, '')
+        const users = position.names.get(name) ?? []
+        if (!users.includes(entry)) users.push(entry)
+        position.names.set(name, users)
+        positions.set(key, position)
+      }
+    }
+
+    const reports: LintReport[] = []
+    for (const { prefix, names } of positions.values()) {
+      if (names.size < 2) continue
+      // The most used name wins; the others are reported
+      const [expected, ...others] = [...names].sort(
+        ([a, aUsers], [b, bUsers]) =>
+          bUsers.length - aUsers.length || a.localeCompare(b),
+      )
+      for (const [name, users] of others) {
+        for (const entry of users) {
+          reports.push({
+            ...locate(entry),
+            message: `Param :${name} under ${prefix} is named :${expected[0]} by ${expected[1].length} other route${expected[1].length === 1 ? '' : 's'}`,
+          })
+        }
+      }
+    }
+    return reports
+  },
+}
+
+const uppercaseSegment: LintRule = {
+  name: 'uppercase-segment',
+  description: 'URL segments with uppercase letters',
+  severity: 'warn',
+  check: ({ pages, routes }) =>
+    [...pages, ...routes].flatMap((entry) => {
+      const segments = entry.path
+        .split('/')
+        .filter((segment) => !segment.startsWith(':') && /[A-Z]/.test(segment))
+      if (!segments.length) return []
+      return [
+        {
+          ...locate(entry),
+          message: `URL segment ${segments.map((segment) => `"${segment}"`).join(', ')} is not lowercase`,
+        },
+      ]
+    }),
+}
+
+const edgeNodeBuiltin: LintRule = {
+  name: 'edge-node-builtin',
+  description: 'Edge runtime pages and routes that import Node.js built-ins',
+  severity: 'error',
+  check: async ({ session, pages, routes }) => {
+    const edge = [...pages, ...routes].filter(
+      (entry) =>
+        entry.segmentConfig.runtime === 'edge' && !/\.mdx?$/.test(entry.file),
+    )
+    // A shared module is reported once, for the first entry that reaches it
+    const reports = new Map<string, LintReport>()
+    for (const entry of edge) {
+      const { modules } = await analyzeComponentBoundaries(session, [
+        path.join(session.root, entry.file),
+      ])
+      for (const dependency of modules) {
+        const sourceFile = await parseSourceFile(
+          path.join(session.root, dependency.file),
+        )
+        for (const found of readModuleImports(sourceFile)) {
+          const key = `${dependency.file}:${found.line}:${found.column}`
+          if (!isNodeBuiltin(found.specifier) || reports.has(key)) continue
+          reports.set(key, {
+            path: entry.path,
+            file: dependency.file,
+            line: found.line,
+            column: found.column,
+            message:
+              dependency.file === entry.file
+                ? `Imports "${found.specifier}", which the Edge runtime does not provide`
+                : `Imports "${found.specifier}", which the Edge runtime does not provide (reached from ${entry.file})`,
+          })
+        }
+      }
+    }
+    return [...reports.values()]
+  },
+}
+
+/**
+ * Built-in rules, in the order they are reported.
+ */
+export const LINT_RULES: LintRule[] = [
+  pageMissingError,
+  headOnlyRoute,
+  inconsistentParamNames,
+  uppercaseSegment,
+  edgeNodeBuiltin,
+]
+
+function isNodeBuiltin(specifier: string): boolean {
+  const name = specifier.replace(/^node:/, '').split('/')[0]
+  if (EDGE_BUILTINS.has(name)) return false
+  return specifier.startsWith('node:') || NODE_BUILTINS.has(name)
+}
+
+function stripParamName(segment: string): string {
+  return segment.startsWith(':') ? ':' : segment
+}
+
+function locate(entry: RouteEntry): Omit<LintReport, 'message'> {
+  return 'handlers' in entry ? locateRoute(entry) : locatePage(entry)
+}
+
+// Reports point at the page component, where a disable comment can go
+function locatePage(page: PageInfo): Omit<LintReport, 'message'> {
+  const component = page.defaultExport
+  return component
+    ? {
+        path: page.path,
+        file: page.file,
+        line: component.line,
+        column: component.column,
+      }
+    : { path: page.path, file: page.file }
+}
+
+function locateRoute(route: RouteInfo): Omit<LintReport, 'message'> {
+  const [handler] = route.handlers
+  return handler && handler.file === route.file
+    ? {
+        path: route.path,
+        file: route.file,
+        line: handler.line,
+        column: handler.column,
+      }
+    : { path: route.path, file: route.file }
+}
@@ -0,0 +1,72 @@
+import path from 'path'
+import { normalizeRelative } from '../utils'
+import type { LintIssue } from './engine'
+import type { LintRule, LintSeverity } from './rules'
+
+export type SarifOptions = {
+  rules: LintRule[]
+  /** Scanned root that issue files are relative to. */
+  root: string
+  /**
+   * Directory result URIs are relative to. GitHub code scanning expects the
+   * repository root, which is where CI jobs usually run.
+   */
+  baseDirectory: string
+  version: string
+}
+
+const SARIF_LEVELS: Record<LintSeverity, 'warning' | 'error'> = {
+  warn: 'warning',
+  error: 'error',
+}
+
+/**
+ * Build a SARIF 2.1.0 log for uploading to GitHub code scanning, which shows
+ * the results as annotations on pull requests.
+ */
+export function formatSarif(
+  issues: LintIssue[],
+  { rules, root, baseDirectory, version }: SarifOptions,
+): object {
+  const ruleIndex = new Map(rules.map((rule, index) => [rule.name, index]))
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'next-lens',
+            version,
+            informationUri: 'https://github.com/1weiho/next-lens',
+            rules: rules.map((rule) => ({
+              id: rule.name,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: SARIF_LEVELS[rule.severity] },
+            })),
+          },
+        },
+        results: issues.map((issue) => ({
+          ruleId: issue.rule,
+          ruleIndex: ruleIndex.get(issue.rule),
+          level: SARIF_LEVELS[issue.severity],
+          message: { text: `${issue.message} (${issue.path})` },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: normalizeRelative(
+                    baseDirectory,
+                    path.join(root, issue.file),
+                  ),
+                },
+                region: { startLine: issue.line, startColumn: issue.column },
+              },
+            },
+          ],
+        })),
+      },
+    ],
+  }
+}
@@ -0,0 +1,178 @@
+import type ts from 'typescript'
+import {
+  evaluateStaticValue,
+  readObjectProperty,
+  type ModuleExports,
+} from './module-exports'
+
+/**
+ * `title` as written in a metadata object: a plain string, or an object
+ * whose `template` applies to child segments.
+ */
+export type MetadataTitle =
+  | string
+  | {
+      default?: string
+      template?: string
+      absolute?: string
+    }
+
+/**
+ * Metadata-related exports of a single page or layout module.
+ */
+export type ModuleMetadata = {
+  /**
+   * `static` for `export const metadata`, `generated` for
+   * `generateMetadata`, whose values are only known at request time.
+   */
+  source?: 'static' | 'generated'
+  /** Statically analyzable `metadata.title`. */
+  title?: MetadataTitle
+  /** Statically analyzable `metadata.description`. */
+  description?: string
+  generateStaticParams?: boolean
+  /** Exports `viewport` or `generateViewport`. */
+  viewport?: boolean
+}
+
+/**
+ * File-based metadata conventions. Images apply to their segment and the
+ * segments below it; the others are only read from the app root.
+ */
+export const METADATA_FILE_KINDS = [
+  'opengraph-image',
+  'twitter-image',
+  'icon',
+  'apple-icon',
+  'favicon',
+  'sitemap',
+  'robots',
+  'manifest',
+] as const
+
+export type MetadataFileKind = (typeof METADATA_FILE_KINDS)[number]
+
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js']
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.ico']
+
+export const METADATA_FILE_EXTENSIONS: Record<MetadataFileKind, string[]> = {
+  'opengraph-image': [...IMAGE_EXTENSIONS, ...SCRIPT_EXTENSIONS],
+  'twitter-image': [...IMAGE_EXTENSIONS, ...SCRIPT_EXTENSIONS],
+  icon: [...IMAGE_EXTENSIONS, ...SCRIPT_EXTENSIONS],
+  'apple-icon': [...IMAGE_EXTENSIONS, ...SCRIPT_EXTENSIONS],
+  favicon: ['.ico'],
+  sitemap: ['.xml', '.ts', '.js'],
+  robots: ['.txt', '.ts', '.js'],
+  manifest: ['.json', '.webmanifest', '.ts', '.js'],
+}
+
+export const ROOT_METADATA_FILES = new Set<MetadataFileKind>([
+  'favicon',
+  'sitemap',
+  'robots',
+  'manifest',
+])
+
+/**
+ * Read the metadata exports of a module. Returns undefined when it has none,
+ * so summaries of route handlers and plain components stay small.
+ */
+export function metadataFromExports(
+  exports: ModuleExports,
+): ModuleMetadata | undefined {
+  const metadata: ModuleMetadata = {}
+
+  if (exports.has('generateMetadata')) {
+    metadata.source = 'generated'
+  } else if (exports.has('metadata')) {
+    metadata.source = 'static'
+    const object = exports.get('metadata')?.initializer
+    const title = readTitle(readObjectProperty(object, 'title'))
+    if (title !== undefined) metadata.title = title
+    const description = evaluate(readObjectProperty(object, 'description'))
+    if (typeof description === 'string') metadata.description = description
+  }
+  if (exports.has('generateStaticParams')) metadata.generateStaticParams = true
+  if (exports.has('viewport') || exports.has('generateViewport')) {
+    metadata.viewport = true
+  }
+
+  return Object.keys(metadata).length ? metadata : undefined
+}
+
+/**
+ * Metadata of a page after merging its layouts.
+ */
+export type PageMetadata = {
+  title?: string
+  titleFile?: string
+  description?: string
+  descriptionFile?: string
+  /** Innermost file in the chain that exports `generateMetadata`. */
+  generatedBy?: string
+  /** Innermost file in the chain that exports `generateStaticParams`. */
+  staticParams?: string
+  /** Innermost file in the chain that exports a viewport. */
+  viewport?: string
+  /** File-based metadata that applies to the page, by kind. */
+  files: Partial<Record<MetadataFileKind, string>>
+}
+
+/**
+ * Merge metadata down a layout chain ending in the page, the way Next.js
+ * does: children override parents, a parent's `title.template` wraps the
+ * titles of the segments below it, and `title.absolute` skips the template.
+ */
+export function resolveMetadataChain(
+  chain: Array<{ file: string; metadata?: ModuleMetadata }>,
+): Omit<PageMetadata, 'files'> {
+  const resolved: Omit<PageMetadata, 'files'> = {}
+  let template: string | undefined
+
+  for (const { file, metadata } of chain) {
+    if (!metadata) continue
+
+    if (metadata.source === 'generated') resolved.generatedBy = file
+    if (metadata.generateStaticParams) resolved.staticParams = file
+    if (metadata.viewport) resolved.viewport = file
+
+    const { title, description } = metadata
+    const ownTitle =
+      typeof title === 'string'
+        ? applyTemplate(template, title)
+        : (title?.absolute ?? title?.default)
+    if (ownTitle !== undefined) {
+      resolved.title = ownTitle
+      resolved.titleFile = file
+    }
+    if (description !== undefined) {
+      resolved.description = description
+      resolved.descriptionFile = file
+    }
+    if (typeof title === 'object' && title.template) template = title.template
+  }
+
+  return resolved
+}
+
+function applyTemplate(template: string | undefined, title: string): string {
+  return template ? template.replace('%s', title) : title
+}
+
+function readTitle(
+  expression: ts.Expression | undefined,
+): MetadataTitle | undefined {
+  const value = evaluate(expression)
+  if (typeof value === 'string') return value
+
+  const title: Exclude<MetadataTitle, string> = {}
+  for (const key of ['default', 'template', 'absolute'] as const) {
+    const part = evaluate(readObjectProperty(expression, key))
+    if (typeof part === 'string') title[key] = part
+  }
+  return Object.keys(title).length ? title : undefined
+}
+
+function evaluate(expression: ts.Expression | undefined) {
+  return expression && evaluateStaticValue(expression)
+}
@@ -0,0 +1,305 @@
+import path from 'path'
+import {
+  evaluateStaticValue,
+  readObjectProperty,
+  type ModuleExports,
+  type StaticValue,
+} from './module-exports'
+import type { ScanSession } from './scanner'
+
+/**
+ * Whether the project's middleware runs for a route. `unknown` when the
+ * matcher is not statically analyzable, only matches when `has` / `missing`
+ * conditions hold, or only covers some values of a dynamic segment.
+ */
+export type MiddlewareCoverage = 'matched' | 'unmatched' | 'unknown'
+
+export type MatcherCondition = {
+  type: 'header' | 'cookie' | 'query' | 'host'
+  key?: string
+  value?: string
+}
+
+export type MiddlewareMatcher = {
+  source: string
+  has?: MatcherCondition[]
+  missing?: MatcherCondition[]
+}
+
+/**
+ * Next.js 16 renamed `middleware` to `proxy`; both are picked up.
+ */
+const MIDDLEWARE_BASENAMES = ['middleware', 'proxy']
+const MIDDLEWARE_EXTENSIONS = ['.ts', '.js', '.mjs', '.tsx', '.jsx']
+const CONDITION_TYPES = new Set(['header', 'cookie', 'query', 'host'])
+const SEGMENT_PATTERN = '[^/#?]+?'
+
+/**
+ * Read `config.matcher` from a middleware module. Returns undefined when the
+ * module has no matcher, so the middleware runs for every path, and null when
+ * the matcher is computed at runtime.
+ */
+export function matcherFromExports(
+  exports: ModuleExports,
+): MiddlewareMatcher[] | null | undefined {
+  const config = exports.get('config')?.initializer
+  const expression = readObjectProperty(config, 'matcher')
+  if (!expression) return undefined
+
+  const value = evaluateStaticValue(expression)
+  const entries = Array.isArray(value) ? value : [value]
+  const matchers: MiddlewareMatcher[] = []
+  for (const entry of entries) {
+    const matcher = toMatcher(entry)
+    if (!matcher) return null
+    matchers.push(matcher)
+  }
+  return matchers
+}
+
+/**
+ * Whether a file name is a middleware entry, e.g. `middleware.ts`.
+ */
+export function isMiddlewareFile(name: string): boolean {
+  const extension = path.extname(name)
+  return (
+    MIDDLEWARE_EXTENSIONS.includes(extension) &&
+    MIDDLEWARE_BASENAMES.includes(path.basename(name, extension))
+  )
+}
+
+/**
+ * Middleware file next to the `app` or `pages` directory, i.e. at the project
+ * root or in `src/`.
+ */
+export async function findMiddleware(
+  session: ScanSession,
+  routerDirectory: string,
+): Promise<string | null> {
+  const directory = path.dirname(routerDirectory)
+  for (const basename of MIDDLEWARE_BASENAMES) {
+    const found = await session.findConventionFile(
+      directory,
+      basename,
+      MIDDLEWARE_EXTENSIONS,
+    )
+    if (found) return found
+  }
+  return null
+}
+
+/**
+ * Coverage of a route by the middleware of its `app` or `pages` directory.
+ */
+export async function resolveMiddlewareCoverage(
+  session: ScanSession,
+  routerDirectory: string,
+  routePath: string,
+): Promise<MiddlewareCoverage> {
+  const middleware = await findMiddleware(session, routerDirectory)
+  if (!middleware) return 'unmatched'
+
+  const { matcher } = await session.summarize(middleware)
+  if (matcher === undefined) return 'matched'
+  if (matcher === null) return 'unknown'
+  return matchRoute(matcher, routePath)
+}
+
+/**
+ * Match a route path such as `/blog/:slug` against middleware matchers.
+ * Dynamic segments are tested with a sample value; a matcher that needs a
+ * literal where the route has a parameter only covers part of the route.
+ */
+export function matchRoute(
+  matchers: MiddlewareMatcher[],
+  routePath: string,
+): MiddlewareCoverage {
+  const sample = samplePath(routePath)
+  let coverage: MiddlewareCoverage = 'unmatched'
+
+  for (const matcher of matchers) {
+    const pattern = compileMatcherSource(matcher.source)
+    if (!pattern) {
+      coverage = 'unknown'
+      continue
+    }
+    if (!pattern.test(sample)) {
+      // A literal matcher such as `/shop/sale` covers one value of `/shop/:id`
+      if (
+        !/[:(]/.test(matcher.source) &&
+        routePattern(routePath).test(matcher.source)
+      ) {
+        coverage = 'unknown'
+      }
+      continue
+    }
+
+    const conditional = Boolean(matcher.has?.length || matcher.missing?.length)
+    if (!conditional && !isPartialMatch(matcher.source, routePath)) {
+      return 'matched'
+    }
+    coverage = 'unknown'
+  }
+
+  return coverage
+}
+
+/**
+ * Compile a matcher source in the `path-to-regexp` syntax Next.js uses:
+ * `:name`, `:name*`, `:name+`, `:name?`, `:name(regex)` and unnamed
+ * `(regex)` groups. Returns null for patterns it cannot compile.
+ */
+export function compileMatcherSource(source: string): RegExp | null {
+  let pattern = ''
+  let index = 0
+
+  while (index < source.length) {
+    const char = source[index]
+
+    if (char === '\\') {
+      pattern += source.slice(index, index + 2)
+      index += 2
+      continue
+    }
+
+    if (char === ':' || char === '(') {
+      let group = SEGMENT_PATTERN
+      if (char === ':') {
+        const name = /^\w+/.exec(source.slice(index + 1))?.[0]
+        if (!name) return null
+        index += 1 + name.length
+      }
+      if (source[index] === '(') {
+        const end = findGroupEnd(source, index)
+        if (end === -1) return null
+        group = source.slice(index + 1, end)
+        index = end + 1
+      }
+
+      const modifier = source[index]
+      if (modifier === '*' || modifier === '+' || modifier === '?') index += 1
+      pattern = appendParameter(pattern, group, modifier)
+      continue
+    }
+
+    pattern += escapeRegExp(char)
+    index += 1
+  }
+
+  try {
+    return new RegExp(`^${pattern}[/#?]?$`, 'i')
+  } catch {
+    return null
+  }
+}
+
+function appendParameter(
+  pattern: string,
+  group: string,
+  modifier: string | undefined,
+): string {
+  // Like path-to-regexp, a repeated or optional parameter takes its `/` along
+  const prefix = pattern.endsWith('/') ? '/' : ''
+  const base = prefix ? pattern.slice(0, -1) : pattern
+  const repeated = `(?:${group})(?:${prefix}(?:${group}))*`
+
+  switch (modifier) {
+    case '*':
+      return `${base}(?:${prefix}(${repeated}))?`
+    case '+':
+      return `${base}${prefix}(${repeated})`
+    case '?':
+      return `${base}(?:${prefix}(${group}))?`
+    default:
+      return `${pattern}(${group})`
+  }
+}
+
+function findGroupEnd(source: string, start: number): number {
+  let depth = 0
+  for (let index = start; index < source.length; index += 1) {
+    const char = source[index]
+    if (char === '\\') {
+      index += 1
+    } else if (char === '(') {
+      depth += 1
+    } else if (char === ')') {
+      depth -= 1
+      if (depth === 0) return index
+    }
+  }
+  return -1
+}
+
+// `/blog/:slug` → `/blog/slug`, `/docs/:slug*` → `/docs/slug`
+function samplePath(routePath: string): string {
+  return routePath.replace(/:(\w+)[*+?]?/g, '$1')
+}
+
+function routePattern(routePath: string): RegExp {
+  const pattern = routePath
+    .split(/(:\w+[*+?]?)/)
+    .map((part, index) => {
+      if (index % 2 === 0) return escapeRegExp(part)
+      return /[*+]$/.test(part) ? '.*' : '[^/]+'
+    })
+    .join('')
+  return new RegExp(`^${pattern}/?$`, 'i')
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function isPartialMatch(source: string, routePath: string): boolean {
+  const sourceSegments = source.split('/')
+  const routeSegments = routePath.split('/')
+  return routeSegments.some(
+    (segment, index) =>
+      segment.startsWith(':') &&
+      index < sourceSegments.length &&
+      !/[:(]/.test(sourceSegments[index]),
+  )
+}
+
+function toMatcher(
+  value: StaticValue | undefined,
+): MiddlewareMatcher | undefined {
+  if (typeof value === 'string') return { source: value }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined
+  }
+  if (typeof value.source !== 'string') return undefined
+
+  const has = toConditions(value.has)
+  const missing = toConditions(value.missing)
+  if (has === null || missing === null) return undefined
+  return {
+    source: value.source,
+    ...(has ? { has } : {}),
+    ...(missing ? { missing } : {}),
+  }
+}
+
+function toConditions(
+  value: StaticValue | undefined,
+): MatcherCondition[] | null | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value)) return null
+
+  const conditions: MatcherCondition[] = []
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return null
+    }
+    if (typeof entry.type !== 'string' || !CONDITION_TYPES.has(entry.type)) {
+      return null
+    }
+    conditions.push({
+      type: entry.type as MatcherCondition['type'],
+      ...(typeof entry.key === 'string' ? { key: entry.key } : {}),
+      ...(typeof entry.value === 'string' ? { value: entry.value } : {}),
+    })
+  }
+  return conditions
+}
@@ -0,0 +1,552 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import ts from 'typescript'
+
+export type SourceLocation = {
+  file: string
+  line: number
+  column: number
+  endLine: number
+  endColumn: number
+}
+
+export type ExportedBinding = SourceLocation & {
+  name: string
+  /**
+   * Declaration node the export resolves to. When the export cannot be
+   * followed (e.g. a re-export from a package), this is the export specifier.
+   */
+  node: ts.Node
+  sourceFile: ts.SourceFile
+  /**
+   * Value expression for variable exports (`export const runtime = 'edge'`).
+   */
+  initializer?: ts.Expression
+}
+
+export type StaticValue =
+  | string
+  | number
+  | boolean
+  | null
+  | StaticValue[]
+  | { [key: string]: StaticValue }
+
+export type ModuleExports = Map<string, ExportedBinding>
+
+type ExportWalk = {
+  /** Files on the current re-export chain. */
+  visiting: Set<string>
+  /** Every file parsed while collecting, for cache invalidation. */
+  parsed: Set<string>
+  /** Files probed for local imports that did not exist. */
+  missing: Set<string>
+}
+
+export type DocComment = {
+  /** First paragraph of the comment. */
+  summary: string
+  /** Remaining paragraphs, if any. */
+  description?: string
+  deprecated?: boolean
+}
+
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs']
+
+/**
+ * Parse a module with the TypeScript compiler API and return every value
+ * export Next.js would see, keyed by exported name.
+ *
+ * Local re-exports (`export { GET } from './handlers'`, `export * from`) and
+ * imported bindings that are re-exported are followed across files so each
+ * binding points at its real declaration. Type-only exports are ignored.
+ * Every file parsed along the way is added to `dependencies` and every file
+ * probed for a local import that did not exist to `missing`, when provided.
+ */
+export async function collectModuleExports(
+  filePath: string,
+  dependencies?: Set<string>,
+  missing?: Set<string>,
+): Promise<ModuleExports> {
+  return collectExports(path.resolve(filePath), {
+    visiting: new Set(),
+    parsed: dependencies ?? new Set(),
+    missing: missing ?? new Set(),
+  })
+}
+
+/**
+ * Parse a source file, choosing the script kind from its extension.
+ */
+export async function parseSourceFile(
+  filePath: string,
+): Promise<ts.SourceFile> {
+  const source = await fs.readFile(filePath, 'utf8')
+  return ts.createSourceFile(
+    filePath,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKindFor(filePath),
+  )
+}
+
+/**
+ * 1-based start and end positions of a node, skipping leading trivia and
+ * comments.
+ */
+export function locate(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+): SourceLocation {
+  const start = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile),
+  )
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd())
+  return {
+    file: sourceFile.fileName,
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+  }
+}
+
+async function collectExports(
+  filePath: string,
+  walk: ExportWalk,
+): Promise<ModuleExports> {
+  const exports: ModuleExports = new Map()
+  // `visiting` holds the current re-export chain so cycles terminate
+  if (walk.visiting.has(filePath)) return exports
+  walk.visiting.add(filePath)
+
+  const sourceFile = await parseSourceFile(filePath)
+  walk.parsed.add(filePath)
+
+  const register = (
+    name: string,
+    node: ts.Node,
+    initializer?: ts.Expression,
+  ) => {
+    exports.set(name, {
+      name,
+      node,
+      sourceFile,
+      initializer,
+      ...locate(node, sourceFile),
+    })
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      if (statement.isTypeOnly) continue
+      await collectExportDeclaration(
+        statement,
+        sourceFile,
+        walk,
+        exports,
+        register,
+      )
+      continue
+    }
+
+    if (!hasExportModifier(statement)) continue
+    if (hasModifier(statement, ts.SyntaxKind.DeclareKeyword)) continue
+    if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+      register('default', statement)
+      continue
+    }
+
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      register(statement.name.text, statement)
+      continue
+    }
+
+    if (ts.isClassDeclaration(statement) && statement.name) {
+      register(statement.name.text, statement)
+      continue
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          register(declaration.name.text, statement, declaration.initializer)
+          continue
+        }
+        for (const element of bindingElements(declaration.name)) {
+          register(element.name.text, element)
+        }
+      }
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExportAssignment(statement) || statement.isExportEquals) continue
+
+    // export default Page → point at the `Page` declaration
+    const resolved = ts.isIdentifier(statement.expression)
+      ? await resolveLocalBinding(sourceFile, statement.expression.text, walk)
+      : null
+
+    if (resolved) {
+      exports.set('default', { ...resolved, name: 'default' })
+    } else {
+      register('default', statement)
+    }
+  }
+
+  walk.visiting.delete(filePath)
+  return exports
+}
+
+async function collectExportDeclaration(
+  statement: ts.ExportDeclaration,
+  sourceFile: ts.SourceFile,
+  walk: ExportWalk,
+  exports: ModuleExports,
+  register: (name: string, node: ts.Node) => void,
+) {
+  const specifier =
+    statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+      ? statement.moduleSpecifier.text
+      : null
+
+  // export * from './handlers' / export * as ns from './handlers'
+  if (!statement.exportClause) {
+    if (!specifier) return
+    const target = await resolveLocalModule(
+      sourceFile.fileName,
+      specifier,
+      walk.missing,
+    )
+    if (!target) return
+    const reexported = await collectExports(target, walk)
+    for (const [name, binding] of reexported) {
+      if (name === 'default' || exports.has(name)) continue
+      exports.set(name, binding)
+    }
+    return
+  }
+
+  if (ts.isNamespaceExport(statement.exportClause)) {
+    register(statement.exportClause.name.text, statement.exportClause)
+    return
+  }
+
+  for (const element of statement.exportClause.elements) {
+    if (element.isTypeOnly) continue
+    const exportedName = element.name.text
+    const localName = (element.propertyName ?? element.name).text
+
+    const resolved = specifier
+      ? await resolveFromModule(sourceFile.fileName, specifier, localName, walk)
+      : await resolveLocalBinding(sourceFile, localName, walk)
+
+    if (resolved) {
+      exports.set(exportedName, { ...resolved, name: exportedName })
+    } else {
+      register(exportedName, element)
+    }
+  }
+}
+
+/**
+ * Follow a local name to its declaration inside a module, including bindings
+ * imported from other local modules.
+ */
+async function resolveLocalBinding(
+  sourceFile: ts.SourceFile,
+  localName: string,
+  walk: ExportWalk,
+): Promise<ExportedBinding | null> {
+  const make = (
+    node: ts.Node,
+    initializer?: ts.Expression,
+  ): ExportedBinding => ({
+    name: localName,
+    node,
+    sourceFile,
+    initializer,
+    ...locate(node, sourceFile),
+  })
+
+  for (const statement of sourceFile.statements) {
+    if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name?.text === localName
+    ) {
+      return make(statement)
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          if (declaration.name.text === localName) {
+            return make(statement, declaration.initializer)
+          }
+          continue
+        }
+        const element = bindingElements(declaration.name).find(
+          (candidate) => candidate.name.text === localName,
+        )
+        if (element) return make(element)
+      }
+    }
+
+    if (ts.isImportDeclaration(statement)) {
+      const clause = statement.importClause
+      if (!clause || clause.isTypeOnly) continue
+      if (!ts.isStringLiteral(statement.moduleSpecifier)) continue
+      const specifier = statement.moduleSpecifier.text
+
+      if (clause.name?.text === localName) {
+        return (
+          (await resolveFromModule(
+            sourceFile.fileName,
+            specifier,
+            'default',
+            walk,
+          )) ?? make(clause)
+        )
+      }
+
+      const bindings = clause.namedBindings
+      if (!bindings || !ts.isNamedImports(bindings)) continue
+      const element = bindings.elements.find(
+        (candidate) => candidate.name.text === localName,
+      )
+      if (!element) continue
+
+      const importedName = (element.propertyName ?? element.name).text
+      return (
+        (await resolveFromModule(
+          sourceFile.fileName,
+          specifier,
+          importedName,
+          walk,
+        )) ?? make(element)
+      )
+    }
+  }
+
+  return null
+}
+
+async function resolveFromModule(
+  fromFile: string,
+  specifier: string,
+  name: string,
+  walk: ExportWalk,
+): Promise<ExportedBinding | null> {
+  const target = await resolveLocalModule(fromFile, specifier, walk.missing)
+  if (!target) return null
+  const exports = await collectExports(target, walk)
+  return exports.get(name) ?? null
+}
+
+/**
+ * Evaluate a statically analyzable expression: string, number, boolean and
+ * null literals plus arrays and object literals built from them. `as const`,
+ * `satisfies` and parentheses are unwrapped. Returns `undefined` for anything
+ * that would need to run code.
+ */
+export function evaluateStaticValue(
+  expression: ts.Expression,
+): StaticValue | undefined {
+  if (
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    ts.isParenthesizedExpression(expression)
+  ) {
+    return evaluateStaticValue(expression.expression)
+  }
+
+  if (
+    ts.isStringLiteral(expression) ||
+    ts.isNoSubstitutionTemplateLiteral(expression)
+  ) {
+    return expression.text
+  }
+
+  if (ts.isNumericLiteral(expression)) return Number(expression.text)
+
+  if (
+    ts.isPrefixUnaryExpression(expression) &&
+    expression.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(expression.operand)
+  ) {
+    return -Number(expression.operand.text)
+  }
+
+  if (expression.kind === ts.SyntaxKind.TrueKeyword) return true
+  if (expression.kind === ts.SyntaxKind.FalseKeyword) return false
+  if (expression.kind === ts.SyntaxKind.NullKeyword) return null
+
+  if (ts.isArrayLiteralExpression(expression)) {
+    const values: StaticValue[] = []
+    for (const element of expression.elements) {
+      const value = evaluateStaticValue(element)
+      if (value === undefined) return undefined
+      values.push(value)
+    }
+    return values
+  }
+
+  if (ts.isObjectLiteralExpression(expression)) {
+    const result: { [key: string]: StaticValue } = {}
+    for (const property of expression.properties) {
+      if (!ts.isPropertyAssignment(property)) return undefined
+      const key =
+        ts.isIdentifier(property.name) ||
+        ts.isStringLiteral(property.name) ||
+        ts.isNumericLiteral(property.name)
+          ? property.name.text
+          : null
+      if (key === null) return undefined
+      const value = evaluateStaticValue(property.initializer)
+      if (value === undefined) return undefined
+      result[key] = value
+    }
+    return result
+  }
+
+  return undefined
+}
+
+/**
+ * Initializer of one property of an object literal, e.g. `matcher` in
+ * `export const config = { matcher: [...] }`. Other properties do not need
+ * to be statically analyzable.
+ */
+export function readObjectProperty(
+  expression: ts.Expression | undefined,
+  name: string,
+): ts.Expression | undefined {
+  let current = expression
+  while (
+    current &&
+    (ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isParenthesizedExpression(current))
+  ) {
+    current = current.expression
+  }
+  if (!current || !ts.isObjectLiteralExpression(current)) return undefined
+
+  for (const property of current.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+      property.name.text === name
+    ) {
+      return property.initializer
+    }
+  }
+  return undefined
+}
+
+/**
+ * Read the JSDoc block attached to a declaration, e.g. the comment above
+ * `export async function GET()`.
+ */
+export function readDocComment(node: ts.Node): DocComment | undefined {
+  const jsDoc = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc).at(-1)
+  if (!jsDoc) return undefined
+
+  const text = ts.getTextOfJSDocComment(jsDoc.comment)?.trim() ?? ''
+  const deprecated = Boolean(ts.getJSDocDeprecatedTag(node))
+  if (!text && !deprecated) return undefined
+
+  const [summary = '', ...rest] = text.split(/\n\s*\n/)
+  const description = rest.join('\n\n').trim()
+
+  return {
+    summary: summary.replace(/\s*\n\s*/g, ' '),
+    ...(description ? { description } : {}),
+    ...(deprecated ? { deprecated } : {}),
+  }
+}
+
+/**
+ * Resolve a relative module specifier the way bundlers do: exact file,
+ * extension probing (including `.js` → `.ts` rewrites) and `index` files.
+ * Package and alias imports are not followed. Candidates probed before the
+ * match that do not exist are added to `missing` when provided.
+ */
+export async function resolveLocalModule(
+  fromFile: string,
+  specifier: string,
+  missing?: Set<string>,
+): Promise<string | null> {
+  if (!specifier.startsWith('.')) return null
+
+  const base = path.resolve(path.dirname(fromFile), specifier)
+  const withoutJsExtension = base.replace(/\.(m|c)?jsx?$/, '')
+
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map((extension) => `${base}${extension}`),
+    ...MODULE_EXTENSIONS.map(
+      (extension) => `${withoutJsExtension}${extension}`,
+    ),
+    ...MODULE_EXTENSIONS.map((extension) =>
+      path.join(base, `index${extension}`),
+    ),
+  ]
+
+  for (const candidate of candidates) {
+    try {
+      const stats = await fs.stat(candidate)
+      if (stats.isFile()) return candidate
+    } catch (error) {
+      const { code } = error as NodeJS.ErrnoException
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') throw error
+      missing?.add(candidate)
+    }
+  }
+
+  return null
+}
+
+type NamedBindingElement = ts.BindingElement & { name: ts.Identifier }
+
+function bindingElements(pattern: ts.BindingName): NamedBindingElement[] {
+  if (ts.isIdentifier(pattern)) return []
+
+  const results: NamedBindingElement[] = []
+  for (const element of pattern.elements) {
+    if (ts.isOmittedExpression(element)) continue
+    if (ts.isIdentifier(element.name)) {
+      results.push(element as NamedBindingElement)
+    } else {
+      results.push(...bindingElements(element.name))
+    }
+  }
+  return results
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return hasModifier(node, ts.SyntaxKind.ExportKeyword)
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  if (!ts.canHaveModifiers(node)) return false
+  return ts.getModifiers(node)?.some((m) => m.kind === kind) ?? false
+}
+
+function scriptKindFor(filePath: string): ts.ScriptKind {
+  switch (path.extname(filePath)) {
+    case '.tsx':
+      return ts.ScriptKind.TSX
+    case '.jsx':
+      return ts.ScriptKind.JSX
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS
+    default:
+      return ts.ScriptKind.TS
+  }
+}
@@ -0,0 +1,254 @@
+import { STATUS_CODES } from 'http'
+import { HTTP_METHODS, type RouteHandler, type RouteInfo } from './api-routes'
+import type { JsonSchema } from './handler-schema'
+
+export type OpenApiParameter = {
+  name: string
+  in: 'path' | 'query'
+  required: boolean
+  description?: string
+  schema: JsonSchema
+}
+
+export type OpenApiOperation = {
+  operationId: string
+  summary?: string
+  description?: string
+  deprecated?: boolean
+  tags?: string[]
+  parameters?: OpenApiParameter[]
+  requestBody?: {
+    required: boolean
+    content: { 'application/json': { schema: JsonSchema } }
+  }
+  responses: Record<
+    string,
+    {
+      description: string
+      content?: { 'application/json': { schema: JsonSchema } }
+    }
+  >
+}
+
+export type OpenApiDocument = {
+  openapi: '3.1.0'
+  info: { title: string; version: string; description?: string }
+  servers?: Array<{ url: string }>
+  paths: Record<string, Record<string, OpenApiOperation>>
+}
+
+/**
+ * Two routes that map to the same method and OpenAPI path, e.g. in two
+ * monorepo apps. The first route's operation is kept.
+ */
+export type OpenApiConflict = {
+  method: string
+  path: string
+  /** File of the route whose operation is in the document. */
+  file: string
+  /** File of the route that was left out. */
+  conflictsWith: string
+}
+
+export type OpenApiOptions = {
+  title: string
+  version: string
+  description?: string
+  servers?: string[]
+  /** Called for each operation left out because its path is taken. */
+  onConflict?: (conflict: OpenApiConflict) => void
+}
+
+type PathTemplate = {
+  path: string
+  parameters: OpenApiParameter[]
+}
+
+/**
+ * Build an OpenAPI 3.1 document from `getApiRoutes` output. Handlers with an
+ * inferred `schema` contribute query parameters, request bodies and typed
+ * responses; JSDoc on the handler becomes the operation summary.
+ */
+export function buildOpenApiDocument(
+  routes: RouteInfo[],
+  options: OpenApiOptions,
+): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {}
+  const operationIds = new Set<string>()
+  // Route file per `METHOD path`, to report routes claiming the same one
+  const owners = new Map<string, string>()
+
+  for (const route of routes) {
+    // `pages/api` handlers without method checks have no single operation
+    const handlers = route.handlers.filter(({ method }) =>
+      HTTP_METHODS.has(method),
+    )
+    if (!handlers.length) continue
+
+    for (const template of toOpenApiPaths(route.path)) {
+      for (const handler of handlers) {
+        const key = `${handler.method} ${template.path}`
+        const owner = owners.get(key)
+        if (owner) {
+          options.onConflict?.({
+            method: handler.method,
+            path: template.path,
+            file: owner,
+            conflictsWith: route.file,
+          })
+          continue
+        }
+        owners.set(key, route.file)
+        // Created with the first operation, so skipped paths leave no item
+        const item = (paths[template.path] ??= {})
+        item[handler.method.toLowerCase()] = buildOperation(
+          handler,
+          template,
+          operationIds,
+        )
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description ? { description: options.description } : {}),
+    },
+    ...(options.servers?.length
+      ? { servers: options.servers.map((url) => ({ url })) }
+      : {}),
+    paths,
+  }
+}
+
+/**
+ * Convert a next-lens route path into OpenAPI path templates:
+ * `:id` → `{id}`, `:slug*` → `{slug}` (one or more segments). OpenAPI path
+ * parameters are always required, so an optional catch-all `:slug*?` yields
+ * two templates, one without the parameter and one with it.
+ */
+export function toOpenApiPaths(routePath: string): PathTemplate[] {
+  const segments = routePath.split('/').filter(Boolean)
+  const optionalIndex = segments.findIndex((segment) => segment.endsWith('*?'))
+
+  if (optionalIndex === -1) return [toPathTemplate(segments)]
+
+  return [
+    toPathTemplate(segments.slice(0, optionalIndex)),
+    toPathTemplate(segments),
+  ]
+}
+
+function toPathTemplate(segments: string[]): PathTemplate {
+  const parameters: OpenApiParameter[] = []
+
+  const parts = segments.map((segment) => {
+    if (!segment.startsWith(':')) return segment
+
+    const catchAll = segment.endsWith('*') || segment.endsWith('*?')
+    const name = segment.slice(1).replace(/\*\??$/, '')
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      ...(catchAll
+        ? { description: 'Catch-all segment; matches one or more segments' }
+        : {}),
+      schema: { type: 'string' },
+    })
+    return `{${name}}`
+  })
+
+  return { path: '/' + parts.join('/'), parameters }
+}
+
+function buildOperation(
+  handler: RouteHandler,
+  template: PathTemplate,
+  operationIds: Set<string>,
+): OpenApiOperation {
+  const { doc, schema } = handler
+  const parameters = [...template.parameters, ...queryParameters(schema?.query)]
+  const tag = operationTag(template.path)
+
+  const responses: OpenApiOperation['responses'] = {}
+  for (const response of schema?.responses ?? []) {
+    responses[String(response.status)] = {
+      description: STATUS_CODES[response.status] ?? 'Response',
+      ...(response.schema
+        ? { content: { 'application/json': { schema: response.schema } } }
+        : {}),
+    }
+  }
+  if (!Object.keys(responses).length) {
+    responses.default = { description: 'Response' }
+  }
+
+  return {
+    operationId: operationId(handler.method, template.path, operationIds),
+    ...(doc?.summary ? { summary: doc.summary } : {}),
+    ...(doc?.description ? { description: doc.description } : {}),
+    ...(doc?.deprecated ? { deprecated: true } : {}),
+    ...(tag ? { tags: [tag] } : {}),
+    ...(parameters.length ? { parameters } : {}),
+    ...(schema?.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: schema.body } },
+          },
+        }
+      : {}),
+    responses,
+  }
+}
+
+function queryParameters(query: JsonSchema | undefined): OpenApiParameter[] {
+  if (!query?.properties) return []
+
+  return Object.entries(query.properties).map(([name, schema]) => {
+    const { description, ...rest } = schema
+    return {
+      name,
+      in: 'query',
+      required: query.required?.includes(name) ?? false,
+      ...(description ? { description } : {}),
+      schema: rest,
+    }
+  })
+}
+
+/**
+ * Group operations by the first static segment after `/api`.
+ */
+function operationTag(openApiPath: string): string | null {
+  const segments = openApiPath.split('/').filter(Boolean)
+  const start = segments[0] === 'api' ? 1 : 0
+  const tag = segments[start]
+  return tag && !tag.startsWith('{') ? tag : null
+}
+
+/**
+ * `GET /api/users/{id}` → `getApiUsersId`. Paths that only differ in
+ * punctuation, like `/api/user/{id}` and `/api/user/id`, get a numbered
+ * suffix so every id in `taken` stays unique.
+ */
+function operationId(
+  method: string,
+  openApiPath: string,
+  taken: Set<string>,
+): string {
+  const words = openApiPath
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+  const base = method.toLowerCase() + words.join('')
+
+  let id = base
+  for (let suffix = 2; taken.has(id); suffix++) id = `${base}${suffix}`
+  taken.add(id)
+  return id
+}
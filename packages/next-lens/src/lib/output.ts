@@ -0,0 +1,161 @@
+import chalk from 'chalk'
+import { stringify } from 'yaml'
+
+export const OUTPUT_FORMATS = [
+  'table',
+  'json',
+  'ndjson',
+  'csv',
+  'markdown',
+  'yaml',
+] as const
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number]
+
+export type FieldValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | string[]
+  | { [key: string]: unknown }
+
+/**
+ * A column of `--format` output. `name` is what users pass to `--fields`.
+ */
+export type OutputField<T> = {
+  name: string
+  value: (item: T) => FieldValue
+}
+
+/**
+ * Validate a `--format` value against the formats a command supports. `md`
+ * and `yml` are accepted as aliases.
+ */
+export function parseOutputFormat(value: string | undefined): OutputFormat
+export function parseOutputFormat<T extends OutputFormat>(
+  value: string | undefined,
+  formats: readonly T[],
+): T
+export function parseOutputFormat(
+  value: string | undefined,
+  formats: readonly OutputFormat[] = OUTPUT_FORMATS,
+): OutputFormat {
+  if (!value) return 'table'
+  const normalized = value.toLowerCase()
+  const format =
+    normalized === 'md'
+      ? 'markdown'
+      : normalized === 'yml'
+        ? 'yaml'
+        : normalized
+  if (!formats.includes(format as OutputFormat)) {
+    throw new Error(
+      `Invalid format: ${value}\nValid formats are: ${formats.join(', ')}`,
+    )
+  }
+  return format as OutputFormat
+}
+
+/**
+ * Resolve `--fields` names, given as separate arguments or comma-separated,
+ * to fields in the order the user listed them. Without names every field is
+ * returned.
+ */
+export function selectFields<T>(
+  fields: OutputField<T>[],
+  names: string[] | undefined,
+): OutputField<T>[] {
+  const requested = (names ?? [])
+    .flatMap((name) => name.split(','))
+    .map((name) => name.trim())
+    .filter(Boolean)
+  if (!requested.length) return fields
+
+  return requested.map((name) => {
+    const field = fields.find((candidate) => candidate.name === name)
+    if (!field) {
+      throw new Error(
+        `Unknown field: ${name}\nValid fields are: ${fields.map((candidate) => candidate.name).join(', ')}`,
+      )
+    }
+    return field
+  })
+}
+
+/**
+ * Turn off colors for `--no-color`. Piped output is already uncolored, since
+ * chalk only colors terminals.
+ */
+export function applyColorOption(options: { color?: boolean }): void {
+  if (options.color === false) chalk.level = 0
+}
+
+/**
+ * Serialize items for scripts and CI. Missing values are `null` in JSON and
+ * YAML and empty cells in CSV and Markdown, so every row has every field.
+ */
+export function formatRecords<T>(
+  items: T[],
+  fields: OutputField<T>[],
+  format: Exclude<OutputFormat, 'table'>,
+): string {
+  const records = items.map((item) =>
+    Object.fromEntries(
+      fields.map((field) => [field.name, field.value(item) ?? null]),
+    ),
+  )
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records, null, 2)
+    case 'ndjson':
+      return records.map((record) => JSON.stringify(record)).join('\n')
+    case 'yaml':
+      return stringify(records, { aliasDuplicateObjects: false }).trimEnd()
+    case 'csv':
+      return [
+        fields.map((field) => escapeCsv(field.name)).join(','),
+        ...items.map((item) =>
+          fields
+            .map((field) => escapeCsv(flattenValue(field.value(item))))
+            .join(','),
+        ),
+      ].join('\n')
+    case 'markdown':
+      return [
+        `| ${fields.map((field) => field.name).join(' | ')} |`,
+        `| ${fields.map(() => '---').join(' | ')} |`,
+        ...items.map(
+          (item) =>
+            `| ${fields
+              .map((field) => escapeMarkdown(flattenValue(field.value(item))))
+              .join(' | ')} |`,
+        ),
+      ].join('\n')
+  }
+}
+
+// Lists are space-separated and objects become `key=value` pairs
+function flattenValue(value: FieldValue): string {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.join(' ')
+  if (typeof value === 'object') {
+    return Object.entries(value)
+      .map(
+        ([key, entry]) =>
+          `${key}=${Array.isArray(entry) ? entry.join(',') : entry}`,
+      )
+      .join(' ')
+  }
+  return String(value)
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export type PackageJson = {
+  name?: string
+  version?: string
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  peerDependencies?: Record<string, string>
+  packageManager?: string
+}
+
+export async function readManifest(root: string): Promise<PackageJson | null> {
+  const manifestPath = path.join(root, 'package.json')
+  try {
+    const contents = await fs.readFile(manifestPath, 'utf-8')
+    return JSON.parse(contents) as PackageJson
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw new Error(
+      `Failed to read package.json from ${manifestPath}: ${(error as Error).message}`,
+    )
+  }
+}
+
+export async function resolveInstalledVersion(
+  root: string,
+  pkgName: string,
+  manifest: PackageJson,
+): Promise<string | null> {
+  const manifestVersion = findManifestVersion(manifest, pkgName)
+  const installedVersion = await readNodeModulesVersion(root, pkgName)
+
+  return installedVersion ?? manifestVersion
+}
+
+export function findManifestVersion(
+  manifest: PackageJson,
+  pkgName: string,
+): string | null {
+  const lookup =
+    manifest.dependencies?.[pkgName] ??
+    manifest.devDependencies?.[pkgName] ??
+    manifest.peerDependencies?.[pkgName]
+
+  return lookup ?? null
+}
+
+async function readNodeModulesVersion(
+  root: string,
+  pkgName: string,
+): Promise<string | null> {
+  const modulePath = path.join(
+    root,
+    'node_modules',
+    ...pkgName.split('/'),
+    'package.json',
+  )
+
+  try {
+    const contents = await fs.readFile(modulePath, 'utf-8')
+    const parsed = JSON.parse(contents) as { version?: string }
+    return parsed.version ?? null
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw new Error(
+      `Failed to inspect ${pkgName} package: ${(error as Error).message}`,
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import type { PageInfo } from './page-routes'
+
+export const AUDIT_RULES = [
+  'missing-title',
+  'missing-description',
+  'missing-static-params',
+  'duplicate-title',
+] as const
+
+export type AuditRule = (typeof AUDIT_RULES)[number]
+
+export type AuditIssue = {
+  rule: AuditRule
+  path: string
+  file: string
+  message: string
+  /** Other pages involved, e.g. the pages that share a duplicate title. */
+  related?: string[]
+  app?: string
+}
+
+export type AuditOptions = {
+  /** Only run these rules. Defaults to all of {@link AUDIT_RULES}. */
+  rules?: AuditRule[]
+}
+
+/**
+ * Check App Router pages for SEO gaps that are visible statically. Values
+ * from `generateMetadata` are only known at request time, so pages using it
+ * are not reported as missing a title or description. Parallel slots and
+ * intercepting routes are skipped because they share the head of the page
+ * that owns their URL.
+ */
+export function auditPages(
+  pages: PageInfo[],
+  options: AuditOptions = {},
+): AuditIssue[] {
+  const rules = new Set(options.rules ?? AUDIT_RULES)
+  const audited = pages.filter(
+    (page) => page.router === 'app' && !page.slot && !page.intercepts,
+  )
+  const issues: AuditIssue[] = []
+
+  for (const page of audited) {
+    const { metadata } = page
+    const runtime = Boolean(metadata.generatedBy)
+
+    if (rules.has('missing-title') && !metadata.title && !runtime) {
+      issues.push(
+        issueFor(page, 'missing-title', 'No title in the page or its layouts'),
+      )
+    }
+    if (rules.has('missing-description') && !metadata.description && !runtime) {
+      issues.push(
+        issueFor(
+          page,
+          'missing-description',
+          'No description in the page or its layouts',
+        ),
+      )
+    }
+    if (
+      rules.has('missing-static-params') &&
+      isDynamicPath(page.path) &&
+      !metadata.staticParams &&
+      page.segmentConfig.dynamic !== 'force-dynamic'
+    ) {
+      issues.push(
+        issueFor(
+          page,
+          'missing-static-params',
+          'Dynamic route without generateStaticParams is rendered on demand',
+        ),
+      )
+    }
+  }
+
+  if (rules.has('duplicate-title')) {
+    issues.push(...findDuplicateTitles(audited))
+  }
+
+  return issues.sort(
+    (a, b) =>
+      AUDIT_RULES.indexOf(a.rule) - AUDIT_RULES.indexOf(b.rule) ||
+      a.path.localeCompare(b.path) ||
+      a.file.localeCompare(b.file),
+  )
+}
+
+// Only static titles are compared; a generated title may differ per page
+function findDuplicateTitles(pages: PageInfo[]): AuditIssue[] {
+  const byTitle = new Map<string, PageInfo[]>()
+  for (const page of pages) {
+    const { title, generatedBy } = page.metadata
+    if (!title || generatedBy) continue
+    const key = `${page.app ?? ''}\0${title}`
+    byTitle.set(key, [...(byTitle.get(key) ?? []), page])
+  }
+
+  const issues: AuditIssue[] = []
+  for (const group of byTitle.values()) {
+    if (group.length < 2) continue
+    for (const page of group) {
+      issues.push({
+        ...issueFor(
+          page,
+          'duplicate-title',
+          `Title "${page.metadata.title}" is shared by ${group.length} pages`,
+        ),
+        related: group
+          .filter((other) => other !== page)
+          .map((other) => other.path),
+      })
+    }
+  }
+  return issues
+}
+
+function issueFor(
+  page: PageInfo,
+  rule: AuditRule,
+  message: string,
+): AuditIssue {
+  return {
+    rule,
+    path: page.path,
+    file: page.file,
+    message,
+    ...(page.app ? { app: page.app } : {}),
+  }
+}
+
+function isDynamicPath(routePath: string): boolean {
+  return routePath.split('/').some((segment) => segment.startsWith(':'))
+}
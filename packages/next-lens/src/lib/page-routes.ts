@@ -1,14 +1,100 @@
-import { promises as fs } from 'fs'
 import path from 'path'
+import {
+  analyzeComponentBoundaries,
+  type PageComponents,
+} from './component-boundaries'
+import {
+  METADATA_FILE_EXTENSIONS,
+  METADATA_FILE_KINDS,
+  resolveMetadataChain,
+  ROOT_METADATA_FILES,
+  type ModuleMetadata,
+  type PageMetadata,
+} from './metadata'
+import {
+  resolveMiddlewareCoverage,
+  type MiddlewareCoverage,
+} from './middleware'
+import type { SourceLocation } from './module-exports'
+import {
+  derivePagesRouterPath,
+  flagRouterConflicts,
+  isPagesApiFile,
+  projectDirectoryOf,
+  type RouterType,
+} from './pages-router'
+import {
+  predictPagesRouterRendering,
+  predictRendering,
+  type RenderingPrediction,
+} from './rendering'
+import {
+  createScanSession,
+  PAGE_EXTENSIONS,
+  ROUTE_BASENAME,
+  ROUTE_EXTENSIONS,
+  type ScanOptions,
+  type ScanSession,
+} from './scanner'
+import { collectRouteGroups, findGroupRootLayout } from './route-groups'
+import { resolvePageSegmentConfig, type SegmentConfig } from './segment-config'
 import {
   ensureDirectory,
+  normalizeRelative,
   resolveTargetDirectory,
-  SKIP_DIRECTORIES,
   transformSegment,
 } from './utils'
+import { findOwningPackage } from './workspaces'
 
 type FallbackStatus = 'co-located' | 'inherited' | 'missing'
 
+/**
+ * File conventions besides `loading` and `error` that apply to a page.
+ * `global-error` only counts at the app root and `default` only within the
+ * page's own slot (or its own segment outside a slot); the others are
+ * resolved from the page's segment upwards like `loading` and `error`.
+ */
+export const PAGE_CONVENTIONS = [
+  'layout',
+  'template',
+  'not-found',
+  'forbidden',
+  'unauthorized',
+  'global-error',
+  'default',
+] as const
+
+export type PageConvention = (typeof PAGE_CONVENTIONS)[number]
+
+/**
+ * Intercepting route prefixes. They match route segments, so route groups
+ * and slots are not counted as levels.
+ */
+export type InterceptConvention = '(.)' | '(..)' | '(..)(..)' | '(...)'
+
+export type InterceptingRoute = {
+  convention: InterceptConvention
+  /** URL of the intercepted route, which is also the page's `path`. */
+  target: string
+  /** Page file of the intercepted route, if the project has one. */
+  targetFile?: string
+}
+
+export type ParallelSlot = {
+  /** Slot name without the `@`. */
+  name: string
+  /**
+   * The slot's `default` file, rendered when the URL matches no page in the
+   * slot. Without it, a hard navigation to such a URL renders a 404.
+   */
+  default?: string
+}
+
+export type ConventionInfo = {
+  status: FallbackStatus
+  path?: string
+}
+
 export type PageInfo = {
   file: string
   path: string
@@ -16,82 +102,190 @@ export type PageInfo = {
   error: FallbackStatus
   loadingPath?: string
   errorPath?: string
+  /**
+   * Nearest file of each convention in {@link PAGE_CONVENTIONS}.
+   */
+  conventions: Record<PageConvention, ConventionInfo>
+  /**
+   * Every `layout` file that wraps the page, from the root layout to the
+   * innermost one.
+   */
+  layouts: string[]
+  /**
+   * Route groups the page sits in, outermost first and without parentheses.
+   */
+  groups?: string[]
+  /**
+   * Root layout of the page's section when the app has several root layouts
+   * (one per route group); navigating to a page with another root layout
+   * reloads the document.
+   */
+  rootLayout?: string
+  /**
+   * Parallel route slot (`@name`) that renders the page. Pages in a slot share
+   * the URL of the pages next to the slot.
+   */
+  slot?: ParallelSlot
+  /**
+   * Set when the page is an intercepting route such as `(.)photo/[id]`.
+   */
+  intercepts?: InterceptingRoute
+  /**
+   * Location of the page component (the module's default export). Missing for
+   * Markdown pages and pages without a default export.
+   */
+  defaultExport?: SourceLocation
+  /**
+   * Route segment config of the page merged with its parent layouts.
+   */
+  segmentConfig: SegmentConfig
+  /**
+   * `metadata`, `generateMetadata`, `generateStaticParams` and file-based
+   * metadata of the page merged with its layouts. Empty for Pages Router
+   * pages, which set their head at runtime.
+   */
+  metadata: PageMetadata
+  /**
+   * Whether the page is an App Router `page` file or under `pages/`. Pages
+   * Router pages have no loading or error conventions and no segment config.
+   */
+  router: RouterType
+  /**
+   * Whether `middleware.ts` (or `proxy.ts`) runs for the page according to
+   * its `config.matcher`.
+   */
+  middleware: MiddlewareCoverage
+  /**
+   * Where the client bundle starts below the page and its layouts, and
+   * server-only imports that leak into it. App Router pages only.
+   */
+  components?: PageComponents
+  /**
+   * Predicted rendering mode, checked against `.next/prerender-manifest.json`
+   * when the project has been built.
+   */
+  rendering: RenderingPrediction
+  /**
+   * File that claims the same URL, which `next build` rejects: a `route`
+   * handler in the same segment, or a page in the other router.
+   */
+  conflictsWith?: string
+  /**
+   * Name of the monorepo package that owns the page. Only set when the
+   * project is part of a workspace.
+   */
+  app?: string
 }
 
-const PAGE_BASENAME = 'page'
-const PAGE_EXTENSIONS = new Set([
+export type PageRoutesOptions = ScanOptions & {
+  /**
+   * Reuse a scan session, e.g. to share one walk with `getApiRoutes`.
+   */
+  session?: ScanSession
+}
+
+const FALLBACK_EXTENSIONS = PAGE_EXTENSIONS
+const INTERCEPT_PATTERN = /^(\(\.\.\.\)|\(\.\.\)\(\.\.\)|\(\.\.\)|\(\.\))(.*)$/
+const INTERCEPT_LEVELS: Record<InterceptConvention, number> = {
+  '(.)': 0,
+  '(..)': 1,
+  '(..)(..)': 2,
+  '(...)': Infinity,
+}
+const SCRIPT_EXTENSIONS = new Set([
   '.ts',
   '.tsx',
   '.js',
   '.jsx',
-  '.mdx',
-  '.md',
   '.mjs',
   '.cjs',
 ])
 
-const FALLBACK_EXTENSIONS = PAGE_EXTENSIONS
-
 export async function getPageRoutes(
   targetDirectory: string | null,
+  options: PageRoutesOptions = {},
 ): Promise<PageInfo[]> {
-  const resolvedTarget = resolveTargetDirectory(targetDirectory)
-  const root = await ensureDirectory(resolvedTarget)
+  const session =
+    options.session ??
+    createScanSession(
+      await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+      options,
+    )
+  const { pageFiles, pagesRouterFiles } = await session.files()
 
-  const pageFiles = await findPageFiles(root)
-
-  const pages: PageInfo[] = []
+  const entries: Array<{ entry: PageInfo; project: string }> = []
 
   for (const filePath of pageFiles) {
-    const pageMeta = await derivePageMeta(filePath, root)
+    const pageMeta = await derivePageMeta(session, filePath)
     if (!pageMeta) continue
-    pages.push(pageMeta)
+    entries.push(pageMeta)
+  }
+
+  for (const { file: filePath, pagesDirectory } of pagesRouterFiles) {
+    if (isPagesApiFile(filePath, pagesDirectory)) continue
+    const { defaultExport, exports } = await analyzePageModule(
+      session,
+      filePath,
+    )
+    const owner = await findOwner(session, filePath)
+    const routePath = derivePagesRouterPath(filePath, pagesDirectory)
+    const project = projectDirectoryOf(pagesDirectory)
+
+    entries.push({
+      entry: {
+        file: normalizeRelative(session.root, filePath),
+        path: routePath,
+        loading: 'missing',
+        error: 'missing',
+        conventions: missingConventions(),
+        layouts: [],
+        defaultExport,
+        segmentConfig: {},
+        metadata: { files: {} },
+        router: 'pages',
+        middleware: await resolveMiddlewareCoverage(
+          session,
+          pagesDirectory,
+          routePath,
+        ),
+        rendering: await predictPagesRouterRendering(session, {
+          exports,
+          path: routePath,
+          project,
+        }),
+        ...(owner ? { app: owner.name } : {}),
+      },
+      project,
+    })
   }
 
+  if (!options.session) await session.persist()
+
+  flagRouterConflicts(entries)
+  linkInterceptedPages(entries)
+  const pages = entries.map(({ entry }) => entry)
+
+  // Slot and intercepting variants follow the page that owns their URL
   pages.sort((a, b) => {
     const pathCompare = a.path.localeCompare(b.path)
     if (pathCompare !== 0) return pathCompare
+    const variantCompare = Number(isVariant(a)) - Number(isVariant(b))
+    if (variantCompare !== 0) return variantCompare
     return a.file.localeCompare(b.file)
   })
 
   return pages
 }
 
-async function findPageFiles(root: string): Promise<string[]> {
-  const results: string[] = []
-
-  async function walk(current: string) {
-    const entries = await fs.readdir(current, { withFileTypes: true })
-
-    for (const entry of entries) {
-      const entryPath = path.join(current, entry.name)
-
-      if (entry.isDirectory()) {
-        if (SKIP_DIRECTORIES.has(entry.name)) continue
-        await walk(entryPath)
-        continue
-      }
-
-      if (!entry.isFile()) continue
-      if (!isPageFile(entry.name)) continue
-
-      results.push(entryPath)
-    }
-  }
-
-  await walk(root)
-  return results
-}
-
-function isPageFile(fileName: string): boolean {
-  const parsed = path.parse(fileName)
-  return parsed.name === PAGE_BASENAME && PAGE_EXTENSIONS.has(parsed.ext)
+function isVariant(page: PageInfo): boolean {
+  return Boolean(page.slot || page.intercepts)
 }
 
 async function derivePageMeta(
+  session: ScanSession,
   filePath: string,
-  root: string,
-): Promise<PageInfo | null> {
+): Promise<{ entry: PageInfo; project: string } | null> {
+  const { root } = session
   const relativePath = path.relative(root, filePath)
   const segments = relativePath.split(path.sep)
   const appIndex = segments.lastIndexOf('app')
@@ -101,29 +295,243 @@ async function derivePageMeta(
   if (!routeSegments.length) return null
 
   const directorySegments = routeSegments.slice(0, -1)
-  const cleanedSegments = directorySegments.filter(shouldIncludeSegment)
-
-  const routePath =
-    cleanedSegments.length === 0
-      ? '/'
-      : '/' + cleanedSegments.map(transformSegment).join('/')
+  const { routePath, slotIndex, convention } =
+    analyzeSegments(directorySegments)
 
   const directory = path.dirname(filePath)
   const appRootPath = path.join(root, ...segments.slice(0, appIndex + 1))
-  const [loading, error] = await Promise.all([
-    resolveFallbackInfo(directory, 'loading', appRootPath, root),
-    resolveFallbackInfo(directory, 'error', appRootPath, root),
+  const slotDirectory =
+    slotIndex === -1
+      ? null
+      : path.join(appRootPath, ...directorySegments.slice(0, slotIndex + 1))
+  const [loading, error, conventions, layouts, pageModule] = await Promise.all([
+    resolveFallbackInfo(session, directory, 'loading', appRootPath),
+    resolveFallbackInfo(session, directory, 'error', appRootPath),
+    resolveConventions(session, directory, appRootPath, slotDirectory),
+    resolveLayoutChain(session, directory, appRootPath),
+    analyzePageModule(session, filePath),
   ])
+  const segmentConfig = await resolvePageSegmentConfig(
+    session,
+    directory,
+    appRootPath,
+    pageModule.segmentConfig,
+  )
+
+  const groups = collectRouteGroups(directorySegments)
+  const [owner, routeHandler, slot, rootLayout, metadata, middleware] =
+    await Promise.all([
+      findOwner(session, filePath),
+      session.findConventionFile(directory, ROUTE_BASENAME, ROUTE_EXTENSIONS),
+      slotDirectory ? resolveSlot(session, slotDirectory) : undefined,
+      findGroupRootLayout(session, appRootPath, directory),
+      resolvePageMetadata(
+        session,
+        directory,
+        appRootPath,
+        layouts,
+        pageModule.metadata,
+        filePath,
+      ),
+      resolveMiddlewareCoverage(session, appRootPath, routePath),
+    ])
+  const components = SCRIPT_EXTENSIONS.has(path.extname(filePath))
+    ? await resolvePageComponents(session, filePath, layouts)
+    : undefined
+  const project = projectDirectoryOf(appRootPath)
+  const rendering = await predictRendering(session, {
+    file: filePath,
+    layouts: layouts.map((layout) => path.join(root, layout)),
+    path: routePath,
+    segmentConfig,
+    staticParams: metadata.staticParams,
+    project,
+  })
 
-  const normalizedFile = relativePath.split(path.sep).join('/')
-
-  return {
-    file: normalizedFile,
+  const entry: PageInfo = {
+    file: normalizeRelative(root, filePath),
     path: routePath,
     loading: loading.status,
     error: error.status,
     loadingPath: loading.path,
     errorPath: error.path,
+    conventions,
+    layouts,
+    defaultExport: pageModule.defaultExport,
+    segmentConfig,
+    metadata,
+    router: 'app',
+    middleware,
+    rendering,
+    ...(components ? { components } : {}),
+    ...(groups.length ? { groups } : {}),
+    ...(rootLayout ? { rootLayout } : {}),
+    ...(slot ? { slot } : {}),
+    ...(convention ? { intercepts: { convention, target: routePath } } : {}),
+    ...(routeHandler
+      ? { conflictsWith: normalizeRelative(root, routeHandler) }
+      : {}),
+    ...(owner ? { app: owner.name } : {}),
+  }
+  return { entry, project }
+}
+
+async function resolvePageComponents(
+  session: ScanSession,
+  filePath: string,
+  layouts: string[],
+): Promise<PageComponents> {
+  const { modules: _modules, ...components } = await analyzeComponentBoundaries(
+    session,
+    [filePath, ...layouts.map((layout) => path.join(session.root, layout))],
+  )
+  return components
+}
+
+async function findOwner(session: ScanSession, filePath: string) {
+  const workspace = await session.workspace()
+  return workspace && findOwningPackage(workspace, filePath)
+}
+
+async function analyzePageModule(
+  session: ScanSession,
+  filePath: string,
+): Promise<{
+  defaultExport?: SourceLocation
+  segmentConfig: SegmentConfig
+  metadata?: ModuleMetadata
+  exports: string[]
+}> {
+  if (!SCRIPT_EXTENSIONS.has(path.extname(filePath))) {
+    return { segmentConfig: {}, exports: [] }
+  }
+
+  const summary = await session.summarize(filePath)
+  const binding = summary.exports.default
+
+  return {
+    defaultExport: binding && {
+      file: normalizeRelative(session.root, binding.file),
+      line: binding.line,
+      column: binding.column,
+      endLine: binding.endLine,
+      endColumn: binding.endColumn,
+    },
+    segmentConfig: summary.segmentConfig,
+    metadata: summary.metadata,
+    exports: Object.keys(summary.exports),
+  }
+}
+
+async function resolvePageMetadata(
+  session: ScanSession,
+  directory: string,
+  appRootPath: string,
+  layouts: string[],
+  pageMetadata: ModuleMetadata | undefined,
+  filePath: string,
+): Promise<PageMetadata> {
+  const layoutChain = await Promise.all(
+    layouts.map(async (layout) => {
+      const layoutPath = path.join(session.root, layout)
+      const metadata = SCRIPT_EXTENSIONS.has(path.extname(layoutPath))
+        ? (await session.summarize(layoutPath)).metadata
+        : undefined
+      return { file: layout, metadata }
+    }),
+  )
+  const resolved = resolveMetadataChain([
+    ...layoutChain,
+    { file: normalizeRelative(session.root, filePath), metadata: pageMetadata },
+  ])
+
+  const files: PageMetadata['files'] = {}
+  for (const kind of METADATA_FILE_KINDS) {
+    // favicon.ico, sitemap, robots and manifest only work at the app root
+    const { path: found } = await resolveFallbackInfo(
+      session,
+      ROOT_METADATA_FILES.has(kind) ? appRootPath : directory,
+      kind,
+      appRootPath,
+      METADATA_FILE_EXTENSIONS[kind],
+    )
+    if (found) files[kind] = found
+  }
+
+  return { ...resolved, files }
+}
+
+/**
+ * URL of a page directory, with slots and route groups left out and
+ * intercepting segments resolved to the route they intercept.
+ */
+function analyzeSegments(directorySegments: string[]): {
+  routePath: string
+  slotIndex: number
+  convention?: InterceptConvention
+} {
+  const urlSegments: string[] = []
+  let slotIndex = -1
+  let convention: InterceptConvention | undefined
+
+  directorySegments.forEach((segment, index) => {
+    if (segment.startsWith('@')) slotIndex = index
+
+    const intercept = INTERCEPT_PATTERN.exec(segment)
+    if (intercept) {
+      convention = intercept[1] as InterceptConvention
+      const levels = INTERCEPT_LEVELS[convention]
+      urlSegments.splice(Math.max(0, urlSegments.length - levels))
+      if (intercept[2]) urlSegments.push(intercept[2])
+      return
+    }
+
+    if (shouldIncludeSegment(segment)) urlSegments.push(segment)
+  })
+
+  return {
+    routePath: urlSegments.length
+      ? '/' + urlSegments.map(transformSegment).join('/')
+      : '/',
+    slotIndex,
+    convention,
+  }
+}
+
+async function resolveSlot(
+  session: ScanSession,
+  slotDirectory: string,
+): Promise<ParallelSlot> {
+  const defaultFile = await session.findConventionFile(
+    slotDirectory,
+    'default',
+    FALLBACK_EXTENSIONS,
+  )
+  return {
+    name: path.basename(slotDirectory).slice(1),
+    ...(defaultFile
+      ? { default: normalizeRelative(session.root, defaultFile) }
+      : {}),
+  }
+}
+
+/**
+ * Point intercepting routes at the page they intercept, i.e. the page of the
+ * same project with the same URL that is neither intercepting nor in a slot.
+ */
+function linkInterceptedPages(
+  entries: Array<{ entry: PageInfo; project: string }>,
+): void {
+  const targets = new Map<string, string>()
+  for (const { entry, project } of entries) {
+    if (entry.router !== 'app' || entry.slot || entry.intercepts) continue
+    targets.set(`${project}\0${entry.path}`, entry.file)
+  }
+
+  for (const { entry, project } of entries) {
+    if (!entry.intercepts) continue
+    const targetFile = targets.get(`${project}\0${entry.path}`)
+    if (targetFile) entry.intercepts.targetFile = targetFile
   }
 }
 
@@ -134,39 +542,95 @@ function shouldIncludeSegment(segment: string): boolean {
   return true
 }
 
-async function findFallbackFile(
+function missingConventions(): Record<PageConvention, ConventionInfo> {
+  return Object.fromEntries(
+    PAGE_CONVENTIONS.map((name) => [name, { status: 'missing' }]),
+  ) as Record<PageConvention, ConventionInfo>
+}
+
+async function resolveConventions(
+  session: ScanSession,
   directory: string,
-  basename: 'loading' | 'error',
-): Promise<string | null> {
-  for (const extension of FALLBACK_EXTENSIONS) {
-    const candidate = path.join(directory, `${basename}${extension}`)
-    try {
-      const stats = await fs.stat(candidate)
-      if (stats.isFile()) return candidate
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue
-      throw error
-    }
+  appRootPath: string,
+  slotDirectory: string | null,
+): Promise<Record<PageConvention, ConventionInfo>> {
+  const resolved = await Promise.all(
+    PAGE_CONVENTIONS.map(async (name) => {
+      const info =
+        name === 'global-error'
+          ? await resolveGlobalError(session, directory, appRootPath)
+          : await resolveFallbackInfo(
+              session,
+              directory,
+              name,
+              // A parent's `default` belongs to another slot
+              name === 'default' ? (slotDirectory ?? directory) : appRootPath,
+            )
+      return [name, info] as const
+    }),
+  )
+  return Object.fromEntries(resolved) as Record<PageConvention, ConventionInfo>
+}
+
+// Next.js only picks up `global-error` next to the root layout
+async function resolveGlobalError(
+  session: ScanSession,
+  directory: string,
+  appRootPath: string,
+): Promise<ConventionInfo> {
+  const found = await session.findConventionFile(
+    appRootPath,
+    'global-error',
+    FALLBACK_EXTENSIONS,
+  )
+  if (!found) return { status: 'missing' }
+  return {
+    status: pathsEqual(directory, appRootPath) ? 'co-located' : 'inherited',
+    path: normalizeRelative(session.root, found),
   }
-  return null
+}
+
+async function resolveLayoutChain(
+  session: ScanSession,
+  directory: string,
+  appRootPath: string,
+): Promise<string[]> {
+  const relative = path.relative(appRootPath, directory)
+  const segments = relative ? relative.split(path.sep) : []
+  const directories = segments.map((_, index) =>
+    path.join(appRootPath, ...segments.slice(0, index + 1)),
+  )
+
+  const layouts = await Promise.all(
+    [appRootPath, ...directories].map((current) =>
+      session.findConventionFile(current, 'layout', FALLBACK_EXTENSIONS),
+    ),
+  )
+  return layouts
+    .filter((layout): layout is string => layout !== null)
+    .map((layout) => normalizeRelative(session.root, layout))
 }
 
 async function resolveFallbackInfo(
+  session: ScanSession,
   directory: string,
-  basename: 'loading' | 'error',
+  basename: string,
   appRootPath: string,
-  root: string,
-): Promise<{ status: FallbackStatus; path?: string }> {
+  extensions: Iterable<string> = FALLBACK_EXTENSIONS,
+): Promise<ConventionInfo> {
   let current = directory
   let isFirst = true
 
   while (isWithinAppRoot(current, appRootPath)) {
-    const found = await findFallbackFile(current, basename)
+    const found = await session.findConventionFile(
+      current,
+      basename,
+      extensions,
+    )
     if (found) {
-      const normalized = path.relative(root, found).split(path.sep).join('/')
       return {
         status: isFirst ? 'co-located' : 'inherited',
-        path: normalized,
+        path: normalizeRelative(session.root, found),
       }
     }
 
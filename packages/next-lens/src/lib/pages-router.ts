@@ -0,0 +1,257 @@
+import path from 'path'
+import ts from 'typescript'
+import {
+  locate,
+  type ExportedBinding,
+  type SourceLocation,
+} from './module-exports'
+import { transformSegment } from './utils'
+
+export type RouterType = 'app' | 'pages'
+
+/**
+ * Method reported for a `pages/api` handler whose `req.method` checks could
+ * not be found; Next.js sends every method to it.
+ */
+export const ANY_METHOD = 'ANY'
+
+export const PAGES_DIRECTORY = 'pages'
+export const PAGES_API_DIRECTORY = 'api'
+export const PAGES_ROUTER_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx'])
+
+const METHOD_NAMES = new Set([
+  'GET',
+  'HEAD',
+  'OPTIONS',
+  'POST',
+  'PUT',
+  'PATCH',
+  'DELETE',
+])
+
+// `_app`, `_document` and `_error` customize rendering and are not routes
+const SPECIAL_PAGE_PATTERN = /^_/
+
+/**
+ * Whether a file inside a `pages` directory is a route entry. `relative` is
+ * the path below the `pages` directory.
+ */
+export function isPagesRouterEntry(relative: string): boolean {
+  const parsed = path.parse(relative)
+  if (!PAGES_ROUTER_EXTENSIONS.has(parsed.ext)) return false
+  if (parsed.name.endsWith('.d')) return false
+  return !(parsed.dir === '' && SPECIAL_PAGE_PATTERN.test(parsed.name))
+}
+
+/**
+ * URL for a Pages Router file: `pages/blog/[slug].tsx` → `/blog/:slug`,
+ * `pages/index.tsx` → `/`.
+ */
+export function derivePagesRouterPath(
+  filePath: string,
+  pagesDirectory: string,
+): string {
+  const relative = path.relative(pagesDirectory, filePath)
+  const parsed = path.parse(relative)
+  const segments = [
+    ...(parsed.dir ? parsed.dir.split(path.sep) : []),
+    parsed.name,
+  ]
+  if (segments[segments.length - 1] === 'index') segments.pop()
+
+  return segments.length ? '/' + segments.map(transformSegment).join('/') : '/'
+}
+
+/**
+ * Directory of the Next.js project an `app` or `pages` directory belongs to,
+ * looking through `src/`.
+ */
+export function projectDirectoryOf(routerDirectory: string): string {
+  const parent = path.dirname(routerDirectory)
+  return path.basename(parent) === 'src' ? path.dirname(parent) : parent
+}
+
+/**
+ * Flag URLs that both routers of the same project claim, which `next build`
+ * rejects. Each entry gets the file of the other router's entry.
+ */
+export function flagRouterConflicts<
+  T extends {
+    file: string
+    path: string
+    router: RouterType
+    conflictsWith?: string
+  },
+>(entries: Array<{ entry: T; project: string }>): void {
+  const byUrl = new Map<string, T[]>()
+  for (const { entry, project } of entries) {
+    const key = `${project}\0${entry.path}`
+    const group = byUrl.get(key)
+    if (group) group.push(entry)
+    else byUrl.set(key, [entry])
+  }
+
+  for (const group of byUrl.values()) {
+    for (const entry of group) {
+      const other = group.find((candidate) => candidate.router !== entry.router)
+      if (other) entry.conflictsWith = other.file
+    }
+  }
+}
+
+/**
+ * Whether a Pages Router file lives under `pages/api`.
+ */
+export function isPagesApiFile(
+  filePath: string,
+  pagesDirectory: string,
+): boolean {
+  const [first, ...rest] = path
+    .relative(pagesDirectory, filePath)
+    .split(path.sep)
+  return first === PAGES_API_DIRECTORY && rest.length > 0
+}
+
+/**
+ * HTTP methods a `pages/api` handler branches on, keyed by method with the
+ * location of the first check. Recognizes comparisons against `req.method`
+ * (`===`, `!==`, …), `switch (req.method)` cases and
+ * `['GET', 'POST'].includes(req.method)`, including `const { method } = req`.
+ */
+export function detectRequestMethods(
+  binding: ExportedBinding | undefined,
+): Record<string, SourceLocation> {
+  const methods: Record<string, SourceLocation> = {}
+  if (!binding) return methods
+  const handler = findHandlerFunction(binding)
+  if (!handler?.body) return methods
+
+  const { sourceFile } = binding
+  const request = handler.parameters[0]?.name
+  const requestName =
+    request && ts.isIdentifier(request) ? request.text : undefined
+  const aliases = new Set<string>()
+  if (request && ts.isObjectBindingPattern(request)) {
+    collectMethodAliases(request, aliases)
+  }
+
+  const isMethodAccess = (node: ts.Expression): boolean => {
+    const expression = skipParentheses(node)
+    if (ts.isIdentifier(expression)) return aliases.has(expression.text)
+    return (
+      ts.isPropertyAccessExpression(expression) &&
+      expression.name.text === 'method' &&
+      ts.isIdentifier(expression.expression) &&
+      expression.expression.text === requestName
+    )
+  }
+
+  const record = (literal: ts.Node) => {
+    if (!ts.isStringLiteralLike(literal)) return
+    const method = literal.text.toUpperCase()
+    if (!METHOD_NAMES.has(method) || methods[method]) return
+    methods[method] = locate(literal, sourceFile)
+  }
+
+  const visit = (node: ts.Node) => {
+    // const { method } = req / const method = req.method
+    if (
+      ts.isVariableDeclaration(node) &&
+      node.initializer &&
+      ts.isIdentifier(skipParentheses(node.initializer))
+    ) {
+      const source = skipParentheses(node.initializer) as ts.Identifier
+      if (source.text === requestName && ts.isObjectBindingPattern(node.name)) {
+        collectMethodAliases(node.name, aliases)
+      }
+    }
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      isMethodAccess(node.initializer)
+    ) {
+      aliases.add(node.name.text)
+    }
+
+    if (ts.isBinaryExpression(node) && isEqualityOperator(node)) {
+      if (isMethodAccess(node.left)) record(skipParentheses(node.right))
+      else if (isMethodAccess(node.right)) record(skipParentheses(node.left))
+    }
+
+    if (ts.isSwitchStatement(node) && isMethodAccess(node.expression)) {
+      for (const clause of node.caseBlock.clauses) {
+        if (ts.isCaseClause(clause)) record(skipParentheses(clause.expression))
+      }
+    }
+
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'includes' &&
+      node.arguments.length === 1 &&
+      isMethodAccess(node.arguments[0])
+    ) {
+      const list = skipParentheses(node.expression.expression)
+      if (ts.isArrayLiteralExpression(list)) list.elements.forEach(record)
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  visit(handler.body)
+  return methods
+}
+
+function findHandlerFunction(
+  binding: ExportedBinding,
+): ts.FunctionLikeDeclaration | null {
+  const { node, initializer } = binding
+  if (ts.isFunctionDeclaration(node)) return node
+
+  const expression =
+    initializer ?? (ts.isExportAssignment(node) && node.expression)
+  if (!expression) return null
+
+  const value = skipParentheses(expression)
+  if (ts.isArrowFunction(value) || ts.isFunctionExpression(value)) return value
+  return null
+}
+
+function collectMethodAliases(
+  pattern: ts.ObjectBindingPattern,
+  aliases: Set<string>,
+) {
+  for (const element of pattern.elements) {
+    const property = element.propertyName ?? element.name
+    if (
+      ts.isIdentifier(property) &&
+      property.text === 'method' &&
+      ts.isIdentifier(element.name)
+    ) {
+      aliases.add(element.name.text)
+    }
+  }
+}
+
+function isEqualityOperator(node: ts.BinaryExpression): boolean {
+  const kind = node.operatorToken.kind
+  return (
+    kind === ts.SyntaxKind.EqualsEqualsEqualsToken ||
+    kind === ts.SyntaxKind.EqualsEqualsToken ||
+    kind === ts.SyntaxKind.ExclamationEqualsEqualsToken ||
+    kind === ts.SyntaxKind.ExclamationEqualsToken
+  )
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  let current = node
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isNonNullExpression(current)
+  ) {
+    current = current.expression
+  }
+  return current
+}
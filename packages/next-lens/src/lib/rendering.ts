@@ -0,0 +1,521 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import ts from 'typescript'
+import { analyzeComponentBoundaries } from './component-boundaries'
+import { evaluateStaticValue, locate, parseSourceFile } from './module-exports'
+import type { ScanSession } from './scanner'
+import type { SegmentConfig } from './segment-config'
+import { normalizeRelative } from './utils'
+
+/**
+ * How Next.js renders a page: prerendered at build time (`static`),
+ * prerendered and regenerated in the background (`isr`), rendered for every
+ * request (`dynamic`), or a static shell with dynamic parts streamed in
+ * (`ppr`, Partial Prerendering).
+ */
+export type RenderingMode = 'static' | 'isr' | 'dynamic' | 'ppr'
+
+export type RenderingPrediction = {
+  mode: RenderingMode
+  /** Seconds between regenerations, for `isr`. */
+  revalidate?: number
+  /** Why the page gets this mode, e.g. `cookies() is called`. */
+  reason: string
+  /** Code that decided the mode, relative to the scanned root. */
+  file?: string
+  line?: number
+  /**
+   * Mode reported by `.next/prerender-manifest.json`, when the project has
+   * been built. `matches` is false when the build disagrees with the
+   * prediction.
+   */
+  build?: {
+    mode: RenderingMode
+    revalidate?: number
+    matches: boolean
+  }
+}
+
+export type RenderingInput = {
+  /** Absolute path of the page file. */
+  file: string
+  /** Absolute paths of the layouts that wrap the page. */
+  layouts: string[]
+  /** Route path in next-lens notation, e.g. `/blog/:slug`. */
+  path: string
+  segmentConfig: SegmentConfig
+  /** File exporting `generateStaticParams`, if any. */
+  staticParams?: string
+  /** Directory of the Next.js project (where `.next` is written). */
+  project: string
+}
+
+type Signal = {
+  kind: 'dynamic' | 'revalidate'
+  reason: string
+  file: string
+  line: number
+  revalidate?: number
+}
+
+type ModuleSignals = {
+  signals: Signal[]
+  /** `export const experimental_ppr = true` */
+  ppr: boolean
+}
+
+type PrerenderManifest = {
+  routes?: Record<
+    string,
+    {
+      initialRevalidateSeconds?: number | false
+      srcRoute?: string | null
+      experimentalPPR?: boolean
+      renderingMode?: string
+    }
+  >
+  dynamicRoutes?: Record<
+    string,
+    { experimentalPPR?: boolean; renderingMode?: string }
+  >
+}
+
+type PprSetting = 'all' | 'incremental' | null
+
+type RenderingCache = {
+  signals: Map<string, Promise<ModuleSignals>>
+  manifests: Map<string, Promise<PrerenderManifest | null>>
+  ppr: Map<string, Promise<PprSetting>>
+}
+
+/**
+ * Calls that opt a route into dynamic rendering, by module.
+ */
+const DYNAMIC_APIS: Record<string, Set<string>> = {
+  'next/headers': new Set(['cookies', 'headers', 'draftMode']),
+  'next/server': new Set(['connection']),
+  'next/cache': new Set(['unstable_noStore']),
+}
+const SCRIPT_EXTENSIONS = new Set([
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+])
+const NO_STORE_FETCH_CACHE = new Set(['force-no-store', 'only-no-store'])
+const NEXT_CONFIG_PATTERN = /^next\.config\.(js|mjs|cjs|ts|mts)$/
+const MANIFEST_PATH = path.join('.next', 'prerender-manifest.json')
+
+// Parsed signals and manifests are shared by every page of a session
+const caches = new WeakMap<ScanSession, RenderingCache>()
+
+/**
+ * Predict the rendering mode of an App Router page from its segment config
+ * (merged with its layouts), calls to request-time APIs such as `cookies()`
+ * in the page, its layouts and the server modules they import, `fetch`
+ * cache options, and `generateStaticParams` for dynamic segments. When the
+ * project has a `.next` build, the prediction is compared with
+ * `prerender-manifest.json`.
+ */
+export async function predictRendering(
+  session: ScanSession,
+  input: RenderingInput,
+): Promise<RenderingPrediction> {
+  const prediction = await predictFromSource(session, input)
+  const build = await readBuildMode(session, input.project, input.path)
+  if (!build) return prediction
+  return {
+    ...prediction,
+    build: { ...build, matches: build.mode === prediction.mode },
+  }
+}
+
+/**
+ * Pages Router pages are dynamic with `getServerSideProps` or
+ * `getInitialProps` and prerendered otherwise.
+ */
+export async function predictPagesRouterRendering(
+  session: ScanSession,
+  input: { exports: string[]; path: string; project: string },
+): Promise<RenderingPrediction> {
+  const dynamicExport = ['getServerSideProps', 'getInitialProps'].find((name) =>
+    input.exports.includes(name),
+  )
+  const prediction: RenderingPrediction = dynamicExport
+    ? { mode: 'dynamic', reason: `exports ${dynamicExport}` }
+    : {
+        mode: 'static',
+        reason: input.exports.includes('getStaticProps')
+          ? 'exports getStaticProps'
+          : 'no data fetching exports',
+      }
+  const build = await readBuildMode(session, input.project, input.path)
+  if (!build) return prediction
+  // `revalidate` is returned from getStaticProps, so ISR only shows up here
+  return {
+    ...prediction,
+    build: {
+      ...build,
+      matches:
+        build.mode === prediction.mode ||
+        (build.mode === 'isr' && prediction.mode === 'static'),
+    },
+  }
+}
+
+/**
+ * Route key of a page in Next.js build manifests, e.g. `/blog/[slug]` for
+ * `/blog/:slug`.
+ */
+export function toManifestRoute(routePath: string): string {
+  return routePath
+    .replace(/:(\w+)\*\?/g, '[[...$1]]')
+    .replace(/:(\w+)\*/g, '[...$1]')
+    .replace(/:(\w+)/g, '[$1]')
+}
+
+async function predictFromSource(
+  session: ScanSession,
+  input: RenderingInput,
+): Promise<RenderingPrediction> {
+  const { segmentConfig } = input
+  const relative = (file: string) => normalizeRelative(session.root, file)
+
+  if (segmentConfig.dynamic === 'force-dynamic') {
+    return { mode: 'dynamic', reason: "dynamic = 'force-dynamic'" }
+  }
+  if (segmentConfig.revalidate === 0) {
+    return { mode: 'dynamic', reason: 'revalidate = 0' }
+  }
+  if (
+    segmentConfig.fetchCache &&
+    NO_STORE_FETCH_CACHE.has(segmentConfig.fetchCache)
+  ) {
+    return {
+      mode: 'dynamic',
+      reason: `fetchCache = '${segmentConfig.fetchCache}'`,
+    }
+  }
+
+  const revalidate =
+    typeof segmentConfig.revalidate === 'number'
+      ? segmentConfig.revalidate
+      : undefined
+  if (
+    segmentConfig.dynamic === 'force-static' ||
+    segmentConfig.dynamic === 'error'
+  ) {
+    return withRevalidate(
+      { mode: 'static', reason: `dynamic = '${segmentConfig.dynamic}'` },
+      revalidate,
+    )
+  }
+
+  // Markdown pages have no code to scan, but their layouts may
+  const entries = [input.file, ...input.layouts].filter((file) =>
+    SCRIPT_EXTENSIONS.has(path.extname(file)),
+  )
+  const { modules } = entries.length
+    ? await analyzeComponentBoundaries(session, entries)
+    : { modules: [] }
+  // Client components do not make a route dynamic
+  const serverModules = modules
+    .filter((module) => module.environment !== 'client')
+    .map((module) => path.join(session.root, module.file))
+  const scanned = await Promise.all(
+    serverModules.map((file) =>
+      readSignals(session, file, file === input.file),
+    ),
+  )
+  const signals = scanned.flatMap((module) => module.signals)
+
+  const dynamic = signals.find((signal) => signal.kind === 'dynamic')
+  if (dynamic) {
+    const ppr = await isPprEnabled(session, input)
+    return {
+      mode: ppr ? 'ppr' : 'dynamic',
+      reason: ppr
+        ? `${dynamic.reason}; streamed into a prerendered shell`
+        : dynamic.reason,
+      file: relative(dynamic.file),
+      line: dynamic.line,
+    }
+  }
+
+  if (input.path.includes(':') && !input.staticParams) {
+    return {
+      mode: 'dynamic',
+      reason: 'dynamic segment without generateStaticParams',
+    }
+  }
+
+  const fetchRevalidate = signals
+    .filter((signal) => signal.revalidate !== undefined)
+    .sort((a, b) => a.revalidate! - b.revalidate!)[0]
+  if (
+    fetchRevalidate &&
+    (revalidate === undefined || fetchRevalidate.revalidate! < revalidate)
+  ) {
+    return {
+      mode: 'isr',
+      revalidate: fetchRevalidate.revalidate,
+      reason: fetchRevalidate.reason,
+      file: relative(fetchRevalidate.file),
+      line: fetchRevalidate.line,
+    }
+  }
+
+  return withRevalidate(
+    {
+      mode: 'static',
+      reason: input.staticParams
+        ? 'generateStaticParams prerenders each path'
+        : 'no request-time APIs',
+    },
+    revalidate,
+  )
+}
+
+function withRevalidate(
+  prediction: RenderingPrediction,
+  revalidate: number | undefined,
+): RenderingPrediction {
+  if (!revalidate) return prediction
+  return { mode: 'isr', revalidate, reason: `revalidate = ${revalidate}` }
+}
+
+function cacheFor(session: ScanSession): RenderingCache {
+  let cache = caches.get(session)
+  if (!cache) {
+    cache = { signals: new Map(), manifests: new Map(), ppr: new Map() }
+    caches.set(session, cache)
+  }
+  return cache
+}
+
+function readSignals(
+  session: ScanSession,
+  file: string,
+  isPage: boolean,
+): Promise<ModuleSignals> {
+  const { signals } = cacheFor(session)
+  const key = `${isPage ? 'page' : 'module'}:${file}`
+  let found = signals.get(key)
+  if (!found) {
+    found = parseSourceFile(file).then((sourceFile) =>
+      collectSignals(sourceFile, isPage),
+    )
+    signals.set(key, found)
+  }
+  return found
+}
+
+function collectSignals(
+  sourceFile: ts.SourceFile,
+  isPage: boolean,
+): ModuleSignals {
+  const signals: Signal[] = []
+  const dynamicApis = new Map<string, string>()
+  let ppr = false
+
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      const apis = DYNAMIC_APIS[statement.moduleSpecifier.text]
+      const bindings = statement.importClause?.namedBindings
+      if (!apis || !bindings || !ts.isNamedImports(bindings)) continue
+      for (const element of bindings.elements) {
+        const imported = (element.propertyName ?? element.name).text
+        if (apis.has(imported)) dynamicApis.set(element.name.text, imported)
+      }
+    }
+
+    if (
+      ts.isVariableStatement(statement) &&
+      statement.modifiers?.some(
+        (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword,
+      )
+    ) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (
+          ts.isIdentifier(declaration.name) &&
+          declaration.name.text === 'experimental_ppr' &&
+          declaration.initializer?.kind === ts.SyntaxKind.TrueKeyword
+        ) {
+          ppr = true
+        }
+      }
+    }
+  }
+
+  const add = (node: ts.Node, signal: Omit<Signal, 'file' | 'line'>) => {
+    const { line } = locate(node, sourceFile)
+    signals.push({ ...signal, file: sourceFile.fileName, line })
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+      const api = dynamicApis.get(node.expression.text)
+      if (api) add(node, { kind: 'dynamic', reason: `${api}() is called` })
+      if (node.expression.text === 'fetch') readFetchOptions(node, add)
+    }
+
+    // `{ searchParams }` props or `props.searchParams` in a page component
+    if (
+      isPage &&
+      ((ts.isBindingElement(node) &&
+        (node.propertyName ?? node.name).getText(sourceFile) ===
+          'searchParams' &&
+        isParameterBinding(node)) ||
+        (ts.isPropertyAccessExpression(node) &&
+          node.name.text === 'searchParams' &&
+          ts.isIdentifier(node.expression) &&
+          node.expression.text === 'props'))
+    ) {
+      add(node, { kind: 'dynamic', reason: 'searchParams is read' })
+    }
+
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  return { signals, ppr }
+}
+
+function readFetchOptions(
+  call: ts.CallExpression,
+  add: (node: ts.Node, signal: Omit<Signal, 'file' | 'line'>) => void,
+) {
+  const options = call.arguments[1]
+  if (!options || !ts.isObjectLiteralExpression(options)) return
+  const value = evaluateStaticValue(options)
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return
+
+  if (value.cache === 'no-store') {
+    add(call, { kind: 'dynamic', reason: "fetch with cache: 'no-store'" })
+    return
+  }
+  const next = value.next
+  if (!next || typeof next !== 'object' || Array.isArray(next)) return
+  if (next.revalidate === 0) {
+    add(call, { kind: 'dynamic', reason: 'fetch with revalidate: 0' })
+  } else if (typeof next.revalidate === 'number') {
+    add(call, {
+      kind: 'revalidate',
+      reason: `fetch with revalidate: ${next.revalidate}`,
+      revalidate: next.revalidate,
+    })
+  }
+}
+
+function isParameterBinding(node: ts.BindingElement): boolean {
+  let current: ts.Node = node.parent
+  while (ts.isObjectBindingPattern(current) || ts.isBindingElement(current)) {
+    current = current.parent
+  }
+  return ts.isParameter(current)
+}
+
+/**
+ * PPR applies to every page with `ppr: true` or `cacheComponents: true` in
+ * `next.config`, or with `ppr: 'incremental'` to segments exporting
+ * `experimental_ppr = true`.
+ */
+async function isPprEnabled(
+  session: ScanSession,
+  input: RenderingInput,
+): Promise<boolean> {
+  const cache = cacheFor(session)
+  let setting = cache.ppr.get(input.project)
+  if (!setting) {
+    setting = readPprSetting(session, input.project)
+    cache.ppr.set(input.project, setting)
+  }
+
+  switch (await setting) {
+    case 'all':
+      return true
+    case 'incremental': {
+      const segments = await Promise.all(
+        [input.file, ...input.layouts]
+          .filter((file) => SCRIPT_EXTENSIONS.has(path.extname(file)))
+          .map((file) => readSignals(session, file, file === input.file)),
+      )
+      return segments.some((segment) => segment.ppr)
+    }
+    default:
+      return false
+  }
+}
+
+async function readPprSetting(
+  session: ScanSession,
+  project: string,
+): Promise<PprSetting> {
+  const { directories } = await session.files()
+  const config = [...(directories.get(project) ?? [])].find((name) =>
+    NEXT_CONFIG_PATTERN.test(name),
+  )
+  if (!config) return null
+
+  const source = await fs.readFile(path.join(project, config), 'utf8')
+  if (/\bcacheComponents\s*:\s*true\b/.test(source)) return 'all'
+  const ppr = /\bppr\s*:\s*(true|['"]incremental['"])/.exec(source)
+  if (!ppr) return null
+  return ppr[1] === 'true' ? 'all' : 'incremental'
+}
+
+async function readBuildMode(
+  session: ScanSession,
+  project: string,
+  routePath: string,
+): Promise<{ mode: RenderingMode; revalidate?: number } | null> {
+  const cache = cacheFor(session)
+  let manifest = cache.manifests.get(project)
+  if (!manifest) {
+    manifest = readManifest(path.join(project, MANIFEST_PATH))
+    cache.manifests.set(project, manifest)
+  }
+  const loaded = await manifest
+  if (!loaded) return null
+
+  const route = toManifestRoute(routePath)
+  const entries = Object.values(loaded.routes ?? {})
+  const prerendered = loaded.routes?.[route]
+    ? [loaded.routes[route]]
+    : entries.filter((entry) => entry.srcRoute === route)
+  const dynamicRoute = loaded.dynamicRoutes?.[route]
+
+  const isPartial = (entry?: {
+    experimentalPPR?: boolean
+    renderingMode?: string
+  }) =>
+    Boolean(
+      entry?.experimentalPPR || entry?.renderingMode === 'PARTIALLY_STATIC',
+    )
+  if (isPartial(prerendered[0]) || isPartial(dynamicRoute)) {
+    return { mode: 'ppr' }
+  }
+  if (!prerendered.length) return { mode: 'dynamic' }
+
+  const revalidate = prerendered
+    .map((entry) => entry.initialRevalidateSeconds)
+    .filter((value): value is number => typeof value === 'number')
+    .sort((a, b) => a - b)[0]
+  return revalidate ? { mode: 'isr', revalidate } : { mode: 'static' }
+}
+
+async function readManifest(
+  manifestPath: string,
+): Promise<PrerenderManifest | null> {
+  try {
+    return JSON.parse(await fs.readFile(manifestPath, 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
@@ -0,0 +1,332 @@
+import { execFile } from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import { getApiRoutes, type RouteInfo } from './api-routes'
+import { getPageRoutes, type PageInfo } from './page-routes'
+import { createScanSession, type ScanOptions } from './scanner'
+
+const execFileAsync = promisify(execFile)
+
+export type RouteSnapshot = {
+  pages: PageInfo[]
+  routes: RouteInfo[]
+}
+
+export type RouteChangeType =
+  | 'route-removed'
+  | 'methods-removed'
+  | 'params-renamed'
+  | 'coverage-lost'
+  | 'route-added'
+  | 'methods-added'
+  | 'coverage-gained'
+
+/**
+ * One difference between two scans. Changes are reported against the head
+ * revision, so `path` and `file` are where the route lives after the change
+ * (or lived before it, for removals).
+ */
+export type RouteChange = {
+  type: RouteChangeType
+  kind: 'route' | 'page'
+  path: string
+  file: string
+  /** Path in the base revision when a dynamic param was renamed. */
+  previousPath?: string
+  /** Methods of an added or removed route, or the methods that changed. */
+  methods?: string[]
+  /** Fallback whose coverage changed. */
+  fallback?: 'loading' | 'error'
+}
+
+export type RouteDiff = {
+  base: string
+  head: string
+  changes: RouteChange[]
+}
+
+export type LoadSnapshotOptions = {
+  /** Git revision to scan. Without it the working copy is scanned. */
+  ref?: string
+  scanOptions?: ScanOptions
+  routePrefix?: string
+}
+
+// Removals first: they are what reviewers most need to see
+const CHANGE_ORDER: RouteChangeType[] = [
+  'route-removed',
+  'methods-removed',
+  'params-renamed',
+  'coverage-lost',
+  'route-added',
+  'methods-added',
+  'coverage-gained',
+]
+
+/**
+ * Scan the pages and API routes of `root` as they are at `ref`. The revision
+ * is checked out into a temporary git worktree, so the working copy and the
+ * index are never touched.
+ */
+export async function loadRouteSnapshot(
+  root: string,
+  { ref, scanOptions, routePrefix }: LoadSnapshotOptions = {},
+): Promise<RouteSnapshot> {
+  if (!ref) return scanSnapshot(root, scanOptions, routePrefix)
+
+  const topLevel = await git(root, ['rev-parse', '--show-toplevel'])
+  const commit = await git(root, [
+    'rev-parse',
+    '--verify',
+    '--quiet',
+    `${ref}^{commit}`,
+  ]).catch(() => {
+    throw new Error(`Unknown git revision: ${ref}`)
+  })
+
+  const worktree = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-diff-'))
+  try {
+    await git(root, [
+      'worktree',
+      'add',
+      '--detach',
+      '--quiet',
+      worktree,
+      commit,
+    ])
+    // Scan the same project directory inside the checked-out revision
+    const relative = path.relative(topLevel, await fs.realpath(root))
+    const target = path.join(worktree, relative)
+    const exists = await fs
+      .stat(target)
+      .then((stats) => stats.isDirectory())
+      .catch(() => false)
+    if (!exists) return { pages: [], routes: [] }
+
+    return await scanSnapshot(
+      target,
+      scanOptions && rebaseScanOptions(scanOptions, topLevel, worktree),
+      routePrefix,
+    )
+  } finally {
+    await git(root, ['worktree', 'remove', '--force', worktree]).catch(
+      () => undefined,
+    )
+    await fs.rm(worktree, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Compare two scans: API routes and HTTP methods that were added or removed,
+ * pages whose `loading` or `error` coverage changed, and routes whose dynamic
+ * params were renamed (`/blog/:slug` → `/blog/:id`).
+ */
+export function diffRouteSnapshots(
+  base: RouteSnapshot,
+  head: RouteSnapshot,
+): RouteChange[] {
+  const changes: RouteChange[] = []
+
+  const routes = pairByPath(base.routes, head.routes, routeKey)
+  for (const route of routes.removed) {
+    changes.push({
+      type: 'route-removed',
+      kind: 'route',
+      path: route.path,
+      file: route.file,
+      methods: route.methods,
+    })
+  }
+  for (const route of routes.added) {
+    changes.push({
+      type: 'route-added',
+      kind: 'route',
+      path: route.path,
+      file: route.file,
+      methods: route.methods,
+    })
+  }
+  for (const [before, after] of routes.paired) {
+    if (before.path !== after.path) {
+      changes.push(renamed('route', before, after))
+    }
+    const methodChanges = [
+      ['methods-removed', before.methods, after.methods],
+      ['methods-added', after.methods, before.methods],
+    ] as const
+    for (const [type, from, to] of methodChanges) {
+      const methods = from.filter((method) => !to.includes(method))
+      if (!methods.length) continue
+      changes.push({
+        type,
+        kind: 'route',
+        path: after.path,
+        file: after.file,
+        methods,
+      })
+    }
+  }
+
+  // New and deleted pages are not reported; only their coverage is
+  const pages = pairByPath(base.pages, head.pages, pageKey)
+  for (const [before, after] of pages.paired) {
+    if (before.path !== after.path) {
+      changes.push(renamed('page', before, after))
+    }
+    for (const fallback of ['loading', 'error'] as const) {
+      const covered = (page: PageInfo) => page[fallback] !== 'missing'
+      if (covered(before) === covered(after)) continue
+      changes.push({
+        type: covered(after) ? 'coverage-gained' : 'coverage-lost',
+        kind: 'page',
+        path: after.path,
+        file: after.file,
+        fallback,
+      })
+    }
+  }
+
+  return changes.sort(
+    (a, b) =>
+      CHANGE_ORDER.indexOf(a.type) - CHANGE_ORDER.indexOf(b.type) ||
+      a.path.localeCompare(b.path) ||
+      a.file.localeCompare(b.file) ||
+      (a.fallback ?? '').localeCompare(b.fallback ?? ''),
+  )
+}
+
+/**
+ * Match entries by app, router and path; entries left over on both sides
+ * whose paths only differ in param names are paired as renames.
+ */
+function pairByPath<T extends { path: string }>(
+  base: T[],
+  head: T[],
+  key: (entry: T, withParams: boolean) => string,
+): { added: T[]; removed: T[]; paired: [T, T][] } {
+  const paired: [T, T][] = []
+  const headByKey = new Map(head.map((entry) => [key(entry, true), entry]))
+  const unmatched: T[] = []
+  for (const entry of base) {
+    const match = headByKey.get(key(entry, true))
+    if (match) {
+      paired.push([entry, match])
+      headByKey.delete(key(entry, true))
+    } else {
+      unmatched.push(entry)
+    }
+  }
+
+  const remaining = [...headByKey.values()]
+  const removed: T[] = []
+  for (const entry of unmatched) {
+    const index = remaining.findIndex(
+      (candidate) => key(candidate, false) === key(entry, false),
+    )
+    if (index === -1) {
+      removed.push(entry)
+    } else {
+      paired.push([entry, remaining[index]])
+      remaining.splice(index, 1)
+    }
+  }
+
+  return { added: remaining, removed, paired }
+}
+
+function routeKey(route: RouteInfo, withParams: boolean): string {
+  const routePath = withParams ? route.path : stripParamNames(route.path)
+  return `${sectionKey(route)} ${routePath}`
+}
+
+// Pages in parallel route slots and intercepting routes share the URL of
+// another page; the slot and the intercepting segment tell them apart
+function pageKey(page: PageInfo, withParams: boolean): string {
+  const routePath = withParams ? page.path : stripParamNames(page.path)
+  const variants = [
+    page.slot ? `@${page.slot.name}` : '',
+    page.intercepts ? interceptingSegment(page.file, withParams) : '',
+  ]
+  return [sectionKey(page), ...variants, routePath].join(' ')
+}
+
+// Apps of a monorepo and the two routers can each have an entry for a URL
+function sectionKey(entry: RouteInfo | PageInfo): string {
+  return `${entry.app ?? ''} ${entry.router}`
+}
+
+// `app/feed/(..)photo` for `app/feed/(..)photo/[id]/page.tsx`
+function interceptingSegment(file: string, withParams: boolean): string {
+  const segments = file.split('/')
+  const marker = segments.findIndex((segment) => /^\(\.+\)/.test(segment))
+  const directory = segments.slice(0, marker + 1).join('/')
+  return withParams ? directory : directory.replace(/\w+(?=\]+)/g, '')
+}
+
+function stripParamNames(routePath: string): string {
+  return routePath.replace(/:\w+/g, ':')
+}
+
+function renamed(
+  kind: RouteChange['kind'],
+  before: { path: string },
+  after: { path: string; file: string },
+): RouteChange {
+  return {
+    type: 'params-renamed',
+    kind,
+    path: after.path,
+    file: after.file,
+    previousPath: before.path,
+  }
+}
+
+// Config globs and app directories are absolute, so point the ones inside the
+// repository at the worktree
+function rebaseScanOptions(
+  scanOptions: ScanOptions,
+  from: string,
+  to: string,
+): ScanOptions {
+  const rebase = (value: string) => {
+    const relative = path.relative(from, value)
+    return relative.startsWith('..') || path.isAbsolute(relative)
+      ? value
+      : path.join(to, relative)
+  }
+  const rebaseGlob = (glob: string) =>
+    path.isAbsolute(glob) ? rebase(glob).split(path.sep).join('/') : glob
+
+  return {
+    ...scanOptions,
+    appDirs: scanOptions.appDirs?.map(rebase),
+    include: scanOptions.include?.map(rebaseGlob),
+    exclude: scanOptions.exclude?.map(rebaseGlob),
+    persistentCache: false,
+  }
+}
+
+async function scanSnapshot(
+  root: string,
+  scanOptions: ScanOptions | undefined,
+  routePrefix: string | undefined,
+): Promise<RouteSnapshot> {
+  const session = createScanSession(root, scanOptions)
+  const [pages, routes] = await Promise.all([
+    getPageRoutes(session.root, { session }),
+    getApiRoutes(session.root, undefined, { session, routePrefix }),
+  ])
+  return { pages, routes }
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd })
+    return stdout.trim()
+  } catch (error) {
+    const { stderr, message } = error as { stderr?: string; message: string }
+    throw new Error(stderr?.trim() || message)
+  }
+}
@@ -0,0 +1,88 @@
+import path from 'path'
+import { PAGE_EXTENSIONS, type ScanSession } from './scanner'
+import { normalizeRelative } from './utils'
+
+const GROUP_PATTERN = /^\(([^().][^()]*)\)$/
+
+/**
+ * Name of a route group segment: `(marketing)` → `marketing`. Intercepting
+ * segments such as `(.)photo` and plain segments return null.
+ */
+export function parseRouteGroup(segment: string): string | null {
+  return GROUP_PATTERN.exec(segment)?.[1] ?? null
+}
+
+/**
+ * Route groups among the directory segments of a route, outermost first.
+ */
+export function collectRouteGroups(segments: string[]): string[] {
+  return segments
+    .map(parseRouteGroup)
+    .filter((group): group is string => group !== null)
+}
+
+/**
+ * Whether an entry belongs to any of the requested groups. Filter values may
+ * be written with or without parentheses.
+ */
+export function matchesRouteGroups(
+  groups: string[] | undefined,
+  filter: string[] | undefined,
+): boolean {
+  if (!filter?.length) return true
+  const wanted = new Set(
+    filter.map((name) => parseRouteGroup(name.trim()) ?? name.trim()),
+  )
+  return (groups ?? []).some((group) => wanted.has(group))
+}
+
+/**
+ * The outermost `layout` between the app root and `directory`, if it sits
+ * inside a route group. That is only the case when the app has several root
+ * layouts, e.g. `app/(marketing)/layout.tsx` and `app/(shop)/layout.tsx`;
+ * navigating between them reloads the page.
+ */
+export async function findGroupRootLayout(
+  session: ScanSession,
+  appRootPath: string,
+  directory: string,
+): Promise<string | undefined> {
+  const relative = path.relative(appRootPath, directory)
+  const segments = relative ? relative.split(path.sep) : []
+
+  let current = appRootPath
+  for (const segment of [null, ...segments]) {
+    if (segment !== null) current = path.join(current, segment)
+    const layout = await session.findConventionFile(
+      current,
+      'layout',
+      PAGE_EXTENSIONS,
+    )
+    if (!layout) continue
+    if (current === appRootPath) return undefined
+    return normalizeRelative(session.root, layout)
+  }
+  return undefined
+}
+
+/**
+ * Label for a group chain, e.g. `(marketing)/(blog)`; empty when ungrouped.
+ */
+export function formatRouteGroups(groups: string[] | undefined): string {
+  return (groups ?? []).map((group) => `(${group})`).join('/')
+}
+
+/**
+ * Order entries by route group, ungrouped entries last, keeping the existing
+ * order within each group.
+ */
+export function sortByRouteGroup<T extends { groups?: string[] }>(
+  entries: T[],
+): T[] {
+  return [...entries].sort((a, b) => {
+    const labelA = formatRouteGroups(a.groups)
+    const labelB = formatRouteGroups(b.groups)
+    if (!labelA || !labelB) return Number(!labelA) - Number(!labelB)
+    return labelA.localeCompare(labelB)
+  })
+}
@@ -0,0 +1,127 @@
+import type { RouteInfo } from './api-routes'
+import type { PageInfo } from './page-routes'
+import type { RouterType } from './pages-router'
+import { parseRouteGroup } from './route-groups'
+
+/**
+ * How a directory segment affects the URL: `group` (`(shop)`) and `slot`
+ * (`@modal`) segments are left out of it, `intercept` segments such as
+ * `(.)photo` render another route, and `dynamic` segments are params.
+ */
+export type RouteTreeSegmentKind =
+  | 'root'
+  | 'static'
+  | 'dynamic'
+  | 'group'
+  | 'slot'
+  | 'intercept'
+
+export type RouteTreeNode = {
+  /** Directory name, or the router directory (e.g. `src/app`) for roots. */
+  segment: string
+  kind: RouteTreeSegmentKind
+  page?: PageInfo
+  route?: RouteInfo
+  /** `layout`, `loading` and `error` files that sit in this directory. */
+  layout?: string
+  loading?: string
+  error?: string
+  children: RouteTreeNode[]
+}
+
+const INTERCEPT_PATTERN = /^\(\.{1,3}\)/
+
+/**
+ * Arrange pages and API routes by directory, one root per `app` or `pages`
+ * directory, keeping route groups, slots and intercepting segments as
+ * branches. Layouts and co-located fallbacks are attached to the directory
+ * they sit in.
+ */
+export function buildRouteTree(
+  pages: PageInfo[],
+  routes: RouteInfo[],
+): RouteTreeNode[] {
+  const roots: RouteTreeNode[] = []
+
+  const nodeFor = (file: string, router: RouterType) => {
+    const segments = file.split('/')
+    const routerIndex = findRouterIndex(segments, router)
+    const rootSegment = segments.slice(0, routerIndex + 1).join('/')
+    let node = roots.find((root) => root.segment === rootSegment)
+    if (!node) {
+      node = { segment: rootSegment, kind: 'root', children: [] }
+      roots.push(node)
+    }
+
+    const directories = segments.slice(routerIndex + 1, -1)
+    // `pages/blog/[id].tsx` is a node of its own, `pages/blog/index.tsx` is not
+    const leaf = segments[segments.length - 1].replace(/\.[^.]+$/, '')
+    if (router === 'pages' && leaf !== 'index') {
+      directories.push(leaf)
+    }
+
+    for (const segment of directories) {
+      let child: RouteTreeNode | undefined = node.children.find(
+        (candidate) => candidate.segment === segment,
+      )
+      if (!child) {
+        child = { segment, kind: classifySegment(segment), children: [] }
+        node.children.push(child)
+      }
+      node = child
+    }
+    return node
+  }
+
+  for (const page of pages) {
+    nodeFor(page.file, page.router).page = page
+    for (const layout of page.layouts) nodeFor(layout, 'app').layout = layout
+    if (page.loading === 'co-located' && page.loadingPath) {
+      nodeFor(page.loadingPath, 'app').loading = page.loadingPath
+    }
+    if (page.error === 'co-located' && page.errorPath) {
+      nodeFor(page.errorPath, 'app').error = page.errorPath
+    }
+  }
+  for (const route of routes) {
+    nodeFor(route.file, route.router).route = route
+  }
+
+  roots.forEach(sortChildren)
+  return roots.sort((a, b) => a.segment.localeCompare(b.segment))
+}
+
+// Router directory of an entry, so `app/pages/page.tsx` is an App Router
+// page and `pages/app.tsx` a Pages Router one
+function findRouterIndex(segments: string[], router: RouterType): number {
+  const index =
+    router === 'app'
+      ? segments.lastIndexOf('app')
+      : segments.slice(0, -1).indexOf('pages')
+  return Math.max(index, 0)
+}
+
+function classifySegment(segment: string): RouteTreeSegmentKind {
+  if (segment.startsWith('@')) return 'slot'
+  if (INTERCEPT_PATTERN.test(segment)) return 'intercept'
+  if (parseRouteGroup(segment)) return 'group'
+  if (segment.startsWith('[')) return 'dynamic'
+  return 'static'
+}
+
+// Plain segments first, then params, groups and slots, each alphabetically
+function sortChildren(node: RouteTreeNode): void {
+  const order: RouteTreeSegmentKind[] = [
+    'static',
+    'dynamic',
+    'intercept',
+    'group',
+    'slot',
+  ]
+  node.children.sort(
+    (a, b) =>
+      order.indexOf(a.kind) - order.indexOf(b.kind) ||
+      a.segment.localeCompare(b.segment),
+  )
+  node.children.forEach(sortChildren)
+}
@@ -0,0 +1,554 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { performance } from 'perf_hooks'
+import { createPathFilter, type IgnoreOptions, type PathFilter } from './ignore'
+import { metadataFromExports, type ModuleMetadata } from './metadata'
+import { matcherFromExports, type MiddlewareMatcher } from './middleware'
+import {
+  collectModuleExports,
+  readDocComment,
+  type DocComment,
+  type SourceLocation,
+} from './module-exports'
+import {
+  detectRequestMethods,
+  isPagesRouterEntry,
+  PAGES_DIRECTORY,
+  projectDirectoryOf,
+} from './pages-router'
+import { segmentConfigFromExports, type SegmentConfig } from './segment-config'
+import { SKIP_DIRECTORIES } from './utils'
+import {
+  findOwningPackage,
+  findWorkspace,
+  selectPackages,
+  type Workspace,
+} from './workspaces'
+
+export type ExportSummary = SourceLocation & {
+  doc?: DocComment
+}
+
+/**
+ * Serializable result of parsing a module: what the route and page scanners
+ * need, without the TypeScript AST.
+ */
+export type ModuleSummary = {
+  /** Exported bindings by name; `file` is absolute. */
+  exports: Record<string, ExportSummary>
+  segmentConfig: SegmentConfig
+  /**
+   * Methods the default export branches on via `req.method`, for `pages/api`
+   * handlers. Only present when any were found.
+   */
+  requestMethods?: Record<string, SourceLocation>
+  /** Metadata exports of pages and layouts; only present when any exist. */
+  metadata?: ModuleMetadata
+  /**
+   * `config.matcher` of a middleware module, or null when it is computed at
+   * runtime. Missing when the module exports no matcher.
+   */
+  matcher?: MiddlewareMatcher[] | null
+}
+
+export type PagesRouterFile = {
+  file: string
+  /** The `pages` directory the file belongs to. */
+  pagesDirectory: string
+}
+
+export type ProjectFiles = {
+  routeFiles: string[]
+  pageFiles: string[]
+  /** Pages and API routes under `pages/` directories. */
+  pagesRouterFiles: PagesRouterFile[]
+  /** File names per directory, so convention lookups need no extra I/O. */
+  directories: Map<string, Set<string>>
+}
+
+export type ScanStats = {
+  /** Time since the session started. */
+  durationMs: number
+  /** Time spent walking the project tree. */
+  walkMs: number
+  /** Time spent parsing modules or validating cached summaries. */
+  analyzeMs: number
+  directories: number
+  files: number
+  /** Modules parsed with the TypeScript compiler during this session. */
+  parsed: number
+  /** Modules served from the cache after an mtime/size check. */
+  cached: number
+}
+
+export type ScanOptions = IgnoreOptions & {
+  /**
+   * Absolute `app` directories to scan. Defaults to every `app` directory
+   * under the root.
+   */
+  appDirs?: string[]
+  /**
+   * Only report files owned by these monorepo packages, matched by package
+   * name or directory name.
+   */
+  apps?: string[]
+  /**
+   * Persist module summaries to `.next-lens/cache/` so the next process can
+   * skip parsing unchanged files.
+   */
+  persistentCache?: boolean
+}
+
+export interface ScanSession {
+  root: string
+  /** Walk the project once; later calls reuse the result. */
+  files(): Promise<ProjectFiles>
+  /** Parse a module, or reuse the cached summary when nothing changed. */
+  summarize(filePath: string): Promise<ModuleSummary>
+  /**
+   * First `basename.<ext>` in `directory`, trying extensions in order.
+   */
+  findConventionFile(
+    directory: string,
+    basename: string,
+    extensions: Iterable<string>,
+  ): Promise<string | null>
+  /** The monorepo containing the root, or null outside one. */
+  workspace(): Promise<Workspace | null>
+  getStats(): ScanStats
+  /** Write the persistent cache, if enabled and anything changed. */
+  persist(): Promise<void>
+}
+
+type FileStamp = [mtimeMs: number, size: number]
+
+type CacheEntry = {
+  /** The module and every file its exports were resolved through. */
+  dependencies: Record<string, FileStamp>
+  /**
+   * Files probed for local imports that did not exist. Creating one can
+   * change what an import resolves to.
+   */
+  missing: string[]
+  summary: ModuleSummary
+}
+
+type ModuleCache = {
+  entries: Map<string, CacheEntry>
+  loadedFromDisk: boolean
+  dirty: boolean
+}
+
+export const ROUTE_BASENAME = 'route'
+export const ROUTE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx'])
+export const PAGE_BASENAME = 'page'
+export const PAGE_EXTENSIONS = new Set([
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mdx',
+  '.md',
+  '.mjs',
+  '.cjs',
+])
+
+export const CACHE_DIRECTORY = path.join('.next-lens', 'cache')
+const CACHE_FILE = 'modules.json'
+// Bump when CacheEntry or ModuleSummary changes shape
+const CACHE_VERSION = 5
+const NEXT_CONFIG_PATTERN = /^next\.config\.(js|mjs|cjs|ts|mts)$/
+
+// Shared by every session in this process, keyed by project root
+const moduleCaches = new Map<string, ModuleCache>()
+
+/**
+ * Start a scan of a project. A session walks the tree at most once and
+ * shares parsed modules between the route and page scanners.
+ */
+export function createScanSession(
+  root: string,
+  options: ScanOptions = {},
+): ScanSession {
+  const startedAt = performance.now()
+  const cache = getModuleCache(root)
+  const stats: Omit<ScanStats, 'durationMs'> = {
+    walkMs: 0,
+    analyzeMs: 0,
+    directories: 0,
+    files: 0,
+    parsed: 0,
+    cached: 0,
+  }
+
+  let walk: Promise<ProjectFiles> | null = null
+  let workspace: Promise<Workspace | null> | null = null
+  let diskCache: Promise<void> | null = null
+
+  const loadDiskCache = () => {
+    if (!options.persistentCache || cache.loadedFromDisk) return
+    diskCache ??= readDiskCache(root, cache)
+    return diskCache
+  }
+
+  const session: ScanSession = {
+    root,
+
+    files() {
+      walk ??= (async () => {
+        const walkStart = performance.now()
+        const filter = await createPathFilter(root, options)
+        const result = await walkProject(root, filter, options.appDirs, stats)
+        stats.walkMs += performance.now() - walkStart
+        if (options.apps?.length) {
+          filterByApps(root, result, await session.workspace(), options.apps)
+        }
+        return result
+      })()
+      return walk
+    },
+
+    async summarize(filePath) {
+      await loadDiskCache()
+      const analyzeStart = performance.now()
+      try {
+        const cached = cache.entries.get(filePath)
+        if (cached && (await isFresh(cached))) {
+          stats.cached += 1
+          return cached.summary
+        }
+
+        const dependencies = new Set<string>()
+        const missing = new Set<string>()
+        const exports = await collectModuleExports(
+          filePath,
+          dependencies,
+          missing,
+        )
+        const requestMethods = detectRequestMethods(exports.get('default'))
+        const metadata = metadataFromExports(exports)
+        const matcher = matcherFromExports(exports)
+        const summary: ModuleSummary = {
+          exports: {},
+          segmentConfig: segmentConfigFromExports(exports),
+          ...(Object.keys(requestMethods).length ? { requestMethods } : {}),
+          ...(metadata ? { metadata } : {}),
+          ...(matcher !== undefined ? { matcher } : {}),
+        }
+        for (const [name, binding] of exports) {
+          const doc = readDocComment(binding.node)
+          summary.exports[name] = {
+            file: binding.file,
+            line: binding.line,
+            column: binding.column,
+            endLine: binding.endLine,
+            endColumn: binding.endColumn,
+            ...(doc ? { doc } : {}),
+          }
+        }
+
+        cache.entries.set(filePath, {
+          dependencies: await stampFiles(dependencies),
+          missing: [...missing],
+          summary,
+        })
+        cache.dirty = true
+        stats.parsed += 1
+        return summary
+      } finally {
+        stats.analyzeMs += performance.now() - analyzeStart
+      }
+    },
+
+    async findConventionFile(directory, basename, extensions) {
+      const { directories } = await session.files()
+      const names = directories.get(directory)
+      if (!names) return null
+      for (const extension of extensions) {
+        const name = `${basename}${extension}`
+        if (names.has(name)) return path.join(directory, name)
+      }
+      return null
+    },
+
+    workspace() {
+      workspace ??= findWorkspace(root)
+      return workspace
+    },
+
+    getStats() {
+      return { durationMs: performance.now() - startedAt, ...stats }
+    },
+
+    async persist() {
+      if (!options.persistentCache || !cache.dirty) return
+      await writeDiskCache(root, cache)
+      cache.dirty = false
+    },
+  }
+
+  return session
+}
+
+/**
+ * One-line summary for `--stats` output.
+ */
+export function formatScanStats(stats: ScanStats): string {
+  return [
+    `Scanned ${stats.files} files in ${stats.directories} directories`,
+    `${Math.round(stats.durationMs)}ms total`,
+    `walk ${Math.round(stats.walkMs)}ms`,
+    `analyze ${Math.round(stats.analyzeMs)}ms`,
+    `${stats.parsed} parsed`,
+    `${stats.cached} cached`,
+  ].join(' · ')
+}
+
+/**
+ * Drop every in-memory module summary, e.g. between test runs.
+ */
+export function clearScanCache() {
+  moduleCaches.clear()
+}
+
+async function walkProject(
+  root: string,
+  rootFilter: PathFilter,
+  appDirs: string[] | undefined,
+  stats: Omit<ScanStats, 'durationMs'>,
+): Promise<ProjectFiles> {
+  const result: ProjectFiles = {
+    routeFiles: [],
+    pageFiles: [],
+    pagesRouterFiles: [],
+    directories: new Map(),
+  }
+
+  async function walk(
+    current: string,
+    parentFilter: PathFilter,
+    pagesDirectory: string | null,
+    insideApp: boolean,
+  ) {
+    const entries = await fs.readdir(current, { withFileTypes: true })
+    const filter = await parentFilter.descend(
+      current,
+      new Set(
+        entries.filter((entry) => entry.isFile()).map(({ name }) => name),
+      ),
+    )
+    const names = new Set<string>()
+    result.directories.set(current, names)
+    stats.directories += 1
+
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name)
+
+      if (entry.isDirectory()) {
+        if (SKIP_DIRECTORIES.has(entry.name)) continue
+        if (filter.ignores(entryPath, true)) continue
+        if (appDirs && !appDirs.some((dir) => isOnPath(entryPath, dir))) {
+          continue
+        }
+        // A `pages` segment inside an `app` tree is an App Router route
+        const startsPagesRouter =
+          pagesDirectory === null &&
+          !insideApp &&
+          entry.name === PAGES_DIRECTORY
+        await walk(
+          entryPath,
+          filter,
+          startsPagesRouter ? entryPath : pagesDirectory,
+          insideApp || (pagesDirectory === null && entry.name === 'app'),
+        )
+        continue
+      }
+
+      if (!entry.isFile()) continue
+      if (filter.ignores(entryPath, false)) continue
+      names.add(entry.name)
+      stats.files += 1
+
+      const parsed = path.parse(entry.name)
+      const isRoute =
+        parsed.name === ROUTE_BASENAME && ROUTE_EXTENSIONS.has(parsed.ext)
+      const isPage =
+        parsed.name === PAGE_BASENAME && PAGE_EXTENSIONS.has(parsed.ext)
+      const isPagesRouter =
+        pagesDirectory !== null &&
+        isPagesRouterEntry(path.relative(pagesDirectory, entryPath))
+      if (!isRoute && !isPage && !isPagesRouter) continue
+      if (!filter.includes(entryPath)) continue
+      if (appDirs && !appDirs.some((dir) => isWithin(entryPath, dir))) continue
+
+      if (isPagesRouter) {
+        result.pagesRouterFiles.push({ file: entryPath, pagesDirectory })
+      } else if (isRoute) result.routeFiles.push(entryPath)
+      else result.pageFiles.push(entryPath)
+    }
+  }
+
+  await walk(root, rootFilter, null, false)
+
+  // Only `pages` directories at a project root (or under its `src`) are
+  // routers; files in any other `pages` directory are scanned like the rest
+  const projects = new Map<string, boolean>()
+  const pagesRouterFiles = result.pagesRouterFiles
+  result.pagesRouterFiles = []
+  for (const entry of pagesRouterFiles) {
+    let isRoot = projects.get(entry.pagesDirectory)
+    if (isRoot === undefined) {
+      isRoot = isPagesRouterRoot(root, entry.pagesDirectory, result.directories)
+      projects.set(entry.pagesDirectory, isRoot)
+    }
+    if (isRoot) {
+      result.pagesRouterFiles.push(entry)
+      continue
+    }
+    const parsed = path.parse(entry.file)
+    if (parsed.name === ROUTE_BASENAME && ROUTE_EXTENSIONS.has(parsed.ext)) {
+      result.routeFiles.push(entry.file)
+    } else if (
+      parsed.name === PAGE_BASENAME &&
+      PAGE_EXTENSIONS.has(parsed.ext)
+    ) {
+      result.pageFiles.push(entry.file)
+    }
+  }
+  return result
+}
+
+/**
+ * Whether a `pages` directory belongs to a Next.js project: the scan root or
+ * a directory with a `next.config.*` file, directly or through `src/`.
+ */
+function isPagesRouterRoot(
+  root: string,
+  pagesDirectory: string,
+  directories: Map<string, Set<string>>,
+): boolean {
+  const project = projectDirectoryOf(pagesDirectory)
+  if (project === root || path.dirname(pagesDirectory) === root) return true
+
+  const names = directories.get(project)
+  return names
+    ? [...names].some((name) => NEXT_CONFIG_PATTERN.test(name))
+    : false
+}
+
+function filterByApps(
+  root: string,
+  files: ProjectFiles,
+  workspace: Workspace | null,
+  apps: string[],
+) {
+  if (!workspace) {
+    throw new Error(`Cannot filter by app: ${root} is not in a monorepo`)
+  }
+
+  const selected = new Set(
+    selectPackages(workspace, apps).map((pkg) => pkg.directory),
+  )
+  const isSelected = (filePath: string) => {
+    const owner = findOwningPackage(workspace, filePath)
+    return owner !== null && selected.has(owner.directory)
+  }
+
+  files.routeFiles = files.routeFiles.filter(isSelected)
+  files.pageFiles = files.pageFiles.filter(isSelected)
+  files.pagesRouterFiles = files.pagesRouterFiles.filter(({ file }) =>
+    isSelected(file),
+  )
+}
+
+/**
+ * Whether a walk has to enter `directory` to reach files in `appDir`.
+ */
+function isOnPath(directory: string, appDir: string): boolean {
+  return isWithin(directory, appDir) || isWithin(appDir, directory)
+}
+
+function isWithin(entryPath: string, directory: string): boolean {
+  const relative = path.relative(directory, entryPath)
+  return !relative.startsWith('..') && !path.isAbsolute(relative)
+}
+
+function getModuleCache(root: string): ModuleCache {
+  let cache = moduleCaches.get(root)
+  if (!cache) {
+    cache = { entries: new Map(), loadedFromDisk: false, dirty: false }
+    moduleCaches.set(root, cache)
+  }
+  return cache
+}
+
+async function isFresh(entry: CacheEntry): Promise<boolean> {
+  for (const [file, [mtimeMs, size]] of Object.entries(entry.dependencies)) {
+    try {
+      const stats = await fs.stat(file)
+      if (stats.mtimeMs !== mtimeMs || stats.size !== size) return false
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+      throw error
+    }
+  }
+  for (const file of entry.missing) {
+    try {
+      await fs.stat(file)
+      return false
+    } catch (error) {
+      const { code } = error as NodeJS.ErrnoException
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') throw error
+    }
+  }
+  return true
+}
+
+async function stampFiles(
+  files: Set<string>,
+): Promise<Record<string, FileStamp>> {
+  const stamps: Record<string, FileStamp> = {}
+  for (const file of files) {
+    const stats = await fs.stat(file)
+    stamps[file] = [stats.mtimeMs, stats.size]
+  }
+  return stamps
+}
+
+async function readDiskCache(root: string, cache: ModuleCache) {
+  cache.loadedFromDisk = true
+  const cachePath = path.join(root, CACHE_DIRECTORY, CACHE_FILE)
+
+  let raw: string
+  try {
+    raw = await fs.readFile(cachePath, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+    throw error
+  }
+
+  try {
+    const data = JSON.parse(raw) as {
+      version: number
+      entries: Record<string, CacheEntry>
+    }
+    if (data.version !== CACHE_VERSION) return
+    for (const [file, entry] of Object.entries(data.entries)) {
+      // Entries parsed in this process are newer than the disk copy
+      if (!cache.entries.has(file)) cache.entries.set(file, entry)
+    }
+  } catch {
+    // A corrupt cache is rebuilt on the next persist
+    cache.dirty = true
+  }
+}
+
+async function writeDiskCache(root: string, cache: ModuleCache) {
+  const cacheDir = path.join(root, CACHE_DIRECTORY)
+  await fs.mkdir(cacheDir, { recursive: true })
+  const data = {
+    version: CACHE_VERSION,
+    entries: Object.fromEntries(cache.entries),
+  }
+  await fs.writeFile(path.join(cacheDir, CACHE_FILE), JSON.stringify(data))
+}
@@ -0,0 +1,259 @@
+import path from 'path'
+import {
+  collectModuleExports,
+  evaluateStaticValue,
+  type ModuleExports,
+} from './module-exports'
+import type { ScanSession } from './scanner'
+
+export type SegmentConfig = {
+  runtime?: 'nodejs' | 'edge'
+  dynamic?: 'auto' | 'force-dynamic' | 'error' | 'force-static'
+  dynamicParams?: boolean
+  revalidate?: number | false
+  fetchCache?:
+    | 'auto'
+    | 'default-cache'
+    | 'only-cache'
+    | 'force-cache'
+    | 'force-no-store'
+    | 'default-no-store'
+    | 'only-no-store'
+  preferredRegion?: string | string[]
+  maxDuration?: number
+}
+
+export type SegmentConfigKey = keyof SegmentConfig
+
+export type SegmentConfigFilter = Partial<Record<SegmentConfigKey, string>>
+
+export const SEGMENT_CONFIG_KEYS: SegmentConfigKey[] = [
+  'runtime',
+  'dynamic',
+  'dynamicParams',
+  'revalidate',
+  'fetchCache',
+  'preferredRegion',
+  'maxDuration',
+]
+
+const STRING_OPTIONS: Partial<Record<SegmentConfigKey, Set<string>>> = {
+  runtime: new Set(['nodejs', 'edge']),
+  dynamic: new Set(['auto', 'force-dynamic', 'error', 'force-static']),
+  fetchCache: new Set([
+    'auto',
+    'default-cache',
+    'only-cache',
+    'force-cache',
+    'force-no-store',
+    'default-no-store',
+    'only-no-store',
+  ]),
+}
+
+const LAYOUT_BASENAME = 'layout'
+const LAYOUT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs']
+
+/**
+ * Read the route segment config exported from a single page, layout or route
+ * file. Only statically analyzable values are picked up, matching what
+ * Next.js itself accepts; invalid values are dropped.
+ */
+export async function readSegmentConfig(
+  filePath: string,
+): Promise<SegmentConfig> {
+  return segmentConfigFromExports(await collectModuleExports(filePath))
+}
+
+export function segmentConfigFromExports(
+  exports: ModuleExports,
+): SegmentConfig {
+  const config: SegmentConfig = {}
+
+  for (const key of SEGMENT_CONFIG_KEYS) {
+    const initializer = exports.get(key)?.initializer
+    if (!initializer) continue
+    assignConfigValue(config, key, evaluateStaticValue(initializer))
+  }
+
+  return config
+}
+
+/**
+ * Resolve the effective segment config for a page by combining every
+ * `layout.*` from the app root down to the page's directory with the page's
+ * own config. Children override parents, except `revalidate`, where the
+ * lowest value across the route wins.
+ *
+ * Route handlers are not wrapped by layouts, so they only use their own
+ * exports.
+ */
+export async function resolvePageSegmentConfig(
+  session: ScanSession,
+  pageDirectory: string,
+  appRootPath: string,
+  pageConfig: SegmentConfig,
+): Promise<SegmentConfig> {
+  const layouts = await findLayoutChain(session, pageDirectory, appRootPath)
+  const layoutConfigs = await Promise.all(
+    layouts.map(async (file) => (await session.summarize(file)).segmentConfig),
+  )
+  return mergeSegmentConfigs([...layoutConfigs, pageConfig])
+}
+
+export function mergeSegmentConfigs(configs: SegmentConfig[]): SegmentConfig {
+  const merged: SegmentConfig = {}
+
+  for (const config of configs) {
+    for (const key of SEGMENT_CONFIG_KEYS) {
+      const value = config[key]
+      if (value === undefined) continue
+
+      if (key === 'revalidate' && merged.revalidate !== undefined) {
+        merged.revalidate = lowestRevalidate(
+          merged.revalidate,
+          value as number | false,
+        )
+        continue
+      }
+
+      ;(merged as Record<string, unknown>)[key] = value
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Parse `key=value` CLI filters, e.g. `runtime=edge` or `revalidate=60`.
+ */
+export function parseSegmentConfigFilters(
+  entries: string[] = [],
+): SegmentConfigFilter {
+  const filter: SegmentConfigFilter = {}
+
+  for (const entry of entries) {
+    const separator = entry.indexOf('=')
+    const key = entry.slice(0, separator).trim() as SegmentConfigKey
+    const value = entry.slice(separator + 1).trim()
+
+    if (separator === -1 || !value) {
+      throw new Error(
+        `Invalid segment config filter: ${entry} (expected key=value)`,
+      )
+    }
+
+    if (!SEGMENT_CONFIG_KEYS.includes(key)) {
+      throw new Error(
+        `Unknown segment config option: ${key}\nValid options are: ${SEGMENT_CONFIG_KEYS.join(', ')}`,
+      )
+    }
+
+    filter[key] = value
+  }
+
+  return filter
+}
+
+export function matchesSegmentConfig(
+  config: SegmentConfig,
+  filter: SegmentConfigFilter,
+): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    const value = config[key as SegmentConfigKey]
+    if (value === undefined) return false
+    if (Array.isArray(value)) return value.includes(expected)
+    return String(value) === expected
+  })
+}
+
+/**
+ * Compact single-line label, e.g. `edge · force-dynamic · revalidate=60`.
+ */
+export function formatSegmentConfig(config: SegmentConfig): string {
+  const parts: string[] = []
+
+  for (const key of SEGMENT_CONFIG_KEYS) {
+    const value = config[key]
+    if (value === undefined) continue
+
+    if (key === 'runtime' || key === 'dynamic') {
+      parts.push(String(value))
+    } else if (Array.isArray(value)) {
+      parts.push(`${key}=${value.join(',')}`)
+    } else {
+      parts.push(`${key}=${value}`)
+    }
+  }
+
+  return parts.join(' · ')
+}
+
+function assignConfigValue(
+  config: SegmentConfig,
+  key: SegmentConfigKey,
+  value: unknown,
+) {
+  switch (key) {
+    case 'runtime':
+    case 'dynamic':
+    case 'fetchCache':
+      if (typeof value === 'string' && STRING_OPTIONS[key]?.has(value)) {
+        ;(config as Record<string, unknown>)[key] = value
+      }
+      return
+    case 'dynamicParams':
+      if (typeof value === 'boolean') config.dynamicParams = value
+      return
+    case 'revalidate':
+      if (value === false || (typeof value === 'number' && value >= 0)) {
+        config.revalidate = value
+      }
+      return
+    case 'maxDuration':
+      if (typeof value === 'number' && value > 0) config.maxDuration = value
+      return
+    case 'preferredRegion':
+      if (typeof value === 'string') config.preferredRegion = value
+      if (
+        Array.isArray(value) &&
+        value.every((region) => typeof region === 'string')
+      ) {
+        config.preferredRegion = value as string[]
+      }
+      return
+  }
+}
+
+function lowestRevalidate(a: number | false, b: number | false) {
+  if (a === false) return b
+  if (b === false) return a
+  return Math.min(a, b)
+}
+
+async function findLayoutChain(
+  session: ScanSession,
+  directory: string,
+  appRootPath: string,
+): Promise<string[]> {
+  const chain: string[] = []
+  let current = directory
+
+  while (true) {
+    const layout = await session.findConventionFile(
+      current,
+      LAYOUT_BASENAME,
+      LAYOUT_EXTENSIONS,
+    )
+    if (layout) chain.unshift(layout)
+
+    const relative = path.relative(appRootPath, current)
+    if (!relative || relative.startsWith('..')) break
+
+    const parent = path.dirname(current)
+    if (parent === current) break
+    current = parent
+  }
+
+  return chain
+}
@@ -0,0 +1,369 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import ts from 'typescript'
+import { createModuleResolver, readModuleImports } from './imports'
+import {
+  collectModuleExports,
+  locate,
+  parseSourceFile,
+  readDocComment,
+  type DocComment,
+  type SourceLocation,
+} from './module-exports'
+import {
+  createScanSession,
+  type ScanOptions,
+  type ScanSession,
+} from './scanner'
+import {
+  ensureDirectory,
+  normalizeRelative,
+  resolveTargetDirectory,
+} from './utils'
+import { findOwningPackage, selectPackages } from './workspaces'
+
+/**
+ * `module` for the exports of a file that starts with `'use server'`,
+ * `inline` for a function whose body starts with the directive.
+ */
+export type ServerActionScope = 'module' | 'inline'
+
+export type ActionImport = {
+  /** Importing file, relative to the scanned root. */
+  file: string
+  line: number
+  column: number
+}
+
+export type ServerAction = SourceLocation & {
+  /**
+   * Exported name (`default` for a default export) or, for inline actions
+   * that are not exported, the function or variable name.
+   */
+  name: string
+  scope: ServerActionScope
+  /** Whether other modules can import the action. */
+  exported: boolean
+  /** Component or function an inline action is declared in. */
+  parent?: string
+  doc?: DocComment
+  /**
+   * Files that import the action, directly or through a re-export of its
+   * module. Always empty for actions that are not exported.
+   */
+  importedBy: ActionImport[]
+  /** Monorepo app (package name) the action belongs to. */
+  app?: string
+}
+
+export type ServerActionsOptions = ScanOptions & {
+  /**
+   * Reuse a scan session. Its walk should not be narrowed by `appDirs`, or
+   * action modules outside the app directories are missed.
+   */
+  session?: ScanSession
+}
+
+type ActionModule = {
+  /** Exported name → action, for matching import specifiers. */
+  exports: Map<string, ServerAction>
+}
+
+const SCRIPT_EXTENSIONS = new Set([
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+])
+const DIRECTIVE = 'use server'
+
+/**
+ * Find Server Actions: every export of a `'use server'` module and every
+ * function that opts in with its own `'use server'` directive. Each action
+ * lists the files that import it; imports are resolved relative to the
+ * importer or through the `paths` of the nearest `tsconfig.json`.
+ */
+export async function getServerActions(
+  targetDirectory: string | null,
+  options: ServerActionsOptions = {},
+): Promise<ServerAction[]> {
+  const session =
+    options.session ??
+    // Actions usually live outside `app`, e.g. in `lib/actions.ts`
+    createScanSession(
+      await ensureDirectory(resolveTargetDirectory(targetDirectory)),
+      { ...options, appDirs: undefined },
+    )
+  const { root } = session
+  const files = await listScriptFiles(session, options.apps)
+  const sources = new Map<string, string>()
+  await Promise.all(
+    files.map(async (file) => {
+      sources.set(file, await fs.readFile(file, 'utf8'))
+    }),
+  )
+
+  const actions: ServerAction[] = []
+  const modules = new Map<string, ActionModule>()
+  const workspace = await session.workspace()
+
+  for (const file of files) {
+    if (!sources.get(file)?.includes(DIRECTIVE)) continue
+    const sourceFile = await parseSourceFile(file)
+    const owner = workspace && findOwningPackage(workspace, file)
+    const app = owner ? { app: owner.name } : {}
+
+    const found = hasDirective(sourceFile.statements)
+      ? await collectModuleActions(root, file)
+      : collectInlineActions(root, sourceFile)
+    if (!found.length) continue
+
+    const module: ActionModule = { exports: new Map() }
+    for (const { action, exportName } of found) {
+      Object.assign(action, app)
+      actions.push(action)
+      if (exportName) module.exports.set(exportName, action)
+    }
+    if (module.exports.size) modules.set(file, module)
+  }
+
+  if (modules.size) {
+    await linkImporters(session, files, sources, modules)
+  }
+
+  actions.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column,
+  )
+  return actions
+}
+
+/**
+ * Whether a directive prologue (leading string statements) contains
+ * `'use server'`.
+ */
+function hasDirective(statements: ts.NodeArray<ts.Statement>): boolean {
+  for (const statement of statements) {
+    if (
+      !ts.isExpressionStatement(statement) ||
+      !ts.isStringLiteral(statement.expression)
+    ) {
+      return false
+    }
+    if (statement.expression.text === DIRECTIVE) return true
+  }
+  return false
+}
+
+async function listScriptFiles(
+  session: ScanSession,
+  apps: string[] | undefined,
+): Promise<string[]> {
+  const { directories } = await session.files()
+  // `files()` only filters route and page files by app
+  let isSelected = (_file: string) => true
+  if (apps?.length) {
+    const workspace = await session.workspace()
+    if (!workspace) {
+      throw new Error(
+        `Cannot filter by app: ${session.root} is not in a monorepo`,
+      )
+    }
+    const selected = new Set(
+      selectPackages(workspace, apps).map((pkg) => pkg.directory),
+    )
+    isSelected = (file) => {
+      const owner = findOwningPackage(workspace, file)
+      return owner !== null && selected.has(owner.directory)
+    }
+  }
+
+  const files: string[] = []
+  for (const [directory, names] of directories) {
+    for (const name of names) {
+      if (!SCRIPT_EXTENSIONS.has(path.extname(name))) continue
+      if (name.endsWith('.d.ts')) continue
+      const file = path.join(directory, name)
+      if (isSelected(file)) files.push(file)
+    }
+  }
+  return files.sort()
+}
+
+async function collectModuleActions(
+  root: string,
+  file: string,
+): Promise<Array<{ action: ServerAction; exportName: string }>> {
+  const exports = await collectModuleExports(file)
+  return [...exports].map(([name, binding]) => {
+    const doc = readDocComment(binding.node)
+    return {
+      exportName: name,
+      action: {
+        name,
+        scope: 'module',
+        exported: true,
+        file: normalizeRelative(root, binding.file),
+        line: binding.line,
+        column: binding.column,
+        endLine: binding.endLine,
+        endColumn: binding.endColumn,
+        ...(doc ? { doc } : {}),
+        importedBy: [],
+      },
+    }
+  })
+}
+
+function collectInlineActions(
+  root: string,
+  sourceFile: ts.SourceFile,
+): Array<{ action: ServerAction; exportName?: string }> {
+  const found: Array<{ action: ServerAction; exportName?: string }> = []
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isFunctionLike(node) &&
+      'body' in node &&
+      node.body &&
+      ts.isBlock(node.body) &&
+      hasDirective(node.body.statements)
+    ) {
+      const declaration = declarationOf(node)
+      const exportName = exportNameOf(declaration)
+      const parent = enclosingFunctionName(node)
+      const doc = readDocComment(declaration)
+      const location = locate(declaration, sourceFile)
+      found.push({
+        exportName,
+        action: {
+          name: exportName ?? functionName(node) ?? 'anonymous',
+          scope: 'inline',
+          exported: exportName !== undefined,
+          ...location,
+          file: normalizeRelative(root, location.file),
+          ...(parent ? { parent } : {}),
+          ...(doc ? { doc } : {}),
+          importedBy: [],
+        },
+      })
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return found
+}
+
+// `const save = async () => { 'use server' }` is documented and exported on
+// its variable statement, not on the arrow function
+function declarationOf(node: ts.Node): ts.Node {
+  const { parent } = node
+  if (
+    ts.isVariableDeclaration(parent) &&
+    ts.isVariableDeclarationList(parent.parent) &&
+    ts.isVariableStatement(parent.parent.parent)
+  ) {
+    return parent.parent.parent
+  }
+  return node
+}
+
+function exportNameOf(declaration: ts.Node): string | undefined {
+  if (!ts.isSourceFile(declaration.parent)) return undefined
+  const modifiers = ts.canHaveModifiers(declaration)
+    ? ts.getModifiers(declaration)
+    : undefined
+  if (!modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+    return undefined
+  }
+  if (modifiers.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)) {
+    return 'default'
+  }
+  if (ts.isFunctionDeclaration(declaration)) return declaration.name?.text
+  if (ts.isVariableStatement(declaration)) {
+    const [variable] = declaration.declarationList.declarations
+    return ts.isIdentifier(variable.name) ? variable.name.text : undefined
+  }
+  return undefined
+}
+
+function functionName(node: ts.Node): string | undefined {
+  if (
+    (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node)) &&
+    node.name
+  ) {
+    return node.name.text
+  }
+  if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name)) {
+    return node.name.text
+  }
+  const { parent } = node
+  if (
+    (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent)) &&
+    ts.isIdentifier(parent.name)
+  ) {
+    return parent.name.text
+  }
+  // `<form action={async () => { 'use server' }}>` is named after its prop
+  if (ts.isJsxExpression(parent) && ts.isJsxAttribute(parent.parent)) {
+    return parent.parent.name.getText()
+  }
+  return undefined
+}
+
+function enclosingFunctionName(node: ts.Node): string | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isFunctionLike(current)) {
+      const name = functionName(current)
+      if (name) return name
+    }
+  }
+  return undefined
+}
+
+/**
+ * Record every import of an action module on the imported actions. Only files
+ * that mention a module's file or directory name are parsed.
+ */
+async function linkImporters(
+  session: ScanSession,
+  files: string[],
+  sources: Map<string, string>,
+  modules: Map<string, ActionModule>,
+) {
+  const stems = new Set(
+    [...modules.keys()].map((file) => {
+      const stem = path.basename(file, path.extname(file))
+      return stem === 'index' ? path.basename(path.dirname(file)) : stem
+    }),
+  )
+  const resolve = await createModuleResolver(session)
+
+  for (const file of files) {
+    const source = sources.get(file)
+    if (!source || ![...stems].some((stem) => source.includes(stem))) continue
+
+    const sourceFile = await parseSourceFile(file)
+    for (const reference of readModuleImports(sourceFile)) {
+      const target = await resolve(file, reference.specifier)
+      const module = target ? modules.get(target) : undefined
+      if (!module || target === file) continue
+
+      const importer = normalizeRelative(session.root, file)
+      const { line, column } = reference
+      const actions =
+        reference.names === '*'
+          ? [...module.exports.values()]
+          : reference.names.flatMap((name) => module.exports.get(name) ?? [])
+      for (const action of actions) {
+        if (action.importedBy.some((entry) => entry.file === importer)) {
+          continue
+        }
+        action.importedBy.push({ file: importer, line, column })
+      }
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import readline from 'readline'
+
+import { getApiRoutes } from '../api-routes'
+import {
+  addHttpMethod,
+  createErrorFile,
+  createLoadingFile,
+  removeHttpMethod,
+  type ScaffoldTemplates,
+} from '../inspector/file-operations'
+import { openInIDE } from '../inspector/ide'
+import { getPageRoutes } from '../page-routes'
+import { createScanSession, type ScanOptions } from '../scanner'
+import { renderScreen, type TuiPreview } from './render'
+import {
+  createTuiState,
+  entryLocation,
+  entryPath,
+  handleKey,
+  replaceEntries,
+  selectedEntry,
+  type TuiAction,
+  type TuiEntry,
+  type TuiKey,
+  type TuiMessage,
+  type TuiState,
+} from './state'
+
+export type TuiOptions = {
+  root: string
+  scanOptions?: ScanOptions
+  /** Only list API routes under this URL prefix, as in `api:list`. */
+  routePrefix?: string
+  /** Contents for created `loading`, `error` and handler code. */
+  templates?: ScaffoldTemplates
+  input?: NodeJS.ReadStream
+  output?: NodeJS.WriteStream
+}
+
+const ENTER_SCREEN = '\u001B[?1049h\u001B[?25l'
+const LEAVE_SCREEN = '\u001B[?25h\u001B[?1049l'
+
+/**
+ * Run the full-screen explorer until the user quits. Draws on the terminal's
+ * alternate screen, so the shell scrollback is left as it was.
+ */
+export async function runTui({
+  root,
+  scanOptions,
+  routePrefix,
+  templates = {},
+  input = process.stdin,
+  output = process.stdout,
+}: TuiOptions): Promise<void> {
+  if (!input.isTTY || !output.isTTY) {
+    throw new Error('The TUI needs an interactive terminal')
+  }
+
+  let state = createTuiState(await loadEntries(root, scanOptions, routePrefix))
+  const previews = new Map<string, string[] | Promise<void>>()
+
+  const previewFor = (entry: TuiEntry | undefined): TuiPreview | undefined => {
+    if (!entry) return undefined
+    const location = entryLocation(entry)
+    const cached = previews.get(location.file)
+    if (!cached) {
+      // Read in the background and draw again once the source is in
+      previews.set(
+        location.file,
+        fs
+          .readFile(path.join(root, location.file), 'utf8')
+          .then(
+            (source) => source.split(/\r?\n/),
+            (error: Error) => [`Unable to read file: ${error.message}`],
+          )
+          .then((lines) => {
+            previews.set(location.file, lines)
+            draw()
+          }),
+      )
+      return undefined
+    }
+    if (!Array.isArray(cached)) return undefined
+
+    const marks =
+      entry.kind === 'route'
+        ? entry.route.handlers
+            .filter((handler) => handler.file === location.file)
+            .map((handler) => handler.line)
+        : location.line
+          ? [location.line]
+          : []
+    return { file: location.file, lines: cached, focus: location.line, marks }
+  }
+
+  const draw = () => {
+    const size = { columns: output.columns || 80, rows: output.rows || 24 }
+    const lines = renderScreen(state, size, previewFor(selectedEntry(state)))
+    output.write(
+      `\u001B[H${lines.map((line) => `${line}\u001B[K`).join('\r\n')}\u001B[J`,
+    )
+  }
+
+  const perform = async (action: TuiAction): Promise<TuiMessage | null> => {
+    switch (action.type) {
+      case 'open': {
+        const { file, line, column } = entryLocation(action.entry)
+        openInIDE(path.join(root, file), line, column)
+        return { text: `Opened ${file}`, tone: 'info' }
+      }
+      case 'add-method': {
+        if (action.entry.kind !== 'route') return null
+        const { file } = action.entry.route
+        await addHttpMethod(
+          path.join(root, file),
+          action.method,
+          templates.handler,
+        )
+        await reload()
+        return { text: `Added ${action.method} to ${file}`, tone: 'info' }
+      }
+      case 'remove-method': {
+        if (action.entry.kind !== 'route') return null
+        const { file } = action.entry.route
+        await removeHttpMethod(path.join(root, file), action.method)
+        await reload()
+        return { text: `Removed ${action.method} from ${file}`, tone: 'info' }
+      }
+      case 'create-loading':
+      case 'create-error': {
+        if (action.entry.kind !== 'page') return null
+        const pagePath = path.join(root, action.entry.page.file)
+        const created =
+          action.type === 'create-loading'
+            ? await createLoadingFile(pagePath, templates.loading)
+            : await createErrorFile(pagePath, templates.error)
+        await reload()
+        return { text: `Created ${path.relative(root, created)}`, tone: 'info' }
+      }
+      case 'reload':
+        await reload()
+        return {
+          text: `Rescanned ${state.entries.length} pages and routes`,
+          tone: 'info',
+        }
+      default:
+        return null
+    }
+  }
+
+  const reload = async () => {
+    previews.clear()
+    state = replaceEntries(
+      state,
+      await loadEntries(root, scanOptions, routePrefix),
+    )
+  }
+
+  return new Promise<void>((resolve) => {
+    // Keys are handled one at a time so file edits never overlap
+    let queue = Promise.resolve()
+
+    const onKeypress = (sequence: string | undefined, key?: TuiKey) => {
+      queue = queue.then(async () => {
+        const result = handleKey(state, key ?? { sequence })
+        state = result.state
+        if (result.action?.type === 'quit') {
+          close()
+          return
+        }
+        if (result.action) {
+          try {
+            const message = await perform(result.action)
+            if (message) state = { ...state, message }
+          } catch (error) {
+            state = {
+              ...state,
+              message: { text: (error as Error).message, tone: 'error' },
+            }
+          }
+        }
+        draw()
+      })
+    }
+
+    const close = () => {
+      input.off('keypress', onKeypress)
+      output.off('resize', draw)
+      input.setRawMode(false)
+      input.pause()
+      output.write(LEAVE_SCREEN)
+      resolve()
+    }
+
+    readline.emitKeypressEvents(input)
+    input.setRawMode(true)
+    input.resume()
+    input.on('keypress', onKeypress)
+    output.on('resize', draw)
+    output.write(ENTER_SCREEN)
+    draw()
+  })
+}
+
+/**
+ * Pages and API routes ordered by URL, pages before routes on the same URL.
+ */
+async function loadEntries(
+  root: string,
+  scanOptions: ScanOptions | undefined,
+  routePrefix: string | undefined,
+): Promise<TuiEntry[]> {
+  const session = createScanSession(root, scanOptions)
+  const [pages, routes] = await Promise.all([
+    getPageRoutes(session.root, { session }),
+    getApiRoutes(session.root, undefined, { session, routePrefix }),
+  ])
+  const entries: TuiEntry[] = [
+    ...pages.map((page) => ({ kind: 'page' as const, page })),
+    ...routes.map((route) => ({ kind: 'route' as const, route })),
+  ]
+  return entries.sort((a, b) => entryPath(a).localeCompare(entryPath(b)))
+}
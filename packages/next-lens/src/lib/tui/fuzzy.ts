@@ -0,0 +1,51 @@
+/**
+ * Score how well `query` matches `text` as a case-insensitive subsequence,
+ * e.g. `ausr` matches `/api/users/:id`. Consecutive characters and matches
+ * at the start of a segment (after `/`, `-`, `.`, `:` or `[`) score higher.
+ * Returns null when some query character is missing.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '')
+  if (!needle) return 0
+  const haystack = text.toLowerCase()
+
+  let score = 0
+  let position = -1
+  let streak = 0
+  for (const character of needle) {
+    const found = haystack.indexOf(character, position + 1)
+    if (found === -1) return null
+
+    streak = found === position + 1 ? streak + 1 : 0
+    score += 1 + streak * 2
+    if (found === 0 || /[/\-.:[_]/.test(haystack[found - 1])) score += 3
+    position = found
+  }
+
+  // Prefer shorter texts among equally good matches
+  return score - haystack.length / 100
+}
+
+/**
+ * Items matching `query`, best match first. Ties keep their original order.
+ */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  toText: (item: T) => string,
+): T[] {
+  if (!query.trim()) return items
+
+  return items
+    .map((item, index) => ({
+      item,
+      index,
+      score: fuzzyScore(query, toText(item)),
+    }))
+    .filter(
+      (match): match is { item: T; index: number; score: number } =>
+        match.score !== null,
+    )
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((match) => match.item)
+}
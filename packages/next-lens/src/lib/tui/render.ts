@@ -0,0 +1,186 @@
+import chalk from 'chalk'
+import {
+  highlightDynamicSegments,
+  METHOD_COLORS,
+  padEndAnsi,
+  truncateAnsi,
+  visibleLength,
+} from '../format'
+import {
+  entryFile,
+  entryPath,
+  selectedEntry,
+  type TuiEntry,
+  type TuiState,
+} from './state'
+
+/**
+ * Source shown in the preview pane. `focus` is the 1-based line to center on
+ * and `marks` are lines to flag, e.g. where each handler starts.
+ */
+export type TuiPreview = {
+  file: string
+  lines: string[]
+  focus?: number
+  marks?: number[]
+}
+
+export type TuiSize = { columns: number; rows: number }
+
+const KEY_HINTS: Record<TuiState['mode'], string> = {
+  browse:
+    '↑↓ move  / search  ⏎ open  a/d add/remove method  l/e loading/error  r rescan  q quit',
+  search: 'type to filter  ↑↓ move  ⏎ done  esc clear',
+  'add-method': '⏎ add  esc cancel',
+  'remove-method': '⏎ remove  esc cancel',
+}
+
+const primary = chalk.cyanBright
+const accent = chalk.green
+const subtle = chalk.dim
+
+/**
+ * Draw a full frame: a header with the query, the entry list next to a
+ * source preview, and a footer with key hints, prompts or messages. Returns
+ * one string per terminal row.
+ */
+export function renderScreen(
+  state: TuiState,
+  size: TuiSize,
+  preview?: TuiPreview,
+): string[] {
+  const { columns, rows } = size
+  const bodyHeight = Math.max(rows - 4, 1)
+  const listWidth = Math.max(Math.min(Math.floor(columns * 0.45), 64), 20)
+  const previewWidth = Math.max(columns - listWidth - 3, 0)
+
+  const list = renderList(state, listWidth, bodyHeight)
+  const source = renderPreview(preview, previewWidth, bodyHeight)
+  const body = Array.from(
+    { length: bodyHeight },
+    (_, index) =>
+      `${padEndAnsi(list[index] ?? '', listWidth)} ${subtle('│')} ${source[index] ?? ''}`,
+  )
+
+  return [
+    renderHeader(state, columns),
+    subtle('─'.repeat(columns)),
+    ...body,
+    subtle('─'.repeat(columns)),
+    renderFooter(state, columns),
+  ]
+}
+
+function renderHeader(state: TuiState, columns: number): string {
+  const routes = state.entries.filter((entry) => entry.kind === 'route').length
+  const pages = state.entries.length - routes
+  const counts = subtle(
+    `${state.matches.length}/${state.entries.length} · ${pages} page${pages === 1 ? '' : 's'} · ${routes} route${routes === 1 ? '' : 's'}`,
+  )
+  const search =
+    state.mode === 'search'
+      ? `${accent('/')} ${state.query}${chalk.inverse(' ')}`
+      : state.query
+        ? `${accent('/')} ${state.query}`
+        : subtle('press / to search')
+
+  const title = `${chalk.bold(primary('next-lens'))}  ${search}`
+  const gap = columns - visibleLength(title) - visibleLength(counts)
+  return gap > 0
+    ? `${title}${' '.repeat(gap)}${counts}`
+    : truncateAnsi(title, columns)
+}
+
+function renderList(state: TuiState, width: number, height: number): string[] {
+  if (!state.matches.length) {
+    return [
+      subtle(
+        state.entries.length ? ' No matches' : ' No pages or routes found',
+      ),
+    ]
+  }
+
+  // Keep the selection in view, roughly centered
+  const start = Math.max(
+    0,
+    Math.min(
+      state.selected - Math.floor(height / 2),
+      state.matches.length - height,
+    ),
+  )
+  return state.matches
+    .slice(start, start + height)
+    .map((entry, offset) =>
+      formatEntry(entry, width, start + offset === state.selected),
+    )
+}
+
+function formatEntry(
+  entry: TuiEntry,
+  width: number,
+  selected: boolean,
+): string {
+  const tag = entry.kind === 'route' ? chalk.blueBright('API ') : accent('PAGE')
+  const suffix =
+    entry.kind === 'route'
+      ? entry.route.methods
+          .map((method) => (METHOD_COLORS[method] ?? chalk.white)(method))
+          .join(' ')
+      : subtle(entry.page.rendering.mode)
+
+  // Long paths are cut before the methods so both stay visible
+  const room = width - 8 - visibleLength(suffix)
+  const routePath = entryPath(entry)
+  const label =
+    routePath.length > room
+      ? `${routePath.slice(0, Math.max(room - 1, 0))}…`
+      : routePath
+  const line = ` ${selected ? '›' : ' '} ${tag} ${highlightDynamicSegments(label)} ${suffix}`
+  return selected
+    ? chalk.inverse(padEndAnsi(truncateAnsi(line, width), width))
+    : truncateAnsi(line, width)
+}
+
+function renderPreview(
+  preview: TuiPreview | undefined,
+  width: number,
+  height: number,
+): string[] {
+  if (!width) return []
+  if (!preview) return [subtle('Loading source…')]
+
+  const { lines, focus = 1, marks = [] } = preview
+  const codeHeight = height - 1
+  const start = Math.max(0, Math.min(focus - 3, lines.length - codeHeight))
+  const gutter = String(Math.min(start + codeHeight, lines.length)).length
+
+  return [
+    truncateAnsi(chalk.gray(preview.file), width),
+    ...lines.slice(start, start + codeHeight).map((line, offset) => {
+      const number = start + offset + 1
+      const marked = marks.includes(number)
+      const prefix = `${marked ? accent('›') : ' '}${subtle(String(number).padStart(gutter))} ${subtle('│')} `
+      const code = line.replace(/\t/g, '  ')
+      return truncateAnsi(`${prefix}${code}`, width)
+    }),
+  ]
+}
+
+function renderFooter(state: TuiState, columns: number): string {
+  const entry = selectedEntry(state)
+  if (state.mode === 'add-method' || state.mode === 'remove-method') {
+    const current =
+      entry?.kind === 'route' ? ` (${entry.route.methods.join(', ')})` : ''
+    const verb = state.mode === 'add-method' ? 'Add' : 'Remove'
+    return truncateAnsi(
+      `${accent(`${verb} HTTP method${current}:`)} ${state.input}${chalk.inverse(' ')}`,
+      columns,
+    )
+  }
+  if (state.message) {
+    const paint = state.message.tone === 'error' ? chalk.redBright : accent
+    return truncateAnsi(paint(state.message.text), columns)
+  }
+  const location = entry ? `${chalk.gray(entryFile(entry))}  ` : ''
+  return truncateAnsi(`${location}${subtle(KEY_HINTS[state.mode])}`, columns)
+}
@@ -0,0 +1,311 @@
+import { HTTP_METHODS, type RouteInfo } from '../api-routes'
+import type { PageInfo } from '../page-routes'
+import { fuzzyFilter } from './fuzzy'
+
+export type TuiEntry =
+  | { kind: 'route'; route: RouteInfo }
+  | { kind: 'page'; page: PageInfo }
+
+/**
+ * `search` edits the fuzzy query; the method modes prompt for the HTTP
+ * method to add to or remove from the selected route.
+ */
+export type TuiMode = 'browse' | 'search' | 'add-method' | 'remove-method'
+
+export type TuiMessage = { text: string; tone: 'info' | 'error' }
+
+export type TuiState = {
+  entries: TuiEntry[]
+  query: string
+  /** Entries matching the query, best match first. */
+  matches: TuiEntry[]
+  selected: number
+  mode: TuiMode
+  /** Text typed at a method prompt. */
+  input: string
+  message?: TuiMessage
+}
+
+/**
+ * Side effect requested by a key press, carried out by the TUI loop.
+ */
+export type TuiAction =
+  | { type: 'open'; entry: TuiEntry }
+  | { type: 'add-method'; entry: TuiEntry; method: string }
+  | { type: 'remove-method'; entry: TuiEntry; method: string }
+  | { type: 'create-loading'; entry: TuiEntry }
+  | { type: 'create-error'; entry: TuiEntry }
+  | { type: 'reload' }
+  | { type: 'quit' }
+
+/**
+ * Key press as reported by `readline.emitKeypressEvents`.
+ */
+export type TuiKey = {
+  name?: string
+  sequence?: string
+  ctrl?: boolean
+  meta?: boolean
+}
+
+/** Rows moved by Page Up and Page Down. */
+const PAGE_SIZE = 10
+
+export function createTuiState(entries: TuiEntry[]): TuiState {
+  return {
+    entries,
+    query: '',
+    matches: entries,
+    selected: 0,
+    mode: 'browse',
+    input: '',
+  }
+}
+
+/**
+ * Swap in a fresh scan, keeping the selection on the same file when it still
+ * exists.
+ */
+export function replaceEntries(state: TuiState, entries: TuiEntry[]): TuiState {
+  const current = state.matches[state.selected]
+  const matches = filterEntries(entries, state.query)
+  const kept = current
+    ? matches.findIndex(
+        (entry) =>
+          entryFile(entry) === entryFile(current) &&
+          entryPath(entry) === entryPath(current),
+      )
+    : -1
+  return {
+    ...state,
+    entries,
+    matches,
+    selected: kept === -1 ? clamp(state.selected, matches) : kept,
+  }
+}
+
+export function selectedEntry(state: TuiState): TuiEntry | undefined {
+  return state.matches[state.selected]
+}
+
+export function entryPath(entry: TuiEntry): string {
+  return entry.kind === 'route' ? entry.route.path : entry.page.path
+}
+
+export function entryFile(entry: TuiEntry): string {
+  return entry.kind === 'route' ? entry.route.file : entry.page.file
+}
+
+/**
+ * Where to open or preview an entry: the first handler of a route, the
+ * component of a page. Relative to the scanned root.
+ */
+export function entryLocation(entry: TuiEntry): {
+  file: string
+  line?: number
+  column?: number
+} {
+  if (entry.kind === 'route') {
+    const [handler] = entry.route.handlers
+    return handler
+      ? { file: handler.file, line: handler.line, column: handler.column }
+      : { file: entry.route.file }
+  }
+  const component = entry.page.defaultExport
+  return component
+    ? { file: component.file, line: component.line, column: component.column }
+    : { file: entry.page.file }
+}
+
+/**
+ * Apply a key press. Returns the next state and, for keys that change files
+ * or leave the TUI, the action to carry out.
+ */
+export function handleKey(
+  state: TuiState,
+  key: TuiKey,
+): { state: TuiState; action?: TuiAction } {
+  if (key.ctrl && key.name === 'c') return { state, action: { type: 'quit' } }
+  const cleared = { ...state, message: undefined }
+
+  switch (state.mode) {
+    case 'search':
+      return { state: handleSearchKey(cleared, key) }
+    case 'add-method':
+    case 'remove-method':
+      return handlePromptKey(cleared, key)
+    default:
+      return handleBrowseKey(cleared, key)
+  }
+}
+
+function handleBrowseKey(
+  state: TuiState,
+  key: TuiKey,
+): { state: TuiState; action?: TuiAction } {
+  const entry = selectedEntry(state)
+  const moved = moveSelection(state, key)
+  if (moved) return { state: moved }
+
+  switch (key.name ?? key.sequence) {
+    case 'q':
+      return { state, action: { type: 'quit' } }
+    case '/':
+      return { state: { ...state, mode: 'search' } }
+    case 'escape':
+      return { state: setQuery(state, '') }
+    case 'r':
+      return { state, action: { type: 'reload' } }
+    case 'return':
+    case 'o':
+      return entry ? { state, action: { type: 'open', entry } } : { state }
+    case 'a':
+    case 'd':
+      // Pages Router handlers are a single default export, not one per method
+      if (entry?.kind !== 'route' || entry.route.router !== 'app') {
+        return {
+          state: notice(state, 'Select an App Router route to edit methods'),
+        }
+      }
+      return {
+        state: {
+          ...state,
+          mode: key.name === 'a' ? 'add-method' : 'remove-method',
+          input: '',
+        },
+      }
+    case 'l':
+    case 'e':
+      if (entry?.kind !== 'page' || entry.page.router !== 'app') {
+        return {
+          state: notice(state, 'Select an App Router page to add fallbacks'),
+        }
+      }
+      return {
+        state,
+        action: {
+          type: key.name === 'l' ? 'create-loading' : 'create-error',
+          entry,
+        },
+      }
+    default:
+      return { state }
+  }
+}
+
+function handleSearchKey(state: TuiState, key: TuiKey): TuiState {
+  const moved = moveSelection(state, key)
+  if (moved) return moved
+
+  switch (key.name) {
+    case 'escape':
+      return { ...setQuery(state, ''), mode: 'browse' }
+    case 'return':
+      return { ...state, mode: 'browse' }
+    case 'backspace':
+      return setQuery(state, state.query.slice(0, -1))
+    default:
+      return isPrintable(key)
+        ? setQuery(state, state.query + key.sequence)
+        : state
+  }
+}
+
+function handlePromptKey(
+  state: TuiState,
+  key: TuiKey,
+): { state: TuiState; action?: TuiAction } {
+  switch (key.name) {
+    case 'escape':
+      return { state: { ...state, mode: 'browse', input: '' } }
+    case 'backspace':
+      return { state: { ...state, input: state.input.slice(0, -1) } }
+    case 'return': {
+      const method = state.input.trim().toUpperCase()
+      const entry = selectedEntry(state)
+      const next = { ...state, mode: 'browse' as const, input: '' }
+      if (!method || !entry) return { state: next }
+      if (!HTTP_METHODS.has(method)) {
+        return {
+          state: notice(next, `Invalid HTTP method: ${method}`, 'error'),
+        }
+      }
+      return {
+        state: next,
+        action: {
+          type: state.mode as 'add-method' | 'remove-method',
+          entry,
+          method,
+        },
+      }
+    }
+    default:
+      return {
+        state: isPrintable(key)
+          ? { ...state, input: state.input + key.sequence }
+          : state,
+      }
+  }
+}
+
+// Arrow keys move in every mode; vim keys only while browsing
+function moveSelection(state: TuiState, key: TuiKey): TuiState | null {
+  const browsing = state.mode === 'browse'
+  const last = state.matches.length - 1
+  let selected: number
+  if (key.name === 'up' || (browsing && key.name === 'k')) {
+    selected = state.selected - 1
+  } else if (key.name === 'down' || (browsing && key.name === 'j')) {
+    selected = state.selected + 1
+  } else if (key.name === 'pageup') {
+    selected = state.selected - PAGE_SIZE
+  } else if (key.name === 'pagedown') {
+    selected = state.selected + PAGE_SIZE
+  } else if (key.name === 'home' || (browsing && key.sequence === 'g')) {
+    selected = 0
+  } else if (key.name === 'end' || (browsing && key.sequence === 'G')) {
+    selected = last
+  } else {
+    return null
+  }
+  return { ...state, selected: Math.max(0, Math.min(selected, last)) }
+}
+
+function setQuery(state: TuiState, query: string): TuiState {
+  return {
+    ...state,
+    query,
+    matches: filterEntries(state.entries, query),
+    selected: 0,
+  }
+}
+
+function filterEntries(entries: TuiEntry[], query: string): TuiEntry[] {
+  return fuzzyFilter(
+    entries,
+    query,
+    (entry) => `${entryPath(entry)} ${entryFile(entry)}`,
+  )
+}
+
+function notice(
+  state: TuiState,
+  text: string,
+  tone: TuiMessage['tone'] = 'info',
+): TuiState {
+  return { ...state, message: { text, tone } }
+}
+
+function isPrintable(key: TuiKey): key is TuiKey & { sequence: string } {
+  return (
+    !key.ctrl &&
+    !key.meta &&
+    key.sequence?.length === 1 &&
+    key.sequence >= ' ' &&
+    key.sequence !== '\x7f'
+  )
+}
+
+function clamp(index: number, matches: TuiEntry[]): number {
+  return Math.max(0, Math.min(index, matches.length - 1))
+}
@@ -13,6 +13,7 @@ export const SKIP_DIRECTORIES = new Set([
   '.vercel',
   'out',
   'coverage',
+  '.next-lens',
 ])
 
 export function resolveTargetDirectory(target: string | null): string {
@@ -62,3 +63,24 @@ export function transformSegment(segment: string): string {
 
   return segment
 }
+
+/**
+ * Whether a route path is `prefix` itself or nested below it, so `/api`
+ * matches `/api/users` but not `/apis`.
+ */
+export function matchesRoutePrefix(
+  routePath: string,
+  prefix: string | undefined,
+): boolean {
+  if (!prefix) return true
+  const normalized = '/' + prefix.replace(/^\/+|\/+$/g, '')
+  if (normalized === '/') return true
+  return routePath === normalized || routePath.startsWith(`${normalized}/`)
+}
+
+/**
+ * `filePath` relative to `root` with forward slashes, as reported in output.
+ */
+export function normalizeRelative(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/')
+}
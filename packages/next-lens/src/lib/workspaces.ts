@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import picomatch from 'picomatch'
+import { parse as parseYaml } from 'yaml'
+import {
+  readManifest,
+  resolveInstalledVersion,
+  type PackageJson,
+} from './package-json'
+import { SKIP_DIRECTORIES } from './utils'
+
+export type WorkspacePackage = {
+  /** The `name` from package.json, or the directory name without one. */
+  name: string
+  /** Absolute package directory. */
+  directory: string
+  nextVersion: string
+}
+
+export type Workspace = {
+  root: string
+  /** How the workspace was declared. */
+  source: 'pnpm' | 'package.json' | 'turbo'
+  /** Packages that depend on `next`, sorted by name. */
+  packages: WorkspacePackage[]
+}
+
+type WorkspaceManifest = PackageJson & {
+  workspaces?: string[] | { packages?: string[] }
+}
+
+const PNPM_WORKSPACE_FILE = 'pnpm-workspace.yaml'
+const TURBO_FILE = 'turbo.json'
+// turbo.json lists no packages; these are the directories its starters use
+const TURBO_DEFAULT_PATTERNS = ['apps/*', 'packages/*']
+
+/**
+ * Find the monorepo that contains `directory`, walking up until a
+ * `pnpm-workspace.yaml`, a package.json `workspaces` field or a `turbo.json`
+ * is found. Returns null outside a monorepo.
+ */
+export async function findWorkspace(
+  directory: string,
+): Promise<Workspace | null> {
+  let current = path.resolve(directory)
+
+  while (true) {
+    const declared = await readWorkspacePatterns(current)
+    if (declared) {
+      return {
+        root: current,
+        source: declared.source,
+        packages: await collectNextPackages(current, declared.patterns),
+      }
+    }
+
+    const parent = path.dirname(current)
+    if (parent === current) return null
+    current = parent
+  }
+}
+
+/**
+ * The package a file belongs to: the deepest package directory containing
+ * it.
+ */
+export function findOwningPackage(
+  workspace: Workspace,
+  filePath: string,
+): WorkspacePackage | null {
+  let owner: WorkspacePackage | null = null
+
+  for (const pkg of workspace.packages) {
+    const relative = path.relative(pkg.directory, filePath)
+    if (relative.startsWith('..') || path.isAbsolute(relative)) continue
+    if (!owner || pkg.directory.length > owner.directory.length) owner = pkg
+  }
+
+  return owner
+}
+
+/**
+ * Resolve `--app` values to packages. Each value matches a package name or
+ * the name of its directory.
+ */
+export function selectPackages(
+  workspace: Workspace,
+  names: string[],
+): WorkspacePackage[] {
+  return names.map((name) => {
+    const match = workspace.packages.find(
+      (pkg) => pkg.name === name || path.basename(pkg.directory) === name,
+    )
+    if (!match) {
+      const available = workspace.packages.map((pkg) => pkg.name)
+      throw new Error(
+        `Unknown app: ${name}. Available apps: ${available.join(', ') || 'none'}`,
+      )
+    }
+    return match
+  })
+}
+
+async function readWorkspacePatterns(
+  directory: string,
+): Promise<{ source: Workspace['source']; patterns: string[] } | null> {
+  const pnpmWorkspace = await readOptionalFile(
+    path.join(directory, PNPM_WORKSPACE_FILE),
+  )
+  if (pnpmWorkspace !== null) {
+    const parsed = parseYaml(pnpmWorkspace) as { packages?: string[] } | null
+    return { source: 'pnpm', patterns: parsed?.packages ?? [] }
+  }
+
+  const manifest = (await readManifest(directory)) as WorkspaceManifest | null
+  const workspaces = Array.isArray(manifest?.workspaces)
+    ? manifest.workspaces
+    : manifest?.workspaces?.packages
+  if (workspaces) return { source: 'package.json', patterns: workspaces }
+
+  if ((await readOptionalFile(path.join(directory, TURBO_FILE))) !== null) {
+    return { source: 'turbo', patterns: TURBO_DEFAULT_PATTERNS }
+  }
+
+  return null
+}
+
+/**
+ * Expand workspace globs to the packages that depend on `next`. Patterns
+ * starting with `!` exclude directories.
+ */
+async function collectNextPackages(
+  root: string,
+  patterns: string[],
+): Promise<WorkspacePackage[]> {
+  const normalize = (pattern: string) =>
+    pattern.replace(/^\.\//, '').replace(/\/+$/, '')
+  const included = patterns
+    .filter((pattern) => !pattern.startsWith('!'))
+    .map(normalize)
+  const excluded = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => normalize(pattern.slice(1)))
+  if (!included.length) return []
+
+  const isIncluded = picomatch(included)
+  const isExcluded = excluded.length ? picomatch(excluded) : () => false
+  // Without `**` no package sits deeper than the longest pattern
+  const maxDepth = included.some((pattern) => pattern.includes('**'))
+    ? Infinity
+    : Math.max(...included.map((pattern) => pattern.split('/').length))
+
+  const packages: WorkspacePackage[] = []
+
+  async function walk(current: string, depth: number) {
+    const relative = path.relative(root, current).split(path.sep).join('/')
+
+    if (relative && isIncluded(relative) && !isExcluded(relative)) {
+      const manifest = await readManifest(current)
+      const nextVersion =
+        manifest && (await resolveInstalledVersion(current, 'next', manifest))
+      if (manifest && nextVersion) {
+        packages.push({
+          name: manifest.name ?? path.basename(current),
+          directory: current,
+          nextVersion,
+        })
+      }
+    }
+
+    if (depth >= maxDepth) return
+
+    const entries = await fs.readdir(current, { withFileTypes: true })
+    for (const entry of entries) {
+      if (!entry.isDirectory() || SKIP_DIRECTORIES.has(entry.name)) continue
+      await walk(path.join(current, entry.name), depth + 1)
+    }
+  }
+
+  await walk(root, 0)
+  return packages.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8')
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code
+    if (code === 'ENOENT' || code === 'EISDIR') return null
+    throw error
+  }
+}
@@ -9,6 +9,8 @@ import {
 } from 'vitest'
 import * as apiRoutes from '../../src/lib/api-routes'
 import { fileURLToPath } from 'url'
+import { promises as fs } from 'fs'
+import os from 'os'
 import path from 'path'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
@@ -214,4 +216,108 @@ describe('api:list command', () => {
     )
     expect(exitSpy).toHaveBeenCalledWith(1)
   })
+
+  it('shows segment config and filters routes with --segment', async () => {
+    const command = await getCommand()
+    await command.parseAsync([
+      'node',
+      'test',
+      fixtureRoot,
+      '--segment',
+      'runtime=edge',
+    ])
+
+    const printed = stripAnsi(String(logSpy.mock.calls[0]?.[0] ?? ''))
+
+    expect(printed).toContain('CONFIG')
+    expect(printed).toContain('/api/optional/:segments*?')
+    expect(printed).toContain('edge')
+    expect(printed).not.toContain('/api/hello')
+  })
+
+  it('rejects unknown segment config options', async () => {
+    const command = await getCommand()
+    await command.parseAsync(['node', 'test', fixtureRoot, '-s', 'foo=bar'])
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Unknown segment config option: foo'),
+    )
+    expect(exitSpy).toHaveBeenCalledWith(1)
+  })
+
+  it('prints the selected fields as JSON with --format', async () => {
+    const command = await getCommand()
+    await command.parseAsync([
+      'node',
+      'test',
+      fixtureRoot,
+      '--format',
+      'json',
+      '--fields',
+      'path,methods',
+      '-m',
+      'DELETE',
+    ])
+
+    const printed = String(logSpy.mock.calls[0]?.[0] ?? '')
+    expect(JSON.parse(printed)).toStrictEqual([
+      { path: '/api/users/:id', methods: ['DELETE'] },
+    ])
+  })
+
+  it('rejects unknown fields', async () => {
+    const command = await getCommand()
+    await command.parseAsync(['node', 'test', fixtureRoot, '--fields', 'verb'])
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Unknown field: verb'),
+    )
+    expect(exitSpy).toHaveBeenCalledWith(1)
+  })
+
+  it('skips directories matching --exclude globs', async () => {
+    const command = await getCommand()
+    await command.parseAsync([
+      'node',
+      'test',
+      fixtureRoot,
+      '--exclude',
+      'users',
+    ])
+
+    const printed = stripAnsi(String(logSpy.mock.calls[0]?.[0] ?? ''))
+
+    expect(printed).toContain('/api/hello')
+    expect(printed).not.toContain('/api/users')
+  })
+
+  it('applies next-lens.config and lets CLI flags override it', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-cli-'))
+    try {
+      for (const name of ['users', 'seed']) {
+        await fs.mkdir(path.join(root, `app/api/${name}`), { recursive: true })
+        await fs.writeFile(
+          path.join(root, `app/api/${name}/route.ts`),
+          'export function GET() {}\n',
+        )
+      }
+      await fs.writeFile(
+        path.join(root, 'next-lens.config.json'),
+        JSON.stringify({ exclude: ['seed'] }),
+      )
+
+      const command = await getCommand()
+      await command.parseAsync(['node', 'test', root])
+      const fromConfig = stripAnsi(String(logSpy.mock.calls[0]?.[0] ?? ''))
+      expect(fromConfig).toContain('/api/users')
+      expect(fromConfig).not.toContain('/api/seed')
+
+      await command.parseAsync(['node', 'test', root, '--exclude', 'users'])
+      const fromCli = stripAnsi(String(logSpy.mock.calls[1]?.[0] ?? ''))
+      expect(fromCli).toContain('/api/seed')
+      expect(fromCli).not.toContain('/api/users')
+    } finally {
+      await fs.rm(root, { recursive: true, force: true })
+    }
+  })
 })
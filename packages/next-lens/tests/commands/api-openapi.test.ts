@@ -0,0 +1,111 @@
+import {
+  describe,
+  expect,
+  it,
+  beforeEach,
+  afterEach,
+  vi,
+  type MockInstance,
+} from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { parse } from 'yaml'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const fixtureRoot = path.join(__dirname, '..', 'fixtures', 'mock-next-app')
+
+const getCommand = async () => {
+  const { apiOpenApiCommand } = await import('../../src/commands/api-openapi')
+  return apiOpenApiCommand
+}
+
+describe('api:openapi command', () => {
+  let logSpy: ReturnType<typeof vi.spyOn>
+  let errorSpy: ReturnType<typeof vi.spyOn>
+  let writeSpy: MockInstance
+  let exitSpy: MockInstance
+
+  beforeEach(() => {
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {})
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation(() => undefined as never)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('prints a JSON document for the mock app', async () => {
+    const command = await getCommand()
+    await command.parseAsync(['node', 'test', fixtureRoot, '--no-schemas'])
+
+    const document = JSON.parse(String(writeSpy.mock.calls[0]?.[0]))
+
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.info).toStrictEqual({
+      title: 'mock-next-app',
+      version: '0.1.0',
+    })
+    expect(Object.keys(document.paths)).toStrictEqual([
+      '/api/files/{parts}',
+      '/api/hello',
+      '/api/optional',
+      '/api/optional/{segments}',
+      '/api/ping',
+      '/api/users/{id}',
+    ])
+    expect(Object.keys(document.paths['/api/users/{id}'])).toStrictEqual([
+      'get',
+      'put',
+      'patch',
+      'delete',
+    ])
+  })
+
+  it('writes YAML when the output file has a yaml extension', async () => {
+    const outputDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'next-lens-openapi-'),
+    )
+    const outputPath = path.join(outputDir, 'openapi.yaml')
+
+    try {
+      const command = await getCommand()
+      await command.parseAsync([
+        'node',
+        'test',
+        fixtureRoot,
+        '--no-schemas',
+        '--title',
+        'Mock API',
+        '--server',
+        'https://example.com',
+        '-o',
+        outputPath,
+      ])
+
+      const document = parse(await fs.readFile(outputPath, 'utf8'))
+      expect(document.info.title).toBe('Mock API')
+      expect(document.servers).toStrictEqual([{ url: 'https://example.com' }])
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Wrote 10 operations'),
+      )
+    } finally {
+      await fs.rm(outputDir, { recursive: true, force: true })
+    }
+  })
+
+  it('rejects unknown formats', async () => {
+    const command = await getCommand()
+    await command.parseAsync(['node', 'test', fixtureRoot, '-f', 'xml'])
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Invalid format: xml'),
+    )
+    expect(exitSpy).toHaveBeenCalledWith(1)
+  })
+})
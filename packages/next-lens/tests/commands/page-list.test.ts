@@ -140,4 +140,27 @@ describe('page:list command', () => {
     expect(printed).toContain('Next.js Page Route Info')
     expect(printed).toContain('ROUTE')
   })
+
+  it('prints CSV with --format csv', async () => {
+    await pageListCommand.parseAsync([
+      'node',
+      'test',
+      fixtureRoot,
+      '-f',
+      'csv',
+      '--fields',
+      'path',
+      'rendering',
+    ])
+
+    const printed = String(logSpy.mock.calls[0]?.[0] ?? '')
+    expect(printed.split('\n')).toStrictEqual([
+      'path,rendering',
+      '/,static',
+      '/account/settings,static',
+      '/blog/:slug,dynamic',
+      '/docs/:segments*,dynamic',
+      '/guide/:section*?,dynamic',
+    ])
+  })
 })
@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { afterEach, beforeEach } from 'vitest'
+
+import { clearScanCache } from '@/lib/scanner'
+
+export type TempProject = {
+  /** Directory created for the running test. */
+  readonly root: string
+  /** Write a file below the root, creating parent directories. */
+  writeFile(file: string, contents: string): Promise<void>
+}
+
+export async function writeFile(root: string, file: string, contents: string) {
+  const filePath = path.join(root, file)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, contents)
+}
+
+/**
+ * Give every test of the enclosing suite an empty temporary directory,
+ * removed after the test. Module caches are cleared first so summaries of an
+ * earlier test's files are not reused. Call it before any `beforeEach` that
+ * writes into the project.
+ */
+export function useTempProject(name: string): TempProject {
+  let root: string | undefined
+
+  beforeEach(async () => {
+    clearScanCache()
+    // Resolve symlinks such as macOS's /var → /private/var, as git does
+    root = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), `next-lens-${name}-`)),
+    )
+  })
+
+  afterEach(async () => {
+    if (root) await fs.rm(root, { recursive: true, force: true })
+    root = undefined
+  })
+
+  const project: TempProject = {
+    get root() {
+      if (!root) throw new Error('The temporary project only exists in tests')
+      return root
+    },
+    writeFile: (file, contents) => writeFile(project.root, file, contents),
+  }
+  return project
+}
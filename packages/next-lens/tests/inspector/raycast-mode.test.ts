@@ -7,6 +7,7 @@ import { createApiRouter } from '@/lib/inspector/routes'
 import { createInspectorApp } from '@/lib/inspector/server'
 import * as fileOperations from '@/lib/inspector/file-operations'
 import type { RouteInfo } from '@/lib/api-routes'
+import type { AuditIssue } from '@/lib/page-audit'
 import type { PageInfo } from '@/lib/page-routes'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
@@ -30,6 +31,11 @@ describe('createApiRouter with absolute path format', () => {
     for (const route of routes) {
       expect(path.isAbsolute(route.file)).toBe(true)
       expect(route.file.startsWith(fixtureRoot)).toBe(true)
+
+      for (const handler of route.handlers) {
+        expect(path.isAbsolute(handler.file)).toBe(true)
+        expect(handler.file.startsWith(fixtureRoot)).toBe(true)
+      }
     }
   })
 
@@ -56,6 +62,26 @@ describe('createApiRouter with absolute path format', () => {
         expect(path.isAbsolute(page.errorPath)).toBe(true)
         expect(page.errorPath.startsWith(fixtureRoot)).toBe(true)
       }
+      for (const { path: conventionPath } of Object.values(page.conventions)) {
+        if (conventionPath) expect(path.isAbsolute(conventionPath)).toBe(true)
+      }
+      if (page.defaultExport) {
+        expect(path.isAbsolute(page.defaultExport.file)).toBe(true)
+        expect(page.defaultExport.file.startsWith(fixtureRoot)).toBe(true)
+      }
+    }
+  })
+
+  it('returns absolute paths for GET /audit when pathFormatForLists is absolute', async () => {
+    const api = createApiRouter(fixtureRoot, { pathFormatForLists: 'absolute' })
+
+    const response = await api.request('/audit')
+    expect(response.status).toBe(200)
+
+    const issues = (await response.json()) as AuditIssue[]
+    expect(issues.length).toBeGreaterThan(0)
+    for (const issue of issues) {
+      expect(issue.file.startsWith(fixtureRoot)).toBe(true)
     }
   })
 
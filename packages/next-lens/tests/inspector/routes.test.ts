@@ -1,9 +1,15 @@
 import path from 'path'
+import { fileURLToPath } from 'url'
 
 import { afterEach, describe, expect, it, vi } from 'vitest'
 
+import type { RouteInfo } from '@/lib/api-routes'
 import { createApiRouter } from '@/lib/inspector/routes'
 import * as fileOperations from '@/lib/inspector/file-operations'
+import * as ide from '@/lib/inspector/ide'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const fixtureRoot = path.join(__dirname, '..', 'fixtures', 'mock-next-app')
 
 describe('inspector route path validation', () => {
   const targetDirectory = path.join(process.cwd(), 'fixtures/app')
@@ -86,4 +92,33 @@ describe('inspector route path validation', () => {
     })
     expect(createErrorSpy).toHaveBeenCalled()
   })
+
+  it('forwards line and column when opening a file', async () => {
+    const openSpy = vi.spyOn(ide, 'openInIDE').mockImplementation(() => {})
+
+    const response = await api.request('/open-file', {
+      method: 'POST',
+      headers: jsonHeaders,
+      body: JSON.stringify({ file: 'app/api/route.ts', line: 12, column: 3 }),
+    })
+
+    expect(response.status).toBe(200)
+    expect(openSpy).toHaveBeenCalledWith(
+      path.resolve(targetDirectory, 'app/api/route.ts'),
+      12,
+      3,
+    )
+  })
+})
+
+describe('inspector route listing', () => {
+  it('only lists API routes under the configured prefix', async () => {
+    const api = createApiRouter(fixtureRoot, { routePrefix: '/api/users' })
+
+    const response = await api.request('/routes')
+    expect(response.status).toBe(200)
+
+    const routes = (await response.json()) as RouteInfo[]
+    expect(routes.map((route) => route.path)).toStrictEqual(['/api/users/:id'])
+  })
 })
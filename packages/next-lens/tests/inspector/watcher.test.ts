@@ -0,0 +1,204 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { createApiRouter } from '@/lib/inspector/routes'
+import {
+  createRouteWatcher,
+  type RouteChangeEvent,
+  type RouteChangeListener,
+  type RouteWatcher,
+} from '@/lib/inspector/watcher'
+
+function nextBatch(watcher: RouteWatcher): Promise<RouteChangeEvent[]> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(
+      () => reject(new Error('No route change reported')),
+      5000,
+    )
+    const unsubscribe = watcher.subscribe((events) => {
+      clearTimeout(timeout)
+      unsubscribe()
+      resolve(events)
+    })
+  })
+}
+
+describe('createRouteWatcher', () => {
+  let root: string
+  let watcher: RouteWatcher | undefined
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-watch-'))
+    await fs.mkdir(path.join(root, 'app/api/hello'), { recursive: true })
+    await fs.writeFile(
+      path.join(root, 'app/api/hello/route.ts'),
+      'export function GET() {}\n',
+    )
+    await fs.writeFile(
+      path.join(root, 'app/page.tsx'),
+      'export default function Page() {}\n',
+    )
+  })
+
+  afterEach(async () => {
+    watcher?.close()
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('reports added routes', async () => {
+    watcher = await createRouteWatcher(root, { debounceMs: 20 })
+    const batch = nextBatch(watcher)
+
+    await fs.mkdir(path.join(root, 'app/api/users'), { recursive: true })
+    await fs.writeFile(
+      path.join(root, 'app/api/users/route.ts'),
+      'export function POST() {}\n',
+    )
+
+    expect(await batch).toStrictEqual([
+      {
+        kind: 'route',
+        type: 'added',
+        file: 'app/api/users/route.ts',
+        path: '/api/users',
+      },
+    ])
+  })
+
+  it('reports changed and removed entries', async () => {
+    watcher = await createRouteWatcher(root, { debounceMs: 20 })
+
+    const changed = nextBatch(watcher)
+    await fs.writeFile(
+      path.join(root, 'app/api/hello/route.ts'),
+      'export function GET() {}\nexport function DELETE() {}\n',
+    )
+    expect(await changed).toStrictEqual([
+      {
+        kind: 'route',
+        type: 'changed',
+        file: 'app/api/hello/route.ts',
+        path: '/api/hello',
+      },
+    ])
+
+    const removed = nextBatch(watcher)
+    await fs.rm(path.join(root, 'app/page.tsx'))
+    expect(await removed).toStrictEqual([
+      { kind: 'page', type: 'removed', file: 'app/page.tsx', path: '/' },
+    ])
+  })
+
+  it('watches app directories created after it started', async () => {
+    watcher = await createRouteWatcher(root, { debounceMs: 20 })
+    const batch = nextBatch(watcher)
+
+    await fs.mkdir(path.join(root, 'apps/admin/app/users'), {
+      recursive: true,
+    })
+    await fs.writeFile(
+      path.join(root, 'apps/admin/app/users/page.tsx'),
+      'export default function Users() {}\n',
+    )
+
+    expect(await batch).toStrictEqual([
+      {
+        kind: 'page',
+        type: 'added',
+        file: 'apps/admin/app/users/page.tsx',
+        path: '/users',
+      },
+    ])
+
+    const changed = nextBatch(watcher)
+    await fs.writeFile(
+      path.join(root, 'apps/admin/app/users/loading.tsx'),
+      'export default function Loading() {}\n',
+    )
+    expect(await changed).toStrictEqual([
+      {
+        kind: 'page',
+        type: 'changed',
+        file: 'apps/admin/app/users/page.tsx',
+        path: '/users',
+      },
+    ])
+  })
+
+  it('reports entries whose middleware coverage changed', async () => {
+    watcher = await createRouteWatcher(root, { debounceMs: 20 })
+    const batch = nextBatch(watcher)
+
+    await fs.writeFile(
+      path.join(root, 'middleware.ts'),
+      "export const config = { matcher: '/api/:path*' }\n",
+    )
+
+    expect(await batch).toStrictEqual([
+      {
+        kind: 'route',
+        type: 'changed',
+        file: 'app/api/hello/route.ts',
+        path: '/api/hello',
+      },
+    ])
+  })
+})
+
+describe('GET /events', () => {
+  it('is only available when a watcher is provided', async () => {
+    const api = createApiRouter(os.tmpdir())
+    const response = await api.request('/events')
+    expect(response.status).toBe(404)
+  })
+
+  it('streams change events as Server-Sent Events', async () => {
+    const listeners = new Set<RouteChangeListener>()
+    const watcher: RouteWatcher = {
+      subscribe(listener) {
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+      },
+      close() {},
+    }
+    const root = path.join(os.tmpdir(), 'project')
+    const api = createApiRouter(root, {
+      watcher,
+      pathFormatForLists: 'absolute',
+    })
+
+    const response = await api.request('/events')
+    expect(response.headers.get('content-type')).toContain('text/event-stream')
+
+    const reader = response.body!.getReader()
+    const decoder = new TextDecoder()
+    const read = async () => decoder.decode((await reader.read()).value)
+
+    expect(await read()).toContain('event: ready')
+
+    for (const listener of listeners) {
+      listener([
+        {
+          kind: 'page',
+          type: 'added',
+          file: 'app/blog/page.tsx',
+          path: '/blog',
+        },
+      ])
+    }
+
+    const message = await read()
+    expect(message).toContain('event: change')
+    expect(JSON.parse(message.split('data: ')[1])).toStrictEqual({
+      kind: 'page',
+      type: 'added',
+      file: path.join(root, 'app/blog/page.tsx'),
+      path: '/blog',
+    })
+
+    await reader.cancel()
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { getApiRoutes, type RouteInfo } from '../../src/lib/api-routes'
+import { getPageRoutes } from '../../src/lib/page-routes'
 import { promises as fs } from 'fs'
 import { fileURLToPath } from 'url'
 import os from 'os'
@@ -17,26 +18,124 @@ describe('getApiRoutes', () => {
         file: 'app/api/files/[...parts]/route.ts',
         methods: ['GET', 'POST'],
         path: '/api/files/:parts*',
+        handlers: [
+          {
+            method: 'GET',
+            file: 'app/api/files/[...parts]/route.ts',
+            line: 1,
+            column: 1,
+            endLine: 1,
+            endColumn: 44,
+          },
+          {
+            method: 'POST',
+            file: 'app/api/files/[...parts]/route.ts',
+            line: 2,
+            column: 1,
+            endLine: 2,
+            endColumn: 46,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
       },
       {
         file: 'app/api/hello/route.ts',
         methods: ['GET'],
         path: '/api/hello',
+        handlers: [
+          {
+            method: 'GET',
+            file: 'app/api/hello/route.ts',
+            line: 1,
+            column: 1,
+            endLine: 3,
+            endColumn: 2,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
       },
       {
         file: 'app/api/optional/[[...segments]]/route.ts',
         methods: ['HEAD'],
         path: '/api/optional/:segments*?',
+        handlers: [
+          {
+            method: 'HEAD',
+            file: 'app/api/optional/[[...segments]]/route.ts',
+            line: 3,
+            column: 1,
+            endLine: 5,
+            endColumn: 2,
+          },
+        ],
+        segmentConfig: { runtime: 'edge' },
+        router: 'app',
+        middleware: 'unmatched',
       },
       {
         file: 'app/(marketing)/api/ping/route.ts',
         methods: ['POST'],
         path: '/api/ping',
+        handlers: [
+          {
+            method: 'POST',
+            file: 'app/(marketing)/api/ping/route.ts',
+            line: 1,
+            column: 1,
+            endLine: 3,
+            endColumn: 2,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
+        groups: ['marketing'],
       },
       {
         file: 'app/api/users/[id]/route.ts',
         methods: ['GET', 'PUT', 'PATCH', 'DELETE'],
         path: '/api/users/:id',
+        handlers: [
+          {
+            method: 'GET',
+            file: 'app/api/users/[id]/route.ts',
+            line: 6,
+            column: 16,
+            endLine: 6,
+            endColumn: 19,
+          },
+          {
+            method: 'PUT',
+            file: 'app/api/users/[id]/route.ts',
+            line: 11,
+            column: 1,
+            endLine: 11,
+            endColumn: 50,
+          },
+          {
+            method: 'PATCH',
+            file: 'app/api/users/[id]/route.ts',
+            line: 6,
+            column: 21,
+            endLine: 6,
+            endColumn: 26,
+          },
+          {
+            method: 'DELETE',
+            file: 'app/api/users/[id]/route.ts',
+            line: 8,
+            column: 1,
+            endLine: 8,
+            endColumn: 53,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
       },
     ])
   })
@@ -101,16 +200,55 @@ describe('getApiRoutes', () => {
         file: 'app/api/files/[...parts]/route.ts',
         methods: ['GET'],
         path: '/api/files/:parts*',
+        handlers: [
+          {
+            method: 'GET',
+            file: 'app/api/files/[...parts]/route.ts',
+            line: 1,
+            column: 1,
+            endLine: 1,
+            endColumn: 44,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
       },
       {
         file: 'app/api/hello/route.ts',
         methods: ['GET'],
         path: '/api/hello',
+        handlers: [
+          {
+            method: 'GET',
+            file: 'app/api/hello/route.ts',
+            line: 1,
+            column: 1,
+            endLine: 3,
+            endColumn: 2,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
       },
       {
         file: 'app/api/users/[id]/route.ts',
         methods: ['GET'],
         path: '/api/users/:id',
+        handlers: [
+          {
+            method: 'GET',
+            file: 'app/api/users/[id]/route.ts',
+            line: 6,
+            column: 16,
+            endLine: 6,
+            endColumn: 19,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
       },
     ])
   })
@@ -129,11 +267,38 @@ describe('getApiRoutes', () => {
         file: 'app/api/files/[...parts]/route.ts',
         methods: ['POST'],
         path: '/api/files/:parts*',
+        handlers: [
+          {
+            method: 'POST',
+            file: 'app/api/files/[...parts]/route.ts',
+            line: 2,
+            column: 1,
+            endLine: 2,
+            endColumn: 46,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
       },
       {
         file: 'app/(marketing)/api/ping/route.ts',
         methods: ['POST'],
         path: '/api/ping',
+        handlers: [
+          {
+            method: 'POST',
+            file: 'app/(marketing)/api/ping/route.ts',
+            line: 1,
+            column: 1,
+            endLine: 3,
+            endColumn: 2,
+          },
+        ],
+        segmentConfig: {},
+        router: 'app',
+        middleware: 'unmatched',
+        groups: ['marketing'],
       },
     ])
   })
@@ -151,4 +316,140 @@ describe('getApiRoutes', () => {
     expect(routesWithoutFilter).toStrictEqual(routesWithUndefined)
     expect(routesWithoutFilter.length).toBeGreaterThan(0)
   })
+
+  it('follows local re-exports to the handler declaration', async () => {
+    const tempRoot = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'next-lens-api-reexport-'),
+    )
+
+    try {
+      const routeDir = path.join(tempRoot, 'app', 'api', 'items')
+      await fs.mkdir(routeDir, { recursive: true })
+      await fs.writeFile(
+        path.join(routeDir, 'handlers.ts'),
+        [
+          'export async function GET() {',
+          "  return new Response('list')",
+          '}',
+          '',
+          'export const POST = async () => new Response(null)',
+        ].join('\n'),
+      )
+      await fs.writeFile(
+        path.join(routeDir, 'delete.ts'),
+        'export function DELETE() {\n  return new Response(null)\n}\n',
+      )
+      await fs.writeFile(
+        path.join(routeDir, 'route.ts'),
+        [
+          "export * from './handlers'",
+          "export { DELETE } from './delete'",
+          "const label = 'export function PUT() {}'",
+          '// export function PATCH() {}',
+          'export type OPTIONS = never',
+        ].join('\n'),
+      )
+
+      const routes = await getApiRoutes(tempRoot)
+
+      expect(routes).toStrictEqual<RouteInfo[]>([
+        {
+          file: 'app/api/items/route.ts',
+          methods: ['GET', 'POST', 'DELETE'],
+          path: '/api/items',
+          handlers: [
+            {
+              method: 'GET',
+              file: 'app/api/items/handlers.ts',
+              line: 1,
+              column: 1,
+              endLine: 3,
+              endColumn: 2,
+            },
+            {
+              method: 'POST',
+              file: 'app/api/items/handlers.ts',
+              line: 5,
+              column: 1,
+              endLine: 5,
+              endColumn: 51,
+            },
+            {
+              method: 'DELETE',
+              file: 'app/api/items/delete.ts',
+              line: 1,
+              column: 1,
+              endLine: 3,
+              endColumn: 2,
+            },
+          ],
+          segmentConfig: {},
+          router: 'app',
+          middleware: 'unmatched',
+        },
+      ])
+    } finally {
+      await fs.rm(tempRoot, { recursive: true, force: true })
+    }
+  })
+
+  it('includes route handlers outside /api and filters by prefix', async () => {
+    const tempRoot = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'next-lens-api-prefix-'),
+    )
+
+    try {
+      const writeRoute = async (file: string, contents: string) => {
+        const filePath = path.join(tempRoot, file)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, contents)
+      }
+      await writeRoute('app/route.ts', 'export function GET() {}\n')
+      await writeRoute('app/feed.xml/route.ts', 'export function GET() {}\n')
+      await writeRoute('app/api/users/route.ts', 'export function POST() {}\n')
+      await writeRoute('app/apis/route.ts', 'export function DELETE() {}\n')
+
+      const routes = await getApiRoutes(tempRoot)
+      expect(routes.map((route) => route.path)).toStrictEqual([
+        '/',
+        '/api/users',
+        '/apis',
+        '/feed.xml',
+      ])
+
+      const prefixed = await getApiRoutes(tempRoot, undefined, {
+        routePrefix: 'api/',
+      })
+      expect(prefixed.map((route) => route.path)).toStrictEqual(['/api/users'])
+    } finally {
+      await fs.rm(tempRoot, { recursive: true, force: true })
+    }
+  })
+
+  it('flags a route handler and a page in the same segment', async () => {
+    const tempRoot = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'next-lens-api-collision-'),
+    )
+
+    try {
+      const segment = path.join(tempRoot, 'app', 'dashboard')
+      await fs.mkdir(segment, { recursive: true })
+      await fs.writeFile(
+        path.join(segment, 'route.ts'),
+        'export function GET() {}\n',
+      )
+      await fs.writeFile(
+        path.join(segment, 'page.tsx'),
+        'export default function Page() {}\n',
+      )
+
+      const [route] = await getApiRoutes(tempRoot)
+      const [page] = await getPageRoutes(tempRoot)
+
+      expect(route.conflictsWith).toBe('app/dashboard/page.tsx')
+      expect(page.conflictsWith).toBe('app/dashboard/route.ts')
+    } finally {
+      await fs.rm(tempRoot, { recursive: true, force: true })
+    }
+  })
 })
@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  analyzeComponentBoundaries,
+  isServerOnly,
+} from '@/lib/component-boundaries'
+import { getPageRoutes } from '@/lib/page-routes'
+import { createScanSession } from '@/lib/scanner'
+
+import { useTempProject } from '../helpers/temp-project'
+
+describe('isServerOnly', () => {
+  it('matches server-only packages and Node.js built-ins', () => {
+    expect(isServerOnly('server-only')).toBe(true)
+    expect(isServerOnly('@prisma/client')).toBe(true)
+    expect(isServerOnly('fs/promises')).toBe(true)
+    expect(isServerOnly('node:crypto')).toBe(true)
+    expect(isServerOnly('react')).toBe(false)
+    expect(isServerOnly('@/lib/db')).toBe(false)
+  })
+})
+
+describe('component boundaries', () => {
+  const project = useTempProject('boundaries')
+
+  beforeEach(async () => {
+    await project.writeFile(
+      'tsconfig.json',
+      JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }),
+    )
+    await project.writeFile(
+      'src/app/page.tsx',
+      [
+        "import { Like } from '@/components/like'",
+        "import { format } from '@/lib/format'",
+        'export default function Page() {}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'src/components/like.tsx',
+      [
+        "'use client'",
+        "import { readConfig } from '../lib/config'",
+        "import { save } from '../lib/actions'",
+        "import { format } from '../lib/format'",
+        'export function Like() {}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'src/lib/actions.ts',
+      "'use server'\nimport { db } from './db'\nexport async function save() {}\n",
+    )
+    await project.writeFile(
+      'src/lib/db.ts',
+      "import 'server-only'\nexport const db = {}\n",
+    )
+    await project.writeFile(
+      'src/lib/config.ts',
+      "import fs from 'node:fs'\nexport const readConfig = () => fs\n",
+    )
+    await project.writeFile('src/lib/format.ts', 'export const format = 1\n')
+  })
+
+  it('classifies modules and reports where the client bundle starts', async () => {
+    const session = createScanSession(project.root)
+
+    const result = await analyzeComponentBoundaries(session, [
+      path.join(project.root, 'src/app/page.tsx'),
+    ])
+
+    expect(result).toStrictEqual({
+      environment: 'server',
+      boundaries: [
+        {
+          file: 'src/components/like.tsx',
+          importedBy: 'src/app/page.tsx',
+          line: 1,
+          column: 1,
+        },
+      ],
+      serverOnlyImports: [
+        {
+          specifier: 'node:fs',
+          file: 'src/lib/config.ts',
+          line: 1,
+          column: 1,
+          boundary: 'src/components/like.tsx',
+        },
+      ],
+      // Actions are referenced from the client, not bundled into it
+      modules: [
+        { file: 'src/app/page.tsx', environment: 'server' },
+        { file: 'src/components/like.tsx', environment: 'client' },
+        { file: 'src/lib/config.ts', environment: 'client' },
+        { file: 'src/lib/format.ts', environment: 'shared' },
+      ],
+    })
+  })
+
+  it('tags pages with the boundaries of the page and its layouts', async () => {
+    await project.writeFile(
+      'src/app/layout.tsx',
+      "'use client'\nexport default function Layout() {}\n",
+    )
+
+    const [page] = await getPageRoutes(project.root)
+
+    expect(page.components?.environment).toBe('server')
+    expect(page.components?.boundaries.map((b) => b.file)).toStrictEqual([
+      'src/components/like.tsx',
+      'src/app/layout.tsx',
+    ])
+  })
+})
@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  ConfigError,
+  findConfigFile,
+  loadConfig,
+  readTemplates,
+  resolveScanOptions,
+} from '@/lib/config'
+
+describe('config', () => {
+  let root: string
+  let target: string
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-config-'))
+    target = path.join(root, 'apps/web')
+    await fs.mkdir(target, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('finds the nearest config file walking up from the target', async () => {
+    await fs.writeFile(path.join(root, 'next-lens.config.json'), '{}')
+    expect(await findConfigFile(target)).toBe(
+      path.join(root, 'next-lens.config.json'),
+    )
+
+    await fs.writeFile(path.join(target, 'next-lens.config.js'), '')
+    expect(await findConfigFile(target)).toBe(
+      path.join(target, 'next-lens.config.js'),
+    )
+  })
+
+  it('returns an empty config when no file exists', async () => {
+    expect(await loadConfig(target)).toStrictEqual({
+      config: {},
+      filePath: null,
+      directory: target,
+    })
+  })
+
+  it('loads TypeScript configs that import defineConfig', async () => {
+    await fs.writeFile(
+      path.join(root, 'next-lens.config.ts'),
+      [
+        "import { defineConfig, type NextLensConfig } from 'next-lens'",
+        '',
+        "const port: NextLensConfig['port'] = 4000",
+        '',
+        'export default defineConfig({',
+        '  port,',
+        "  exclude: ['fixtures'],",
+        "  mcp: { tools: { 'open-file': false } },",
+        '})',
+        '',
+      ].join('\n'),
+    )
+
+    const loaded = await loadConfig(target)
+
+    expect(loaded.directory).toBe(root)
+    expect(loaded.config).toStrictEqual({
+      port: 4000,
+      exclude: ['fixtures'],
+      mcp: { tools: { 'open-file': false } },
+    })
+    expect(await fs.readdir(root)).toStrictEqual([
+      'apps',
+      'next-lens.config.ts',
+    ])
+  })
+
+  it('compiles relative TypeScript imports outside the project', async () => {
+    await fs.mkdir(path.join(root, 'lens'))
+    await fs.writeFile(
+      path.join(root, 'lens/shared.ts'),
+      [
+        "import { extra } from './extra.js'",
+        '',
+        "export const exclude: string[] = ['fixtures', ...extra]",
+        '',
+      ].join('\n'),
+    )
+    await fs.writeFile(
+      path.join(root, 'lens/extra.ts'),
+      "export const extra: string[] = ['e2e']\n",
+    )
+    await fs.writeFile(
+      path.join(root, 'next-lens.config.ts'),
+      [
+        "import { defineConfig } from 'next-lens'",
+        "import { exclude } from './lens/shared'",
+        '',
+        'export default defineConfig({ exclude })',
+        '',
+      ].join('\n'),
+    )
+
+    const loaded = await loadConfig(target)
+
+    expect(loaded.config).toStrictEqual({ exclude: ['fixtures', 'e2e'] })
+    expect(await fs.readdir(root)).toStrictEqual([
+      'apps',
+      'lens',
+      'next-lens.config.ts',
+    ])
+    expect(await fs.readdir(path.join(root, 'lens'))).toStrictEqual([
+      'extra.ts',
+      'shared.ts',
+    ])
+  })
+
+  it('reports invalid options with their path', async () => {
+    await fs.writeFile(
+      path.join(target, 'next-lens.config.json'),
+      JSON.stringify({ port: 'http', mcp: { tools: { unknown: true } } }),
+    )
+
+    const error = await loadConfig(target).catch((error) => error)
+
+    expect(error).toBeInstanceOf(ConfigError)
+    expect(error.message).toContain('Invalid next-lens.config.json')
+    expect(error.message).toContain('port:')
+    expect(error.message).toContain('mcp.tools')
+  })
+
+  it('layers CLI flags over config scan options', async () => {
+    await fs.writeFile(
+      path.join(root, 'next-lens.config.json'),
+      JSON.stringify({
+        appDirs: ['apps/web/src/app'],
+        include: ['apps/web/**'],
+        exclude: ['fixtures'],
+        cache: true,
+      }),
+    )
+    const loaded = await loadConfig(target)
+
+    expect(resolveScanOptions(loaded)).toStrictEqual({
+      appDirs: [path.join(root, 'apps/web/src/app')],
+      include: [`${root.split(path.sep).join('/')}/apps/web/**`],
+      exclude: ['fixtures'],
+      gitignore: undefined,
+      persistentCache: true,
+    })
+    expect(
+      resolveScanOptions(loaded, { exclude: ['e2e'], persistentCache: false }),
+    ).toMatchObject({ exclude: ['e2e'], persistentCache: false })
+  })
+
+  it('reads scaffold templates relative to the config file', async () => {
+    await fs.mkdir(path.join(root, 'templates'))
+    await fs.writeFile(
+      path.join(root, 'templates/loading.tsx'),
+      'export default function Loading() { return null }\n',
+    )
+    await fs.writeFile(
+      path.join(root, 'next-lens.config.json'),
+      JSON.stringify({ templates: { loading: 'templates/loading.tsx' } }),
+    )
+
+    expect(await readTemplates(await loadConfig(target))).toStrictEqual({
+      loading: 'export default function Loading() { return null }\n',
+    })
+  })
+})
@@ -0,0 +1,247 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { getApiRoutes, type RouteInfo } from '../../src/lib/api-routes'
+
+const files: Record<string, string> = {
+  'app/api/users/[id]/route.ts': [
+    'declare const NextResponse: {',
+    '  json<T>(body: T, init?: ResponseInit): Response',
+    '}',
+    '',
+    'type User = {',
+    '  /** Unique id */',
+    '  id: string',
+    "  role: 'admin' | 'member'",
+    '  tags: string[]',
+    '  createdAt: Date',
+    '  manager?: User',
+    '}',
+    '',
+    'export async function GET(request: Request) {',
+    '  const user = {} as User | null',
+    "  if (!user) return NextResponse.json({ error: 'Not found' }, { status: 404 })",
+    '  return NextResponse.json<User>(user)',
+    '}',
+    '',
+    'export const PUT = async (req: Request) => {',
+    '  const body = (await req.json()) as { name: string; age?: number }',
+    '  return new Response(null, { status: 204 })',
+    '}',
+  ].join('\n'),
+  'app/api/items/route.ts': [
+    'declare const CreateItem: {',
+    '  safeParse(input: unknown):',
+    '    | { success: true; data: { title: string } }',
+    '    | { success: false; data?: never }',
+    '}',
+    'declare const ListQuery: {',
+    '  parse(input: unknown): { page: number; sort?: "asc" | "desc" }',
+    '}',
+    'declare function withAuth<T>(handler: T): T',
+    '',
+    'export const GET = withAuth(async (request: Request) => {',
+    '  const query = ListQuery.parse(',
+    '    Object.fromEntries(new URL(request.url).searchParams),',
+    '  )',
+    '  return Response.json({ page: query.page, items: [] as string[] })',
+    '})',
+    '',
+    'export async function POST(request: Request) {',
+    '  const payload = await request.json()',
+    '  const result = CreateItem.safeParse(payload)',
+    '  if (!result.success) {',
+    "    return Response.json({ error: 'Invalid' }, { status: 400 })",
+    '  }',
+    '  return Response.json(result.data, { status: 201 })',
+    '}',
+  ].join('\n'),
+  'app/api/search/route.ts': [
+    'export function GET(request: { nextUrl: URL }) {',
+    "  const q = request.nextUrl.searchParams.get('q')",
+    "  const tags = request.nextUrl.searchParams.getAll('tag')",
+    '  return Response.json({ q, tags })',
+    '}',
+  ].join('\n'),
+  'app/api/feed/route.ts': [
+    'declare const FeedQuery: {',
+    '  parse(input: unknown): { cursor?: string }',
+    '}',
+    'const searchParamsDefaults = { cursor: "" }',
+    '',
+    'export function GET(request: { nextUrl: URL }) {',
+    '  const url = request.nextUrl',
+    '  const q = url.searchParams',
+    '  const query = FeedQuery.parse(Object.fromEntries(q.entries()))',
+    '  return Response.json(query)',
+    '}',
+    '',
+    'export function POST(request: { nextUrl: URL }) {',
+    '  const params = request.nextUrl.searchParams',
+    "  const limit = params.get('limit')",
+    '  const defaults = FeedQuery.parse(searchParamsDefaults)',
+    '  return Response.json({ limit, defaults })',
+    '}',
+  ].join('\n'),
+  // An app of a monorepo with its own path alias
+  'apps/admin/tsconfig.json': JSON.stringify({
+    compilerOptions: { strict: true, paths: { '~/*': ['./lib/*'] } },
+  }),
+  'apps/admin/lib/account.ts': [
+    'export type Account = {',
+    '  id: string',
+    "  plan: 'free' | 'pro'",
+    '}',
+  ].join('\n'),
+  'apps/admin/app/api/account/route.ts': [
+    "import type { Account } from '~/account'",
+    '',
+    'export function GET() {',
+    '  return Response.json({} as Account)',
+    '}',
+  ].join('\n'),
+}
+
+describe('getApiRoutes schema inference', () => {
+  let root: string
+  let routes: RouteInfo[]
+
+  const handlerSchema = (routePath: string, method: string) =>
+    routes
+      .find((route) => route.path === routePath)
+      ?.handlers.find((handler) => handler.method === method)?.schema
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-schema-'))
+    for (const [name, contents] of Object.entries(files)) {
+      const target = path.join(root, name)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.writeFile(target, contents)
+    }
+    routes = await getApiRoutes(root, undefined, { inferSchemas: true })
+  }, 30_000)
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('does not infer schemas unless requested', async () => {
+    const [route] = await getApiRoutes(root, 'PUT')
+    expect(route.handlers[0]).not.toHaveProperty('schema')
+  })
+
+  it('infers response payloads and status codes', () => {
+    expect(handlerSchema('/api/users/:id', 'GET')).toStrictEqual({
+      responses: [
+        {
+          status: 200,
+          schema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Unique id' },
+              role: { type: 'string', enum: ['admin', 'member'] },
+              tags: { type: 'array', items: { type: 'string' } },
+              createdAt: { type: 'string', format: 'date-time' },
+              manager: {},
+            },
+            required: ['id', 'role', 'tags', 'createdAt'],
+          },
+        },
+        {
+          status: 404,
+          schema: {
+            type: 'object',
+            properties: { error: { type: 'string' } },
+            required: ['error'],
+          },
+        },
+      ],
+    })
+  })
+
+  it('infers request bodies from casts on request.json()', () => {
+    expect(handlerSchema('/api/users/:id', 'PUT')).toStrictEqual({
+      body: {
+        type: 'object',
+        properties: { name: { type: 'string' }, age: { type: 'number' } },
+        required: ['name'],
+      },
+      responses: [{ status: 204 }],
+    })
+  })
+
+  it('infers bodies and query strings validated with schema parsers', () => {
+    expect(handlerSchema('/api/items', 'POST')).toMatchObject({
+      body: {
+        type: 'object',
+        properties: { title: { type: 'string' } },
+        required: ['title'],
+      },
+      responses: [{ status: 201 }, { status: 400 }],
+    })
+
+    expect(handlerSchema('/api/items', 'GET')).toStrictEqual({
+      query: {
+        type: 'object',
+        properties: {
+          page: { type: 'number' },
+          sort: { type: 'string', enum: ['asc', 'desc'] },
+        },
+        required: ['page'],
+      },
+      responses: [
+        {
+          status: 200,
+          schema: {
+            type: 'object',
+            properties: {
+              page: { type: 'number' },
+              items: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['page', 'items'],
+          },
+        },
+      ],
+    })
+  })
+
+  it('collects individual searchParams reads', () => {
+    expect(handlerSchema('/api/search', 'GET')?.query).toStrictEqual({
+      type: 'object',
+      properties: {
+        q: { type: 'string' },
+        tag: { type: 'array', items: { type: 'string' } },
+      },
+    })
+  })
+
+  it('follows aliases of searchParams instead of matching names', () => {
+    expect(handlerSchema('/api/feed', 'GET')?.query).toStrictEqual({
+      type: 'object',
+      properties: { cursor: { type: 'string' } },
+    })
+    expect(handlerSchema('/api/feed', 'POST')?.query).toStrictEqual({
+      type: 'object',
+      properties: { limit: { type: 'string' } },
+    })
+  })
+
+  it("resolves imports with the path aliases of the route's app", () => {
+    expect(handlerSchema('/api/account', 'GET')).toStrictEqual({
+      responses: [
+        {
+          status: 200,
+          schema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              plan: { type: 'string', enum: ['free', 'pro'] },
+            },
+            required: ['id', 'plan'],
+          },
+        },
+      ],
+    })
+  })
+})
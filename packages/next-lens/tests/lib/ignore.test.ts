@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { getPageRoutes } from '@/lib/page-routes'
+import { createPathFilter } from '@/lib/ignore'
+
+async function writeFile(filePath: string, content: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, content)
+}
+
+describe('createPathFilter', () => {
+  let repo: string
+  let root: string
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-ignore-'))
+    root = path.join(repo, 'apps/web')
+    await fs.mkdir(path.join(repo, '.git'), { recursive: true })
+    await fs.mkdir(root, { recursive: true })
+    await writeFile(path.join(repo, '.gitignore'), 'apps/web/generated/\n')
+  })
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true })
+  })
+
+  it('applies .gitignore files from parent directories up to the repository root', async () => {
+    const filter = await createPathFilter(root)
+
+    expect(filter.ignores(path.join(root, 'generated'), true)).toBe(true)
+    expect(filter.ignores(path.join(root, 'app'), true)).toBe(false)
+  })
+
+  it('lets deeper ignore files re-include entries', async () => {
+    const filter = await createPathFilter(root)
+    await writeFile(path.join(root, '.nextlensignore'), 'e2e/\n*.draft.tsx\n')
+    await writeFile(path.join(root, 'app/.gitignore'), '!keep.draft.tsx\n')
+
+    const web = await filter.descend(root, new Set(['.nextlensignore']))
+    const app = await web.descend(
+      path.join(root, 'app'),
+      new Set(['.gitignore']),
+    )
+
+    expect(web.ignores(path.join(root, 'e2e'), true)).toBe(true)
+    expect(web.ignores(path.join(root, 'e2e'), false)).toBe(false)
+    expect(app.ignores(path.join(root, 'app/page.draft.tsx'), false)).toBe(true)
+    expect(app.ignores(path.join(root, 'app/keep.draft.tsx'), false)).toBe(
+      false,
+    )
+  })
+
+  it('skips .gitignore but keeps .nextlensignore when gitignore is disabled', async () => {
+    await writeFile(path.join(root, '.gitignore'), 'fixtures/\n')
+    await writeFile(path.join(root, '.nextlensignore'), 'e2e/\n')
+
+    const filter = await (
+      await createPathFilter(root, { gitignore: false })
+    ).descend(root, new Set(['.gitignore', '.nextlensignore']))
+
+    expect(filter.ignores(path.join(root, 'generated'), true)).toBe(false)
+    expect(filter.ignores(path.join(root, 'fixtures'), true)).toBe(false)
+    expect(filter.ignores(path.join(root, 'e2e'), true)).toBe(true)
+  })
+
+  it('matches exclude and include globs relative to the root', async () => {
+    const filter = await createPathFilter(root, {
+      exclude: ['fixtures', 'app/legacy/**'],
+      include: ['app/api/**'],
+    })
+
+    expect(filter.ignores(path.join(root, 'tests/fixtures'), true)).toBe(true)
+    expect(filter.ignores(path.join(root, 'app/legacy/page.tsx'), false)).toBe(
+      true,
+    )
+    expect(filter.ignores(path.join(root, 'app/shop'), true)).toBe(false)
+    expect(filter.includes(path.join(root, 'app/api/users/route.ts'))).toBe(
+      true,
+    )
+    expect(filter.includes(path.join(root, 'app/page.tsx'))).toBe(false)
+  })
+})
+
+describe('scanners with ignore rules', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-ignore-'))
+    await writeFile(
+      path.join(root, 'app/api/users/route.ts'),
+      'export function GET() {}\n',
+    )
+    await writeFile(
+      path.join(root, 'app/page.tsx'),
+      'export default function Page() {}\n',
+    )
+    await writeFile(
+      path.join(root, 'e2e/sandbox/app/api/seed/route.ts'),
+      'export function POST() {}\n',
+    )
+    await writeFile(
+      path.join(root, 'examples/basic/app/page.tsx'),
+      'export default function Page() {}\n',
+    )
+    await writeFile(path.join(root, '.gitignore'), 'examples/\n')
+    await writeFile(path.join(root, '.nextlensignore'), 'e2e/\n')
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('skips directories listed in .gitignore and .nextlensignore', async () => {
+    const routes = await getApiRoutes(root)
+    const pages = await getPageRoutes(root)
+
+    expect(routes.map((route) => route.file)).toStrictEqual([
+      'app/api/users/route.ts',
+    ])
+    expect(pages.map((page) => page.file)).toStrictEqual(['app/page.tsx'])
+  })
+
+  it('scans .gitignore entries when gitignore is disabled', async () => {
+    const pages = await getPageRoutes(root, { gitignore: false })
+
+    expect(pages.map((page) => page.file)).toStrictEqual([
+      'app/page.tsx',
+      'examples/basic/app/page.tsx',
+    ])
+  })
+
+  it('limits route and page files to include globs', async () => {
+    const pages = await getPageRoutes(root, {
+      gitignore: false,
+      include: ['examples/**'],
+    })
+
+    expect(pages.map((page) => page.file)).toStrictEqual([
+      'examples/basic/app/page.tsx',
+    ])
+  })
+})
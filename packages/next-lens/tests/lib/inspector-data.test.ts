@@ -23,6 +23,14 @@ describe('collectInspectorData', () => {
     // Should have pages
     expect(Array.isArray(data.pages)).toBe(true)
     expect(data.pages.length).toBeGreaterThan(0)
+
+    // Should audit the pages, e.g. the fixture pages have no titles
+    expect(data.audit.some((issue) => issue.rule === 'missing-title')).toBe(
+      true,
+    )
+
+    // The fixture has no server actions
+    expect(data.actions).toStrictEqual([])
   })
 
   it('should mark readonly as false when not specified as readonly', async () => {
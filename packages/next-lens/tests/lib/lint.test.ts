@@ -0,0 +1,242 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { loadConfig } from '@/lib/config'
+import { lintConfigOptions, runLint, type LintOptions } from '@/lib/lint/engine'
+import { LINT_RULES } from '@/lib/lint/rules'
+import { formatSarif } from '@/lib/lint/sarif'
+import { getPageRoutes } from '@/lib/page-routes'
+import { createScanSession } from '@/lib/scanner'
+
+import { useTempProject } from '../helpers/temp-project'
+
+const page = 'export default function Page() {}\n'
+
+describe('runLint', () => {
+  const project = useTempProject('lint')
+
+  const lint = async (options?: LintOptions) => {
+    const session = createScanSession(project.root)
+    const [pages, routes] = await Promise.all([
+      getPageRoutes(project.root, { session }),
+      getApiRoutes(project.root, undefined, { session }),
+    ])
+    return runLint({ session, pages, routes }, options)
+  }
+
+  beforeEach(async () => {
+    await project.writeFile('app/page.tsx', page)
+    await project.writeFile('app/About/page.tsx', page)
+    await project.writeFile('app/About/error.tsx', page)
+    await project.writeFile(
+      'app/api/users/[id]/route.ts',
+      'export function GET() {}\n',
+    )
+    await project.writeFile(
+      'app/api/users/[userId]/posts/route.ts',
+      'export function GET() {}\n',
+    )
+    await project.writeFile(
+      'app/api/users/[id]/avatar/route.ts',
+      'export function GET() {}\n',
+    )
+    await project.writeFile(
+      'app/api/ping/route.ts',
+      [
+        "import { readFile } from 'node:fs/promises'",
+        "import { EventEmitter } from 'events'",
+        "import { helper } from '../../../lib/helper'",
+        "export const runtime = 'edge'",
+        'export function HEAD() {}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile('lib/helper.ts', "import crypto from 'crypto'\n")
+  })
+
+  it('reports each built-in rule with its default severity', async () => {
+    const issues = await lint()
+
+    expect(
+      issues.map(({ rule, severity, file, line }) => ({
+        rule,
+        severity,
+        file,
+        line,
+      })),
+    ).toStrictEqual([
+      {
+        rule: 'uppercase-segment',
+        severity: 'warn',
+        file: 'app/About/page.tsx',
+        line: 1,
+      },
+      {
+        rule: 'edge-node-builtin',
+        severity: 'error',
+        file: 'app/api/ping/route.ts',
+        line: 1,
+      },
+      {
+        rule: 'head-only-route',
+        severity: 'warn',
+        file: 'app/api/ping/route.ts',
+        line: 5,
+      },
+      {
+        rule: 'inconsistent-param-names',
+        severity: 'error',
+        file: 'app/api/users/[userId]/posts/route.ts',
+        line: 1,
+      },
+      {
+        rule: 'page-missing-error',
+        severity: 'warn',
+        file: 'app/page.tsx',
+        line: 1,
+      },
+      {
+        rule: 'edge-node-builtin',
+        severity: 'error',
+        file: 'lib/helper.ts',
+        line: 1,
+      },
+    ])
+    expect(
+      issues.find((issue) => issue.rule === 'inconsistent-param-names')
+        ?.message,
+    ).toBe('Param :userId under /api/users is named :id by 2 other routes')
+  })
+
+  it('applies configured severities and rejects unknown rules', async () => {
+    const issues = await lint({
+      severities: { 'page-missing-error': 'off', 'head-only-route': 'error' },
+      only: ['page-missing-error', 'head-only-route'],
+    })
+
+    expect(issues.map(({ rule, severity }) => [rule, severity])).toEqual([
+      ['head-only-route', 'error'],
+    ])
+    await expect(
+      lint({ severities: { 'no-such-rule': 'warn' } }),
+    ).rejects.toThrow('Unknown lint rule "no-such-rule"')
+  })
+
+  it('runs custom rules from the config', async () => {
+    await project.writeFile(
+      'next-lens.config.ts',
+      [
+        "import { defineConfig, type LintRule } from 'next-lens'",
+        '',
+        "const noPing: LintRule['check'] = ({ routes }) =>",
+        '  routes',
+        "    .filter((route) => route.path === '/api/ping')",
+        '    .map((route) => ({',
+        '      path: route.path,',
+        '      file: route.file,',
+        "      message: 'Use /api/health instead',",
+        '    }))',
+        '',
+        'export default defineConfig({',
+        '  lint: {',
+        '    rules: {',
+        "      'head-only-route': 'off',",
+        "      'no-ping': { description: 'No ping', severity: 'error', check: noPing },",
+        '    },',
+        '  },',
+        '})',
+        '',
+      ].join('\n'),
+    )
+    const { config } = await loadConfig(project.root)
+
+    const issues = await lint({
+      ...lintConfigOptions(config.lint?.rules),
+      only: ['head-only-route', 'no-ping'],
+    })
+    expect(
+      issues.map(({ rule, severity, file, line, message }) => ({
+        rule,
+        severity,
+        file,
+        line,
+        message,
+      })),
+    ).toStrictEqual([
+      {
+        rule: 'no-ping',
+        severity: 'error',
+        file: 'app/api/ping/route.ts',
+        line: 1,
+        message: 'Use /api/health instead',
+      },
+    ])
+    expect(() =>
+      lintConfigOptions({
+        'head-only-route': {
+          description: 'Shadowed',
+          severity: 'warn',
+          check: () => [],
+        },
+      }),
+    ).toThrow('Custom lint rule "head-only-route" shadows a built-in rule')
+  })
+
+  it('honours disable comments for the next line and the whole file', async () => {
+    await project.writeFile(
+      'app/api/ping/route.ts',
+      [
+        '// next-lens-disable edge-node-builtin -- polyfilled at build time',
+        "import { readFile } from 'node:fs/promises'",
+        "export const runtime = 'edge'",
+        '// next-lens-disable-next-line head-only-route',
+        'export function HEAD() {}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'app/About/page.tsx',
+      `{/* next-lens-disable-next-line */}\n${page}`,
+    )
+
+    const rules = (await lint()).map((issue) => `${issue.rule} ${issue.file}`)
+    expect(rules).not.toContain('edge-node-builtin app/api/ping/route.ts')
+    expect(rules).not.toContain('head-only-route app/api/ping/route.ts')
+    expect(rules).not.toContain('uppercase-segment app/About/page.tsx')
+    expect(rules).toContain('page-missing-error app/page.tsx')
+  })
+
+  it('builds a SARIF log with paths relative to the base directory', async () => {
+    const issues = await lint({ only: ['head-only-route'] })
+    const sarif = formatSarif(issues, {
+      rules: LINT_RULES,
+      root: project.root,
+      baseDirectory: path.dirname(project.root),
+      version: '1.0.0',
+    }) as { runs: { results: unknown[] }[] }
+
+    expect(sarif.runs[0].results).toStrictEqual([
+      {
+        ruleId: 'head-only-route',
+        ruleIndex: 1,
+        level: 'warning',
+        message: {
+          text: 'Only HEAD is exported, so GET requests get a 405 (/api/ping)',
+        },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: `${path.basename(project.root)}/app/api/ping/route.ts`,
+              },
+              region: { startLine: 5, startColumn: 1 },
+            },
+          },
+        ],
+      },
+    ])
+  })
+})
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { compileMatcherSource, matchRoute } from '@/lib/middleware'
+import { getPageRoutes } from '@/lib/page-routes'
+
+import { useTempProject } from '../helpers/temp-project'
+
+describe('middleware matchers', () => {
+  it('compiles path-to-regexp sources', () => {
+    const dashboard = compileMatcherSource('/dashboard/:path*')
+    expect(dashboard?.test('/dashboard')).toBe(true)
+    expect(dashboard?.test('/dashboard/a/b')).toBe(true)
+    expect(dashboard?.test('/dashboards')).toBe(false)
+
+    const exclude = compileMatcherSource(
+      '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    )
+    expect(exclude?.test('/')).toBe(true)
+    expect(exclude?.test('/blog/post')).toBe(true)
+    expect(exclude?.test('/api/users')).toBe(false)
+
+    expect(compileMatcherSource('/user/:id(\\d+)')?.test('/user/42')).toBe(true)
+    expect(compileMatcherSource('/broken/(')).toBeNull()
+  })
+
+  it('reports conditional and partial matches as unknown', () => {
+    expect(matchRoute([{ source: '/blog/:path*' }], '/blog/:slug')).toBe(
+      'matched',
+    )
+    expect(
+      matchRoute(
+        [
+          {
+            source: '/admin/:path*',
+            missing: [{ type: 'cookie', key: 'session' }],
+          },
+        ],
+        '/admin',
+      ),
+    ).toBe('unknown')
+    expect(matchRoute([{ source: '/shop/sale' }], '/shop/:id')).toBe('unknown')
+    expect(matchRoute([{ source: '/shop/:id/edit' }], '/shop/:id')).toBe(
+      'unmatched',
+    )
+  })
+})
+
+describe('middleware coverage', () => {
+  const project = useTempProject('middleware')
+
+  beforeEach(async () => {
+    const page = 'export default function Page() {}\n'
+    await project.writeFile('src/app/page.tsx', page)
+    await project.writeFile('src/app/dashboard/page.tsx', page)
+    await project.writeFile(
+      'src/app/api/users/route.ts',
+      'export function GET() {}\n',
+    )
+    await project.writeFile(
+      'src/middleware.ts',
+      [
+        'export function middleware() {}',
+        'export const config = {',
+        "  matcher: ['/dashboard/:path*', { source: '/api/:path*', has: [{ type: 'header', key: 'authorization' }] }],",
+        '}',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('tags pages and routes with the middleware next to their app directory', async () => {
+    const [pages, routes] = await Promise.all([
+      getPageRoutes(project.root),
+      getApiRoutes(project.root),
+    ])
+
+    expect(
+      pages.map(({ path, middleware }) => ({ path, middleware })),
+    ).toStrictEqual([
+      { path: '/', middleware: 'unmatched' },
+      { path: '/dashboard', middleware: 'matched' },
+    ])
+    expect(routes[0].middleware).toBe('unknown')
+  })
+
+  it('treats a middleware without matcher as matching everything', async () => {
+    await project.writeFile('src/middleware.ts', 'export function proxy() {}\n')
+
+    const pages = await getPageRoutes(project.root)
+
+    expect(pages.every((page) => page.middleware === 'matched')).toBe(true)
+  })
+
+  it('marks coverage unknown when the matcher is computed at runtime', async () => {
+    await fs.rm(path.join(project.root, 'src/middleware.ts'))
+    await project.writeFile(
+      'src/proxy.ts',
+      'export const config = { matcher: getMatchers() }\n',
+    )
+
+    const pages = await getPageRoutes(project.root)
+
+    expect(pages.every((page) => page.middleware === 'unknown')).toBe(true)
+  })
+})
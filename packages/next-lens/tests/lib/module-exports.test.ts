@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  collectModuleExports,
+  readDocComment,
+} from '../../src/lib/module-exports'
+
+async function withModules(
+  files: Record<string, string>,
+  run: (root: string) => Promise<void>,
+) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-exports-'))
+  try {
+    for (const [name, contents] of Object.entries(files)) {
+      const target = path.join(root, name)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.writeFile(target, contents)
+    }
+    await run(root)
+  } finally {
+    await fs.rm(root, { recursive: true, force: true })
+  }
+}
+
+describe('collectModuleExports', () => {
+  it('collects function, variable, destructured and default exports', async () => {
+    await withModules(
+      {
+        'mod.ts': [
+          'export async function GET() {}',
+          'export const POST = () => null',
+          'export const { PUT, nested: { PATCH } } = handlers',
+          'export default function Page() {}',
+        ].join('\n'),
+      },
+      async (root) => {
+        const exports = await collectModuleExports(path.join(root, 'mod.ts'))
+
+        expect([...exports.keys()]).toStrictEqual([
+          'GET',
+          'POST',
+          'PUT',
+          'PATCH',
+          'default',
+        ])
+        expect(exports.get('PATCH')).toMatchObject({ line: 3, column: 31 })
+      },
+    )
+  })
+
+  it('resolves `export default <identifier>` to its declaration', async () => {
+    await withModules(
+      {
+        'page.tsx': [
+          'function Page() {',
+          '  return null',
+          '}',
+          '',
+          'export default Page',
+        ].join('\n'),
+      },
+      async (root) => {
+        const exports = await collectModuleExports(path.join(root, 'page.tsx'))
+
+        expect(exports.get('default')).toMatchObject({
+          line: 1,
+          column: 1,
+          endLine: 3,
+          endColumn: 2,
+        })
+      },
+    )
+  })
+
+  it('follows imported bindings that are re-exported', async () => {
+    await withModules(
+      {
+        'lib/handlers/index.ts': '\n\nexport function list() {}\n',
+        'route.ts': [
+          "import { list } from './lib/handlers'",
+          'export { list as GET }',
+        ].join('\n'),
+      },
+      async (root) => {
+        const exports = await collectModuleExports(path.join(root, 'route.ts'))
+
+        expect(exports.get('GET')).toMatchObject({
+          file: path.join(root, 'lib/handlers/index.ts'),
+          line: 3,
+          column: 1,
+        })
+      },
+    )
+  })
+
+  it('rewrites .js specifiers to TypeScript sources', async () => {
+    await withModules(
+      {
+        'handlers.ts': 'export const GET = () => null\n',
+        'route.ts': "export { GET } from './handlers.js'\n",
+      },
+      async (root) => {
+        const exports = await collectModuleExports(path.join(root, 'route.ts'))
+        expect(exports.get('GET')?.file).toBe(path.join(root, 'handlers.ts'))
+      },
+    )
+  })
+
+  it('keeps package re-exports at the export specifier', async () => {
+    await withModules(
+      { 'route.ts': "export { GET, POST } from 'some-package'\n" },
+      async (root) => {
+        const exports = await collectModuleExports(path.join(root, 'route.ts'))
+
+        expect(exports.get('GET')).toMatchObject({ line: 1, column: 10 })
+        expect(exports.get('POST')).toMatchObject({ line: 1, column: 15 })
+      },
+    )
+  })
+
+  it('terminates on circular re-exports', async () => {
+    await withModules(
+      {
+        'a.ts': "export * from './b'\nexport const GET = 1\n",
+        'b.ts': "export * from './a'\nexport const POST = 1\n",
+      },
+      async (root) => {
+        const exports = await collectModuleExports(path.join(root, 'a.ts'))
+        expect([...exports.keys()].sort()).toStrictEqual(['GET', 'POST'])
+      },
+    )
+  })
+
+  it('ignores type-only and declared exports', async () => {
+    await withModules(
+      {
+        'mod.ts': [
+          'export type GET = string',
+          'export interface POST {}',
+          'export declare const PUT: () => void',
+          'type Handler = () => void',
+          'export type { Handler as DELETE }',
+        ].join('\n'),
+      },
+      async (root) => {
+        const exports = await collectModuleExports(path.join(root, 'mod.ts'))
+        expect(exports.size).toBe(0)
+      },
+    )
+  })
+})
+
+describe('readDocComment', () => {
+  it('splits the JSDoc summary from the description', async () => {
+    await withModules(
+      {
+        'route.ts': [
+          '/**',
+          ' * List users',
+          ' * for the admin area.',
+          ' *',
+          ' * Supports pagination.',
+          ' * @deprecated use /api/v2/users',
+          ' */',
+          'export const GET = () => null',
+          '',
+          '/** Create a user */',
+          'export async function POST() {}',
+          '',
+          'export function PUT() {}',
+        ].join('\n'),
+      },
+      async (root) => {
+        const exports = await collectModuleExports(path.join(root, 'route.ts'))
+
+        expect(readDocComment(exports.get('GET')!.node)).toStrictEqual({
+          summary: 'List users for the admin area.',
+          description: 'Supports pagination.',
+          deprecated: true,
+        })
+        expect(readDocComment(exports.get('POST')!.node)).toStrictEqual({
+          summary: 'Create a user',
+        })
+        expect(readDocComment(exports.get('PUT')!.node)).toBeUndefined()
+      },
+    )
+  })
+})
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest'
+import type { RouteInfo } from '../../src/lib/api-routes'
+import {
+  buildOpenApiDocument,
+  toOpenApiPaths,
+  type OpenApiConflict,
+} from '../../src/lib/openapi'
+
+const location = { line: 1, column: 1, endLine: 1, endColumn: 1 }
+
+const route = (
+  path: string,
+  handlers: Array<Partial<RouteInfo['handlers'][number]> & { method: string }>,
+): RouteInfo => ({
+  file: `app${path}/route.ts`,
+  path,
+  methods: handlers.map(({ method }) => method),
+  handlers: handlers.map((handler) => ({
+    file: `app${path}/route.ts`,
+    ...location,
+    ...handler,
+  })),
+  segmentConfig: {},
+  router: 'app',
+})
+
+describe('toOpenApiPaths', () => {
+  it('converts dynamic and catch-all segments to path templates', () => {
+    expect(toOpenApiPaths('/api/users/:id/files/:parts*')).toStrictEqual([
+      {
+        path: '/api/users/{id}/files/{parts}',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+          },
+          {
+            name: 'parts',
+            in: 'path',
+            required: true,
+            description: 'Catch-all segment; matches one or more segments',
+            schema: { type: 'string' },
+          },
+        ],
+      },
+    ])
+  })
+
+  it('splits optional catch-all routes into two paths', () => {
+    expect(
+      toOpenApiPaths('/api/docs/:slug*?').map(({ path }) => path),
+    ).toStrictEqual(['/api/docs', '/api/docs/{slug}'])
+  })
+})
+
+describe('buildOpenApiDocument', () => {
+  it('creates one operation per method with docs and schemas', () => {
+    const document = buildOpenApiDocument(
+      [
+        route('/api/users/:id', [
+          {
+            method: 'GET',
+            doc: { summary: 'Fetch a user', deprecated: true },
+            schema: {
+              query: {
+                type: 'object',
+                properties: {
+                  expand: { type: 'string', description: 'Relations' },
+                },
+              },
+              responses: [
+                { status: 200, schema: { type: 'object' } },
+                { status: 404 },
+              ],
+            },
+          },
+          {
+            method: 'PUT',
+            schema: {
+              body: { type: 'object', required: ['name'] },
+              responses: [],
+            },
+          },
+        ]),
+      ],
+      { title: 'Acme', version: '2.0.0', servers: ['https://acme.dev'] },
+    )
+
+    expect(document).toStrictEqual({
+      openapi: '3.1.0',
+      info: { title: 'Acme', version: '2.0.0' },
+      servers: [{ url: 'https://acme.dev' }],
+      paths: {
+        '/api/users/{id}': {
+          get: {
+            operationId: 'getApiUsersId',
+            summary: 'Fetch a user',
+            deprecated: true,
+            tags: ['users'],
+            parameters: [
+              {
+                name: 'id',
+                in: 'path',
+                required: true,
+                schema: { type: 'string' },
+              },
+              {
+                name: 'expand',
+                in: 'query',
+                required: false,
+                description: 'Relations',
+                schema: { type: 'string' },
+              },
+            ],
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': { schema: { type: 'object' } },
+                },
+              },
+              '404': { description: 'Not Found' },
+            },
+          },
+          put: {
+            operationId: 'putApiUsersId',
+            tags: ['users'],
+            parameters: [
+              {
+                name: 'id',
+                in: 'path',
+                required: true,
+                schema: { type: 'string' },
+              },
+            ],
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: { type: 'object', required: ['name'] },
+                },
+              },
+            },
+            responses: { default: { description: 'Response' } },
+          },
+        },
+      },
+    })
+  })
+
+  it('numbers operationIds that would collide', () => {
+    const document = buildOpenApiDocument(
+      [
+        route('/api/user/:id', [{ method: 'GET' }]),
+        route('/api/user/id', [{ method: 'GET' }]),
+      ],
+      { title: 'Acme', version: '1.0.0' },
+    )
+
+    expect(
+      Object.values(document.paths).map((item) => item.get.operationId),
+    ).toStrictEqual(['getApiUserId', 'getApiUserId2'])
+  })
+
+  it('merges methods of routes on the same path and reports clashes', () => {
+    const conflicts: OpenApiConflict[] = []
+    const document = buildOpenApiDocument(
+      [
+        {
+          ...route('/api/users', [{ method: 'GET' }]),
+          file: 'apps/web/app/api/users/route.ts',
+        },
+        {
+          ...route('/api/users', [{ method: 'GET' }, { method: 'POST' }]),
+          file: 'apps/admin/app/api/users/route.ts',
+        },
+        {
+          ...route('/api/users', [{ method: 'POST' }]),
+          file: 'apps/docs/app/api/users/route.ts',
+        },
+      ],
+      {
+        title: 'Acme',
+        version: '1.0.0',
+        onConflict: (conflict) => conflicts.push(conflict),
+      },
+    )
+
+    expect(Object.keys(document.paths)).toStrictEqual(['/api/users'])
+    expect(Object.keys(document.paths['/api/users'])).toStrictEqual([
+      'get',
+      'post',
+    ])
+    expect(conflicts).toStrictEqual([
+      {
+        method: 'GET',
+        path: '/api/users',
+        file: 'apps/web/app/api/users/route.ts',
+        conflictsWith: 'apps/admin/app/api/users/route.ts',
+      },
+      {
+        method: 'POST',
+        path: '/api/users',
+        file: 'apps/admin/app/api/users/route.ts',
+        conflictsWith: 'apps/docs/app/api/users/route.ts',
+      },
+    ])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  formatRecords,
+  parseOutputFormat,
+  selectFields,
+  type OutputField,
+} from '@/lib/output'
+
+type Row = { path: string; methods: string[]; config: object; note?: string }
+
+const FIELDS: OutputField<Row>[] = [
+  { name: 'path', value: (row) => row.path },
+  { name: 'methods', value: (row) => row.methods },
+  { name: 'config', value: (row) => row.config as Record<string, unknown> },
+  { name: 'note', value: (row) => row.note },
+]
+
+const ROWS: Row[] = [
+  { path: '/api/users', methods: ['GET', 'POST'], config: {} },
+  {
+    path: '/api/a|b',
+    methods: ['GET'],
+    config: { runtime: 'edge', preferredRegion: ['iad1', 'sfo1'] },
+    note: 'says "hi", twice',
+  },
+]
+
+describe('parseOutputFormat', () => {
+  it('defaults to the table and accepts aliases', () => {
+    expect(parseOutputFormat(undefined)).toBe('table')
+    expect(parseOutputFormat('JSON')).toBe('json')
+    expect(parseOutputFormat('md')).toBe('markdown')
+    expect(parseOutputFormat('yml')).toBe('yaml')
+    expect(() => parseOutputFormat('xml')).toThrow('Invalid format: xml')
+  })
+
+  it('only accepts the formats a command supports', () => {
+    const formats = ['table', 'markdown', 'json'] as const
+    expect(parseOutputFormat('md', formats)).toBe('markdown')
+    expect(() => parseOutputFormat('csv', formats)).toThrow(
+      'Valid formats are: table, markdown, json',
+    )
+  })
+})
+
+describe('selectFields', () => {
+  it('keeps the requested order and accepts comma-separated names', () => {
+    expect(selectFields(FIELDS, undefined)).toBe(FIELDS)
+    expect(
+      selectFields(FIELDS, ['note,path', 'methods']).map((field) => field.name),
+    ).toStrictEqual(['note', 'path', 'methods'])
+    expect(() => selectFields(FIELDS, ['nope'])).toThrow('Unknown field: nope')
+  })
+})
+
+describe('formatRecords', () => {
+  it('writes JSON and NDJSON with null for missing values', () => {
+    const fields = selectFields(FIELDS, ['path', 'note'])
+
+    expect(JSON.parse(formatRecords(ROWS, fields, 'json'))).toStrictEqual([
+      { path: '/api/users', note: null },
+      { path: '/api/a|b', note: 'says "hi", twice' },
+    ])
+    expect(formatRecords(ROWS, fields, 'ndjson').split('\n')).toStrictEqual([
+      '{"path":"/api/users","note":null}',
+      '{"path":"/api/a|b","note":"says \\"hi\\", twice"}',
+    ])
+  })
+
+  it('flattens lists and objects for CSV and Markdown', () => {
+    expect(formatRecords(ROWS, FIELDS, 'csv')).toBe(
+      [
+        'path,methods,config,note',
+        '/api/users,GET POST,,',
+        '/api/a|b,GET,"runtime=edge preferredRegion=iad1,sfo1","says ""hi"", twice"',
+      ].join('\n'),
+    )
+    expect(formatRecords(ROWS, FIELDS, 'markdown')).toBe(
+      [
+        '| path | methods | config | note |',
+        '| --- | --- | --- | --- |',
+        '| /api/users | GET POST |  |  |',
+        '| /api/a\\|b | GET | runtime=edge preferredRegion=iad1,sfo1 | says "hi", twice |',
+      ].join('\n'),
+    )
+  })
+})
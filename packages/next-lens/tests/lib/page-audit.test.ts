@@ -0,0 +1,128 @@
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { auditPages } from '@/lib/page-audit'
+import { getPageRoutes } from '@/lib/page-routes'
+
+import { useTempProject } from '../helpers/temp-project'
+
+describe('page metadata', () => {
+  const project = useTempProject('metadata')
+
+  beforeEach(async () => {
+    const page = 'export default function Page() {}\n'
+    await project.writeFile(
+      'app/layout.tsx',
+      [
+        "import type { Metadata } from 'next'",
+        'export const metadata = {',
+        "  title: { default: 'Acme', template: '%s | Acme' },",
+        "  description: 'Acme store',",
+        '  openGraph: { images: [getImage()] },',
+        '} satisfies Metadata',
+        'export default function Layout() {}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile('app/page.tsx', page)
+    await project.writeFile('app/icon.png', '')
+    await project.writeFile(
+      'app/robots.ts',
+      'export default function robots() {}\n',
+    )
+    await project.writeFile(
+      'app/about/page.tsx',
+      "export const metadata = { title: 'About' }\n" + page,
+    )
+    await project.writeFile(
+      'app/team/page.tsx',
+      "export const metadata = { title: 'About' }\n" + page,
+    )
+    await project.writeFile('app/blog/opengraph-image.tsx', page)
+    await project.writeFile(
+      'app/blog/[slug]/page.tsx',
+      'export async function generateMetadata() {}\n' + page,
+    )
+    await project.writeFile(
+      'app/docs/[...slug]/page.tsx',
+      [
+        "export const metadata = { title: { absolute: 'Docs' } }",
+        'export function generateStaticParams() { return [] }',
+        'export function generateViewport() {}',
+        page,
+      ].join('\n'),
+    )
+    await project.writeFile('app/shop/[id]/page.tsx', page)
+  })
+
+  it('merges metadata and metadata files down the layout chain', async () => {
+    const pages = await getPageRoutes(project.root)
+    const byPath = Object.fromEntries(pages.map((p) => [p.path, p.metadata]))
+
+    expect(byPath['/']).toStrictEqual({
+      title: 'Acme',
+      titleFile: 'app/layout.tsx',
+      description: 'Acme store',
+      descriptionFile: 'app/layout.tsx',
+      files: { icon: 'app/icon.png', robots: 'app/robots.ts' },
+    })
+    expect(byPath['/about']).toMatchObject({
+      title: 'About | Acme',
+      titleFile: 'app/about/page.tsx',
+    })
+    expect(byPath['/blog/:slug']).toMatchObject({
+      generatedBy: 'app/blog/[slug]/page.tsx',
+      files: {
+        icon: 'app/icon.png',
+        'opengraph-image': 'app/blog/opengraph-image.tsx',
+        robots: 'app/robots.ts',
+      },
+    })
+    expect(byPath['/docs/:slug*']).toMatchObject({
+      title: 'Docs',
+      staticParams: 'app/docs/[...slug]/page.tsx',
+      viewport: 'app/docs/[...slug]/page.tsx',
+    })
+  })
+
+  it('reports duplicate titles and dynamic routes without static params', async () => {
+    const issues = auditPages(await getPageRoutes(project.root))
+
+    expect(
+      issues.map(({ rule, path, related }) => ({ rule, path, related })),
+    ).toStrictEqual([
+      {
+        rule: 'missing-static-params',
+        path: '/blog/:slug',
+        related: undefined,
+      },
+      { rule: 'missing-static-params', path: '/shop/:id', related: undefined },
+      { rule: 'duplicate-title', path: '/', related: ['/shop/:id'] },
+      { rule: 'duplicate-title', path: '/about', related: ['/team'] },
+      { rule: 'duplicate-title', path: '/shop/:id', related: ['/'] },
+      { rule: 'duplicate-title', path: '/team', related: ['/about'] },
+    ])
+  })
+
+  it('reports missing titles and descriptions without a root metadata export', async () => {
+    await project.writeFile(
+      'app/layout.tsx',
+      'export default function L() {}\n',
+    )
+
+    const issues = auditPages(await getPageRoutes(project.root), {
+      rules: ['missing-title', 'missing-description'],
+    })
+
+    expect(issues.map(({ rule, path }) => `${rule} ${path}`)).toStrictEqual([
+      'missing-title /',
+      'missing-title /shop/:id',
+      'missing-description /',
+      'missing-description /about',
+      'missing-description /docs/:slug*',
+      'missing-description /shop/:id',
+      'missing-description /team',
+    ])
+  })
+})
@@ -8,6 +8,16 @@ import path from 'path'
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 const fixtureRoot = path.join(__dirname, '..', 'fixtures', 'mock-next-app')
 
+const NO_CONVENTIONS: PageInfo['conventions'] = {
+  layout: { status: 'missing' },
+  template: { status: 'missing' },
+  'not-found': { status: 'missing' },
+  forbidden: { status: 'missing' },
+  unauthorized: { status: 'missing' },
+  'global-error': { status: 'missing' },
+  default: { status: 'missing' },
+}
+
 describe('getPageRoutes', () => {
   it('returns page metadata including fallback states for the mock app', async () => {
     const pages = await getPageRoutes(fixtureRoot)
@@ -20,6 +30,25 @@ describe('getPageRoutes', () => {
         error: 'missing',
         loadingPath: undefined,
         errorPath: undefined,
+        conventions: NO_CONVENTIONS,
+        layouts: [],
+        defaultExport: {
+          file: 'app/page.tsx',
+          line: 1,
+          column: 1,
+          endLine: 3,
+          endColumn: 2,
+        },
+        segmentConfig: {},
+        metadata: { files: {} },
+        router: 'app',
+        middleware: 'unmatched',
+        rendering: { mode: 'static', reason: 'no request-time APIs' },
+        components: {
+          environment: 'server',
+          boundaries: [],
+          serverOnlyImports: [],
+        },
       },
       {
         file: 'app/(group)/account/settings/page.tsx',
@@ -28,6 +57,26 @@ describe('getPageRoutes', () => {
         error: 'inherited',
         loadingPath: 'app/(group)/account/loading.tsx',
         errorPath: 'app/(group)/account/error.tsx',
+        conventions: NO_CONVENTIONS,
+        layouts: [],
+        defaultExport: {
+          file: 'app/(group)/account/settings/page.tsx',
+          line: 1,
+          column: 1,
+          endLine: 3,
+          endColumn: 2,
+        },
+        segmentConfig: {},
+        metadata: { files: {} },
+        router: 'app',
+        middleware: 'unmatched',
+        rendering: { mode: 'static', reason: 'no request-time APIs' },
+        components: {
+          environment: 'server',
+          boundaries: [],
+          serverOnlyImports: [],
+        },
+        groups: ['group'],
       },
       {
         file: 'app/blog/[slug]/page.tsx',
@@ -36,6 +85,28 @@ describe('getPageRoutes', () => {
         error: 'inherited',
         loadingPath: 'app/blog/loading.tsx',
         errorPath: 'app/blog/error.tsx',
+        conventions: NO_CONVENTIONS,
+        layouts: [],
+        defaultExport: {
+          file: 'app/blog/[slug]/page.tsx',
+          line: 7,
+          column: 1,
+          endLine: 9,
+          endColumn: 2,
+        },
+        segmentConfig: {},
+        metadata: { files: {} },
+        router: 'app',
+        middleware: 'unmatched',
+        rendering: {
+          mode: 'dynamic',
+          reason: 'dynamic segment without generateStaticParams',
+        },
+        components: {
+          environment: 'server',
+          boundaries: [],
+          serverOnlyImports: [],
+        },
       },
       {
         file: 'app/docs/[...segments]/page.tsx',
@@ -44,6 +115,28 @@ describe('getPageRoutes', () => {
         error: 'co-located',
         loadingPath: 'app/docs/[...segments]/loading.tsx',
         errorPath: 'app/docs/[...segments]/error.tsx',
+        conventions: NO_CONVENTIONS,
+        layouts: [],
+        defaultExport: {
+          file: 'app/docs/[...segments]/page.tsx',
+          line: 7,
+          column: 1,
+          endLine: 9,
+          endColumn: 2,
+        },
+        segmentConfig: {},
+        metadata: { files: {} },
+        router: 'app',
+        middleware: 'unmatched',
+        rendering: {
+          mode: 'dynamic',
+          reason: 'dynamic segment without generateStaticParams',
+        },
+        components: {
+          environment: 'server',
+          boundaries: [],
+          serverOnlyImports: [],
+        },
       },
       {
         file: 'app/guide/[[...section]]/page.tsx',
@@ -52,6 +145,28 @@ describe('getPageRoutes', () => {
         error: 'missing',
         loadingPath: undefined,
         errorPath: undefined,
+        conventions: NO_CONVENTIONS,
+        layouts: [],
+        defaultExport: {
+          file: 'app/guide/[[...section]]/page.tsx',
+          line: 7,
+          column: 1,
+          endLine: 9,
+          endColumn: 2,
+        },
+        segmentConfig: {},
+        metadata: { files: {} },
+        router: 'app',
+        middleware: 'unmatched',
+        rendering: {
+          mode: 'dynamic',
+          reason: 'dynamic segment without generateStaticParams',
+        },
+        components: {
+          environment: 'server',
+          boundaries: [],
+          serverOnlyImports: [],
+        },
       },
     ])
   })
@@ -140,4 +255,149 @@ describe('getPageRoutes', () => {
     expect(guidePage?.loading).toBe('missing')
     expect(guidePage?.error).toBe('missing')
   })
+
+  it('resolves layouts and other file conventions for each page', async () => {
+    const tempRoot = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'next-lens-page-conventions-'),
+    )
+
+    try {
+      const files = [
+        'app/layout.tsx',
+        'app/default.tsx',
+        'app/global-error.tsx',
+        'app/not-found.tsx',
+        'app/(shop)/layout.tsx',
+        'app/(shop)/products/template.tsx',
+        'app/(shop)/products/[id]/page.tsx',
+        'app/(shop)/products/[id]/forbidden.tsx',
+        'app/@modal/default.tsx',
+        'app/@modal/login/page.tsx',
+        'app/@modal/login/default.tsx',
+        'app/@modal/(.)photo/page.tsx',
+      ]
+      for (const file of files) {
+        const filePath = path.join(tempRoot, file)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, 'export default function Page() {}\n')
+      }
+
+      const pages = await getPageRoutes(tempRoot)
+      const product = pages.find((p) => p.path === '/products/:id')
+      const login = pages.find((p) => p.path === '/login')
+      const photo = pages.find((p) => p.path === '/photo')
+
+      expect(product?.layouts).toStrictEqual([
+        'app/layout.tsx',
+        'app/(shop)/layout.tsx',
+      ])
+      expect(product?.conventions).toStrictEqual({
+        layout: { status: 'inherited', path: 'app/(shop)/layout.tsx' },
+        template: {
+          status: 'inherited',
+          path: 'app/(shop)/products/template.tsx',
+        },
+        'not-found': { status: 'inherited', path: 'app/not-found.tsx' },
+        forbidden: {
+          status: 'co-located',
+          path: 'app/(shop)/products/[id]/forbidden.tsx',
+        },
+        unauthorized: { status: 'missing' },
+        'global-error': { status: 'inherited', path: 'app/global-error.tsx' },
+        default: { status: 'missing' },
+      })
+      expect(login?.layouts).toStrictEqual(['app/layout.tsx'])
+      expect(login?.conventions.default).toStrictEqual({
+        status: 'co-located',
+        path: 'app/@modal/login/default.tsx',
+      })
+      expect(photo?.conventions.default).toStrictEqual({
+        status: 'inherited',
+        path: 'app/@modal/default.tsx',
+      })
+    } finally {
+      await fs.rm(tempRoot, { recursive: true, force: true })
+    }
+  })
+
+  it('models parallel slots and intercepting routes as variants of a URL', async () => {
+    const tempRoot = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'next-lens-page-parallel-'),
+    )
+
+    try {
+      const files = [
+        'app/page.tsx',
+        'app/photo/[id]/page.tsx',
+        'app/@modal/(.)photo/[id]/page.tsx',
+        'app/feed/(..)photo/[id]/page.tsx',
+        'app/(shop)/cart/(...)login/page.tsx',
+        'app/@analytics/page.tsx',
+        'app/@analytics/default.tsx',
+      ]
+      for (const file of files) {
+        const filePath = path.join(tempRoot, file)
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, 'export default function Page() {}\n')
+      }
+
+      const pages = await getPageRoutes(tempRoot)
+
+      expect(
+        pages.map(({ path, file, slot, intercepts }) => ({
+          path,
+          file,
+          slot,
+          intercepts,
+        })),
+      ).toStrictEqual([
+        {
+          path: '/',
+          file: 'app/page.tsx',
+          slot: undefined,
+          intercepts: undefined,
+        },
+        {
+          path: '/',
+          file: 'app/@analytics/page.tsx',
+          slot: { name: 'analytics', default: 'app/@analytics/default.tsx' },
+          intercepts: undefined,
+        },
+        {
+          path: '/login',
+          file: 'app/(shop)/cart/(...)login/page.tsx',
+          slot: undefined,
+          intercepts: { convention: '(...)', target: '/login' },
+        },
+        {
+          path: '/photo/:id',
+          file: 'app/photo/[id]/page.tsx',
+          slot: undefined,
+          intercepts: undefined,
+        },
+        {
+          path: '/photo/:id',
+          file: 'app/@modal/(.)photo/[id]/page.tsx',
+          slot: { name: 'modal' },
+          intercepts: {
+            convention: '(.)',
+            target: '/photo/:id',
+            targetFile: 'app/photo/[id]/page.tsx',
+          },
+        },
+        {
+          path: '/photo/:id',
+          file: 'app/feed/(..)photo/[id]/page.tsx',
+          slot: undefined,
+          intercepts: {
+            convention: '(..)',
+            target: '/photo/:id',
+            targetFile: 'app/photo/[id]/page.tsx',
+          },
+        },
+      ])
+    } finally {
+      await fs.rm(tempRoot, { recursive: true, force: true })
+    }
+  })
 })
@@ -0,0 +1,189 @@
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { getPageRoutes } from '@/lib/page-routes'
+import { derivePagesRouterPath, isPagesRouterEntry } from '@/lib/pages-router'
+
+import { useTempProject } from '../helpers/temp-project'
+
+describe('pages router', () => {
+  const project = useTempProject('pages')
+
+  beforeEach(async () => {
+    await project.writeFile(
+      'pages/_app.tsx',
+      'export default function App() {}\n',
+    )
+    await project.writeFile(
+      'pages/index.tsx',
+      'export default function Home() {}\n',
+    )
+    await project.writeFile(
+      'pages/blog/[slug].tsx',
+      'export default function Post() {}\n',
+    )
+    await project.writeFile(
+      'pages/api/users.ts',
+      [
+        'export default function handler(req, res) {',
+        '  switch (req.method) {',
+        "    case 'GET':",
+        '      return res.json([])',
+        "    case 'POST':",
+        '      return res.status(201).end()',
+        '  }',
+        '}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'pages/api/ping.ts',
+      [
+        'const handler = async (req, res) => {',
+        '  const { method } = req',
+        "  if (method !== 'POST') return res.status(405).end()",
+        "  res.send('pong')",
+        '}',
+        'export default handler',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'pages/api/legacy.js',
+      'export default (req, res) => res.end()\n',
+    )
+    await project.writeFile(
+      'app/api/users/route.ts',
+      'export function GET() {}\n',
+    )
+    await project.writeFile(
+      'app/blog/[slug]/page.tsx',
+      'export default function Post() {}\n',
+    )
+    await project.writeFile(
+      'src/components/pages/Card.tsx',
+      'export default function Card() {}\n',
+    )
+  })
+
+  it('maps Pages Router files to URLs', () => {
+    const pages = path.join(project.root, 'pages')
+
+    expect(derivePagesRouterPath(path.join(pages, 'index.tsx'), pages)).toBe(
+      '/',
+    )
+    expect(
+      derivePagesRouterPath(
+        path.join(pages, 'docs/[...slug]/index.tsx'),
+        pages,
+      ),
+    ).toBe('/docs/:slug*')
+    expect(isPagesRouterEntry('_document.tsx')).toBe(false)
+    expect(isPagesRouterEntry('types.d.ts')).toBe(false)
+    expect(isPagesRouterEntry('blog/_draft.tsx')).toBe(true)
+  })
+
+  it('lists pages/api handlers with the methods they branch on', async () => {
+    const routes = await getApiRoutes(project.root)
+
+    expect(
+      routes.map(({ path, router, methods }) => ({ path, router, methods })),
+    ).toStrictEqual([
+      { path: '/api/legacy', router: 'pages', methods: ['ANY'] },
+      { path: '/api/ping', router: 'pages', methods: ['POST'] },
+      { path: '/api/users', router: 'app', methods: ['GET'] },
+      { path: '/api/users', router: 'pages', methods: ['GET', 'POST'] },
+    ])
+    expect(routes[3].handlers[1]).toMatchObject({
+      method: 'POST',
+      file: 'pages/api/users.ts',
+      line: 5,
+      column: 10,
+    })
+  })
+
+  it('keeps ANY handlers when filtering by method', async () => {
+    const routes = await getApiRoutes(project.root, 'delete')
+
+    expect(routes.map(({ path }) => path)).toStrictEqual(['/api/legacy'])
+  })
+
+  it('lists pages from both routers and flags conflicting URLs', async () => {
+    const pages = await getPageRoutes(project.root)
+
+    expect(
+      pages.map(({ path, router, file, conflictsWith }) => ({
+        path,
+        router,
+        file,
+        conflictsWith,
+      })),
+    ).toStrictEqual([
+      {
+        path: '/',
+        router: 'pages',
+        file: 'pages/index.tsx',
+        conflictsWith: undefined,
+      },
+      {
+        path: '/blog/:slug',
+        router: 'app',
+        file: 'app/blog/[slug]/page.tsx',
+        conflictsWith: 'pages/blog/[slug].tsx',
+      },
+      {
+        path: '/blog/:slug',
+        router: 'pages',
+        file: 'pages/blog/[slug].tsx',
+        conflictsWith: 'app/blog/[slug]/page.tsx',
+      },
+    ])
+  })
+
+  it('flags API routes claimed by both routers', async () => {
+    const routes = await getApiRoutes(project.root)
+    const users = routes.filter((route) => route.path === '/api/users')
+
+    expect(users.map(({ conflictsWith }) => conflictsWith)).toStrictEqual([
+      'pages/api/users.ts',
+      'app/api/users/route.ts',
+    ])
+  })
+  it('treats a pages segment inside app as an App Router route', async () => {
+    await project.writeFile(
+      'app/pages/page.tsx',
+      'export default function Pages() {}\n',
+    )
+    await project.writeFile(
+      'app/pages/settings/page.tsx',
+      'export default function Settings() {}\n',
+    )
+    await project.writeFile(
+      'app/pages/api/route.ts',
+      'export function GET() {}\n',
+    )
+
+    const pages = await getPageRoutes(project.root)
+    const routes = await getApiRoutes(project.root)
+
+    expect(
+      pages
+        .filter((page) => page.path.startsWith('/pages'))
+        .map(({ path, router, file }) => ({ path, router, file })),
+    ).toStrictEqual([
+      { path: '/pages', router: 'app', file: 'app/pages/page.tsx' },
+      {
+        path: '/pages/settings',
+        router: 'app',
+        file: 'app/pages/settings/page.tsx',
+      },
+    ])
+    expect(
+      routes
+        .filter((route) => route.path === '/pages/api')
+        .map(({ router, file }) => ({ router, file })),
+    ).toStrictEqual([{ router: 'app', file: 'app/pages/api/route.ts' }])
+  })
+})
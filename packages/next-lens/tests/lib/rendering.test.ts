@@ -0,0 +1,178 @@
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { getPageRoutes } from '@/lib/page-routes'
+import { toManifestRoute } from '@/lib/rendering'
+
+import { useTempProject } from '../helpers/temp-project'
+
+describe('toManifestRoute', () => {
+  it('converts route paths back to Next.js segment names', () => {
+    expect(toManifestRoute('/')).toBe('/')
+    expect(toManifestRoute('/blog/:slug')).toBe('/blog/[slug]')
+    expect(toManifestRoute('/docs/:path*')).toBe('/docs/[...path]')
+    expect(toManifestRoute('/shop/:path*?')).toBe('/shop/[[...path]]')
+  })
+})
+
+describe('rendering prediction', () => {
+  const project = useTempProject('rendering')
+
+  beforeEach(async () => {
+    await project.writeFile(
+      'app/page.tsx',
+      'export default function Page() {}\n',
+    )
+    await project.writeFile(
+      'app/account/page.tsx',
+      [
+        "import { getUser } from '../../lib/session'",
+        'export default async function Page() {}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'lib/session.ts',
+      [
+        "import { cookies as readCookies } from 'next/headers'",
+        'export async function getUser() {',
+        '  return (await readCookies()).get("user")',
+        '}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'app/search/page.tsx',
+      'export default function Page({ searchParams }) {}\n',
+    )
+    await project.writeFile(
+      'app/news/page.tsx',
+      [
+        'export default async function Page() {',
+        "  await fetch('https://example.com', { next: { revalidate: 60 } })",
+        '}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'app/blog/[slug]/page.tsx',
+      [
+        'export async function generateStaticParams() { return [] }',
+        'export default function Page() {}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'app/feed/[id]/page.tsx',
+      [
+        "import { headers } from 'next/headers'",
+        "export const dynamic = 'force-static'",
+        'export const revalidate = 300',
+        'export default function Page() { headers() }',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'pages/profile.tsx',
+      [
+        'export async function getServerSideProps() { return { props: {} } }',
+        'export default function Profile() {}',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('predicts the mode from segment config, request-time APIs and fetch options', async () => {
+    const pages = await getPageRoutes(project.root)
+    const rendering = Object.fromEntries(
+      pages.map((page) => [page.path, page.rendering]),
+    )
+
+    expect(rendering).toStrictEqual({
+      '/': { mode: 'static', reason: 'no request-time APIs' },
+      '/account': {
+        mode: 'dynamic',
+        reason: 'cookies() is called',
+        file: 'lib/session.ts',
+        line: 3,
+      },
+      '/blog/:slug': {
+        mode: 'static',
+        reason: 'generateStaticParams prerenders each path',
+      },
+      '/feed/:id': { mode: 'isr', revalidate: 300, reason: 'revalidate = 300' },
+      '/news': {
+        mode: 'isr',
+        revalidate: 60,
+        reason: 'fetch with revalidate: 60',
+        file: 'app/news/page.tsx',
+        line: 2,
+      },
+      '/profile': { mode: 'dynamic', reason: 'exports getServerSideProps' },
+      '/search': {
+        mode: 'dynamic',
+        reason: 'searchParams is read',
+        file: 'app/search/page.tsx',
+        line: 1,
+      },
+    })
+  })
+
+  it('predicts partial prerendering for opted-in segments', async () => {
+    await project.writeFile(
+      'next.config.ts',
+      "export default { experimental: { ppr: 'incremental' } }\n",
+    )
+    await project.writeFile(
+      'app/account/layout.tsx',
+      'export const experimental_ppr = true\nexport default function Layout() {}\n',
+    )
+
+    const pages = await getPageRoutes(project.root)
+    const byPath = (routePath: string) =>
+      pages.find((page) => page.path === routePath)?.rendering
+
+    expect(byPath('/account')?.mode).toBe('ppr')
+    expect(byPath('/search')?.mode).toBe('dynamic')
+  })
+
+  it('compares the prediction with the prerender manifest of a build', async () => {
+    await project.writeFile(
+      '.next/prerender-manifest.json',
+      JSON.stringify({
+        routes: {
+          '/': { initialRevalidateSeconds: false, srcRoute: '/' },
+          '/news': { initialRevalidateSeconds: 60, srcRoute: '/news' },
+          '/search': { initialRevalidateSeconds: false, srcRoute: '/search' },
+          '/blog/hello': {
+            initialRevalidateSeconds: false,
+            srcRoute: '/blog/[slug]',
+          },
+        },
+        dynamicRoutes: { '/blog/[slug]': {} },
+      }),
+    )
+
+    const pages = await getPageRoutes(project.root)
+    const builds = Object.fromEntries(
+      pages.map((page) => [page.path, page.rendering.build]),
+    )
+
+    expect(builds['/']).toStrictEqual({ mode: 'static', matches: true })
+    expect(builds['/news']).toStrictEqual({
+      mode: 'isr',
+      revalidate: 60,
+      matches: true,
+    })
+    expect(builds['/blog/:slug']).toStrictEqual({
+      mode: 'static',
+      matches: true,
+    })
+    expect(builds['/account']).toStrictEqual({
+      mode: 'dynamic',
+      matches: true,
+    })
+    expect(builds['/search']).toStrictEqual({ mode: 'static', matches: false })
+  })
+})
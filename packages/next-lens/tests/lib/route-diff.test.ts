@@ -0,0 +1,209 @@
+import { execFileSync } from 'child_process'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { diffRouteSnapshots, loadRouteSnapshot } from '@/lib/route-diff'
+
+import { useTempProject, writeFile } from '../helpers/temp-project'
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync(
+    'git',
+    ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+    { cwd, encoding: 'utf8' },
+  ).trim()
+}
+
+const page = 'export default function Page() {}\n'
+
+describe('route diff', () => {
+  const repo = useTempProject('diff-test')
+  let root: string
+
+  beforeEach(async () => {
+    // The project lives in a subdirectory, as in a monorepo
+    root = path.join(repo.root, 'web')
+
+    await writeFile(
+      root,
+      'app/api/users/route.ts',
+      'export function GET() {}\nexport function DELETE() {}\n',
+    )
+    await writeFile(
+      root,
+      'app/api/legacy/route.ts',
+      'export function GET() {}\n',
+    )
+    await writeFile(
+      root,
+      'app/api/posts/[slug]/route.ts',
+      'export function GET() {}\n',
+    )
+    await writeFile(root, 'app/blog/page.tsx', page)
+    await writeFile(root, 'app/blog/loading.tsx', page)
+    await writeFile(root, 'app/shop/page.tsx', page)
+
+    git(repo.root, 'init', '--quiet')
+    git(repo.root, 'add', '-A')
+    git(repo.root, 'commit', '--quiet', '-m', 'base')
+
+    await fs.rm(path.join(root, 'app/api/legacy'), { recursive: true })
+    await fs.rm(path.join(root, 'app/api/posts'), { recursive: true })
+    await writeFile(
+      root,
+      'app/api/posts/[id]/route.ts',
+      'export function GET() {}\nexport function PATCH() {}\n',
+    )
+    await writeFile(
+      root,
+      'app/api/users/route.ts',
+      'export function GET() {}\n',
+    )
+    await fs.rm(path.join(root, 'app/blog/loading.tsx'))
+    await writeFile(root, 'app/shop/error.tsx', page)
+    await writeFile(
+      root,
+      'app/api/health/route.ts',
+      'export function HEAD() {}\n',
+    )
+  })
+
+  it('compares a git revision with the working copy', async () => {
+    const base = await loadRouteSnapshot(root, { ref: 'HEAD' })
+    const head = await loadRouteSnapshot(root)
+
+    expect(diffRouteSnapshots(base, head)).toStrictEqual([
+      {
+        type: 'route-removed',
+        kind: 'route',
+        path: '/api/legacy',
+        file: 'app/api/legacy/route.ts',
+        methods: ['GET'],
+      },
+      {
+        type: 'methods-removed',
+        kind: 'route',
+        path: '/api/users',
+        file: 'app/api/users/route.ts',
+        methods: ['DELETE'],
+      },
+      {
+        type: 'params-renamed',
+        kind: 'route',
+        path: '/api/posts/:id',
+        file: 'app/api/posts/[id]/route.ts',
+        previousPath: '/api/posts/:slug',
+      },
+      {
+        type: 'coverage-lost',
+        kind: 'page',
+        path: '/blog',
+        file: 'app/blog/page.tsx',
+        fallback: 'loading',
+      },
+      {
+        type: 'route-added',
+        kind: 'route',
+        path: '/api/health',
+        file: 'app/api/health/route.ts',
+        methods: ['HEAD'],
+      },
+      {
+        type: 'methods-added',
+        kind: 'route',
+        path: '/api/posts/:id',
+        file: 'app/api/posts/[id]/route.ts',
+        methods: ['PATCH'],
+      },
+      {
+        type: 'coverage-gained',
+        kind: 'page',
+        path: '/shop',
+        file: 'app/shop/page.tsx',
+        fallback: 'error',
+      },
+    ])
+  })
+
+  it('leaves the working copy and the worktree list untouched', async () => {
+    const status = git(repo.root, 'status', '--porcelain')
+
+    await loadRouteSnapshot(root, { ref: 'HEAD' })
+
+    expect(git(repo.root, 'status', '--porcelain')).toBe(status)
+    expect(git(repo.root, 'worktree', 'list').split('\n')).toHaveLength(1)
+  })
+
+  it('rejects unknown revisions', async () => {
+    await expect(loadRouteSnapshot(root, { ref: 'nope' })).rejects.toThrow(
+      'Unknown git revision: nope',
+    )
+  })
+})
+
+describe('route diff pairing', () => {
+  const project = useTempProject('diff-pairs')
+
+  const snapshot = () => loadRouteSnapshot(project.root)
+
+  it('pairs routes of the same app in a monorepo', async () => {
+    await project.writeFile(
+      'package.json',
+      JSON.stringify({ workspaces: ['apps/*'] }),
+    )
+    for (const app of ['shop', 'admin']) {
+      await project.writeFile(
+        `apps/${app}/package.json`,
+        JSON.stringify({ name: app, dependencies: { next: '15.0.0' } }),
+      )
+    }
+    await project.writeFile(
+      'apps/shop/app/api/health/route.ts',
+      'export function GET() {}\n',
+    )
+    await project.writeFile(
+      'apps/admin/app/api/health/route.ts',
+      'export function HEAD() {}\n',
+    )
+
+    const base = await snapshot()
+    expect(diffRouteSnapshots(base, await snapshot())).toStrictEqual([])
+
+    await project.writeFile(
+      'apps/admin/app/api/health/route.ts',
+      'export function HEAD() {}\nexport function GET() {}\n',
+    )
+    expect(diffRouteSnapshots(base, await snapshot())).toStrictEqual([
+      {
+        type: 'methods-added',
+        kind: 'route',
+        path: '/api/health',
+        file: 'apps/admin/app/api/health/route.ts',
+        methods: ['GET'],
+      },
+    ])
+  })
+
+  it('keeps intercepting routes apart from the page they intercept', async () => {
+    await project.writeFile('app/photo/[id]/page.tsx', page)
+    await project.writeFile('app/photo/[id]/loading.tsx', page)
+    await project.writeFile('app/feed/page.tsx', page)
+    await project.writeFile('app/feed/(..)photo/[id]/page.tsx', page)
+
+    const base = await snapshot()
+    expect(diffRouteSnapshots(base, await snapshot())).toStrictEqual([])
+
+    await project.writeFile('app/feed/(..)photo/[id]/error.tsx', page)
+    expect(diffRouteSnapshots(base, await snapshot())).toStrictEqual([
+      {
+        type: 'coverage-gained',
+        kind: 'page',
+        path: '/photo/:id',
+        file: 'app/feed/(..)photo/[id]/page.tsx',
+        fallback: 'error',
+      },
+    ])
+  })
+})
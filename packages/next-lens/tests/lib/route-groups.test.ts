@@ -0,0 +1,85 @@
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { getPageRoutes } from '@/lib/page-routes'
+import { matchesRouteGroups, parseRouteGroup } from '@/lib/route-groups'
+
+import { useTempProject } from '../helpers/temp-project'
+
+describe('route groups', () => {
+  const project = useTempProject('groups')
+
+  beforeEach(async () => {
+    const page = 'export default function Page() {}\n'
+    await project.writeFile('app/(marketing)/layout.tsx', page)
+    await project.writeFile('app/(marketing)/page.tsx', page)
+    await project.writeFile('app/(marketing)/(blog)/posts/page.tsx', page)
+    await project.writeFile('app/(shop)/layout.tsx', page)
+    await project.writeFile('app/(shop)/cart/page.tsx', page)
+    await project.writeFile(
+      'app/(shop)/api/cart/route.ts',
+      'export function GET() {}\n',
+    )
+  })
+
+  it('parses group segments but not intercepting routes', () => {
+    expect(parseRouteGroup('(marketing)')).toBe('marketing')
+    expect(parseRouteGroup('(.)photo')).toBeNull()
+    expect(parseRouteGroup('(...)')).toBeNull()
+    expect(parseRouteGroup('blog')).toBeNull()
+  })
+
+  it('matches group filters with or without parentheses', () => {
+    expect(matchesRouteGroups(['marketing', 'blog'], ['(blog)'])).toBe(true)
+    expect(matchesRouteGroups(['shop'], ['marketing'])).toBe(false)
+    expect(matchesRouteGroups(undefined, ['shop'])).toBe(false)
+    expect(matchesRouteGroups(undefined, undefined)).toBe(true)
+  })
+
+  it('tags pages and routes with their groups and root layout', async () => {
+    const pages = await getPageRoutes(project.root)
+    const routes = await getApiRoutes(project.root)
+
+    expect(
+      pages.map(({ path, groups, rootLayout }) => ({
+        path,
+        groups,
+        rootLayout,
+      })),
+    ).toStrictEqual([
+      {
+        path: '/',
+        groups: ['marketing'],
+        rootLayout: 'app/(marketing)/layout.tsx',
+      },
+      {
+        path: '/cart',
+        groups: ['shop'],
+        rootLayout: 'app/(shop)/layout.tsx',
+      },
+      {
+        path: '/posts',
+        groups: ['marketing', 'blog'],
+        rootLayout: 'app/(marketing)/layout.tsx',
+      },
+    ])
+    expect(routes[0]).toMatchObject({
+      path: '/api/cart',
+      groups: ['shop'],
+      rootLayout: 'app/(shop)/layout.tsx',
+    })
+  })
+
+  it('leaves out rootLayout when app/layout is the only root layout', async () => {
+    await project.writeFile(
+      'app/layout.tsx',
+      'export default function Layout() {}\n',
+    )
+
+    const pages = await getPageRoutes(project.root)
+
+    expect(pages.every((page) => page.rootLayout === undefined)).toBe(true)
+  })
+})
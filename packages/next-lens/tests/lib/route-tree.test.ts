@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { getPageRoutes } from '@/lib/page-routes'
+import { buildRouteTree, type RouteTreeNode } from '@/lib/route-tree'
+import { createScanSession } from '@/lib/scanner'
+
+import { useTempProject } from '../helpers/temp-project'
+
+// Segment names with the files attached to each node, for compact assertions
+function outline(node: RouteTreeNode): unknown {
+  return {
+    segment: node.segment,
+    kind: node.kind,
+    ...(node.page ? { page: node.page.path } : {}),
+    ...(node.route ? { route: node.route.methods } : {}),
+    ...(node.layout ? { layout: node.layout } : {}),
+    ...(node.loading ? { loading: node.loading } : {}),
+    ...(node.children.length ? { children: node.children.map(outline) } : {}),
+  }
+}
+
+describe('buildRouteTree', () => {
+  const project = useTempProject('tree')
+
+  beforeEach(async () => {
+    const page = 'export default function Page() {}\n'
+    await project.writeFile('app/layout.tsx', page)
+    await project.writeFile('app/page.tsx', page)
+    await project.writeFile('app/(shop)/layout.tsx', page)
+    await project.writeFile('app/(shop)/products/[id]/page.tsx', page)
+    await project.writeFile('app/(shop)/products/[id]/loading.tsx', page)
+    await project.writeFile('app/feed/@modal/(.)photo/[id]/page.tsx', page)
+    await project.writeFile('app/feed/page.tsx', page)
+    await project.writeFile(
+      'app/api/health/route.ts',
+      'export function GET() {}\n',
+    )
+    await project.writeFile('pages/legacy/index.tsx', page)
+    await project.writeFile('pages/legacy/[slug].tsx', page)
+  })
+
+  it('nests pages and routes by directory with groups, slots and intercepts', async () => {
+    const session = createScanSession(project.root)
+    const [pages, routes] = await Promise.all([
+      getPageRoutes(project.root, { session }),
+      getApiRoutes(project.root, undefined, { session }),
+    ])
+
+    expect(buildRouteTree(pages, routes).map(outline)).toStrictEqual([
+      {
+        segment: 'app',
+        kind: 'root',
+        page: '/',
+        layout: 'app/layout.tsx',
+        children: [
+          {
+            segment: 'api',
+            kind: 'static',
+            children: [{ segment: 'health', kind: 'static', route: ['GET'] }],
+          },
+          {
+            segment: 'feed',
+            kind: 'static',
+            page: '/feed',
+            children: [
+              {
+                segment: '@modal',
+                kind: 'slot',
+                children: [
+                  {
+                    segment: '(.)photo',
+                    kind: 'intercept',
+                    children: [
+                      {
+                        segment: '[id]',
+                        kind: 'dynamic',
+                        page: '/feed/photo/:id',
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            segment: '(shop)',
+            kind: 'group',
+            layout: 'app/(shop)/layout.tsx',
+            children: [
+              {
+                segment: 'products',
+                kind: 'static',
+                children: [
+                  {
+                    segment: '[id]',
+                    kind: 'dynamic',
+                    page: '/products/:id',
+                    loading: 'app/(shop)/products/[id]/loading.tsx',
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        segment: 'pages',
+        kind: 'root',
+        children: [
+          {
+            segment: 'legacy',
+            kind: 'static',
+            page: '/legacy',
+            children: [
+              { segment: '[slug]', kind: 'dynamic', page: '/legacy/:slug' },
+            ],
+          },
+        ],
+      },
+    ])
+  })
+  it('keeps app/pages and pages/app under their own routers', async () => {
+    await fs.rm(path.join(project.root, 'app'), { recursive: true })
+    await fs.rm(path.join(project.root, 'pages'), { recursive: true })
+    const page = 'export default function Page() {}\n'
+    await project.writeFile('app/pages/page.tsx', page)
+    await project.writeFile('pages/app.tsx', page)
+
+    const session = createScanSession(project.root)
+    const [pages, routes] = await Promise.all([
+      getPageRoutes(project.root, { session }),
+      getApiRoutes(project.root, undefined, { session }),
+    ])
+
+    expect(buildRouteTree(pages, routes).map(outline)).toStrictEqual([
+      {
+        segment: 'app',
+        kind: 'root',
+        children: [{ segment: 'pages', kind: 'static', page: '/pages' }],
+      },
+      {
+        segment: 'pages',
+        kind: 'root',
+        children: [{ segment: 'app', kind: 'static', page: '/app' }],
+      },
+    ])
+  })
+})
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { getPageRoutes } from '@/lib/page-routes'
+import {
+  CACHE_DIRECTORY,
+  clearScanCache,
+  createScanSession,
+  formatScanStats,
+} from '@/lib/scanner'
+
+describe('createScanSession', () => {
+  let root: string
+
+  beforeEach(async () => {
+    clearScanCache()
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-scan-'))
+    await fs.mkdir(path.join(root, 'app/api/users'), { recursive: true })
+    await fs.mkdir(path.join(root, 'node_modules/pkg/app'), { recursive: true })
+    await fs.writeFile(
+      path.join(root, 'app/api/users/route.ts'),
+      "export { GET } from './handlers'\n",
+    )
+    await fs.writeFile(
+      path.join(root, 'app/api/users/handlers.ts'),
+      'export function GET() {}\n',
+    )
+    await fs.writeFile(
+      path.join(root, 'app/layout.tsx'),
+      "export const runtime = 'edge'\nexport default function Layout() {}\n",
+    )
+    await fs.writeFile(
+      path.join(root, 'app/page.tsx'),
+      'export default function Page() {}\n',
+    )
+    await fs.writeFile(
+      path.join(root, 'node_modules/pkg/app/page.tsx'),
+      'export default function Page() {}\n',
+    )
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('collects route and page files in a single walk', async () => {
+    const session = createScanSession(root)
+    const files = await session.files()
+
+    expect(files.routeFiles).toStrictEqual([
+      path.join(root, 'app/api/users/route.ts'),
+    ])
+    expect(files.pageFiles).toStrictEqual([path.join(root, 'app/page.tsx')])
+    expect(await session.files()).toBe(files)
+    expect(
+      await session.findConventionFile(path.join(root, 'app'), 'layout', [
+        '.ts',
+        '.tsx',
+      ]),
+    ).toBe(path.join(root, 'app/layout.tsx'))
+  })
+
+  it('only collects files under the configured app directories', async () => {
+    await fs.mkdir(path.join(root, 'examples/app'), { recursive: true })
+    await fs.writeFile(
+      path.join(root, 'examples/app/page.tsx'),
+      'export default function Page() {}\n',
+    )
+
+    const session = createScanSession(root, {
+      appDirs: [path.join(root, 'app')],
+    })
+    const files = await session.files()
+
+    expect(files.pageFiles).toStrictEqual([path.join(root, 'app/page.tsx')])
+    expect(files.directories.has(path.join(root, 'examples'))).toBe(false)
+  })
+
+  it('shares one session between route and page scans', async () => {
+    const session = createScanSession(root)
+    const [routes, pages] = await Promise.all([
+      getApiRoutes(root, undefined, { session }),
+      getPageRoutes(root, { session }),
+    ])
+
+    expect(routes.map((route) => route.path)).toStrictEqual(['/api/users'])
+    expect(pages[0].segmentConfig).toStrictEqual({ runtime: 'edge' })
+
+    const stats = session.getStats()
+    expect(stats.directories).toBe(4)
+    expect(stats.parsed).toBe(3)
+    // The layout is read again for its metadata, from memory
+    expect(stats.cached).toBe(1)
+  })
+
+  it('reuses summaries until a module or its dependencies change', async () => {
+    const routeFile = path.join(root, 'app/api/users/route.ts')
+    await createScanSession(root).summarize(routeFile)
+
+    const cached = createScanSession(root)
+    expect(Object.keys((await cached.summarize(routeFile)).exports)).toEqual([
+      'GET',
+    ])
+    expect(cached.getStats()).toMatchObject({ parsed: 0, cached: 1 })
+
+    await fs.writeFile(
+      path.join(root, 'app/api/users/handlers.ts'),
+      'export function GET() {}\nexport function POST() {}\n',
+    )
+    await fs.writeFile(routeFile, "export { GET, POST } from './handlers'\n")
+
+    const changed = createScanSession(root)
+    expect(Object.keys((await changed.summarize(routeFile)).exports)).toEqual([
+      'GET',
+      'POST',
+    ])
+    expect(changed.getStats()).toMatchObject({ parsed: 1, cached: 0 })
+  })
+
+  it('invalidates a summary when only a re-exported module changes', async () => {
+    const routeFile = path.join(root, 'app/api/users/route.ts')
+    const before = await createScanSession(root).summarize(routeFile)
+
+    await fs.writeFile(
+      path.join(root, 'app/api/users/handlers.ts'),
+      '\n\nexport function GET() {}\n',
+    )
+
+    const after = await createScanSession(root).summarize(routeFile)
+    expect(after.exports.GET.line).toBe(before.exports.GET.line + 2)
+  })
+
+  it('invalidates a summary when a missing re-export target is created', async () => {
+    const routeFile = path.join(root, 'app/api/users/route.ts')
+    await fs.writeFile(
+      routeFile,
+      "export { GET } from './handlers'\nexport * from './admin'\n",
+    )
+    const before = await createScanSession(root).summarize(routeFile)
+    expect(Object.keys(before.exports)).toEqual(['GET'])
+
+    await fs.writeFile(
+      path.join(root, 'app/api/users/admin.ts'),
+      'export function DELETE() {}\n',
+    )
+
+    const session = createScanSession(root)
+    const after = await session.summarize(routeFile)
+    expect(Object.keys(after.exports)).toEqual(['GET', 'DELETE'])
+    expect(session.getStats()).toMatchObject({ parsed: 1, cached: 0 })
+  })
+
+  it('persists summaries under .next-lens/cache when enabled', async () => {
+    const routeFile = path.join(root, 'app/api/users/route.ts')
+
+    const first = createScanSession(root, { persistentCache: true })
+    await first.summarize(routeFile)
+    await first.persist()
+
+    const cachePath = path.join(root, CACHE_DIRECTORY, 'modules.json')
+    const data = JSON.parse(await fs.readFile(cachePath, 'utf8'))
+    expect(Object.keys(data.entries)).toStrictEqual([routeFile])
+
+    clearScanCache()
+    const second = createScanSession(root, { persistentCache: true })
+    await second.summarize(routeFile)
+    expect(second.getStats()).toMatchObject({ parsed: 0, cached: 1 })
+  })
+
+  it('does not write a cache file by default', async () => {
+    const session = createScanSession(root)
+    await getApiRoutes(root, undefined, { session })
+    await session.persist()
+
+    await expect(fs.access(path.join(root, '.next-lens'))).rejects.toThrow()
+  })
+})
+
+describe('formatScanStats', () => {
+  it('summarizes timings and cache hits on one line', () => {
+    expect(
+      formatScanStats({
+        durationMs: 12.4,
+        walkMs: 3.2,
+        analyzeMs: 8.6,
+        directories: 4,
+        files: 10,
+        parsed: 2,
+        cached: 5,
+      }),
+    ).toBe(
+      'Scanned 10 files in 4 directories · 12ms total · walk 3ms · analyze 9ms · 2 parsed · 5 cached',
+    )
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { getPageRoutes } from '../../src/lib/page-routes'
+import {
+  formatSegmentConfig,
+  matchesSegmentConfig,
+  mergeSegmentConfigs,
+  parseSegmentConfigFilters,
+  readSegmentConfig,
+} from '../../src/lib/segment-config'
+
+async function withFiles(
+  files: Record<string, string>,
+  run: (root: string) => Promise<void>,
+) {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-segment-'))
+  try {
+    for (const [name, contents] of Object.entries(files)) {
+      const target = path.join(root, name)
+      await fs.mkdir(path.dirname(target), { recursive: true })
+      await fs.writeFile(target, contents)
+    }
+    await run(root)
+  } finally {
+    await fs.rm(root, { recursive: true, force: true })
+  }
+}
+
+describe('readSegmentConfig', () => {
+  it('extracts statically analyzable segment config exports', async () => {
+    await withFiles(
+      {
+        'route.ts': [
+          "export const runtime = 'edge'",
+          "export const dynamic = 'force-dynamic'",
+          'export const dynamicParams = false',
+          'export const revalidate = 60',
+          "export const fetchCache = 'only-no-store'",
+          "export const preferredRegion = ['iad1', 'sfo1']",
+          'export const maxDuration = 30',
+        ].join('\n'),
+      },
+      async (root) => {
+        expect(
+          await readSegmentConfig(path.join(root, 'route.ts')),
+        ).toStrictEqual({
+          runtime: 'edge',
+          dynamic: 'force-dynamic',
+          dynamicParams: false,
+          revalidate: 60,
+          fetchCache: 'only-no-store',
+          preferredRegion: ['iad1', 'sfo1'],
+          maxDuration: 30,
+        })
+      },
+    )
+  })
+
+  it('ignores invalid and non-static values', async () => {
+    await withFiles(
+      {
+        'route.ts': [
+          "export const runtime = 'deno'",
+          'export const revalidate = getRevalidate()',
+          "export const maxDuration = '30'",
+          "export const dynamic = 'force-static' as const",
+        ].join('\n'),
+      },
+      async (root) => {
+        expect(
+          await readSegmentConfig(path.join(root, 'route.ts')),
+        ).toStrictEqual({ dynamic: 'force-static' })
+      },
+    )
+  })
+})
+
+describe('getPageRoutes segment config', () => {
+  it('inherits segment config from parent layouts', async () => {
+    await withFiles(
+      {
+        'app/layout.tsx': [
+          "export const runtime = 'edge'",
+          'export const revalidate = 30',
+          'export default function Layout() {}',
+        ].join('\n'),
+        'app/page.tsx': 'export default function Page() {}',
+        'app/blog/layout.tsx': [
+          "export const dynamic = 'force-static'",
+          'export const revalidate = 3600',
+          'export default function Layout() {}',
+        ].join('\n'),
+        'app/blog/[slug]/page.tsx': [
+          "export const runtime = 'nodejs'",
+          'export const revalidate = 10',
+          'export default function Page() {}',
+        ].join('\n'),
+      },
+      async (root) => {
+        const pages = await getPageRoutes(root)
+
+        expect(
+          pages.map(({ path, segmentConfig }) => ({ path, segmentConfig })),
+        ).toStrictEqual([
+          { path: '/', segmentConfig: { runtime: 'edge', revalidate: 30 } },
+          {
+            path: '/blog/:slug',
+            segmentConfig: {
+              runtime: 'nodejs',
+              dynamic: 'force-static',
+              revalidate: 10,
+            },
+          },
+        ])
+      },
+    )
+  })
+})
+
+describe('mergeSegmentConfigs', () => {
+  it('lets children override parents and keeps the lowest revalidate', () => {
+    expect(
+      mergeSegmentConfigs([
+        { runtime: 'edge', revalidate: 10 },
+        { runtime: 'nodejs', revalidate: 60 },
+      ]),
+    ).toStrictEqual({ runtime: 'nodejs', revalidate: 10 })
+  })
+
+  it('treats revalidate false as never revalidating', () => {
+    expect(
+      mergeSegmentConfigs([{ revalidate: false }, { revalidate: 60 }]),
+    ).toStrictEqual({ revalidate: 60 })
+  })
+})
+
+describe('segment config filters', () => {
+  it('parses key=value entries', () => {
+    expect(
+      parseSegmentConfigFilters(['runtime=edge', 'revalidate=60']),
+    ).toStrictEqual({ runtime: 'edge', revalidate: '60' })
+  })
+
+  it('rejects malformed entries and unknown keys', () => {
+    expect(() => parseSegmentConfigFilters(['runtime'])).toThrow(
+      'Invalid segment config filter: runtime (expected key=value)',
+    )
+    expect(() => parseSegmentConfigFilters(['foo=bar'])).toThrow(
+      'Unknown segment config option: foo',
+    )
+  })
+
+  it('matches scalar and array values', () => {
+    const config = {
+      runtime: 'edge' as const,
+      dynamicParams: false,
+      preferredRegion: ['iad1', 'sfo1'],
+    }
+
+    expect(matchesSegmentConfig(config, { runtime: 'edge' })).toBe(true)
+    expect(matchesSegmentConfig(config, { dynamicParams: 'false' })).toBe(true)
+    expect(matchesSegmentConfig(config, { preferredRegion: 'sfo1' })).toBe(true)
+    expect(matchesSegmentConfig(config, { runtime: 'nodejs' })).toBe(false)
+    expect(matchesSegmentConfig(config, { revalidate: '60' })).toBe(false)
+  })
+})
+
+describe('formatSegmentConfig', () => {
+  it('formats config as a compact label', () => {
+    expect(
+      formatSegmentConfig({
+        runtime: 'edge',
+        revalidate: 60,
+        preferredRegion: ['iad1', 'sfo1'],
+      }),
+    ).toBe('edge · revalidate=60 · preferredRegion=iad1,sfo1')
+    expect(formatSegmentConfig({})).toBe('')
+  })
+})
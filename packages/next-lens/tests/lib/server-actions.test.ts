@@ -0,0 +1,128 @@
+import path from 'path'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { getServerActions } from '@/lib/server-actions'
+
+import { useTempProject } from '../helpers/temp-project'
+
+describe('getServerActions', () => {
+  const project = useTempProject('actions')
+
+  beforeEach(async () => {
+    await project.writeFile(
+      'tsconfig.json',
+      JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }),
+    )
+    await project.writeFile(
+      'src/lib/actions.ts',
+      [
+        "'use server'",
+        '',
+        '/** Create a todo. */',
+        'export async function createTodo(data: FormData) {}',
+        'export const deleteTodo = async (id: string) => {}',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('lists the exports of use server modules with their importers', async () => {
+    await project.writeFile(
+      'src/app/page.tsx',
+      [
+        "import { createTodo } from '@/lib/actions'",
+        "import type { deleteTodo } from '../lib/actions'",
+        'export default function Page() {}',
+        '',
+      ].join('\n'),
+    )
+    await project.writeFile(
+      'src/components/todo.tsx',
+      [
+        "'use client'",
+        '',
+        "import * as actions from '../lib/actions'",
+        '',
+      ].join('\n'),
+    )
+
+    const actions = await getServerActions(project.root)
+
+    expect(actions).toStrictEqual([
+      {
+        name: 'createTodo',
+        scope: 'module',
+        exported: true,
+        file: 'src/lib/actions.ts',
+        line: 4,
+        column: 1,
+        endLine: 4,
+        endColumn: 52,
+        doc: { summary: 'Create a todo.' },
+        importedBy: [
+          { file: 'src/app/page.tsx', line: 1, column: 1 },
+          { file: 'src/components/todo.tsx', line: 3, column: 1 },
+        ],
+      },
+      {
+        name: 'deleteTodo',
+        scope: 'module',
+        exported: true,
+        file: 'src/lib/actions.ts',
+        line: 5,
+        column: 1,
+        endLine: 5,
+        endColumn: 51,
+        importedBy: [{ file: 'src/components/todo.tsx', line: 3, column: 1 }],
+      },
+    ])
+  })
+
+  it('finds inline actions inside components', async () => {
+    await project.writeFile(
+      'src/app/todos/page.tsx',
+      [
+        'export default function Page() {',
+        '  async function rename(data: FormData) {',
+        "    'use server'",
+        '  }',
+        "  return <form action={async () => { 'use server' }} />",
+        '}',
+        '',
+      ].join('\n'),
+    )
+
+    const inline = (await getServerActions(project.root)).filter(
+      (action) => action.scope === 'inline',
+    )
+
+    expect(
+      inline.map(({ name, parent, exported, line }) => ({
+        name,
+        parent,
+        exported,
+        line,
+      })),
+    ).toStrictEqual([
+      { name: 'rename', parent: 'Page', exported: false, line: 2 },
+      { name: 'action', parent: 'Page', exported: false, line: 5 },
+    ])
+  })
+
+  it('scans outside the configured app directories', async () => {
+    await project.writeFile(
+      'src/app/page.tsx',
+      'export default function P() {}',
+    )
+
+    const actions = await getServerActions(project.root, {
+      appDirs: [path.join(project.root, 'src/app')],
+    })
+
+    expect(actions.map((action) => action.name)).toStrictEqual([
+      'createTodo',
+      'deleteTodo',
+    ])
+  })
+})
@@ -0,0 +1,209 @@
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+import { beforeAll, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { getPageRoutes } from '@/lib/page-routes'
+import { fuzzyFilter, fuzzyScore } from '@/lib/tui/fuzzy'
+import { renderScreen } from '@/lib/tui/render'
+import {
+  createTuiState,
+  entryLocation,
+  entryPath,
+  handleKey,
+  replaceEntries,
+  selectedEntry,
+  type TuiEntry,
+  type TuiKey,
+  type TuiState,
+} from '@/lib/tui/state'
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const fixtureRoot = path.join(__dirname, '..', 'fixtures', 'mock-next-app')
+
+// Feed keys one by one, keeping the last action
+function press(state: TuiState, ...keys: (string | TuiKey)[]) {
+  let result: ReturnType<typeof handleKey> = { state }
+  for (const key of keys) {
+    result = handleKey(
+      result.state,
+      typeof key === 'string'
+        ? { name: key.toLowerCase(), sequence: key }
+        : key,
+    )
+  }
+  return result
+}
+
+function select(state: TuiState, routePath: string): TuiState {
+  const selected = state.matches.findIndex(
+    (entry) => entryPath(entry) === routePath,
+  )
+  return { ...state, selected }
+}
+
+describe('fuzzyScore', () => {
+  it('matches subsequences and rejects missing characters', () => {
+    expect(fuzzyScore('ausr', '/api/users/:id')).not.toBeNull()
+    expect(fuzzyScore('usrx', '/api/users/:id')).toBeNull()
+    expect(fuzzyScore('', '/anything')).toBe(0)
+  })
+
+  it('ranks consecutive and segment-start matches higher', () => {
+    expect(fuzzyScore('user', '/api/users/:id')!).toBeGreaterThan(
+      fuzzyScore('user', '/api/u-s-e-r')!,
+    )
+    expect(
+      fuzzyFilter(['/docs/:segments*', '/account/settings'], 'set', (t) => t),
+    ).toEqual(['/account/settings', '/docs/:segments*'])
+  })
+})
+
+describe('tui state', () => {
+  let entries: TuiEntry[]
+
+  beforeAll(async () => {
+    const [pages, routes] = await Promise.all([
+      getPageRoutes(fixtureRoot),
+      getApiRoutes(fixtureRoot),
+    ])
+    entries = [
+      ...pages.map((page) => ({ kind: 'page' as const, page })),
+      ...routes.map((route) => ({ kind: 'route' as const, route })),
+    ]
+  })
+
+  it('filters while searching and keeps the query after Enter', () => {
+    const { state } = press(
+      createTuiState(entries),
+      '/',
+      'u',
+      's',
+      'r',
+      'return',
+    )
+
+    expect(state.mode).toBe('browse')
+    expect(state.query).toBe('usr')
+    expect(state.matches.length).toBeLessThan(entries.length)
+    expect(entryPath(selectedEntry(state)!)).toBe('/api/users/:id')
+
+    const cleared = press(state, 'escape').state
+    expect(cleared.query).toBe('')
+    expect(cleared.matches).toHaveLength(entries.length)
+  })
+
+  it('moves the selection within bounds', () => {
+    const state = createTuiState(entries)
+
+    expect(press(state, 'up').state.selected).toBe(0)
+    expect(press(state, 'j', 'j', 'k').state.selected).toBe(1)
+    expect(press(state, 'G').state.selected).toBe(entries.length - 1)
+    expect(press(state, 'pagedown', 'g').state.selected).toBe(0)
+  })
+
+  it('prompts for a method and returns the edit for API routes', () => {
+    const state = select(createTuiState(entries), '/api/users/:id')
+
+    const prompt = press(state, 'a')
+    expect(prompt.state.mode).toBe('add-method')
+    expect(prompt.action).toBeUndefined()
+
+    const { state: next, action } = press(prompt.state, 'p', 'u', 't', 'return')
+    expect(next.mode).toBe('browse')
+    expect(action).toMatchObject({ type: 'add-method', method: 'PUT' })
+
+    const invalid = press(state, 'd', 'x', 'return')
+    expect(invalid.action).toBeUndefined()
+    expect(invalid.state.message).toEqual({
+      text: 'Invalid HTTP method: X',
+      tone: 'error',
+    })
+  })
+
+  it('only offers loading and error files for App Router pages', () => {
+    const page = select(createTuiState(entries), '/blog/:slug')
+    expect(press(page, 'l').action).toMatchObject({ type: 'create-loading' })
+    expect(press(page, 'a').state.message?.text).toBe(
+      'Select an App Router route to edit methods',
+    )
+
+    const route = select(createTuiState(entries), '/api/users/:id')
+    expect(press(route, 'e').action).toBeUndefined()
+    expect(press(route, 'q').action).toEqual({ type: 'quit' })
+    expect(press(route, { name: 'c', ctrl: true }).action).toEqual({
+      type: 'quit',
+    })
+  })
+
+  it('only edits methods of App Router routes', () => {
+    const [route] = entries.flatMap((entry) =>
+      entry.kind === 'route' ? [entry.route] : [],
+    )
+    const pagesRoute: TuiEntry = {
+      kind: 'route',
+      route: {
+        ...route,
+        router: 'pages',
+        file: 'pages/api/legacy.ts',
+        path: '/api/legacy',
+      },
+    }
+    const state = select(createTuiState([pagesRoute]), '/api/legacy')
+
+    for (const key of ['a', 'd']) {
+      const { state: next, action } = press(state, key)
+      expect(next.mode).toBe('browse')
+      expect(action).toBeUndefined()
+      expect(next.message?.text).toBe(
+        'Select an App Router route to edit methods',
+      )
+    }
+  })
+
+  it('opens routes at their first handler and keeps the selection on rescan', () => {
+    const state = select(createTuiState(entries), '/api/users/:id')
+    const entry = selectedEntry(state)!
+
+    expect(press(state, 'return').action).toEqual({ type: 'open', entry })
+    expect(entryLocation(entry)).toMatchObject({
+      file: 'app/api/users/[id]/route.ts',
+    })
+
+    const reversed = replaceEntries(state, [...entries].reverse())
+    expect(entryPath(selectedEntry(reversed)!)).toBe('/api/users/:id')
+  })
+})
+
+describe('renderScreen', () => {
+  it('fills the terminal with the list, preview and key hints', async () => {
+    const routes = await getApiRoutes(fixtureRoot)
+    const state = select(
+      createTuiState(routes.map((route) => ({ kind: 'route', route }))),
+      '/api/users/:id',
+    )
+
+    const lines = renderScreen(
+      state,
+      { columns: 100, rows: 12 },
+      {
+        file: 'app/api/users/[id]/route.ts',
+        lines: ['export function GET() {}', 'export function POST() {}'],
+        focus: 1,
+        marks: [1, 2],
+      },
+    )
+
+    expect(lines).toHaveLength(12)
+    expect(lines[0]).toContain('press / to search')
+    expect(lines.some((line) => line.includes('› API  /api/users/:id'))).toBe(
+      true,
+    )
+    expect(
+      lines.some((line) => line.includes('›1 │ export function GET')),
+    ).toBe(true)
+    expect(lines.at(-1)).toContain('/ search')
+    expect(lines.every((line) => line.length <= 100)).toBe(true)
+  })
+})
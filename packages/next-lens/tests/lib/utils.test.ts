@@ -4,6 +4,7 @@ import {
   expandHome,
   ensureDirectory,
   transformSegment,
+  matchesRoutePrefix,
   SKIP_DIRECTORIES,
 } from '../../src/lib/utils'
 import { promises as fs } from 'fs'
@@ -111,6 +112,19 @@ describe('transformSegment', () => {
   })
 })
 
+describe('matchesRoutePrefix', () => {
+  it('matches the prefix itself and nested routes', () => {
+    expect(matchesRoutePrefix('/api', '/api')).toBe(true)
+    expect(matchesRoutePrefix('/api/users', 'api/')).toBe(true)
+    expect(matchesRoutePrefix('/apis', '/api')).toBe(false)
+  })
+
+  it('matches every route without a prefix', () => {
+    expect(matchesRoutePrefix('/feed.xml', undefined)).toBe(true)
+    expect(matchesRoutePrefix('/feed.xml', '/')).toBe(true)
+  })
+})
+
 describe('SKIP_DIRECTORIES', () => {
   it('contains expected directories to skip', () => {
     expect(SKIP_DIRECTORIES.has('node_modules')).toBe(true)
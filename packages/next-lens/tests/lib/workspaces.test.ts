@@ -0,0 +1,169 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { getApiRoutes } from '@/lib/api-routes'
+import { getPageRoutes } from '@/lib/page-routes'
+import { clearScanCache } from '@/lib/scanner'
+import {
+  findOwningPackage,
+  findWorkspace,
+  selectPackages,
+} from '@/lib/workspaces'
+
+async function writeFile(filePath: string, contents: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, contents)
+}
+
+async function writeManifest(
+  directory: string,
+  manifest: Record<string, unknown>,
+) {
+  await writeFile(
+    path.join(directory, 'package.json'),
+    JSON.stringify(manifest, null, 2),
+  )
+}
+
+describe('workspaces', () => {
+  let root: string
+
+  beforeEach(async () => {
+    clearScanCache()
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'next-lens-workspace-'))
+
+    await writeManifest(path.join(root, 'apps/web'), {
+      name: '@acme/web',
+      dependencies: { next: '15.0.0' },
+    })
+    await writeManifest(path.join(root, 'apps/docs'), {
+      name: 'docs',
+      devDependencies: { next: '^14.2.0' },
+    })
+    await writeManifest(path.join(root, 'packages/ui'), {
+      name: '@acme/ui',
+      peerDependencies: { react: '^19.0.0' },
+    })
+
+    await writeFile(
+      path.join(root, 'apps/web/app/api/users/route.ts'),
+      'export function GET() {}\n',
+    )
+    await writeFile(
+      path.join(root, 'apps/web/app/page.tsx'),
+      'export default function Page() {}\n',
+    )
+    await writeFile(
+      path.join(root, 'apps/docs/src/app/api/search/route.ts'),
+      'export function GET() {}\n',
+    )
+    await writeFile(
+      path.join(root, 'apps/docs/src/app/page.tsx'),
+      'export default function Page() {}\n',
+    )
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('expands pnpm-workspace.yaml to the packages that use Next.js', async () => {
+    await writeFile(
+      path.join(root, 'pnpm-workspace.yaml'),
+      "packages:\n  - 'apps/*'\n  - 'packages/*'\n",
+    )
+
+    const workspace = await findWorkspace(path.join(root, 'apps/web'))
+
+    expect(workspace).toStrictEqual({
+      root,
+      source: 'pnpm',
+      packages: [
+        {
+          name: '@acme/web',
+          directory: path.join(root, 'apps/web'),
+          nextVersion: '15.0.0',
+        },
+        {
+          name: 'docs',
+          directory: path.join(root, 'apps/docs'),
+          nextVersion: '^14.2.0',
+        },
+      ],
+    })
+  })
+
+  it('reads the package.json workspaces field and negated globs', async () => {
+    await writeManifest(root, {
+      private: true,
+      workspaces: { packages: ['apps/*', '!apps/docs'] },
+    })
+
+    const workspace = await findWorkspace(root)
+
+    expect(workspace?.source).toBe('package.json')
+    expect(workspace?.packages.map((pkg) => pkg.name)).toStrictEqual([
+      '@acme/web',
+    ])
+  })
+
+  it('falls back to apps/* and packages/* for a turbo.json', async () => {
+    await writeFile(path.join(root, 'turbo.json'), '{}')
+
+    const workspace = await findWorkspace(root)
+
+    expect(workspace?.source).toBe('turbo')
+    expect(workspace?.packages).toHaveLength(2)
+  })
+
+  it('returns null outside a monorepo', async () => {
+    expect(await findWorkspace(path.join(root, 'apps/web'))).toBeNull()
+  })
+
+  it('resolves files and --app values to packages', async () => {
+    await writeFile(path.join(root, 'turbo.json'), '{}')
+    const workspace = (await findWorkspace(root))!
+
+    expect(
+      findOwningPackage(
+        workspace,
+        path.join(root, 'apps/docs/src/app/page.tsx'),
+      )?.name,
+    ).toBe('docs')
+    expect(
+      findOwningPackage(workspace, path.join(root, 'packages/ui/index.ts')),
+    ).toBeNull()
+    expect(
+      selectPackages(workspace, ['web']).map((pkg) => pkg.name),
+    ).toStrictEqual(['@acme/web'])
+    expect(() => selectPackages(workspace, ['admin'])).toThrow(
+      'Unknown app: admin. Available apps: @acme/web, docs',
+    )
+  })
+
+  it('tags routes and pages with their app and filters by app', async () => {
+    await writeFile(path.join(root, 'turbo.json'), '{}')
+
+    const routes = await getApiRoutes(root)
+    expect(
+      routes.map(({ app, path: routePath }) => [app, routePath]),
+    ).toStrictEqual([
+      ['docs', '/api/search'],
+      ['@acme/web', '/api/users'],
+    ])
+
+    const pages = await getPageRoutes(root, { apps: ['docs'] })
+    expect(pages.map(({ app, file }) => [app, file])).toStrictEqual([
+      ['docs', 'apps/docs/src/app/page.tsx'],
+    ])
+  })
+
+  it('rejects --app outside a monorepo', async () => {
+    await expect(
+      getApiRoutes(path.join(root, 'apps/web'), undefined, { apps: ['web'] }),
+    ).rejects.toThrow('is not in a monorepo')
+  })
+})